@@ -0,0 +1,23 @@
+"use client";
+
+import AdminUserMenu from "@/components/admin/AdminUserMenu";
+import AssistantConfigEditor from "@/components/admin/AssistantConfigEditor";
+
+export default function AdminAssistantPage() {
+  return (
+    <main className="flex min-h-screen flex-col bg-slate-950">
+      <header className="flex items-center justify-between gap-6 border-b border-slate-800 bg-slate-900/80 px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Assistant</h1>
+          <p className="text-sm text-slate-400">
+            Set how the chat assistant introduces itself, what it knows, and what it avoids.
+          </p>
+        </div>
+        <AdminUserMenu />
+      </header>
+      <section className="flex-1 overflow-y-auto px-6 py-8">
+        <AssistantConfigEditor />
+      </section>
+    </main>
+  );
+}
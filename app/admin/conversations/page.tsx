@@ -0,0 +1,23 @@
+"use client";
+
+import AdminUserMenu from "@/components/admin/AdminUserMenu";
+import LiveConsole from "@/components/admin/LiveConsole";
+
+export default function AdminConversationsPage() {
+  return (
+    <main className="flex min-h-screen flex-col bg-slate-950">
+      <header className="flex items-center justify-between gap-6 border-b border-slate-800 bg-slate-900/80 px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Conversations</h1>
+          <p className="text-sm text-slate-400">
+            Follow live chats and step in when a customer needs a person.
+          </p>
+        </div>
+        <AdminUserMenu />
+      </header>
+      <section className="flex-1 overflow-y-auto px-6 py-8">
+        <LiveConsole />
+      </section>
+    </main>
+  );
+}
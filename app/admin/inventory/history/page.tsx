@@ -0,0 +1,23 @@
+"use client";
+
+import AdminUserMenu from "@/components/admin/AdminUserMenu";
+import InventoryImportHistory from "@/components/admin/InventoryImportHistory";
+
+export default function AdminInventoryHistoryPage() {
+  return (
+    <main className="flex min-h-screen flex-col bg-slate-950">
+      <header className="flex items-center justify-between gap-6 border-b border-slate-800 bg-slate-900/80 px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Import history</h1>
+          <p className="text-sm text-slate-400">
+            Every upload and feed import, with one-click rollback of the latest change.
+          </p>
+        </div>
+        <AdminUserMenu />
+      </header>
+      <section className="flex-1 overflow-y-auto px-6 py-8">
+        <InventoryImportHistory />
+      </section>
+    </main>
+  );
+}
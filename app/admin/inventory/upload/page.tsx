@@ -1,7 +1,24 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import clsx from "clsx";
+import InventoryColumnMapper from "@/components/admin/InventoryColumnMapper";
+import InventoryImportDiff from "@/components/admin/InventoryImportDiff";
+import { useAdminUser } from "@/components/admin/useAdminUser";
+import {
+  applyInventoryImport,
+  fetchInventoryImportSettings,
+  previewInventoryFile,
+  updateInventoryImportSettings,
+  type InventoryFilePreview
+} from "@/components/admin/inventoryImportApi";
+import {
+  IMPORT_FIELD_LABELS,
+  listMissingRequiredFields,
+  type InventoryColumnMapping
+} from "@/lib/inventory/importFields";
+import type { InventoryImportDiff as ImportDiff } from "@/lib/inventory/importDiff";
 
 interface UploadResponse {
   jobId: string;
@@ -16,31 +33,109 @@ interface JobStatus {
     processed?: number;
     total?: number;
   };
-  result?: {
-    processed: number;
-    total: number;
-    created: number;
-    updated: number;
-    errors: Array<{ row: number; error: string }>;
-    markedSold: number;
-  };
+  result?: ImportResult | DryRunResult;
   failedReason?: string | null;
 }
 
+interface ImportResult {
+  processed: number;
+  total: number;
+  created: number;
+  updated: number;
+  unchanged?: number;
+  errors: Array<{ row: number; error: string }>;
+  markedSold: number;
+}
+
+interface DryRunResult {
+  dryRun: true;
+  total: number;
+  diff: ImportDiff;
+}
+
 export default function InventoryUploadPage() {
+  const { user } = useAdminUser();
   const [dealershipId, setDealershipId] = useState("");
   const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<InventoryFilePreview | null>(null);
+  const [columns, setColumns] = useState<InventoryColumnMapping>({});
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [markSold, setMarkSold] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [jobId, setJobId] = useState<string | null>(null);
   const [totalRows, setTotalRows] = useState<number>(0);
   const [status, setStatus] = useState<JobStatus | null>(null);
   const [initialSkipped, setInitialSkipped] = useState<UploadResponse["skippedRows"]>([]);
+  const [removalLimit, setRemovalLimit] = useState<number | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const processed = status?.result?.processed ?? status?.progress?.processed ?? 0;
-  const progressTotal =
-    status?.result?.total ?? status?.progress?.total ?? totalRows ?? 0;
+  const manageableDealerships = useMemo(
+    () => user?.dealerships.filter((dealership) => dealership.role !== "SALESPERSON") ?? [],
+    [user]
+  );
+
+  useEffect(() => {
+    if (!dealershipId && manageableDealerships.length) {
+      setDealershipId(manageableDealerships[0].id);
+    }
+  }, [dealershipId, manageableDealerships]);
+
+  const canSetRemovalLimit = Boolean(
+    user?.isPlatformAdmin ||
+      user?.dealerships.some(
+        (dealership) => dealership.id === dealershipId && dealership.role === "OWNER"
+      )
+  );
+
+  useEffect(() => {
+    setRemovalLimit(null);
+    if (!dealershipId) return;
+    fetchInventoryImportSettings(dealershipId)
+      .then((settings) => setRemovalLimit(settings.removalLimitPercent))
+      .catch((settingsError) => console.error("Failed to load import settings", settingsError));
+  }, [dealershipId]);
+
+  useEffect(() => {
+    setPreview(null);
+    setColumns({});
+    if (!file || !dealershipId) return;
+
+    let cancelled = false;
+    setIsPreviewing(true);
+    setError(null);
+
+    previewInventoryFile(dealershipId, file)
+      .then((response) => {
+        if (cancelled) return;
+        setPreview(response);
+        setColumns(response.mapping);
+      })
+      .catch((previewError) => {
+        if (cancelled) return;
+        setError(
+          previewError instanceof Error ? previewError.message : "Unable to read this file."
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreviewing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dealershipId, file]);
+
+  const missingFields = useMemo(
+    () => (preview ? listMissingRequiredFields(preview.headers, columns) : []),
+    [columns, preview]
+  );
+
+  const dryRun = status?.result && "dryRun" in status.result ? status.result : null;
+  const importResult = status?.result && !("dryRun" in status.result) ? status.result : null;
+
+  const processed = importResult?.processed ?? status?.progress?.processed ?? 0;
+  const progressTotal = importResult?.total ?? status?.progress?.total ?? totalRows ?? 0;
 
   const completionPercentage = useMemo(() => {
     if (!progressTotal) return 0;
@@ -86,12 +181,19 @@ export default function InventoryUploadPage() {
       setError(null);
 
       if (!file) {
-        setError("Please select a CSV file to upload.");
+        setError("Please select an inventory file to upload.");
         return;
       }
 
       if (!dealershipId) {
-        setError("Dealership ID is required.");
+        setError("Select a dealership to import into.");
+        return;
+      }
+
+      if (missingFields.length) {
+        setError(
+          `Map a column for: ${missingFields.map((field) => IMPORT_FIELD_LABELS[field]).join(", ")}.`
+        );
         return;
       }
 
@@ -99,6 +201,9 @@ export default function InventoryUploadPage() {
       formData.append("file", file);
       formData.append("dealershipId", dealershipId);
       formData.append("markMissingAsSold", String(markSold));
+      if (preview) {
+        formData.append("mapping", JSON.stringify(columns));
+      }
 
       setIsSubmitting(true);
 
@@ -127,11 +232,42 @@ export default function InventoryUploadPage() {
         setIsSubmitting(false);
       }
     },
-    [dealershipId, file, markSold]
+    [columns, dealershipId, file, markSold, missingFields, preview]
   );
 
+  const handleApply = useCallback(async () => {
+    if (!jobId) return;
+    setError(null);
+    setIsApplying(true);
+
+    try {
+      const applied = await applyInventoryImport(jobId);
+      setStatus(null);
+      setTotalRows(applied.totalRows);
+      setJobId(applied.jobId);
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : "Failed to apply import.");
+    } finally {
+      setIsApplying(false);
+    }
+  }, [jobId]);
+
+  const saveRemovalLimit = useCallback(async () => {
+    if (!dealershipId || removalLimit === null) return;
+    setError(null);
+
+    try {
+      const settings = await updateInventoryImportSettings(dealershipId, removalLimit);
+      setRemovalLimit(settings.removalLimitPercent);
+    } catch (settingsError) {
+      setError(
+        settingsError instanceof Error ? settingsError.message : "Failed to save the limit."
+      );
+    }
+  }, [dealershipId, removalLimit]);
+
   const hasCompleted =
-    status?.state === "completed" && status.result && status.result.errors.length === 0;
+    status?.state === "completed" && importResult && importResult.errors.length === 0;
 
   return (
     <main className="mx-auto flex min-h-screen max-w-5xl flex-col gap-10 px-6 py-12">
@@ -141,8 +277,20 @@ export default function InventoryUploadPage() {
         </p>
         <h1 className="text-3xl font-semibold text-white">Bulk Inventory Upload</h1>
         <p className="max-w-2xl text-sm text-slate-400">
-          Import inventory from a CSV file. Existing vehicles will be updated by VIN. You
-          can optionally mark vehicles not present in this upload as sold.
+          Import inventory from a CSV, JSON or XML file, including DMS exports from HomeNet,
+          vAuto and CDK. Existing vehicles will be updated by VIN. You can optionally mark
+          vehicles not present in this upload as sold.
+        </p>
+        <p className="max-w-2xl text-sm text-slate-400">
+          To keep stock current without uploading by hand,{" "}
+          <Link href="/admin/inventory/feeds" className="text-indigo-400 hover:text-indigo-300">
+            set up a scheduled inventory feed
+          </Link>
+          . Past imports can be reviewed and rolled back from the{" "}
+          <Link href="/admin/inventory/history" className="text-indigo-400 hover:text-indigo-300">
+            import history
+          </Link>
+          .
         </p>
       </header>
 
@@ -153,37 +301,42 @@ export default function InventoryUploadPage() {
         >
           <div className="space-y-2">
             <label htmlFor="dealershipId" className="text-sm font-medium text-white">
-              Dealership ID
+              Dealership
             </label>
-            <input
+            <select
               id="dealershipId"
-              type="text"
               value={dealershipId}
               onChange={(event) => setDealershipId(event.target.value)}
-              placeholder="UUID of the dealership"
-              className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+              className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
               required
-            />
+            >
+              {manageableDealerships.map((dealership) => (
+                <option key={dealership.id} value={dealership.id}>
+                  {dealership.name}
+                </option>
+              ))}
+            </select>
             <p className="text-xs text-slate-500">
-              You can find this in the admin dashboard or database.
+              Inventory imports require the manager or owner role.
             </p>
           </div>
 
           <div className="space-y-2">
             <label htmlFor="file" className="text-sm font-medium text-white">
-              Inventory CSV
+              Inventory file
             </label>
             <input
               id="file"
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv,.txt,.json,.xml"
               onChange={(event) => setFile(event.target.files?.[0] ?? null)}
               className="block w-full text-sm text-slate-300 file:mr-4 file:rounded-md file:border-0 file:bg-indigo-500 file:px-4 file:py-2 file:text-sm file:font-semibold file:text-white hover:file:bg-indigo-400"
               required
             />
             <p className="text-xs text-slate-500">
-              Columns: VIN, Stock#, Year, Make, Model, Trim, Condition, Price, Mileage,
-              Color, BodyType, Images
+              {isPreviewing
+                ? "Reading columns…"
+                : "Columns are matched automatically; review the mapping before importing."}
             </p>
           </div>
 
@@ -199,6 +352,36 @@ export default function InventoryUploadPage() {
             </span>
           </label>
 
+          {removalLimit !== null && (
+            <div className="space-y-2 text-xs text-slate-500">
+              <p>
+                You&apos;ll review every change before it&apos;s applied. Imports that would take
+                more than {removalLimit}% of in-stock vehicles off the lot are blocked.
+              </p>
+              {canSetRemovalLimit && (
+                <div className="flex items-center gap-2">
+                  <label htmlFor="removalLimit">Limit (%)</label>
+                  <input
+                    id="removalLimit"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={removalLimit}
+                    onChange={(event) => setRemovalLimit(Number(event.target.value))}
+                    className="w-20 rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-white focus:border-indigo-500 focus:outline-none"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => void saveRemovalLimit()}
+                    className="font-semibold text-indigo-300 transition hover:text-indigo-200"
+                  >
+                    Save
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
               {error}
@@ -208,13 +391,13 @@ export default function InventoryUploadPage() {
  		    <div className="flex items-center gap-3 pt-2">
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || isPreviewing}
               className={clsx(
                 "inline-flex items-center gap-2 rounded-full bg-indigo-500 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-indigo-400",
-                isSubmitting && "cursor-not-allowed opacity-70"
+                (isSubmitting || isPreviewing) && "cursor-not-allowed opacity-70"
               )}
             >
-              {isSubmitting ? "Uploading…" : "Start Import"}
+              {isSubmitting ? "Uploading…" : "Preview Changes"}
             </button>
             <button
               type="button"
@@ -258,19 +441,28 @@ export default function InventoryUploadPage() {
                   {status.failedReason && (
                     <p className="mt-2 text-xs text-red-300">{status.failedReason}</p>
                   )}
-                  {status.result && (
+                  {dryRun && (
+                    <p className="mt-2 text-xs text-slate-400">
+                      Dry run finished; review the changes below.
+                    </p>
+                  )}
+                  {importResult && (
                     <dl className="mt-3 grid grid-cols-2 gap-2 text-xs text-slate-400">
                       <div>
                         <dt className="font-medium text-slate-300">Created</dt>
-                        <dd>{status.result.created}</dd>
+                        <dd>{importResult.created}</dd>
                       </div>
                       <div>
                         <dt className="font-medium text-slate-300">Updated</dt>
-                        <dd>{status.result.updated}</dd>
+                        <dd>{importResult.updated}</dd>
+                      </div>
+                      <div>
+                        <dt className="font-medium text-slate-300">Unchanged</dt>
+                        <dd>{importResult.unchanged ?? 0}</dd>
                       </div>
                       <div>
                         <dt className="font-medium text-slate-300">Marked Sold</dt>
-                        <dd>{status.result.markedSold}</dd>
+                        <dd>{importResult.markedSold}</dd>
                       </div>
                     </dl>
                   )}
@@ -294,11 +486,11 @@ export default function InventoryUploadPage() {
             </div>
           )}
 
-          {status?.result?.errors?.length ? (
+          {importResult?.errors?.length ? (
             <div className="rounded-3xl border border-red-400/30 bg-red-500/10 p-5 shadow-lg shadow-black/20">
               <h3 className="text-sm font-semibold text-red-200">Row Errors</h3>
               <ul className="mt-3 space-y-2 text-xs text-red-100/90 max-h-64 overflow-y-auto pr-2">
-                {status.result.errors.map((row) => (
+                {importResult.errors.map((row) => (
                   <li key={`error-${row.row}`} className="rounded-md bg-red-500/10 p-2">
                     Row {row.row}: {row.error}
                   </li>
@@ -315,6 +507,24 @@ export default function InventoryUploadPage() {
           ) : null}
         </aside>
       </section>
+
+      {dryRun && (
+        <InventoryImportDiff
+          diff={dryRun.diff}
+          isApplying={isApplying}
+          onApply={() => void handleApply()}
+          onDiscard={resetForm}
+        />
+      )}
+
+      {preview && !dryRun && (
+        <InventoryColumnMapper
+          dealershipId={dealershipId}
+          preview={preview}
+          columns={columns}
+          onChange={setColumns}
+        />
+      )}
     </main>
   );
 }
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { loginAdmin } from "@/components/admin/adminApi";
+
+export default function AdminLoginPage() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await loginAdmin(email, password);
+      const next = new URLSearchParams(window.location.search).get("next");
+      window.location.assign(next?.startsWith("/admin") ? next : "/admin");
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : "Unable to sign in.");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-slate-950 px-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-5 rounded-3xl border border-slate-800 bg-slate-900/60 p-8 shadow-xl shadow-black/40"
+      >
+        <header className="space-y-1">
+          <h1 className="text-2xl font-semibold text-white">Sign in</h1>
+          <p className="text-sm text-slate-400">Use your dealership staff account.</p>
+        </header>
+
+        <div className="space-y-2">
+          <label htmlFor="email" className="text-sm font-medium text-white">
+            Email
+          </label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="password" className="text-sm font-medium text-white">
+            Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+            required
+          />
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className={clsx(
+            "w-full rounded-full bg-indigo-500 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-indigo-400",
+            isSubmitting && "cursor-not-allowed opacity-70"
+          )}
+        >
+          {isSubmitting ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+    </main>
+  );
+}
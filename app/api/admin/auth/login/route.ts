@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { hashPassword, verifyPassword } from "@/lib/auth/password";
+import { createAdminSession } from "@/lib/auth/adminSession";
+
+const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1)
+});
+
+let dummyHash: Promise<string> | null = null;
+
+export async function POST(request: Request) {
+  try {
+    const { email, password } = loginSchema.parse(await request.json());
+
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    // Verify against a throwaway hash for unknown emails so timing doesn't reveal accounts.
+    dummyHash ??= hashPassword("not-a-real-password");
+    const valid = await verifyPassword(password, user?.passwordHash ?? (await dummyHash));
+
+    if (!user || !valid) {
+      throw new ApiError(401, "Invalid email or password");
+    }
+
+    await prisma.adminSession.deleteMany({
+      where: { userId: user.id, expiresAt: { lt: new Date() } }
+    });
+    await createAdminSession(user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api-error";
+import { destroyAdminSession } from "@/lib/auth/adminSession";
+
+export async function POST() {
+  try {
+    await destroyAdminSession();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { handleApiError } from "@/lib/api-error";
+import { requireAdminUser, toAdminUserResponse } from "@/lib/auth/adminSession";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await requireAdminUser();
+    const response = toAdminUserResponse(user);
+
+    if (user.isPlatformAdmin) {
+      const dealerships = await prisma.dealership.findMany({
+        select: { id: true, name: true },
+        orderBy: { name: "asc" }
+      });
+      response.dealerships = dealerships.map((dealership) => ({
+        ...dealership,
+        role: "OWNER" as const
+      }));
+    }
+
+    return NextResponse.json({ user: response });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-error";
+import { requireConversationAccess } from "@/lib/auth/adminSession";
+import { CHAT_STREAM_HEADERS } from "@/lib/ai/chatStream";
+import { createConversationEventStream, resolveStreamCursor } from "@/lib/conversations/eventStream";
+import { getConversationStatus } from "@/lib/conversations/handoff";
+import { messageCursorSchema } from "@/lib/conversations/messages";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    sessionId: string;
+  };
+}
+
+const querySchema = z.object({
+  after: messageCursorSchema.optional()
+});
+
+/** Every message on the session as it is written, for the live console. */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    await requireConversationAccess(params.sessionId);
+
+    const url = new URL(request.url);
+    const { after } = querySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const stream = createConversationEventStream({
+      sessionId: params.sessionId,
+      after: resolveStreamCursor(request, after),
+      status: await getConversationStatus(params.sessionId),
+      signal: request.signal
+    });
+
+    return new Response(stream, { headers: CHAT_STREAM_HEADERS });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-error";
+import { requireConversationAccess } from "@/lib/auth/adminSession";
+import { sendAgentMessage } from "@/lib/conversations/handoff";
+import { toPublicMessage } from "@/lib/conversations/messages";
+
+interface RouteParams {
+  params: {
+    sessionId: string;
+  };
+}
+
+const messageSchema = z.object({
+  content: z.string().trim().min(1, "Message cannot be empty").max(2000)
+});
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireConversationAccess(params.sessionId);
+    const { content } = messageSchema.parse(await request.json());
+    const message = await sendAgentMessage(params.sessionId, user, content);
+
+    return NextResponse.json({ message: toPublicMessage(message) }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
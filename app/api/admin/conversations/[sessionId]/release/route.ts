@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api-error";
+import { requireConversationAccess } from "@/lib/auth/adminSession";
+import { releaseConversation } from "@/lib/conversations/handoff";
+
+interface RouteParams {
+  params: {
+    sessionId: string;
+  };
+}
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireConversationAccess(params.sessionId);
+    const session = await releaseConversation(params.sessionId, user);
+
+    return NextResponse.json({
+      aiPaused: session.aiPaused,
+      assignedAgentId: session.assignedAgentId
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireConversationAccess } from "@/lib/auth/adminSession";
+import {
+  listSessionMessages,
+  messageCursorSchema,
+  toPublicMessage
+} from "@/lib/conversations/messages";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    sessionId: string;
+  };
+}
+
+const querySchema = z.object({
+  after: messageCursorSchema.optional()
+});
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    await requireConversationAccess(params.sessionId);
+
+    const url = new URL(request.url);
+    const { after } = querySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const session = await prisma.chatSession.findUnique({
+      where: { id: params.sessionId },
+      select: {
+        id: true,
+        customerName: true,
+        customerEmail: true,
+        customerPhone: true,
+        aiPaused: true,
+        lastMessageAt: true,
+        createdAt: true,
+        assignedAgent: { select: { id: true, name: true } },
+        leads: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { id: true, firstName: true, lastName: true, status: true, leadScore: true }
+        }
+      }
+    });
+
+    if (!session) {
+      throw new ApiError(404, "Conversation not found");
+    }
+
+    const messages = await listSessionMessages(session.id, { after });
+    const { leads, ...conversation } = session;
+
+    return NextResponse.json({
+      conversation: { ...conversation, lead: leads[0] ?? null },
+      messages: messages.map(toPublicMessage)
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
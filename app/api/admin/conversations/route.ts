@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+
+export const dynamic = "force-dynamic";
+
+/** Sessions with a message inside this window count as live. */
+const ACTIVE_WINDOW_MINUTES = 30;
+
+const querySchema = z.object({
+  dealershipId: z.string().uuid(),
+  scope: z.enum(["active", "all"]).default("active"),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const { dealershipId, scope, limit } = querySchema.parse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    await requireDealershipAccess(dealershipId);
+
+    const sessions = await prisma.chatSession.findMany({
+      where: {
+        dealershipId,
+        ...(scope === "active"
+          ? { lastMessageAt: { gte: new Date(Date.now() - ACTIVE_WINDOW_MINUTES * 60_000) } }
+          : {})
+      },
+      orderBy: { lastMessageAt: "desc" },
+      take: limit,
+      select: {
+        id: true,
+        customerName: true,
+        customerEmail: true,
+        aiPaused: true,
+        lastMessageAt: true,
+        createdAt: true,
+        assignedAgent: { select: { id: true, name: true } },
+        messages: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { role: true, content: true, createdAt: true }
+        },
+        leads: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { id: true, firstName: true, lastName: true, status: true, leadScore: true }
+        }
+      }
+    });
+
+    return NextResponse.json({
+      conversations: sessions.map(({ messages, leads, ...session }) => ({
+        ...session,
+        lastMessage: messages[0] ?? null,
+        lead: leads[0] ?? null
+      }))
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-error";
+import { getActorName, requireDealershipAccess } from "@/lib/auth/adminSession";
+import { loadAssistantConfigOverview, restoreAssistantConfig } from "@/lib/assistant/config";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+const restoreSchema = z.object({
+  version: z.number().int().positive()
+});
+
+/** Rolls back by saving a copy of an earlier version as the newest one. */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const { version } = restoreSchema.parse(await request.json());
+
+    await restoreAssistantConfig(params.dealershipId, version, getActorName(user));
+
+    return NextResponse.json(await loadAssistantConfigOverview(params.dealershipId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
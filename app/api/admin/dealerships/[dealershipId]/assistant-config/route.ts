@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { getActorName, requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  assistantConfigSchema,
+  loadAssistantConfigOverview,
+  saveAssistantConfig
+} from "@/lib/assistant/config";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    return NextResponse.json(await loadAssistantConfigOverview(params.dealershipId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const input = assistantConfigSchema.parse(await request.json());
+
+    await saveAssistantConfig(params.dealershipId, input, getActorName(user));
+
+    return NextResponse.json(await loadAssistantConfigOverview(params.dealershipId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  crmIntegrationUpdateSchema,
+  deleteCrmIntegration,
+  updateCrmIntegration
+} from "@/lib/integrations/crm/integrations";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    integrationId: string;
+  };
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const changes = crmIntegrationUpdateSchema.parse(await request.json());
+
+    const integration = await updateCrmIntegration(
+      params.dealershipId,
+      params.integrationId,
+      changes
+    );
+
+    return NextResponse.json({ integration });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    await deleteCrmIntegration(params.dealershipId, params.integrationId);
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  createCrmIntegration,
+  crmIntegrationSchema,
+  listCrmIntegrations
+} from "@/lib/integrations/crm/integrations";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const integrations = await listCrmIntegrations(params.dealershipId);
+
+    return NextResponse.json({ integrations });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const input = crmIntegrationSchema.parse(await request.json());
+
+    const integration = await createCrmIntegration(params.dealershipId, input);
+
+    return NextResponse.json({ integration }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  deleteInventoryFeed,
+  getInventoryFeed,
+  inventoryFeedUpdateSchema,
+  updateInventoryFeed
+} from "@/lib/inventory/feeds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    feedId: string;
+  };
+}
+
+/** The feed with its recent run history. */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const feed = await getInventoryFeed(params.dealershipId, params.feedId);
+
+    return NextResponse.json({ feed });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const changes = inventoryFeedUpdateSchema.parse(await request.json());
+
+    const { feed, scheduled } = await updateInventoryFeed(
+      params.dealershipId,
+      params.feedId,
+      changes
+    );
+
+    return NextResponse.json({ feed, scheduled });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    await deleteInventoryFeed(params.dealershipId, params.feedId);
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
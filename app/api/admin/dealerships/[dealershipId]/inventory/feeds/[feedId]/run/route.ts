@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { assertInventoryFeedInDealership } from "@/lib/inventory/feeds";
+import { enqueueInventoryFeedRun } from "@/lib/queues/inventoryFeedQueue";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    feedId: string;
+  };
+}
+
+/** Pulls the feed now, outside its schedule. */
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    await assertInventoryFeedInDealership(params.dealershipId, params.feedId);
+
+    const job = await enqueueInventoryFeedRun(params.feedId);
+    if (!job) {
+      throw new ApiError(503, "The feed run could not be queued");
+    }
+
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { getActorName, requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  createInventoryFeed,
+  inventoryFeedSchema,
+  listInventoryFeeds
+} from "@/lib/inventory/feeds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const feeds = await listInventoryFeeds(params.dealershipId);
+
+    return NextResponse.json({ feeds });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const input = inventoryFeedSchema.parse(await request.json());
+
+    const { feed, scheduled } = await createInventoryFeed(
+      params.dealershipId,
+      input,
+      getActorName(user)
+    );
+
+    return NextResponse.json({ feed, scheduled }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { getActorName, requireDealershipAccess } from "@/lib/auth/adminSession";
+import { rollbackInventoryImport } from "@/lib/inventory/importHistory";
+
+export const runtime = "nodejs";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    importId: string;
+  };
+}
+
+/** Restores the vehicles the import changed to how they were before it ran. */
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const result = await rollbackInventoryImport(
+      params.dealershipId,
+      params.importId,
+      getActorName(user)
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { getInventoryImport } from "@/lib/inventory/importHistory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    importId: string;
+  };
+}
+
+/** The import with its row errors. */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const { dealershipId: _dealershipId, ...inventoryImport } = await getInventoryImport(
+      params.dealershipId,
+      params.importId
+    );
+
+    return NextResponse.json({ import: inventoryImport });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { listInventoryImports } from "@/lib/inventory/importHistory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+/** Recent inventory imports with their result counts, newest first. */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const imports = await listInventoryImports(params.dealershipId);
+
+    return NextResponse.json({ imports });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
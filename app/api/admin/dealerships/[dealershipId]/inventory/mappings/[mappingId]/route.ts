@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  deleteInventoryMapping,
+  inventoryMappingUpdateSchema,
+  updateInventoryMapping
+} from "@/lib/inventory/importMappings";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    mappingId: string;
+  };
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const changes = inventoryMappingUpdateSchema.parse(await request.json());
+
+    const mapping = await updateInventoryMapping(params.dealershipId, params.mappingId, changes);
+
+    return NextResponse.json({ mapping });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/** Feeds using the mapping fall back to automatic column detection. */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    await deleteInventoryMapping(params.dealershipId, params.mappingId);
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { getActorName, requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  createInventoryMapping,
+  inventoryMappingSchema,
+  listInventoryMappings
+} from "@/lib/inventory/importMappings";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const mappings = await listInventoryMappings(params.dealershipId);
+
+    return NextResponse.json({ mappings });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const input = inventoryMappingSchema.parse(await request.json());
+
+    const mapping = await createInventoryMapping(params.dealershipId, input, getActorName(user));
+
+    return NextResponse.json({ mapping }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
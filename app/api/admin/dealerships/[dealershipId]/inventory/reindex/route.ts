@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { enqueueVehicleIndex } from "@/lib/queues/vehicleIndexQueue";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const job = await enqueueVehicleIndex(params.dealershipId);
+    if (!job) {
+      throw new ApiError(503, "Vehicle indexing could not be queued");
+    }
+
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { inventoryImportSettingsSchema } from "@/lib/inventory/importDiff";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const dealership = await prisma.dealership.findUnique({
+      where: { id: params.dealershipId },
+      select: { inventoryRemovalLimitPercent: true }
+    });
+
+    if (!dealership) {
+      throw new ApiError(404, "Dealership not found");
+    }
+
+    return NextResponse.json({ removalLimitPercent: dealership.inventoryRemovalLimitPercent });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/** Owners only, so the managers running imports can't loosen the limit that guards them. */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.OWNER);
+    const { removalLimitPercent } = inventoryImportSettingsSchema.parse(await request.json());
+
+    await prisma.dealership.update({
+      where: { id: params.dealershipId },
+      data: { inventoryRemovalLimitPercent: removalLimitPercent }
+    });
+
+    return NextResponse.json({ removalLimitPercent });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
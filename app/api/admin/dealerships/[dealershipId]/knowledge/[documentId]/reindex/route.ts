@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { assertKnowledgeDocumentInDealership, reindexKnowledgeDocument } from "@/lib/knowledge";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    documentId: string;
+  };
+}
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    await assertKnowledgeDocumentInDealership(params.dealershipId, params.documentId);
+
+    const document = await reindexKnowledgeDocument(params.documentId);
+    return NextResponse.json({ document }, { status: 202 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  assertKnowledgeDocumentInDealership,
+  knowledgeFaqSchema,
+  updateFaqEntry
+} from "@/lib/knowledge";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+    documentId: string;
+  };
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    await assertKnowledgeDocumentInDealership(params.dealershipId, params.documentId);
+
+    const { question, answer } = knowledgeFaqSchema.parse(await request.json());
+    const document = await updateFaqEntry(params.documentId, question, answer);
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    await assertKnowledgeDocumentInDealership(params.dealershipId, params.documentId);
+
+    await prisma.knowledgeDocument.delete({ where: { id: params.documentId } });
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
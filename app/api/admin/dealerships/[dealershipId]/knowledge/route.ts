@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { DealershipRole, KnowledgeDocumentKind } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { getActorName, requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  createKnowledgeDocument,
+  knowledgeDocumentSelect,
+  knowledgeFaqSchema
+} from "@/lib/knowledge";
+import { extractUploadedText } from "@/lib/knowledge/extract";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+const uploadTitleSchema = z.string().trim().max(200).optional();
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const documents = await prisma.knowledgeDocument.findMany({
+      where: { dealershipId: params.dealershipId },
+      orderBy: [{ kind: "asc" }, { updatedAt: "desc" }],
+      select: { ...knowledgeDocumentSelect, content: true }
+    });
+
+    return NextResponse.json({ documents });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/** Adds an FAQ entry (JSON body) or an uploaded Markdown/PDF file (multipart form). */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const actor = getActorName(user);
+
+    if (request.headers.get("Content-Type")?.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+
+      if (!file || !(file instanceof File)) {
+        throw new ApiError(400, "A Markdown or PDF file is required");
+      }
+
+      const title = uploadTitleSchema.parse(formData.get("title") ?? undefined);
+      const { kind, text } = await extractUploadedText(file);
+
+      const document = await createKnowledgeDocument({
+        dealershipId: params.dealershipId,
+        kind,
+        title: title || file.name.replace(/\.[^.]+$/, ""),
+        content: text,
+        fileName: file.name,
+        actor
+      });
+
+      return NextResponse.json({ document }, { status: 201 });
+    }
+
+    const { question, answer } = knowledgeFaqSchema.parse(await request.json());
+    const document = await createKnowledgeDocument({
+      dealershipId: params.dealershipId,
+      kind: KnowledgeDocumentKind.FAQ,
+      title: question,
+      content: answer,
+      actor
+    });
+
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { DealershipRole, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import {
+  DEFAULT_LEAD_SCORING_WEIGHTS,
+  leadScoringWeightsSchema,
+  resolveLeadScoringWeights
+} from "@/lib/leads/scoring";
+import { enqueueLeadRescore } from "@/lib/queues/leadRescoreQueue";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId);
+
+    const dealership = await prisma.dealership.findUnique({
+      where: { id: params.dealershipId },
+      select: { leadScoringWeights: true }
+    });
+
+    if (!dealership) {
+      throw new ApiError(404, "Dealership not found");
+    }
+
+    return NextResponse.json({
+      defaults: DEFAULT_LEAD_SCORING_WEIGHTS,
+      overrides: dealership.leadScoringWeights ?? {},
+      weights: resolveLeadScoringWeights(dealership.leadScoringWeights)
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+    const overrides = leadScoringWeightsSchema.parse(await request.json());
+
+    await prisma.dealership.update({
+      where: { id: params.dealershipId },
+      data: { leadScoringWeights: overrides as Prisma.InputJsonValue }
+    });
+
+    // Existing leads are rescored in the worker; a dealership can have too many to do inline.
+    const job = await enqueueLeadRescore(params.dealershipId);
+
+    return NextResponse.json({
+      overrides,
+      weights: resolveLeadScoringWeights(overrides),
+      rescoreJobId: job?.id ?? null
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { MIN_PASSWORD_LENGTH, hashPassword } from "@/lib/auth/password";
+
+interface RouteParams {
+  params: {
+    dealershipId: string;
+  };
+}
+
+const memberSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).max(100).optional(),
+  password: z.string().min(MIN_PASSWORD_LENGTH).optional(),
+  role: z.nativeEnum(DealershipRole)
+});
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.MANAGER);
+
+    const memberships = await prisma.dealershipMembership.findMany({
+      where: { dealershipId: params.dealershipId },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: "asc" }
+    });
+
+    return NextResponse.json({
+      members: memberships.map((membership) => ({
+        ...membership.user,
+        role: membership.role,
+        since: membership.createdAt
+      }))
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    await requireDealershipAccess(params.dealershipId, DealershipRole.OWNER);
+    const { email, name, password, role } = memberSchema.parse(await request.json());
+
+    let user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user) {
+      if (!name || !password) {
+        throw new ApiError(422, "Name and password are required to create a new user");
+      }
+      user = await prisma.user.create({
+        data: { email, name, passwordHash: await hashPassword(password) }
+      });
+    }
+
+    const membership = await prisma.dealershipMembership.upsert({
+      where: {
+        userId_dealershipId: { userId: user.id, dealershipId: params.dealershipId }
+      },
+      create: { userId: user.id, dealershipId: params.dealershipId, role },
+      update: { role }
+    });
+
+    return NextResponse.json(
+      {
+        member: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: membership.role,
+          since: membership.createdAt
+        }
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
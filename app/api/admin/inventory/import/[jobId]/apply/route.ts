@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import {
+  assertDealershipAccess,
+  getActorName,
+  hasDealershipAccess,
+  requireAdminUser
+} from "@/lib/auth/adminSession";
+import { describeBlockedImport, type InventoryImportDiff } from "@/lib/inventory/importDiff";
+import {
+  enqueueInventoryImport,
+  inventoryImportQueue,
+  type InventoryImportJobData
+} from "@/lib/queues/inventoryImportQueue";
+
+interface RouteParams {
+  params: {
+    jobId: string;
+  };
+}
+
+/**
+ * Confirms a finished dry run and queues the real import with the same rows.
+ * The import's job id is derived from the dry run's, so concurrent requests
+ * queue it once; the dry run is then removed so it cannot be applied again.
+ */
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireAdminUser();
+    const job = await inventoryImportQueue.getJob(params.jobId);
+    const data = job?.data as InventoryImportJobData | undefined;
+
+    if (!job || !data || !hasDealershipAccess(user, data.dealershipId)) {
+      throw new ApiError(404, "Job not found");
+    }
+
+    assertDealershipAccess(user, data.dealershipId, DealershipRole.MANAGER);
+
+    if (!data.dryRun) {
+      throw new ApiError(409, "This import has already been applied");
+    }
+
+    if ((await job.getState()) !== "completed") {
+      throw new ApiError(409, "The dry run has not finished yet");
+    }
+
+    const diff = (job.returnvalue as { diff?: InventoryImportDiff } | null)?.diff;
+    if (diff?.blocked) {
+      throw new ApiError(422, describeBlockedImport(diff));
+    }
+
+    const applied = await enqueueInventoryImport(
+      { ...data, dryRun: false, requestedBy: getActorName(user) },
+      `apply-${job.id}`
+    );
+    // A concurrent request may have removed it already; the job id above
+    // keeps that request from queueing the import a second time.
+    await job.remove().catch(() => undefined);
+
+    return NextResponse.json({ jobId: applied.id, totalRows: data.totalRows }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return handleApiError(error);
+    }
+
+    return NextResponse.json(
+      {
+        error: "Internal Server Error",
+        message: "Failed to apply inventory import",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
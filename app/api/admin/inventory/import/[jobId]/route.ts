@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
-import { inventoryImportQueue } from "@/lib/queues/inventoryImportQueue";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { hasDealershipAccess, requireAdminUser } from "@/lib/auth/adminSession";
+import { inventoryImportQueue, type InventoryImportJobData } from "@/lib/queues/inventoryImportQueue";
 
 interface RouteParams {
   params: {
@@ -9,9 +11,10 @@ interface RouteParams {
 
 export async function GET(_request: Request, { params }: RouteParams) {
   try {
+    const user = await requireAdminUser();
     const job = await inventoryImportQueue.getJob(params.jobId);
 
-    if (!job) {
+    if (!job || !hasDealershipAccess(user, (job.data as InventoryImportJobData).dealershipId)) {
       return NextResponse.json(
         { error: "Not Found", message: "Job not found" },
         { status: 404 }
@@ -35,6 +38,10 @@ export async function GET(_request: Request, { params }: RouteParams) {
       timestamp: job.finishedOn ?? job.processedOn ?? job.timestamp
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return handleApiError(error);
+    }
+
     return NextResponse.json(
       {
         error: "Internal Server Error",
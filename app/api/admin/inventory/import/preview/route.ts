@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { DealershipRole } from "@prisma/client";
+import { z } from "zod";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { assertDealershipAccess, requireAdminUser } from "@/lib/auth/adminSession";
+import {
+  InventoryFileError,
+  detectInventoryFileFormat,
+  mapInventoryRecords,
+  parseInventoryFile
+} from "@/lib/inventory/importFile";
+import { detectInventoryLayout, suggestColumnMapping } from "@/lib/inventory/importFields";
+import { resolveColumnMapping } from "@/lib/inventory/importMappings";
+
+export const runtime = "nodejs";
+
+const PREVIEW_ROW_COUNT = 5;
+
+const previewSchema = z.object({
+  dealershipId: z.string().uuid(),
+  mappingId: z.string().uuid().optional(),
+  mapping: z.string().max(20_000).optional()
+});
+
+/**
+ * Reads an inventory file without importing it and returns its columns, the
+ * first few records and how they map onto vehicle fields, so the column
+ * mapping can be reviewed before the upload.
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await requireAdminUser();
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!file || !(file instanceof File)) {
+      throw new ApiError(400, "An inventory file is required");
+    }
+
+    const { dealershipId, mappingId, mapping } = previewSchema.parse({
+      dealershipId: formData.get("dealershipId"),
+      mappingId: formData.get("mappingId") || undefined,
+      mapping: formData.get("mapping") || undefined
+    });
+    assertDealershipAccess(user, dealershipId, DealershipRole.MANAGER);
+
+    const content = Buffer.from(await file.arrayBuffer()).toString("utf-8");
+    const parsed = parseInventoryFile(content, detectInventoryFileFormat(content, file.name));
+    const columns =
+      (await resolveColumnMapping(dealershipId, { mappingId, columns: mapping })) ??
+      suggestColumnMapping(parsed.headers);
+    const sample = { ...parsed, records: parsed.records.slice(0, PREVIEW_ROW_COUNT) };
+    const layout = detectInventoryLayout(parsed.headers);
+
+    return NextResponse.json({
+      format: parsed.format,
+      headers: parsed.headers,
+      totalRecords: parsed.records.length,
+      records: sample.records,
+      layout: layout ? { id: layout.id, name: layout.name } : null,
+      mapping: columns,
+      rows: mapInventoryRecords(sample, columns).rows
+    });
+  } catch (error) {
+    if (error instanceof InventoryFileError) {
+      return NextResponse.json(
+        { error: error.title, message: error.message, ...error.body },
+        { status: 400 }
+      );
+    }
+    return handleApiError(error);
+  }
+}
@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server";
-import { parse } from "csv-parse/sync";
-import { z } from "zod";
+import { DealershipRole } from "@prisma/client";
+import { z, ZodError } from "zod";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { assertDealershipAccess, requireAdminUser } from "@/lib/auth/adminSession";
 import { enqueueInventoryImport } from "@/lib/queues/inventoryImportQueue";
+import { InventoryFileError, readInventoryFile } from "@/lib/inventory/importFile";
+import { resolveColumnMapping } from "@/lib/inventory/importMappings";
 
 export const runtime = "nodejs";
 
@@ -10,39 +14,33 @@ const uploadSchema = z.object({
   markMissingAsSold: z
     .enum(["true", "false"])
     .transform((value) => value === "true")
-    .optional()
+    .optional(),
+  mappingId: z.string().uuid().optional(),
+  mapping: z.string().max(20_000).optional()
 });
 
-const REQUIRED_COLUMNS = [
-  "VIN",
-  "Stock#",
-  "Year",
-  "Make",
-  "Model",
-  "Trim",
-  "Condition",
-  "Price",
-  "Mileage",
-  "Color",
-  "BodyType",
-  "Images"
-];
-
+/**
+ * Reads an inventory file and queues a dry run of the import. Nothing is
+ * written until the dry run's diff is confirmed via `[jobId]/apply`.
+ */
 export async function POST(request: Request) {
   try {
+    const user = await requireAdminUser();
     const formData = await request.formData();
     const file = formData.get("file");
 
     if (!file || !(file instanceof File)) {
       return NextResponse.json(
-        { error: "Bad Request", message: "CSV file is required" },
+        { error: "Bad Request", message: "An inventory file is required" },
         { status: 400 }
       );
     }
 
     const parsedMeta = uploadSchema.safeParse({
       dealershipId: formData.get("dealershipId"),
-      markMissingAsSold: formData.get("markMissingAsSold") ?? "false"
+      markMissingAsSold: formData.get("markMissingAsSold") ?? "false",
+      mappingId: formData.get("mappingId") || undefined,
+      mapping: formData.get("mapping") || undefined
     });
 
     if (!parsedMeta.success) {
@@ -59,112 +57,43 @@ export async function POST(request: Request) {
       );
     }
 
-    const arrayBuffer = await file.arrayBuffer();
-    const csvContent = Buffer.from(arrayBuffer).toString("utf-8");
-
-    let rawRecords: Record<string, string>[];
-
-    try {
-      rawRecords = parse(csvContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true
-      });
-    } catch (error) {
-      return NextResponse.json(
-        {
-          error: "Invalid CSV",
-          message: "Unable to parse CSV file",
-          details: error instanceof Error ? error.message : String(error)
-        },
-        { status: 400 }
-      );
-    }
-
-    if (!rawRecords.length) {
-      return NextResponse.json(
-        { error: "Bad Request", message: "CSV file contains no rows" },
-        { status: 400 }
-      );
-    }
-
-    const headerColumns = Object.keys(rawRecords[0] ?? {});
-    const missingColumns = REQUIRED_COLUMNS.filter(
-      (column) => !headerColumns.some((header) => normalizeColumn(header) === column)
-    );
-
-    if (missingColumns.length) {
-      return NextResponse.json(
-        {
-          error: "Invalid CSV",
-          message: `Missing required columns: ${missingColumns.join(", ")}`
-        },
-        { status: 400 }
-      );
-    }
-
-    const { dealershipId, markMissingAsSold } = parsedMeta.data;
-    const rows = [];
-    const skipped = [];
-
-    for (let index = 0; index < rawRecords.length; index += 1) {
-      const row = rawRecords[index];
+    assertDealershipAccess(user, parsedMeta.data.dealershipId, DealershipRole.MANAGER);
 
-      const vin = rowMatch(row, "VIN");
-      if (!vin) {
-        skipped.push({ row: index + 1, reason: "Missing VIN" });
-        continue;
-      }
+    const { dealershipId, markMissingAsSold, mappingId, mapping } = parsedMeta.data;
+    const columns = await resolveColumnMapping(dealershipId, { mappingId, columns: mapping });
 
-      const yearValue = Number(rowMatch(row, "Year"));
-      const priceValue = Number(rowMatch(row, "Price"));
-      const mileageValue = Number(rowMatch(row, "Mileage"));
-
-      const images = (rowMatch(row, "Images") ?? "")
-        .split(",")
-        .map((url) => url.trim())
-        .filter(Boolean);
-
-      rows.push({
-        vin,
-        stockNumber: rowMatch(row, "Stock#") ?? undefined,
-        year: Number.isFinite(yearValue) ? yearValue : undefined,
-        make: rowMatch(row, "Make") ?? undefined,
-        model: rowMatch(row, "Model") ?? undefined,
-        trim: rowMatch(row, "Trim") ?? undefined,
-        condition: rowMatch(row, "Condition") ?? undefined,
-        price: Number.isFinite(priceValue) ? priceValue : undefined,
-        mileage: Number.isFinite(mileageValue) ? mileageValue : undefined,
-        color: rowMatch(row, "Color") ?? undefined,
-        bodyType: rowMatch(row, "BodyType") ?? undefined,
-        images
-      });
-    }
-
-    if (!rows.length) {
-      return NextResponse.json(
-        {
-          error: "Bad Request",
-          message: "All rows were invalid. Please review the CSV format.",
-          skipped
-        },
-        { status: 400 }
-      );
-    }
+    const arrayBuffer = await file.arrayBuffer();
+    const { rows, skipped } = readInventoryFile(Buffer.from(arrayBuffer).toString("utf-8"), {
+      fileName: file.name,
+      mapping: columns
+    });
 
     const job = await enqueueInventoryImport({
       dealershipId,
       rows,
       markMissingAsSold: markMissingAsSold ?? false,
-      totalRows: rows.length
+      totalRows: rows.length,
+      dryRun: true
     });
 
     return NextResponse.json({
       jobId: job.id,
       totalRows: rows.length,
-      skippedRows: skipped
+      skippedRows: skipped,
+      dryRun: true
     });
   } catch (error) {
+    if (error instanceof ApiError || error instanceof ZodError) {
+      return handleApiError(error);
+    }
+
+    if (error instanceof InventoryFileError) {
+      return NextResponse.json(
+        { error: error.title, message: error.message, ...error.body },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         error: "Internal Server Error",
@@ -175,16 +104,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
-function normalizeColumn(column: string) {
-  return column.trim().toUpperCase().replace(/\s+/g, "");
-}
-
-function rowMatch(row: Record<string, string>, target: string) {
-  const normalizedTarget = normalizeColumn(target);
-  const entry = Object.entries(row).find(
-    ([key]) => normalizeColumn(key) === normalizedTarget
-  );
-  return entry?.[1]?.trim() ?? null;
-}
-
@@ -0,0 +1,65 @@
+import { LeadIntent, LeadPreferredContact, LeadStatus } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { GET } from "./route";
+
+vi.mock("@/lib/prisma", () => ({ prisma: { lead: { findUnique: vi.fn() } } }));
+vi.mock("@/lib/auth/adminSession", () => ({ requireLeadAccess: vi.fn() }));
+
+const chatLead = {
+  id: "lead-1",
+  dealershipId: "dealership-1",
+  sessionId: "session-1",
+  firstName: "Jamie",
+  lastName: "Rivera",
+  email: "jamie@example.com",
+  phone: "+15555550100",
+  preferredContact: LeadPreferredContact.PHONE,
+  vehicleInterest: null,
+  intent: LeadIntent.INQUIRY,
+  status: LeadStatus.NEW,
+  leadScore: 0,
+  pushedToCRM: false,
+  conversationTranscript: [],
+  createdAt: new Date("2026-01-05T15:00:00.000Z"),
+  updatedAt: new Date("2026-01-05T15:00:00.000Z"),
+  dealership: {
+    id: "dealership-1",
+    name: "Riverside Motors",
+    phone: "+15555550199",
+    email: "sales@riverside.example",
+    address: ""
+  },
+  appointments: [],
+  session: { vehicleViews: [] }
+};
+
+describe("GET /api/admin/leads/[leadId]/adf", () => {
+  beforeEach(() => {
+    vi.mocked(prisma.lead.findUnique).mockReset();
+  });
+
+  it("exports a chat lead that never viewed or booked a vehicle", async () => {
+    vi.mocked(prisma.lead.findUnique).mockResolvedValue(chatLead as never);
+
+    const response = await GET(new Request("http://localhost"), {
+      params: { leadId: "lead-1" }
+    });
+    const xml = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("application/xml");
+    expect(xml).toContain('<vehicle interest="buy" status="used">');
+    expect(xml).toContain("<make>Unknown</make>");
+  });
+
+  it("returns 404 for a missing lead", async () => {
+    vi.mocked(prisma.lead.findUnique).mockResolvedValue(null);
+
+    const response = await GET(new Request("http://localhost"), {
+      params: { leadId: "missing" }
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
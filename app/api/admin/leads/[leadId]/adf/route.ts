@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireLeadAccess } from "@/lib/auth/adminSession";
+import { loadAdfLead, serializeLeadToAdf } from "@/lib/adf/serializer";
+import { AdfValidationError } from "@/lib/adf/schema";
+
+interface RouteParams {
+  params: {
+    leadId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireLeadAccess(params.leadId);
+    const lead = await loadAdfLead(params.leadId);
+
+    if (!lead) {
+      throw new ApiError(404, "Lead not found");
+    }
+
+    let xml: string;
+    try {
+      xml = serializeLeadToAdf(lead);
+    } catch (error) {
+      if (error instanceof AdfValidationError) {
+        throw new ApiError(422, "Lead cannot be exported as valid ADF", error.issues);
+      }
+      throw error;
+    }
+
+    return new NextResponse(xml, {
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        "Content-Disposition": `attachment; filename="lead-${lead.id}.adf.xml"`
+      }
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
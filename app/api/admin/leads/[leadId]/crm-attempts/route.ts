@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireLeadAccess } from "@/lib/auth/adminSession";
+
+interface RouteParams {
+  params: {
+    leadId: string;
+  };
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireLeadAccess(params.leadId);
+
+    const lead = await prisma.lead.findUnique({
+      where: { id: params.leadId },
+      select: {
+        id: true,
+        pushedToCRM: true,
+        crmPushAttempts: {
+          orderBy: { createdAt: "desc" },
+          take: 50
+        }
+      }
+    });
+
+    if (!lead) {
+      throw new ApiError(404, "Lead not found");
+    }
+
+    return NextResponse.json({
+      leadId: lead.id,
+      pushedToCRM: lead.pushedToCRM,
+      attempts: lead.crmPushAttempts
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { LeadStatus } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { getActorName, requireLeadAccess } from "@/lib/auth/adminSession";
+import { computeLeadScore, loadLeadScoreSignals } from "@/lib/leads/scoring";
+import { LEAD_STATUS_TRANSITIONS } from "@/lib/leads/status";
+import { updateLead } from "@/lib/leads/workflow";
+
+interface RouteParams {
+  params: {
+    leadId: string;
+  };
+}
+
+const updateSchema = z.object({
+  status: z.nativeEnum(LeadStatus).optional(),
+  note: z.string().trim().max(2000).optional()
+});
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    await requireLeadAccess(params.leadId);
+
+    const lead = await prisma.lead.findUnique({
+      where: { id: params.leadId },
+      include: {
+        appointments: {
+          include: { vehicle: true },
+          orderBy: { scheduledDatetime: "desc" }
+        },
+        session: {
+          select: {
+            id: true,
+            createdAt: true,
+            vehicleViews: {
+              include: { vehicle: true },
+              orderBy: { createdAt: "desc" }
+            }
+          }
+        },
+        auditEntries: {
+          orderBy: { createdAt: "desc" }
+        },
+        crmPushAttempts: {
+          orderBy: { createdAt: "desc" },
+          take: 10
+        }
+      }
+    });
+
+    if (!lead) {
+      throw new ApiError(404, "Lead not found");
+    }
+
+    const scoring = await loadLeadScoreSignals(lead.id);
+
+    return NextResponse.json({
+      lead,
+      allowedStatuses: LEAD_STATUS_TRANSITIONS[lead.status],
+      score: scoring ? computeLeadScore(scoring.signals, scoring.weights) : null
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const user = await requireLeadAccess(params.leadId);
+    const payload = updateSchema.parse(await request.json());
+    const lead = await updateLead(params.leadId, { ...payload, actor: getActorName(user) });
+
+    return NextResponse.json({
+      lead,
+      allowedStatuses: LEAD_STATUS_TRANSITIONS[lead.status]
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
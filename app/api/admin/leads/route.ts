@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { LeadStatus, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { handleApiError } from "@/lib/api-error";
+import { requireDealershipAccess } from "@/lib/auth/adminSession";
+import { MAX_LEAD_SCORE } from "@/lib/leads/scoring";
+
+export const dynamic = "force-dynamic";
+
+const SORT_FIELDS = {
+  score: "leadScore",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+const listSchema = z
+  .object({
+    dealershipId: z.string().uuid(),
+    status: z
+      .string()
+      .transform((value) => value.split(",").map((entry) => entry.trim().toUpperCase()))
+      .pipe(z.array(z.nativeEnum(LeadStatus)).min(1))
+      .optional(),
+    q: z.string().trim().max(100).optional(),
+    minScore: z.coerce.number().int().min(0).max(MAX_LEAD_SCORE).optional(),
+    maxScore: z.coerce.number().int().min(0).max(MAX_LEAD_SCORE).optional(),
+    createdFrom: z.coerce.date().optional(),
+    createdTo: z.coerce.date().optional(),
+    sort: z.enum(["score", "createdAt", "updatedAt"]).default("score"),
+    order: z.enum(["asc", "desc"]).default("desc"),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    offset: z.coerce.number().int().min(0).default(0)
+  })
+  .refine(
+    (values) =>
+      values.minScore === undefined ||
+      values.maxScore === undefined ||
+      values.minScore <= values.maxScore,
+    {
+      message: "minScore must be less than or equal to maxScore",
+      path: ["minScore"]
+    }
+  );
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const params = listSchema.parse(Object.fromEntries(url.searchParams.entries()));
+    await requireDealershipAccess(params.dealershipId);
+
+    const where: Prisma.LeadWhereInput = {
+      dealershipId: params.dealershipId,
+      ...(params.status ? { status: { in: params.status } } : {}),
+      ...(params.minScore !== undefined || params.maxScore !== undefined
+        ? { leadScore: { gte: params.minScore, lte: params.maxScore } }
+        : {}),
+      ...(params.createdFrom || params.createdTo
+        ? { createdAt: { gte: params.createdFrom, lte: params.createdTo } }
+        : {}),
+      ...(params.q
+        ? {
+            OR: [
+              { firstName: { contains: params.q, mode: "insensitive" } },
+              { lastName: { contains: params.q, mode: "insensitive" } },
+              { email: { contains: params.q, mode: "insensitive" } },
+              { phone: { contains: params.q } }
+            ]
+          }
+        : {})
+    };
+
+    const [leads, total] = await Promise.all([
+      prisma.lead.findMany({
+        where,
+        orderBy: [{ [SORT_FIELDS[params.sort]]: params.order }, { createdAt: "desc" }],
+        take: params.limit,
+        skip: params.offset,
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+          phone: true,
+          intent: true,
+          status: true,
+          leadScore: true,
+          pushedToCRM: true,
+          createdAt: true,
+          updatedAt: true
+        }
+      }),
+      prisma.lead.count({ where })
+    ]);
+
+    return NextResponse.json({
+      leads,
+      pagination: {
+        total,
+        limit: params.limit,
+        offset: params.offset
+      }
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
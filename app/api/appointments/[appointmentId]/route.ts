@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireChatSession } from "@/lib/auth/chatSession";
+import { cancelAppointment, rescheduleAppointment } from "@/lib/appointments/scheduling";
+
+interface RouteParams {
+  params: {
+    appointmentId: string;
+  };
+}
+
+const rescheduleSchema = z
+  .object({
+    sessionToken: z.string().min(1, "sessionToken is required"),
+    scheduledDatetime: z.coerce.date().optional(),
+    durationMinutes: z.coerce.number().int().min(15).max(480).optional(),
+    vehicleId: z.string().uuid().nullable().optional(),
+    notes: z.string().trim().max(1000).nullable().optional()
+  })
+  .refine(
+    (values) =>
+      values.scheduledDatetime !== undefined ||
+      values.durationMinutes !== undefined ||
+      values.vehicleId !== undefined ||
+      values.notes !== undefined,
+    { message: "No changes provided" }
+  );
+
+const cancelSchema = z.object({
+  sessionToken: z.string().min(1, "sessionToken is required")
+});
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const body = await request.json();
+    const { sessionToken, ...changes } = rescheduleSchema.parse(body);
+
+    await requireSessionAppointment(sessionToken, params.appointmentId);
+    const appointment = await rescheduleAppointment(params.appointmentId, changes);
+
+    return NextResponse.json({ appointment });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const body = await request.json();
+    const { sessionToken } = cancelSchema.parse(body);
+
+    await requireSessionAppointment(sessionToken, params.appointmentId);
+    const appointment = await cancelAppointment(params.appointmentId);
+
+    return NextResponse.json({ appointment });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+async function requireSessionAppointment(sessionToken: string, appointmentId: string) {
+  const session = await requireChatSession(sessionToken);
+
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: { lead: { select: { sessionId: true } } }
+  });
+
+  if (!appointment || appointment.lead.sessionId !== session.id) {
+    throw new ApiError(404, "Appointment not found");
+  }
+
+  return appointment;
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { AppointmentType } from "@prisma/client";
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-error";
+import {
+  DEFAULT_DURATION_MINUTES,
+  MAX_SEARCH_DAYS,
+  findAvailableSlots
+} from "@/lib/appointments/scheduling";
+
+export const dynamic = "force-dynamic";
+
+const availabilitySchema = z.object({
+  dealershipId: z.string().uuid(),
+  appointmentType: z.nativeEnum(AppointmentType).default(AppointmentType.TEST_DRIVE),
+  durationMinutes: z.coerce.number().int().min(15).max(480).optional(),
+  vehicleId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  days: z.coerce.number().int().min(1).max(MAX_SEARCH_DAYS).default(7),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const params = availabilitySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const { timeZone, slots } = await findAvailableSlots({
+      dealershipId: params.dealershipId,
+      vehicleId: params.vehicleId,
+      durationMinutes: params.durationMinutes ?? DEFAULT_DURATION_MINUTES[params.appointmentType],
+      from: params.from,
+      days: params.days,
+      limit: params.limit
+    });
+
+    return NextResponse.json({
+      timeZone,
+      slots: slots.map((slot) => ({
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString()
+      }))
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
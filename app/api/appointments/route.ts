@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { AppointmentType } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { requireChatSession } from "@/lib/auth/chatSession";
+import { bookAppointment } from "@/lib/appointments/scheduling";
+
+const createSchema = z.object({
+  sessionToken: z.string().min(1, "sessionToken is required"),
+  appointmentType: z.nativeEnum(AppointmentType).default(AppointmentType.TEST_DRIVE),
+  scheduledDatetime: z.coerce.date(),
+  durationMinutes: z.coerce.number().int().min(15).max(480).optional(),
+  vehicleId: z.string().uuid().optional(),
+  notes: z.string().trim().max(1000).optional()
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const input = createSchema.parse(body);
+
+    const session = await requireChatSession(input.sessionToken);
+
+    const lead = await prisma.lead.findFirst({
+      where: { sessionId: session.id },
+      orderBy: { createdAt: "desc" }
+    });
+
+    if (!lead) {
+      throw new ApiError(
+        422,
+        "Please share your name, phone number and email before booking an appointment"
+      );
+    }
+
+    const appointment = await bookAppointment({
+      dealershipId: session.dealershipId,
+      leadId: lead.id,
+      vehicleId: input.vehicleId ?? null,
+      appointmentType: input.appointmentType,
+      scheduledDatetime: input.scheduledDatetime,
+      durationMinutes: input.durationMinutes,
+      notes: input.notes ?? null
+    });
+
+    return NextResponse.json({ appointment }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-error";
+import { requireChatSession } from "@/lib/auth/chatSession";
+import { CHAT_STREAM_HEADERS } from "@/lib/ai/chatStream";
+import { createConversationEventStream, resolveStreamCursor } from "@/lib/conversations/eventStream";
+import { getConversationStatus } from "@/lib/conversations/handoff";
+import { messageCursorSchema, PUSHED_MESSAGE_ROLES } from "@/lib/conversations/messages";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  sessionToken: z.string().min(1, "sessionToken is required"),
+  after: messageCursorSchema.optional()
+});
+
+/** Live agent replies and notices for the widget, replayed from `Last-Event-ID` on reconnect. */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const { sessionToken, after } = querySchema.parse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    const session = await requireChatSession(sessionToken);
+
+    const stream = createConversationEventStream({
+      sessionId: session.id,
+      after: resolveStreamCursor(request, after),
+      roles: PUSHED_MESSAGE_ROLES,
+      status: await getConversationStatus(session.id),
+      signal: request.signal
+    });
+
+    return new Response(stream, { headers: CHAT_STREAM_HEADERS });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
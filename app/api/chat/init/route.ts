@@ -2,8 +2,8 @@ import { NextResponse } from "next/server";
 import { ZodError, z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { handleApiError } from "@/lib/api-error";
-import { env } from "@/lib/env";
-import jwt from "jsonwebtoken";
+import { signSessionToken } from "@/lib/auth/chatSession";
+import { getAssistantConfig } from "@/lib/assistant/config";
 
 const requestSchema = z.object({
   dealershipId: z.string().uuid()
@@ -36,16 +36,12 @@ export async function POST(request: Request) {
       }
     });
 
-    const signedToken = jwt.sign(
-      {
-        sessionId: session.id,
-        dealershipId: session.dealershipId
-      },
-      env.JWT_SECRET,
-      { expiresIn: "24h" }
-    );
+    const signedToken = signSessionToken({
+      sessionId: session.id,
+      dealershipId: session.dealershipId
+    });
 
-    const greeting = `Hi there! Welcome to ${dealership.name}. I'm here to help with any vehicles or offers you're interested in. How can I assist you today?`;
+    const { greeting } = await getAssistantConfig(dealership.id, dealership.name);
 
     return NextResponse.json(
       {
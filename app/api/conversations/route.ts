@@ -18,20 +18,6 @@ const requestSchema = z.object({
   messages: z.array(messageSchema).optional()
 });
 
-export async function GET() {
-  const sessions = await prisma.chatSession.findMany({
-    orderBy: { createdAt: "desc" },
-    include: {
-      messages: {
-        orderBy: { createdAt: "asc" }
-      }
-    },
-    take: 10
-  });
-
-  return NextResponse.json({ conversations: sessions });
-}
-
 export async function POST(request: Request) {
   const payload = await request.json();
   const { dealershipId, metadata, sessionToken, messages = [] } = requestSchema.parse(
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiError, handleApiError } from "@/lib/api-error";
+import { getVehicleById, toVehicleDetail } from "@/lib/inventory/details";
+
+interface RouteParams {
+  params: {
+    vehicleId: string;
+  };
+}
+
+const querySchema = z.object({
+  dealershipId: z.string().uuid().optional()
+});
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    if (!z.string().uuid().safeParse(params.vehicleId).success) {
+      throw new ApiError(404, "Vehicle not found");
+    }
+
+    const url = new URL(request.url);
+    const { dealershipId } = querySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const vehicle = await getVehicleById(params.vehicleId, dealershipId);
+    return NextResponse.json({ vehicle: toVehicleDetail(vehicle) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api-error";
+import { getInventoryFacets } from "@/lib/inventory/facets";
+import { vehicleFilterSchema } from "@/lib/inventory/search";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const filters = vehicleFilterSchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const facets = await getInventoryFacets(filters);
+    return NextResponse.json(facets);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-error";
+import { getVehicleByStockNumber, toVehicleDetail } from "@/lib/inventory/details";
+
+interface RouteParams {
+  params: {
+    stockNumber: string;
+  };
+}
+
+const querySchema = z.object({
+  dealershipId: z.string().uuid()
+});
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const url = new URL(request.url);
+    const { dealershipId } = querySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const vehicle = await getVehicleByStockNumber(dealershipId, params.stockNumber);
+    return NextResponse.json({ vehicle: toVehicleDetail(vehicle) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { handleApiError } from "@/lib/api-error";
+import { getVehicleByVin, toVehicleDetail } from "@/lib/inventory/details";
+
+interface RouteParams {
+  params: {
+    vin: string;
+  };
+}
+
+const querySchema = z.object({
+  dealershipId: z.string().uuid().optional()
+});
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const url = new URL(request.url);
+    const { dealershipId } = querySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const vehicle = await getVehicleByVin(params.vin, dealershipId);
+    return NextResponse.json({ vehicle: toVehicleDetail(vehicle) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
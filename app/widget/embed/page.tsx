@@ -12,9 +12,9 @@ interface EmbedPageProps {
 }
 
 export default function WidgetEmbedPage({ searchParams }: EmbedPageProps) {
-  const dealershipId = searchParams?.dealershipId ?? "demo-dealer";
+  const dealershipId = searchParams?.dealershipId;
   const dealershipName =
-    searchParams?.name?.trim() || `Dealer ${dealershipId.slice(0, 6)}`;
+    searchParams?.name?.trim() || `Dealer ${(dealershipId ?? "demo-dealer").slice(0, 6)}`;
   const positionParam =
     searchParams?.position === "bottom-left" ? "bottom-left" : "bottom-right";
 
@@ -4,15 +4,35 @@ import Link from "next/link";
 import { useMemo } from "react";
 
 const sections = [
+  {
+    title: "Leads",
+    description: "Follow up on captured leads and track them through the sales workflow.",
+    href: "/admin/leads"
+  },
   {
     title: "Conversations",
     description: "Monitor live chats and review historical transcripts.",
-    href: "#conversations"
+    href: "/admin/conversations"
+  },
+  {
+    title: "Assistant",
+    description: "Configure the AI persona, greeting, guardrails, and model settings.",
+    href: "/admin/assistant"
+  },
+  {
+    title: "Knowledge base",
+    description: "Teach the assistant your FAQs, policies, warranties, and financing terms.",
+    href: "/admin/knowledge"
+  },
+  {
+    title: "Inventory feeds",
+    description: "Pull inventory on a schedule from your DMS export over HTTP or SFTP.",
+    href: "/admin/inventory/feeds"
   },
   {
-    title: "Agents",
-    description: "Configure AI behaviors, routing rules, and availability.",
-    href: "#agents"
+    title: "Import history",
+    description: "Review past inventory imports and roll back one that went wrong.",
+    href: "/admin/inventory/history"
   },
   {
     title: "Integrations",
@@ -55,7 +75,7 @@ export default function AdminDashboard() {
           <article
             key={section.title}
             className="group flex flex-col justify-between rounded-2xl border border-slate-800 bg-slate-950/50 p-6 transition hover:border-indigo-500/60 hover:bg-slate-950/80"
-            id={section.href.slice(1)}
+            id={section.href.startsWith("#") ? section.href.slice(1) : undefined}
           >
             <header>
               <h2 className="text-xl font-semibold text-white">
@@ -0,0 +1,28 @@
+"use client";
+
+import { logoutAdmin } from "./adminApi";
+import { useAdminUser } from "./useAdminUser";
+
+export default function AdminUserMenu() {
+  const { user } = useAdminUser();
+
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <div className="text-right">
+        <p className="font-medium text-white">{user.name}</p>
+        <p className="text-xs text-slate-500">
+          {user.isPlatformAdmin ? "Platform admin" : user.email}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={() => void logoutAdmin()}
+        className="rounded-full border border-slate-700 px-3 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-slate-500 hover:text-white"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
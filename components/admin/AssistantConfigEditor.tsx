@@ -0,0 +1,392 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import clsx from "clsx";
+import {
+  ASSISTANT_MODELS,
+  ASSISTANT_TONES,
+  ASSISTANT_TONE_LABELS,
+  MAX_ASSISTANT_TEMPERATURE,
+  type AssistantModel
+} from "@/lib/assistant/options";
+import { useAdminUser } from "./useAdminUser";
+import {
+  fetchAssistantConfig,
+  restoreAssistantConfig,
+  saveAssistantConfig,
+  type AssistantConfigFields,
+  type AssistantConfigOverview
+} from "./assistantConfigApi";
+
+const DEALERSHIP_STORAGE_KEY = "dealerchat:admin:dealershipId";
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+export default function AssistantConfigEditor() {
+  const { user } = useAdminUser();
+  const [dealershipId, setDealershipId] = useState("");
+  const [overview, setOverview] = useState<AssistantConfigOverview | null>(null);
+  const [form, setForm] = useState<AssistantConfigFields | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const manageableDealerships = useMemo(
+    () => user?.dealerships.filter((dealership) => dealership.role !== "SALESPERSON") ?? [],
+    [user]
+  );
+
+  useEffect(() => {
+    if (!manageableDealerships.length) return;
+    const stored = window.localStorage.getItem(DEALERSHIP_STORAGE_KEY);
+    setDealershipId(
+      manageableDealerships.some((dealership) => dealership.id === stored)
+        ? (stored as string)
+        : manageableDealerships[0].id
+    );
+  }, [manageableDealerships]);
+
+  const applyOverview = useCallback((next: AssistantConfigOverview) => {
+    const { version: _version, ...fields } = next.config;
+    setOverview(next);
+    setForm(fields);
+  }, []);
+
+  useEffect(() => {
+    if (!dealershipId) return;
+
+    setOverview(null);
+    setForm(null);
+    setError(null);
+    setNotice(null);
+
+    fetchAssistantConfig(dealershipId)
+      .then(applyOverview)
+      .catch((loadError) => {
+        setError(
+          loadError instanceof Error ? loadError.message : "Failed to load assistant settings."
+        );
+      });
+  }, [dealershipId, applyOverview]);
+
+  const updateDealershipId = (value: string) => {
+    setDealershipId(value);
+    window.localStorage.setItem(DEALERSHIP_STORAGE_KEY, value);
+  };
+
+  const updateField = <K extends keyof AssistantConfigFields>(
+    key: K,
+    value: AssistantConfigFields[K]
+  ) => {
+    setForm((current) => (current ? { ...current, [key]: value } : current));
+  };
+
+  const runSave = async (action: () => Promise<AssistantConfigOverview>, success: string) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      applyOverview(await action());
+      setNotice(success);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save assistant settings.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+
+    await runSave(
+      () =>
+        saveAssistantConfig(dealershipId, {
+          ...form,
+          faqFacts: form.faqFacts.filter((fact) => fact.question.trim() && fact.answer.trim())
+        }),
+      "Saved a new version. New chats pick it up immediately."
+    );
+  };
+
+  // Remount the free-text list fields whenever a different saved version is loaded.
+  const formKey = `${dealershipId}-${overview?.config.version ?? "default"}`;
+
+  if (user && !manageableDealerships.length) {
+    return (
+      <p className="rounded-3xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+        Assistant settings can be changed by dealership owners and managers.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,0.8fr)]">
+      <form
+        onSubmit={handleSubmit}
+        className="space-y-5 rounded-3xl border border-slate-800 bg-slate-900/60 p-6"
+      >
+        <select
+          value={dealershipId}
+          onChange={(event) => updateDealershipId(event.target.value)}
+          className={inputClassName}
+        >
+          {manageableDealerships.map((dealership) => (
+            <option key={dealership.id} value={dealership.id}>
+              {dealership.name}
+            </option>
+          ))}
+        </select>
+
+        {!form ? (
+          <p className="text-sm text-slate-400">{error ?? "Loading assistant settings…"}</p>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="space-y-1 text-xs text-slate-400">
+                <span>Persona name</span>
+                <input
+                  value={form.personaName}
+                  onChange={(event) => updateField("personaName", event.target.value)}
+                  maxLength={60}
+                  required
+                  className={inputClassName}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-slate-400">
+                <span>Tone</span>
+                <select
+                  value={form.tone}
+                  onChange={(event) =>
+                    updateField("tone", event.target.value as AssistantConfigFields["tone"])
+                  }
+                  className={inputClassName}
+                >
+                  {ASSISTANT_TONES.map((tone) => (
+                    <option key={tone} value={tone}>
+                      {ASSISTANT_TONE_LABELS[tone]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-xs text-slate-400">
+                <span>Model</span>
+                <select
+                  value={form.model}
+                  onChange={(event) => updateField("model", event.target.value as AssistantModel)}
+                  className={inputClassName}
+                >
+                  {ASSISTANT_MODELS.map((model) => (
+                    <option key={model} value={model}>
+                      {model}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-xs text-slate-400">
+                <span>Temperature ({form.temperature.toFixed(1)})</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_ASSISTANT_TEMPERATURE}
+                  step={0.1}
+                  value={form.temperature}
+                  onChange={(event) => updateField("temperature", Number(event.target.value))}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+            </div>
+
+            <label className="block space-y-1 text-xs text-slate-400">
+              <span>Greeting</span>
+              <textarea
+                value={form.greeting}
+                onChange={(event) => updateField("greeting", event.target.value)}
+                rows={3}
+                maxLength={500}
+                required
+                className={inputClassName}
+              />
+            </label>
+
+            <ListField
+              key={`disclaimers-${formKey}`}
+              label="Disclaimers"
+              hint="One per line. The assistant repeats these word for word when relevant."
+              values={form.disclaimers}
+              onChange={(values) => updateField("disclaimers", values)}
+            />
+            <ListField
+              key={`topics-${formKey}`}
+              label="Topics to avoid"
+              hint="One per line, e.g. competitor pricing or legal advice."
+              values={form.topicsToAvoid}
+              onChange={(values) => updateField("topicsToAvoid", values)}
+            />
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-400">FAQ facts</span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateField("faqFacts", [...form.faqFacts, { question: "", answer: "" }])
+                  }
+                  className="text-xs font-semibold text-indigo-300 transition hover:text-indigo-200"
+                >
+                  + Add fact
+                </button>
+              </div>
+              {form.faqFacts.map((fact, index) => (
+                <div key={index} className="grid gap-2 rounded-lg bg-slate-950/60 p-3">
+                  <input
+                    value={fact.question}
+                    onChange={(event) =>
+                      updateField(
+                        "faqFacts",
+                        form.faqFacts.map((entry, position) =>
+                          position === index ? { ...entry, question: event.target.value } : entry
+                        )
+                      )
+                    }
+                    placeholder="Question, e.g. Do you offer loaner cars?"
+                    className={inputClassName}
+                  />
+                  <textarea
+                    value={fact.answer}
+                    onChange={(event) =>
+                      updateField(
+                        "faqFacts",
+                        form.faqFacts.map((entry, position) =>
+                          position === index ? { ...entry, answer: event.target.value } : entry
+                        )
+                      )
+                    }
+                    rows={2}
+                    placeholder="Answer"
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateField(
+                        "faqFacts",
+                        form.faqFacts.filter((_, position) => position !== index)
+                      )
+                    }
+                    className="justify-self-end text-xs text-slate-500 transition hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {error && (
+              <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+                {error}
+              </div>
+            )}
+            {notice && <p className="text-sm text-emerald-300">{notice}</p>}
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+            >
+              {isSaving ? "Saving…" : "Save new version"}
+            </button>
+          </>
+        )}
+      </form>
+
+      <aside className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/50 p-6">
+        <h2 className="text-sm font-semibold text-white">Version history</h2>
+        {!overview?.versions.length ? (
+          <p className="text-sm text-slate-400">
+            {overview ? "Using the default settings. Saving creates version 1." : "Loading…"}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {overview.versions.map((version) => {
+              const isCurrent = version.version === overview.config.version;
+              return (
+                <li
+                  key={version.version}
+                  className={clsx(
+                    "flex items-start justify-between gap-3 rounded-lg px-3 py-2 text-sm",
+                    isCurrent ? "bg-indigo-500/10" : "bg-slate-950/60"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold text-white">
+                      v{version.version}
+                      {isCurrent && <span className="ml-2 text-xs text-indigo-300">current</span>}
+                    </p>
+                    <p className="truncate text-xs text-slate-400">
+                      {version.personaName} · {ASSISTANT_TONE_LABELS[version.tone]} ·{" "}
+                      {version.model}
+                    </p>
+                    <p className="truncate text-xs text-slate-500">
+                      {new Date(version.createdAt).toLocaleString()} · {version.createdBy}
+                      {version.restoredFrom ? ` · restored v${version.restoredFrom}` : ""}
+                    </p>
+                  </div>
+                  {!isCurrent && (
+                    <button
+                      type="button"
+                      disabled={isSaving}
+                      onClick={() =>
+                        runSave(
+                          () => restoreAssistantConfig(dealershipId, version.version),
+                          `Restored version ${version.version}.`
+                        )
+                      }
+                      className="shrink-0 text-xs font-semibold text-indigo-300 transition hover:text-indigo-200 disabled:opacity-60"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+interface ListFieldProps {
+  label: string;
+  hint: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+function ListField({ label, hint, values, onChange }: ListFieldProps) {
+  const [text, setText] = useState(() => values.join("\n"));
+
+  return (
+    <label className="block space-y-1 text-xs text-slate-400">
+      <span>{label}</span>
+      <textarea
+        value={text}
+        onChange={(event) => {
+          setText(event.target.value);
+          onChange(
+            event.target.value
+              .split("\n")
+              .map((line) => line.trim())
+              .filter(Boolean)
+          );
+        }}
+        rows={3}
+        className={inputClassName}
+      />
+      <span className="block text-[11px] text-slate-500">{hint}</span>
+    </label>
+  );
+}
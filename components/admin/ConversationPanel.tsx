@@ -0,0 +1,228 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type FormEvent } from "react";
+import clsx from "clsx";
+import { toMessageCursor } from "@/lib/conversations/liveEvents";
+import {
+  fetchConversation,
+  releaseConversation,
+  sendAgentMessage,
+  subscribeToConversation,
+  takeOverConversation,
+  type ConversationDetailResponse,
+  type ConversationMessage
+} from "./conversationsApi";
+
+interface ConversationPanelProps {
+  sessionId: string;
+  currentUserId: string;
+  onUpdated?: () => void;
+}
+
+export default function ConversationPanel({
+  sessionId,
+  currentUserId,
+  onUpdated
+}: ConversationPanelProps) {
+  const [conversation, setConversation] = useState<
+    ConversationDetailResponse["conversation"] | null
+  >(null);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<string | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const appendMessages = useCallback((incoming: ConversationMessage[]) => {
+    if (!incoming.length) return;
+    cursorRef.current = toMessageCursor(incoming[incoming.length - 1]);
+    setMessages((current) => {
+      const known = new Set(current.map((message) => message.id));
+      const additions = incoming.filter((message) => !known.has(message.id));
+      return additions.length ? [...current, ...additions] : current;
+    });
+  }, []);
+
+  const loadConversation = useCallback(async () => {
+    try {
+      const response = await fetchConversation(sessionId, cursorRef.current);
+      setConversation(response.conversation);
+      appendMessages(response.messages);
+      return true;
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load conversation.");
+      return false;
+    }
+  }, [sessionId, appendMessages]);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    cursorRef.current = null;
+    setConversation(null);
+    setMessages([]);
+    setDraft("");
+    setError(null);
+
+    void loadConversation().then((loaded) => {
+      if (!loaded || cancelled) return;
+      // With no messages yet, replay from the start so nothing written meanwhile is missed.
+      const after = cursorRef.current ?? new Date(0).toISOString();
+      unsubscribe = subscribeToConversation(sessionId, after, {
+        onMessage: (message) => appendMessages([message]),
+        onStatus: () => void loadConversation(),
+        onDisconnect: () => void loadConversation()
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [sessionId, loadConversation, appendMessages]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: "smooth" });
+  }, [messages.length]);
+
+  const runAction = async (action: () => Promise<unknown>, fallbackError: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await action();
+      await loadConversation();
+      onUpdated?.();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallbackError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSend = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const content = draft.trim();
+    if (!content) return;
+
+    await runAction(async () => {
+      await sendAgentMessage(sessionId, content);
+      setDraft("");
+    }, "Failed to send message.");
+  };
+
+  if (!conversation) {
+    return (
+      <div className="rounded-3xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+        {error ?? "Loading conversation…"}
+      </div>
+    );
+  }
+
+  const isMine = conversation.aiPaused && conversation.assignedAgent?.id === currentUserId;
+  const heldByOther = conversation.aiPaused && !isMine;
+
+  return (
+    <div className="flex h-[70vh] flex-col rounded-3xl border border-slate-800 bg-slate-900/60">
+      <div className="flex items-start justify-between gap-4 border-b border-slate-800 px-6 py-4">
+        <div className="min-w-0">
+          <p className="truncate text-lg font-semibold text-white">
+            {conversation.lead
+              ? `${conversation.lead.firstName} ${conversation.lead.lastName}`
+              : (conversation.customerName ?? "Anonymous visitor")}
+          </p>
+          <p className="truncate text-xs text-slate-400">
+            {[conversation.customerEmail, conversation.customerPhone].filter(Boolean).join(" · ") ||
+              `Started ${new Date(conversation.createdAt).toLocaleString()}`}
+          </p>
+        </div>
+        {isMine ? (
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => runAction(() => releaseConversation(sessionId), "Failed to hand back.")}
+            className="shrink-0 rounded-full border border-slate-700 px-4 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-slate-500 hover:text-white disabled:opacity-60"
+          >
+            Hand back to assistant
+          </button>
+        ) : (
+          <button
+            type="button"
+            disabled={isSaving || heldByOther}
+            onClick={() => runAction(() => takeOverConversation(sessionId), "Failed to take over.")}
+            className="shrink-0 rounded-full bg-indigo-500 px-4 py-1.5 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+          >
+            {heldByOther
+              ? `Handled by ${conversation.assignedAgent?.name ?? "another agent"}`
+              : "Take over"}
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="flex-1 space-y-3 overflow-y-auto px-6 py-4">
+        {messages.map((message) => (
+          <TranscriptMessage key={message.id} message={message} />
+        ))}
+      </div>
+
+      {error && (
+        <div className="mx-6 mb-3 rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-3 border-t border-slate-800 px-6 py-4">
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          disabled={!isMine || isSaving}
+          placeholder={isMine ? "Reply to the customer…" : "Take over to reply"}
+          className="flex-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-60"
+        />
+        <button
+          type="submit"
+          disabled={!isMine || isSaving || !draft.trim()}
+          className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function TranscriptMessage({ message }: { message: ConversationMessage }) {
+  if (message.role === "SYSTEM") {
+    return <p className="text-center text-xs text-slate-500">{message.content}</p>;
+  }
+
+  const isCustomer = message.role === "USER";
+
+  return (
+    <div className={clsx("flex flex-col gap-1", isCustomer ? "items-start" : "items-end")}>
+      <span className="text-[11px] uppercase tracking-wide text-slate-500">
+        {speakerLabel(message)} · {new Date(message.createdAt).toLocaleTimeString()}
+      </span>
+      <p
+        className={clsx(
+          "max-w-[80%] whitespace-pre-wrap rounded-2xl px-4 py-2 text-sm",
+          isCustomer
+            ? "bg-slate-800 text-slate-100"
+            : message.role === "AGENT"
+              ? "bg-emerald-600/80 text-white"
+              : "bg-indigo-500/80 text-white"
+        )}
+      >
+        {message.content}
+      </p>
+    </div>
+  );
+}
+
+function speakerLabel(message: ConversationMessage) {
+  if (message.role === "USER") return "Customer";
+  if (message.role === "AGENT") return message.authorName ?? "Agent";
+  return "Assistant";
+}
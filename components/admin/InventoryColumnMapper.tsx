@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import {
+  IMPORT_FIELD_LABELS,
+  INVENTORY_FILE_LAYOUTS,
+  INVENTORY_IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  findColumn,
+  suggestColumnMapping,
+  type InventoryColumnMapping,
+  type InventoryImportField
+} from "@/lib/inventory/importFields";
+import {
+  createInventoryMapping,
+  deleteInventoryMapping,
+  fetchInventoryMappings,
+  updateInventoryMapping,
+  type InventoryFilePreview,
+  type InventoryMappingSummary
+} from "./inventoryImportApi";
+
+const SAMPLE_VALUE_COUNT = 3;
+
+const selectClassName =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 text-xs text-white focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+interface InventoryColumnMapperProps {
+  dealershipId: string;
+  preview: InventoryFilePreview;
+  columns: InventoryColumnMapping;
+  onChange: (columns: InventoryColumnMapping) => void;
+}
+
+/**
+ * Lets staff check which column of an uploaded file feeds each vehicle field,
+ * with sample values from the first records, and save the result by name for
+ * the next upload or a scheduled feed.
+ */
+export default function InventoryColumnMapper({
+  dealershipId,
+  preview,
+  columns,
+  onChange
+}: InventoryColumnMapperProps) {
+  const [mappings, setMappings] = useState<InventoryMappingSummary[]>([]);
+  const [savedId, setSavedId] = useState("");
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMappings([]);
+    setSavedId("");
+    if (!dealershipId) return;
+
+    fetchInventoryMappings(dealershipId)
+      .then((response) => setMappings(response.mappings))
+      .catch((loadError) =>
+        setError(loadError instanceof Error ? loadError.message : "Failed to load mappings.")
+      );
+  }, [dealershipId]);
+
+  const resolved = Object.fromEntries(
+    INVENTORY_IMPORT_FIELDS.map((field) => [field, findColumn(preview.headers, columns[field])])
+  ) as InventoryColumnMapping;
+
+  const updateField = (field: InventoryImportField, column: string) => {
+    const next = { ...columns };
+    if (column) {
+      next[field] = column;
+    } else {
+      delete next[field];
+    }
+    onChange(next);
+  };
+
+  const applyPreset = (value: string) => {
+    setNotice(null);
+    setError(null);
+
+    if (value === "auto") {
+      setSavedId("");
+      onChange(suggestColumnMapping(preview.headers));
+      return;
+    }
+
+    const saved = mappings.find((mapping) => mapping.id === value);
+    if (saved) {
+      setSavedId(saved.id);
+      setName(saved.name);
+      onChange(saved.columns);
+      return;
+    }
+
+    const layout = INVENTORY_FILE_LAYOUTS.find((candidate) => candidate.id === value);
+    if (layout) {
+      setSavedId("");
+      onChange(
+        Object.fromEntries(
+          Object.entries(layout.columns).filter(([, column]) =>
+            findColumn(preview.headers, column)
+          )
+        )
+      );
+    }
+  };
+
+  const saveMapping = async () => {
+    setIsSaving(true);
+    setNotice(null);
+    setError(null);
+
+    try {
+      const existing = mappings.find((mapping) => mapping.name === name.trim());
+      const { mapping } = existing
+        ? await updateInventoryMapping(dealershipId, existing.id, columns)
+        : await createInventoryMapping(dealershipId, name.trim(), columns);
+      setMappings((current) =>
+        [...current.filter((entry) => entry.id !== mapping.id), mapping].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setSavedId(mapping.id);
+      setNotice(`Saved the mapping "${mapping.name}".`);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save mapping.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeMapping = async () => {
+    const saved = mappings.find((mapping) => mapping.id === savedId);
+    if (!saved || !window.confirm(`Delete the saved mapping "${saved.name}"?`)) return;
+
+    try {
+      await deleteInventoryMapping(dealershipId, saved.id);
+      setMappings((current) => current.filter((mapping) => mapping.id !== saved.id));
+      setSavedId("");
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : "Failed to delete mapping.");
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-black/40">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Column mapping</h2>
+          <p className="text-sm text-slate-400">
+            {preview.totalRecords.toLocaleString()} vehicles in this {preview.format.toUpperCase()}{" "}
+            file.{" "}
+            {preview.layout
+              ? `Columns match the ${preview.layout.name} layout.`
+              : "Columns were matched by name; check them below."}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={savedId}
+            onChange={(event) => applyPreset(event.target.value)}
+            className={clsx(selectClassName, "w-56")}
+          >
+            <option value="" disabled>
+              Apply a mapping…
+            </option>
+            <option value="auto">Detect from headers</option>
+            <optgroup label="Export layouts">
+              {INVENTORY_FILE_LAYOUTS.map((layout) => (
+                <option key={layout.id} value={layout.id}>
+                  {layout.name}
+                </option>
+              ))}
+            </optgroup>
+            {mappings.length > 0 && (
+              <optgroup label="Saved mappings">
+                {mappings.map((mapping) => (
+                  <option key={mapping.id} value={mapping.id}>
+                    {mapping.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {savedId && (
+            <button
+              type="button"
+              onClick={() => void removeMapping()}
+              className="text-xs font-semibold text-red-300 transition hover:text-red-200"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="py-2 pr-3 font-medium">Field</th>
+              <th className="py-2 pr-3 font-medium">Column in file</th>
+              <th className="py-2 font-medium">Sample values</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {INVENTORY_IMPORT_FIELDS.map((field) => {
+              const required = REQUIRED_IMPORT_FIELDS.includes(field);
+              const column = resolved[field];
+              const samples = column
+                ? preview.records
+                    .map((record) => record[column])
+                    .filter(Boolean)
+                    .slice(0, SAMPLE_VALUE_COUNT)
+                : [];
+
+              return (
+                <tr key={field}>
+                  <td className="py-2 pr-3 text-slate-200">
+                    {IMPORT_FIELD_LABELS[field]}
+                    {required && <span className="ml-1 text-red-300">*</span>}
+                  </td>
+                  <td className="w-56 py-2 pr-3">
+                    <select
+                      value={column ?? ""}
+                      onChange={(event) => updateField(field, event.target.value)}
+                      className={clsx(
+                        selectClassName,
+                        required && !column && "border-red-400/60"
+                      )}
+                    >
+                      <option value="">Not imported</option>
+                      {preview.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="max-w-xs truncate py-2 text-slate-400">
+                    {samples.length ? samples.join(" · ") : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Save as, e.g. DMS nightly export"
+          maxLength={120}
+          className="w-64 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+        />
+        <button
+          type="button"
+          disabled={isSaving || !name.trim() || !dealershipId}
+          onClick={() => void saveMapping()}
+          className="rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {mappings.some((mapping) => mapping.name === name.trim())
+            ? "Update saved mapping"
+            : "Save mapping"}
+        </button>
+        {notice && <span className="text-xs text-emerald-300">{notice}</span>}
+        {error && <span className="text-xs text-red-300">{error}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import Link from "next/link";
+import clsx from "clsx";
+import type { InventoryFeedRunStatus, InventoryFeedSource } from "@prisma/client";
+import { useAdminUser } from "./useAdminUser";
+import { fetchInventoryMappings, type InventoryMappingSummary } from "./inventoryImportApi";
+import {
+  createInventoryFeed,
+  deleteInventoryFeed,
+  fetchInventoryFeed,
+  fetchInventoryFeeds,
+  runInventoryFeed,
+  updateInventoryFeed,
+  type InventoryFeedInput,
+  type InventoryFeedRunSummary,
+  type InventoryFeedSummary
+} from "./inventoryFeedsApi";
+
+const DEALERSHIP_STORAGE_KEY = "dealerchat:admin:dealershipId";
+/** Poll while a feed run is still fetching or importing. */
+const RUNNING_REFRESH_INTERVAL_MS = 4000;
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const STATUS_STYLES: Record<InventoryFeedRunStatus, string> = {
+  RUNNING: "bg-amber-500/20 text-amber-200",
+  SUCCEEDED: "bg-emerald-500/20 text-emerald-200",
+  FAILED: "bg-red-500/20 text-red-200"
+};
+
+interface SettingField {
+  key: string;
+  label: string;
+  secret?: boolean;
+  multiline?: boolean;
+  required?: boolean;
+}
+
+const SOURCE_FIELDS: Record<InventoryFeedSource, SettingField[]> = {
+  HTTP: [
+    { key: "url", label: "Feed URL (https://…/inventory.csv)", required: true },
+    { key: "username", label: "Username (optional)" },
+    { key: "password", label: "Password (optional)", secret: true }
+  ],
+  SFTP: [
+    { key: "host", label: "Host", required: true },
+    { key: "port", label: "Port (default 22)" },
+    { key: "username", label: "Username", required: true },
+    { key: "password", label: "Password", secret: true },
+    { key: "privateKey", label: "Private key (instead of a password)", multiline: true },
+    { key: "path", label: "Remote file path, e.g. /exports/inventory.csv", required: true }
+  ]
+};
+
+const EMPTY_FORM: InventoryFeedInput = {
+  name: "",
+  source: "HTTP",
+  settings: {},
+  mappingId: null,
+  schedule: "0 */4 * * *",
+  markMissingAsSold: false,
+  enabled: true,
+  alertEmail: null,
+  shrinkAlertPercent: 20
+};
+
+export default function InventoryFeedManager() {
+  const { user } = useAdminUser();
+  const [dealershipId, setDealershipId] = useState("");
+  const [feeds, setFeeds] = useState<InventoryFeedSummary[] | null>(null);
+  const [mappings, setMappings] = useState<InventoryMappingSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<InventoryFeedInput>(EMPTY_FORM);
+  const [history, setHistory] = useState<{ feedId: string; runs: InventoryFeedRunSummary[] } | null>(
+    null
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const manageableDealerships = useMemo(
+    () => user?.dealerships.filter((dealership) => dealership.role !== "SALESPERSON") ?? [],
+    [user]
+  );
+
+  useEffect(() => {
+    if (!manageableDealerships.length) return;
+    const stored = window.localStorage.getItem(DEALERSHIP_STORAGE_KEY);
+    setDealershipId(
+      manageableDealerships.some((dealership) => dealership.id === stored)
+        ? (stored as string)
+        : manageableDealerships[0].id
+    );
+  }, [manageableDealerships]);
+
+  const loadFeeds = useCallback(async () => {
+    if (!dealershipId) return;
+    try {
+      const response = await fetchInventoryFeeds(dealershipId);
+      setFeeds(response.feeds);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load inventory feeds.");
+    }
+  }, [dealershipId]);
+
+  useEffect(() => {
+    setFeeds(null);
+    setHistory(null);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    void loadFeeds();
+  }, [loadFeeds]);
+
+  useEffect(() => {
+    setMappings([]);
+    if (!dealershipId) return;
+    fetchInventoryMappings(dealershipId)
+      .then((response) => setMappings(response.mappings))
+      .catch((loadError) =>
+        setError(loadError instanceof Error ? loadError.message : "Failed to load column mappings.")
+      );
+  }, [dealershipId]);
+
+  const hasRunning = feeds?.some((feed) => feed.runs[0]?.status === "RUNNING") ?? false;
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(loadFeeds, RUNNING_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRunning, loadFeeds]);
+
+  const updateDealershipId = (value: string) => {
+    setDealershipId(value);
+    window.localStorage.setItem(DEALERSHIP_STORAGE_KEY, value);
+  };
+
+  const runAction = async (action: () => Promise<unknown>, fallbackError: string) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await action();
+      await loadFeeds();
+      return true;
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallbackError);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const updateSetting = (key: string, value: string) => {
+    setForm((current) => ({ ...current, settings: { ...current.settings, [key]: value } }));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const input = { ...form, settings: compactSettings(form.settings) };
+
+    const saved = await runAction(async () => {
+      const response = editingId
+        ? await updateInventoryFeed(dealershipId, editingId, input)
+        : await createInventoryFeed(dealershipId, input);
+      if (!response.scheduled) {
+        throw new Error("The feed was saved but could not be scheduled. Save it again to retry.");
+      }
+    }, "Failed to save inventory feed.");
+    if (saved) resetForm();
+  };
+
+  const startEditing = (feed: InventoryFeedSummary) => {
+    setEditingId(feed.id);
+    setForm({
+      name: feed.name,
+      source: feed.source,
+      settings: Object.fromEntries(
+        Object.entries(feed.settings).map(([key, value]) => [key, String(value ?? "")])
+      ),
+      mappingId: feed.mappingId,
+      schedule: feed.schedule,
+      markMissingAsSold: feed.markMissingAsSold,
+      enabled: feed.enabled,
+      alertEmail: feed.alertEmail,
+      shrinkAlertPercent: feed.shrinkAlertPercent
+    });
+  };
+
+  const toggleHistory = async (feedId: string) => {
+    if (history?.feedId === feedId) {
+      setHistory(null);
+      return;
+    }
+
+    try {
+      const { feed } = await fetchInventoryFeed(dealershipId, feedId);
+      setHistory({ feedId, runs: feed.runs });
+    } catch (historyError) {
+      setError(historyError instanceof Error ? historyError.message : "Failed to load run history.");
+    }
+  };
+
+  if (user && !manageableDealerships.length) {
+    return (
+      <p className="rounded-3xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+        Inventory feeds can be managed by dealership owners and managers.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,0.9fr)_minmax(0,1.2fr)]">
+      <section className="space-y-4">
+        <select
+          value={dealershipId}
+          onChange={(event) => updateDealershipId(event.target.value)}
+          className={inputClassName}
+        >
+          {manageableDealerships.map((dealership) => (
+            <option key={dealership.id} value={dealership.id}>
+              {dealership.name}
+            </option>
+          ))}
+        </select>
+
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-5"
+        >
+          <h2 className="text-sm font-semibold text-white">
+            {editingId ? "Edit feed" : "Add a feed"}
+          </h2>
+          <input
+            value={form.name}
+            onChange={(event) => setForm({ ...form, name: event.target.value })}
+            placeholder="Name, e.g. DMS nightly export"
+            maxLength={120}
+            required
+            className={inputClassName}
+          />
+          <select
+            value={form.source}
+            onChange={(event) =>
+              setForm({ ...form, source: event.target.value as InventoryFeedSource, settings: {} })
+            }
+            className={inputClassName}
+          >
+            <option value="HTTP">HTTP(S) download</option>
+            <option value="SFTP">SFTP drop</option>
+          </select>
+          {SOURCE_FIELDS[form.source].map((field) =>
+            field.multiline ? (
+              <textarea
+                key={field.key}
+                value={String(form.settings[field.key] ?? "")}
+                onChange={(event) => updateSetting(field.key, event.target.value)}
+                placeholder={field.label}
+                rows={3}
+                className={clsx(inputClassName, "font-mono text-xs")}
+              />
+            ) : (
+              <input
+                key={field.key}
+                type={field.secret ? "password" : "text"}
+                value={String(form.settings[field.key] ?? "")}
+                onChange={(event) => updateSetting(field.key, event.target.value)}
+                placeholder={field.label}
+                required={field.required}
+                autoComplete="off"
+                className={inputClassName}
+              />
+            )
+          )}
+          <div className="space-y-1">
+            <select
+              value={form.mappingId ?? ""}
+              onChange={(event) => setForm({ ...form, mappingId: event.target.value || null })}
+              className={inputClassName}
+            >
+              <option value="">Detect columns from the file</option>
+              {mappings.map((mapping) => (
+                <option key={mapping.id} value={mapping.id}>
+                  Column mapping: {mapping.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500">
+              CSV, JSON and XML feeds are supported. Save a column mapping from the{" "}
+              <Link href="/admin/inventory/upload" className="text-indigo-300 hover:text-indigo-200">
+                upload page
+              </Link>{" "}
+              if the columns aren&apos;t detected.
+            </p>
+          </div>
+          <div className="space-y-1">
+            <input
+              value={form.schedule}
+              onChange={(event) => setForm({ ...form, schedule: event.target.value })}
+              placeholder="Cron schedule"
+              required
+              className={clsx(inputClassName, "font-mono")}
+            />
+            <p className="text-xs text-slate-500">
+              Cron pattern in the dealership&apos;s time zone, e.g. <code>0 */4 * * *</code> for
+              every four hours or <code>30 5 * * *</code> for 5:30 AM daily.
+            </p>
+          </div>
+          <input
+            type="email"
+            value={form.alertEmail ?? ""}
+            onChange={(event) => setForm({ ...form, alertEmail: event.target.value || null })}
+            placeholder="Alert email (defaults to the dealership email)"
+            className={inputClassName}
+          />
+          <label className="flex items-center gap-3 text-sm text-slate-300">
+            Alert when the feed shrinks by
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={form.shrinkAlertPercent}
+              onChange={(event) =>
+                setForm({ ...form, shrinkAlertPercent: Number(event.target.value) })
+              }
+              className={clsx(inputClassName, "w-20")}
+            />
+            %
+          </label>
+          <label className="flex items-center gap-3 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={form.markMissingAsSold}
+              onChange={(event) => setForm({ ...form, markMissingAsSold: event.target.checked })}
+              className="h-4 w-4 rounded border-slate-700 bg-slate-900 text-indigo-500"
+            />
+            Mark vehicles missing from the feed as SOLD
+          </label>
+          <label className="flex items-center gap-3 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(event) => setForm({ ...form, enabled: event.target.checked })}
+              className="h-4 w-4 rounded border-slate-700 bg-slate-900 text-indigo-500"
+            />
+            Enabled
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || !dealershipId}
+              className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+            >
+              {editingId ? "Save changes" : "Add feed"}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-300 transition hover:border-slate-500"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {notice && (
+          <div className="rounded-lg border border-emerald-400/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+      </section>
+
+      <section className="overflow-hidden rounded-3xl border border-slate-800 bg-slate-900/50">
+        {!feeds?.length ? (
+          <p className="p-6 text-sm text-slate-400">
+            {feeds
+              ? "No feeds yet. Add your DMS or inventory provider's export so chat stays in sync with the lot."
+              : "Loading inventory feeds…"}
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-800">
+            {feeds.map((feed) => {
+              const lastRun = feed.runs[0];
+              return (
+                <li key={feed.id} className="space-y-2 px-5 py-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-white">
+                        {feed.name}
+                        {!feed.enabled && (
+                          <span className="ml-2 text-xs font-normal text-slate-500">disabled</span>
+                        )}
+                      </p>
+                      <p className="truncate text-xs text-slate-400">
+                        {feed.source} · <span className="font-mono">{feed.schedule}</span>
+                      </p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        Last success:{" "}
+                        {feed.lastSuccessAt
+                          ? `${new Date(feed.lastSuccessAt).toLocaleString()} (${feed.lastRowCount ?? 0} vehicles)`
+                          : "never"}
+                      </p>
+                    </div>
+                    {lastRun && (
+                      <span
+                        className={clsx(
+                          "shrink-0 rounded-full px-2 py-0.5 text-[11px] uppercase tracking-wide",
+                          STATUS_STYLES[lastRun.status]
+                        )}
+                      >
+                        {lastRun.status.toLowerCase()}
+                      </span>
+                    )}
+                  </div>
+                  {lastRun?.error && <p className="text-xs text-red-300">{lastRun.error}</p>}
+                  {lastRun?.alert && !lastRun.error && (
+                    <p className="text-xs text-amber-300">{lastRun.alert}</p>
+                  )}
+                  <div className="flex gap-3 text-xs font-semibold">
+                    <button
+                      type="button"
+                      disabled={isSaving}
+                      onClick={async () => {
+                        const started = await runAction(
+                          () => runInventoryFeed(dealershipId, feed.id),
+                          "Failed to start feed run."
+                        );
+                        if (started) setNotice(`Pulling "${feed.name}" now.`);
+                      }}
+                      className="text-indigo-300 transition hover:text-indigo-200 disabled:opacity-60"
+                    >
+                      Run now
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startEditing(feed)}
+                      className="text-slate-300 transition hover:text-white"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void toggleHistory(feed.id)}
+                      className="text-slate-300 transition hover:text-white"
+                    >
+                      {history?.feedId === feed.id ? "Hide history" : "History"}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={isSaving}
+                      onClick={() => {
+                        if (!window.confirm(`Delete the feed "${feed.name}"?`)) return;
+                        void runAction(
+                          () => deleteInventoryFeed(dealershipId, feed.id),
+                          "Failed to delete feed."
+                        );
+                        if (editingId === feed.id) resetForm();
+                      }}
+                      className="text-red-300 transition hover:text-red-200 disabled:opacity-60"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  {history?.feedId === feed.id && <FeedRunHistory runs={history.runs} />}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function FeedRunHistory({ runs }: { runs: InventoryFeedRunSummary[] }) {
+  if (!runs.length) {
+    return <p className="text-xs text-slate-500">This feed has not run yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 rounded-xl border border-slate-800 bg-slate-950/60 p-3 text-xs">
+      {runs.map((run) => (
+        <li key={run.id} className="flex flex-wrap items-baseline gap-x-3 text-slate-400">
+          <span className="text-slate-300">{new Date(run.startedAt).toLocaleString()}</span>
+          <span className="uppercase tracking-wide">{run.status.toLowerCase()}</span>
+          <span>{run.trigger === "MANUAL" ? "manual" : "scheduled"}</span>
+          {run.rowCount !== null && <span>{run.rowCount} rows</span>}
+          {run.result && (
+            <span>
+              {run.result.created ?? 0} created · {run.result.updated ?? 0} updated ·{" "}
+              {run.result.markedSold ?? 0} sold
+              {run.result.errors?.length ? ` · ${run.result.errors.length} row errors` : ""}
+            </span>
+          )}
+          {(run.error ?? run.alert) && (
+            <span className={run.error ? "text-red-300" : "text-amber-300"}>
+              {run.error ?? run.alert}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function compactSettings(settings: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => typeof value !== "string" || value.trim())
+  );
+}
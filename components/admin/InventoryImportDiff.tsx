@@ -0,0 +1,225 @@
+"use client";
+
+import clsx from "clsx";
+import type {
+  InventoryDiffVehicle,
+  InventoryFieldChange,
+  InventoryImportDiff as ImportDiff
+} from "@/lib/inventory/importDiff";
+
+const FIELD_LABELS: Record<InventoryFieldChange["field"], string> = {
+  stockNumber: "Stock #",
+  year: "Year",
+  make: "Make",
+  model: "Model",
+  trim: "Trim",
+  condition: "Condition",
+  price: "Price",
+  mileage: "Mileage",
+  bodyType: "Body type",
+  transmission: "Transmission",
+  drivetrain: "Drivetrain",
+  fuelType: "Fuel type",
+  mpgCity: "City MPG",
+  mpgHighway: "Highway MPG",
+  exteriorColor: "Exterior color",
+  interiorColor: "Interior color",
+  features: "Features",
+  images: "Images",
+  availability: "Availability",
+  featured: "Featured"
+};
+
+const currency = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 0
+});
+
+interface InventoryImportDiffProps {
+  diff: ImportDiff;
+  isApplying: boolean;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+/** The outcome of an import dry run, shown for review before the import is applied. */
+export default function InventoryImportDiff({
+  diff,
+  isApplying,
+  onApply,
+  onDiscard
+}: InventoryImportDiffProps) {
+  const { counts } = diff;
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-slate-800 bg-slate-900/50 p-6 shadow-lg shadow-black/30">
+      <div>
+        <h2 className="text-lg font-semibold text-white">Review changes</h2>
+        <p className="text-sm text-slate-400">
+          Nothing has been changed yet. Check what this file will do, then apply it.
+        </p>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-5">
+        <Count label="New" value={counts.create} />
+        <Count label="Updated" value={counts.update} />
+        <Count label="Unchanged" value={counts.unchanged} />
+        <Count label="Marked sold" value={counts.markSold} warn={counts.markSold > 0} />
+        <Count label="Row errors" value={counts.errors} warn={counts.errors > 0} />
+      </dl>
+
+      <p
+        className={clsx(
+          "rounded-xl border px-4 py-3 text-sm",
+          diff.blocked
+            ? "border-red-400/30 bg-red-500/10 text-red-200"
+            : "border-slate-800 bg-slate-900/70 text-slate-300"
+        )}
+      >
+        {diff.blocked ? "Blocked: this" : "This"} import takes {diff.removed} of {diff.inStock}{" "}
+        in-stock vehicles off the lot ({diff.removalPercent}%). Imports removing more than{" "}
+        {diff.removalLimitPercent}% are blocked
+        {diff.blocked ? "; check the file or turn off marking missing vehicles as sold." : "."}
+      </p>
+
+      <VehicleSection title="Price and detail changes" total={counts.update}>
+        {diff.update.map((vehicle) => (
+          <li key={vehicle.vin} className="rounded-md bg-slate-900/70 p-2">
+            <VehicleName vehicle={vehicle} />
+            <ul className="mt-1 space-y-0.5 text-slate-400">
+              {vehicle.changes.map((change) => (
+                <li key={change.field}>
+                  {FIELD_LABELS[change.field]}: {formatValue(change, change.from)} →{" "}
+                  <span className={changeClassName(change)}>{formatValue(change, change.to)}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </VehicleSection>
+
+      <VehicleSection title="Marked sold" total={counts.markSold} warn>
+        {diff.markSold.map((vehicle) => (
+          <li key={vehicle.vin} className="rounded-md bg-slate-900/70 p-2">
+            <VehicleName vehicle={vehicle} />
+          </li>
+        ))}
+      </VehicleSection>
+
+      <VehicleSection title="New vehicles" total={counts.create}>
+        {diff.create.map((vehicle) => (
+          <li key={vehicle.vin} className="rounded-md bg-slate-900/70 p-2">
+            <VehicleName vehicle={vehicle} />
+          </li>
+        ))}
+      </VehicleSection>
+
+      <VehicleSection title="Rows that will be skipped" total={counts.errors} warn>
+        {diff.errors.map((row) => (
+          <li key={`error-${row.row}`} className="rounded-md bg-slate-900/70 p-2">
+            Row {row.row}: {row.error}
+          </li>
+        ))}
+      </VehicleSection>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={diff.blocked || isApplying}
+          className="rounded-full bg-indigo-500 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+        >
+          {isApplying ? "Applying…" : "Apply import"}
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="text-sm text-slate-400 transition hover:text-slate-200"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function Count({ label, value, warn }: { label: string; value: number; warn?: boolean }) {
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/70 px-3 py-2">
+      <dt className="text-slate-400">{label}</dt>
+      <dd className={clsx("text-lg font-semibold", warn ? "text-amber-200" : "text-white")}>
+        {value.toLocaleString()}
+      </dd>
+    </div>
+  );
+}
+
+function VehicleSection({
+  title,
+  total,
+  warn,
+  children
+}: {
+  title: string;
+  total: number;
+  warn?: boolean;
+  children: React.ReactNode;
+}) {
+  if (!total) return null;
+  const listed = Array.isArray(children) ? children.length : 0;
+
+  return (
+    <details className="rounded-xl border border-slate-800 bg-slate-950/40 p-3" open={warn}>
+      <summary
+        className={clsx(
+          "cursor-pointer text-sm font-semibold",
+          warn ? "text-amber-200" : "text-slate-200"
+        )}
+      >
+        {title} ({total.toLocaleString()})
+      </summary>
+      <ul className="mt-3 max-h-72 space-y-2 overflow-y-auto pr-2 text-xs text-slate-300">
+        {children}
+      </ul>
+      {listed < total && (
+        <p className="mt-2 text-xs text-slate-500">
+          Showing the first {listed.toLocaleString()}.
+        </p>
+      )}
+    </details>
+  );
+}
+
+function VehicleName({ vehicle }: { vehicle: InventoryDiffVehicle }) {
+  return (
+    <p>
+      <span className="text-slate-100">{vehicle.title || "Untitled vehicle"}</span>{" "}
+      <span className="font-mono text-slate-500">
+        {vehicle.vin}
+        {vehicle.stockNumber ? ` · #${vehicle.stockNumber}` : ""}
+      </span>
+    </p>
+  );
+}
+
+function formatValue(change: InventoryFieldChange, value: InventoryFieldChange["from"]) {
+  if (value === null || value === "") return "—";
+  if (change.field === "price" && typeof value === "number") return currency.format(value);
+  if (typeof value === "number") return value.toLocaleString();
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? "item" : "items"}`;
+  return value;
+}
+
+/** Price drops read green and increases amber, so repricing stands out at a glance. */
+function changeClassName(change: InventoryFieldChange) {
+  if (
+    change.field !== "price" ||
+    typeof change.from !== "number" ||
+    typeof change.to !== "number"
+  ) {
+    return "text-slate-100";
+  }
+  return change.to < change.from ? "text-emerald-300" : "text-amber-300";
+}
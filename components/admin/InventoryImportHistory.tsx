@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import type { InventoryImportStatus } from "@prisma/client";
+import { useAdminUser } from "./useAdminUser";
+import {
+  fetchInventoryImport,
+  fetchInventoryImports,
+  rollbackInventoryImport,
+  type InventoryImportSummary
+} from "./inventoryImportApi";
+
+const DEALERSHIP_STORAGE_KEY = "dealerchat:admin:dealershipId";
+/** Poll while an import is still writing vehicles. */
+const RUNNING_REFRESH_INTERVAL_MS = 4000;
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const STATUS_STYLES: Record<InventoryImportStatus, string> = {
+  RUNNING: "bg-amber-500/20 text-amber-200",
+  SUCCEEDED: "bg-emerald-500/20 text-emerald-200",
+  FAILED: "bg-red-500/20 text-red-200",
+  ROLLED_BACK: "bg-slate-700/60 text-slate-300"
+};
+
+export default function InventoryImportHistory() {
+  const { user } = useAdminUser();
+  const [dealershipId, setDealershipId] = useState("");
+  const [imports, setImports] = useState<InventoryImportSummary[] | null>(null);
+  const [rowErrors, setRowErrors] = useState<{
+    importId: string;
+    errors: Array<{ row: number; error: string }>;
+  } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const manageableDealerships = useMemo(
+    () => user?.dealerships.filter((dealership) => dealership.role !== "SALESPERSON") ?? [],
+    [user]
+  );
+
+  useEffect(() => {
+    if (!manageableDealerships.length) return;
+    const stored = window.localStorage.getItem(DEALERSHIP_STORAGE_KEY);
+    setDealershipId(
+      manageableDealerships.some((dealership) => dealership.id === stored)
+        ? (stored as string)
+        : manageableDealerships[0].id
+    );
+  }, [manageableDealerships]);
+
+  const loadImports = useCallback(async () => {
+    if (!dealershipId) return;
+    try {
+      const response = await fetchInventoryImports(dealershipId);
+      setImports(response.imports);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load import history.");
+    }
+  }, [dealershipId]);
+
+  useEffect(() => {
+    setImports(null);
+    setRowErrors(null);
+    void loadImports();
+  }, [loadImports]);
+
+  const hasRunning = imports?.some((entry) => entry.status === "RUNNING") ?? false;
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(loadImports, RUNNING_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRunning, loadImports]);
+
+  const updateDealershipId = (value: string) => {
+    setDealershipId(value);
+    window.localStorage.setItem(DEALERSHIP_STORAGE_KEY, value);
+  };
+
+  const rollBack = async (entry: InventoryImportSummary) => {
+    if (
+      !window.confirm(
+        "Roll back this import? Vehicles it changed are restored, vehicles it added are removed and vehicles it marked sold go back on the lot."
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const result = await rollbackInventoryImport(dealershipId, entry.id);
+      setNotice(
+        `Rolled back: ${result.restored} vehicles restored, ${result.removed} removed` +
+          (result.markedSold ? `, ${result.markedSold} kept as sold for their appointments.` : ".")
+      );
+      await loadImports();
+    } catch (rollbackError) {
+      setError(rollbackError instanceof Error ? rollbackError.message : "Failed to roll back.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleErrors = async (importId: string) => {
+    if (rowErrors?.importId === importId) {
+      setRowErrors(null);
+      return;
+    }
+
+    try {
+      const response = await fetchInventoryImport(dealershipId, importId);
+      setRowErrors({ importId, errors: response.import.errors ?? [] });
+    } catch (detailError) {
+      setError(detailError instanceof Error ? detailError.message : "Failed to load row errors.");
+    }
+  };
+
+  if (user && !manageableDealerships.length) {
+    return (
+      <p className="rounded-3xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+        Import history is available to dealership owners and managers.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <select
+        value={dealershipId}
+        onChange={(event) => updateDealershipId(event.target.value)}
+        className={clsx(inputClassName, "max-w-sm")}
+      >
+        {manageableDealerships.map((dealership) => (
+          <option key={dealership.id} value={dealership.id}>
+            {dealership.name}
+          </option>
+        ))}
+      </select>
+
+      {notice && (
+        <div className="rounded-lg border border-emerald-400/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+          {notice}
+        </div>
+      )}
+      {error && (
+        <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      <section className="overflow-hidden rounded-3xl border border-slate-800 bg-slate-900/50">
+        {!imports?.length ? (
+          <p className="p-6 text-sm text-slate-400">
+            {imports ? "No imports yet." : "Loading import history…"}
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-800">
+            {imports.map((entry) => (
+              <li key={entry.id} className="space-y-2 px-5 py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-white">
+                      {new Date(entry.startedAt).toLocaleString()}
+                    </p>
+                    <p className="truncate text-xs text-slate-400">
+                      {entry.requestedBy ?? "Unknown"} · {entry.fileRows.toLocaleString()} rows
+                    </p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {entry.created} created · {entry.updated} updated · {entry.markedSold} sold
+                      {entry.errorCount ? ` · ${entry.errorCount} row errors` : ""}
+                    </p>
+                  </div>
+                  <span
+                    className={clsx(
+                      "shrink-0 rounded-full px-2 py-0.5 text-[11px] uppercase tracking-wide",
+                      STATUS_STYLES[entry.status]
+                    )}
+                  >
+                    {entry.status.replace("_", " ").toLowerCase()}
+                  </span>
+                </div>
+                {entry.error && <p className="text-xs text-red-300">{entry.error}</p>}
+                {entry.rolledBackAt && (
+                  <p className="text-xs text-slate-500">
+                    Rolled back {new Date(entry.rolledBackAt).toLocaleString()}
+                    {entry.rolledBackBy ? ` by ${entry.rolledBackBy}` : ""}
+                  </p>
+                )}
+                <div className="flex gap-3 text-xs font-semibold">
+                  {entry.errorCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => void toggleErrors(entry.id)}
+                      className="text-slate-300 transition hover:text-white"
+                    >
+                      {rowErrors?.importId === entry.id ? "Hide row errors" : "Row errors"}
+                    </button>
+                  )}
+                  {entry.canRollBack && (
+                    <button
+                      type="button"
+                      disabled={isSaving}
+                      onClick={() => void rollBack(entry)}
+                      className="text-red-300 transition hover:text-red-200 disabled:opacity-60"
+                    >
+                      Roll back
+                    </button>
+                  )}
+                </div>
+                {rowErrors?.importId === entry.id && (
+                  <ul className="max-h-64 space-y-1 overflow-y-auto rounded-xl border border-slate-800 bg-slate-950/60 p-3 text-xs text-red-200/90">
+                    {rowErrors.errors.map((row) => (
+                      <li key={`error-${row.row}`}>
+                        Row {row.row}: {row.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import clsx from "clsx";
+import type { KnowledgeDocumentStatus } from "@prisma/client";
+import { useAdminUser } from "./useAdminUser";
+import {
+  createFaqEntry,
+  deleteKnowledgeDocument,
+  fetchKnowledgeDocuments,
+  reindexKnowledgeDocument,
+  updateFaqEntry,
+  uploadKnowledgeFile,
+  type KnowledgeDocumentSummary
+} from "./knowledgeApi";
+
+const DEALERSHIP_STORAGE_KEY = "dealerchat:admin:dealershipId";
+/** Poll while anything is still being indexed by the worker. */
+const PENDING_REFRESH_INTERVAL_MS = 4000;
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const STATUS_STYLES: Record<KnowledgeDocumentStatus, string> = {
+  PENDING: "bg-amber-500/20 text-amber-200",
+  INDEXED: "bg-emerald-500/20 text-emerald-200",
+  FAILED: "bg-red-500/20 text-red-200"
+};
+
+export default function KnowledgeBaseManager() {
+  const { user } = useAdminUser();
+  const [dealershipId, setDealershipId] = useState("");
+  const [documents, setDocuments] = useState<KnowledgeDocumentSummary[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [question, setQuestion] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [fileTitle, setFileTitle] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const manageableDealerships = useMemo(
+    () => user?.dealerships.filter((dealership) => dealership.role !== "SALESPERSON") ?? [],
+    [user]
+  );
+
+  useEffect(() => {
+    if (!manageableDealerships.length) return;
+    const stored = window.localStorage.getItem(DEALERSHIP_STORAGE_KEY);
+    setDealershipId(
+      manageableDealerships.some((dealership) => dealership.id === stored)
+        ? (stored as string)
+        : manageableDealerships[0].id
+    );
+  }, [manageableDealerships]);
+
+  const loadDocuments = useCallback(async () => {
+    if (!dealershipId) return;
+    try {
+      const response = await fetchKnowledgeDocuments(dealershipId);
+      setDocuments(response.documents);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load knowledge base.");
+    }
+  }, [dealershipId]);
+
+  useEffect(() => {
+    setDocuments(null);
+    setEditingId(null);
+    void loadDocuments();
+  }, [loadDocuments]);
+
+  const hasPending = documents?.some((document) => document.status === "PENDING") ?? false;
+
+  useEffect(() => {
+    if (!hasPending) return;
+    const interval = setInterval(loadDocuments, PENDING_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPending, loadDocuments]);
+
+  const updateDealershipId = (value: string) => {
+    setDealershipId(value);
+    window.localStorage.setItem(DEALERSHIP_STORAGE_KEY, value);
+  };
+
+  const runAction = async (action: () => Promise<unknown>, fallbackError: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await action();
+      await loadDocuments();
+      return true;
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallbackError);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetFaqForm = () => {
+    setEditingId(null);
+    setQuestion("");
+    setAnswer("");
+  };
+
+  const handleFaqSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const saved = await runAction(
+      () =>
+        editingId
+          ? updateFaqEntry(dealershipId, editingId, question, answer)
+          : createFaqEntry(dealershipId, question, answer),
+      "Failed to save FAQ entry."
+    );
+    if (saved) resetFaqForm();
+  };
+
+  const handleUpload = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!file) return;
+
+    const uploaded = await runAction(
+      () => uploadKnowledgeFile(dealershipId, file, fileTitle.trim() || undefined),
+      "Failed to upload document."
+    );
+    if (uploaded) {
+      setFile(null);
+      setFileTitle("");
+      (event.target as HTMLFormElement).reset();
+    }
+  };
+
+  const startEditing = (document: KnowledgeDocumentSummary) => {
+    setEditingId(document.id);
+    setQuestion(document.title);
+    setAnswer(document.content);
+  };
+
+  if (user && !manageableDealerships.length) {
+    return (
+      <p className="rounded-3xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+        The knowledge base can be managed by dealership owners and managers.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,0.9fr)_minmax(0,1.2fr)]">
+      <section className="space-y-4">
+        <select
+          value={dealershipId}
+          onChange={(event) => updateDealershipId(event.target.value)}
+          className={inputClassName}
+        >
+          {manageableDealerships.map((dealership) => (
+            <option key={dealership.id} value={dealership.id}>
+              {dealership.name}
+            </option>
+          ))}
+        </select>
+
+        <form
+          onSubmit={handleFaqSubmit}
+          className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-5"
+        >
+          <h2 className="text-sm font-semibold text-white">
+            {editingId ? "Edit FAQ entry" : "Add an FAQ entry"}
+          </h2>
+          <input
+            value={question}
+            onChange={(event) => setQuestion(event.target.value)}
+            placeholder="Question, e.g. What does the certified warranty cover?"
+            maxLength={300}
+            required
+            className={inputClassName}
+          />
+          <textarea
+            value={answer}
+            onChange={(event) => setAnswer(event.target.value)}
+            rows={4}
+            placeholder="Answer"
+            maxLength={5000}
+            required
+            className={inputClassName}
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || !dealershipId}
+              className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+            >
+              {editingId ? "Save changes" : "Add entry"}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetFaqForm}
+                className="rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-300 transition hover:border-slate-500"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        <form
+          onSubmit={handleUpload}
+          className="space-y-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-5"
+        >
+          <h2 className="text-sm font-semibold text-white">Upload a document</h2>
+          <p className="text-xs text-slate-400">
+            Markdown, text or PDF, up to 10 MB. Policies, warranty terms and financing guides work
+            best.
+          </p>
+          <input
+            type="file"
+            accept=".md,.markdown,.txt,.pdf,text/markdown,text/plain,application/pdf"
+            onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-3 file:py-2 file:text-sm file:text-white"
+          />
+          <input
+            value={fileTitle}
+            onChange={(event) => setFileTitle(event.target.value)}
+            placeholder="Title (defaults to the file name)"
+            maxLength={200}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !file || !dealershipId}
+            className="rounded-lg bg-indigo-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+          >
+            Upload
+          </button>
+        </form>
+
+        {error && (
+          <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+      </section>
+
+      <section className="overflow-hidden rounded-3xl border border-slate-800 bg-slate-900/50">
+        {!documents?.length ? (
+          <p className="p-6 text-sm text-slate-400">
+            {documents
+              ? "Nothing here yet. Add FAQ entries or upload documents so the assistant can answer policy questions."
+              : "Loading knowledge base…"}
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-800">
+            {documents.map((document) => (
+              <li key={document.id} className="space-y-2 px-5 py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-white">{document.title}</p>
+                    <p className="truncate text-xs text-slate-400">
+                      {document.kind === "FAQ"
+                        ? document.content
+                        : (document.fileName ?? document.kind)}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {document.kind.toLowerCase()} · {document.chunkCount} chunks · updated{" "}
+                      {new Date(document.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span
+                    className={clsx(
+                      "shrink-0 rounded-full px-2 py-0.5 text-[11px] uppercase tracking-wide",
+                      STATUS_STYLES[document.status]
+                    )}
+                  >
+                    {document.status.toLowerCase()}
+                  </span>
+                </div>
+                {document.error && <p className="text-xs text-red-300">{document.error}</p>}
+                <div className="flex gap-3 text-xs font-semibold">
+                  {document.kind === "FAQ" && (
+                    <button
+                      type="button"
+                      onClick={() => startEditing(document)}
+                      className="text-indigo-300 transition hover:text-indigo-200"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={isSaving}
+                    onClick={() =>
+                      runAction(
+                        () => reindexKnowledgeDocument(dealershipId, document.id),
+                        "Failed to re-index document."
+                      )
+                    }
+                    className="text-slate-300 transition hover:text-white disabled:opacity-60"
+                  >
+                    Re-index
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isSaving}
+                    onClick={() => {
+                      if (!window.confirm(`Delete "${document.title}"?`)) return;
+                      void runAction(
+                        () => deleteKnowledgeDocument(dealershipId, document.id),
+                        "Failed to delete document."
+                      );
+                      if (editingId === document.id) resetFaqForm();
+                    }}
+                    className="text-red-300 transition hover:text-red-200 disabled:opacity-60"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
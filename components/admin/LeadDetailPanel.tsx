@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import type { LeadStatus } from "@prisma/client";
+import { LEAD_STATUS_LABELS } from "@/lib/leads/status";
+import { fetchLead, updateLead, type LeadDetailResponse } from "./leadsApi";
+
+interface LeadDetailPanelProps {
+  leadId: string;
+  onUpdated?: () => void;
+}
+
+export default function LeadDetailPanel({ leadId, onUpdated }: LeadDetailPanelProps) {
+  const [detail, setDetail] = useState<LeadDetailResponse | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLead = useCallback(async () => {
+    setError(null);
+    try {
+      setDetail(await fetchLead(leadId));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load lead.");
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    setDetail(null);
+    setNote("");
+    void loadLead();
+  }, [loadLead]);
+
+  const submitChange = async (status?: LeadStatus) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await updateLead(leadId, {
+        status,
+        note: note.trim() || undefined
+      });
+      setNote("");
+      await loadLead();
+      onUpdated?.();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to update lead.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!detail) {
+    return (
+      <div className="rounded-3xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
+        {error ?? "Loading lead…"}
+      </div>
+    );
+  }
+
+  const { lead, allowedStatuses, score } = detail;
+
+  return (
+    <article className="space-y-6 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-black/40">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white">
+            {lead.firstName} {lead.lastName}
+          </h2>
+          <p className="text-sm text-slate-400">
+            {lead.email} · {lead.phone} · prefers {lead.preferredContact.toLowerCase()}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-semibold text-indigo-300">{lead.leadScore}</p>
+          <p className="text-xs uppercase tracking-wide text-slate-500">Lead score</p>
+        </div>
+      </header>
+
+      {score && (
+        <dl className="grid grid-cols-3 gap-2 text-xs text-slate-400">
+          {Object.entries(score.breakdown).map(([signal, points]) => (
+            <div key={signal} className="rounded-lg bg-slate-950/60 px-3 py-2">
+              <dt className="capitalize text-slate-500">{signal.replace(/([A-Z])/g, " $1")}</dt>
+              <dd className="font-semibold text-slate-200">{Math.round(points)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-white">
+          Status: <span className="text-indigo-300">{LEAD_STATUS_LABELS[lead.status]}</span>
+        </h3>
+        <textarea
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          rows={2}
+          placeholder="Add a note (optional)"
+          className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+        />
+        <div className="flex flex-wrap gap-2">
+          {allowedStatuses.map((status) => (
+            <button
+              key={status}
+              type="button"
+              disabled={isSaving}
+              onClick={() => submitChange(status)}
+              className={clsx(
+                "rounded-full px-4 py-1.5 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-60",
+                status === "LOST"
+                  ? "border border-red-400/40 text-red-200 hover:bg-red-500/10"
+                  : "bg-indigo-500 text-white hover:bg-indigo-400"
+              )}
+            >
+              Mark {LEAD_STATUS_LABELS[status].toLowerCase()}
+            </button>
+          ))}
+          <button
+            type="button"
+            disabled={isSaving || !note.trim()}
+            onClick={() => submitChange()}
+            className="rounded-full border border-slate-700 px-4 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Add note
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-300">{error}</p>}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold text-white">Appointments</h3>
+        {lead.appointments.length ? (
+          <ul className="space-y-2 text-sm text-slate-300">
+            {lead.appointments.map((appointment) => (
+              <li key={appointment.id} className="rounded-lg bg-slate-950/60 px-3 py-2">
+                {new Date(appointment.scheduledDatetime).toLocaleString()} ·{" "}
+                {appointment.appointmentType.replace(/_/g, " ").toLowerCase()}
+                {appointment.vehicle && ` · ${describeVehicle(appointment.vehicle)}`}
+                <span className="ml-2 text-xs uppercase text-slate-500">{appointment.status}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500">No appointments booked.</p>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold text-white">Viewed vehicles</h3>
+        {lead.session.vehicleViews.length ? (
+          <ul className="flex flex-wrap gap-2 text-xs text-slate-300">
+            {lead.session.vehicleViews.map((view) => (
+              <li key={view.id} className="rounded-full bg-slate-800 px-3 py-1">
+                {describeVehicle(view.vehicle)}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500">No vehicles shown in chat.</p>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold text-white">Transcript</h3>
+        <div className="max-h-72 space-y-2 overflow-y-auto pr-2">
+          {lead.conversationTranscript?.length ? (
+            lead.conversationTranscript.map((entry, index) => (
+              <p
+                key={index}
+                className={clsx(
+                  "rounded-2xl px-3 py-2 text-sm",
+                  entry.role === "user"
+                    ? "ml-8 bg-indigo-500/20 text-indigo-100"
+                    : "mr-8 bg-slate-800 text-slate-200"
+                )}
+              >
+                {entry.content}
+              </p>
+            ))
+          ) : (
+            <p className="text-xs text-slate-500">No transcript captured.</p>
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold text-white">History</h3>
+        <ul className="space-y-2 text-xs text-slate-400">
+          {lead.auditEntries.map((entry) => (
+            <li key={entry.id} className="rounded-lg bg-slate-950/60 px-3 py-2">
+              <span className="text-slate-500">{new Date(entry.createdAt).toLocaleString()}</span>{" "}
+              <span className="font-medium text-slate-200">{entry.actor}</span>{" "}
+              {entry.action === "STATUS_CHANGE" && entry.fromStatus && entry.toStatus
+                ? `moved ${LEAD_STATUS_LABELS[entry.fromStatus]} → ${LEAD_STATUS_LABELS[entry.toStatus]}`
+                : "added a note"}
+              {entry.note && <p className="mt-1 text-slate-300">{entry.note}</p>}
+            </li>
+          ))}
+          <li className="rounded-lg bg-slate-950/60 px-3 py-2">
+            <span className="text-slate-500">{new Date(lead.createdAt).toLocaleString()}</span>{" "}
+            Lead captured from chat
+          </li>
+        </ul>
+      </section>
+    </article>
+  );
+}
+
+function describeVehicle(vehicle: { year: number; make: string; model: string; trim: string | null }) {
+  return [vehicle.year, vehicle.make, vehicle.model, vehicle.trim].filter(Boolean).join(" ");
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import type { LeadStatus } from "@prisma/client";
+import { LEAD_STATUSES, LEAD_STATUS_LABELS } from "@/lib/leads/status";
+import LeadDetailPanel from "./LeadDetailPanel";
+import { useAdminUser } from "./useAdminUser";
+import { fetchLeads, type LeadListFilters, type LeadListResponse } from "./leadsApi";
+
+const PAGE_SIZE = 25;
+const DEALERSHIP_STORAGE_KEY = "dealerchat:admin:dealershipId";
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+export default function LeadsInbox() {
+  const { user } = useAdminUser();
+  const [dealershipId, setDealershipId] = useState("");
+  const [statuses, setStatuses] = useState<LeadStatus[]>([]);
+  const [query, setQuery] = useState("");
+  const [minScore, setMinScore] = useState("");
+  const [createdFrom, setCreatedFrom] = useState("");
+  const [createdTo, setCreatedTo] = useState("");
+  const [sort, setSort] = useState<NonNullable<LeadListFilters["sort"]>>("score");
+  const [offset, setOffset] = useState(0);
+  const [data, setData] = useState<LeadListResponse | null>(null);
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.dealerships.length) return;
+    const stored = window.localStorage.getItem(DEALERSHIP_STORAGE_KEY);
+    setDealershipId(
+      user.dealerships.some((dealership) => dealership.id === stored)
+        ? (stored as string)
+        : user.dealerships[0].id
+    );
+  }, [user]);
+
+  const loadLeads = useCallback(async () => {
+    if (!dealershipId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetchLeads({
+        dealershipId,
+        status: statuses,
+        q: query.trim() || undefined,
+        minScore: minScore ? Number(minScore) : undefined,
+        createdFrom: createdFrom ? new Date(`${createdFrom}T00:00:00`).toISOString() : undefined,
+        createdTo: createdTo ? new Date(`${createdTo}T23:59:59`).toISOString() : undefined,
+        sort,
+        limit: PAGE_SIZE,
+        offset
+      });
+      setData(response);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load leads.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dealershipId, statuses, query, minScore, createdFrom, createdTo, sort, offset]);
+
+  useEffect(() => {
+    void loadLeads();
+  }, [loadLeads]);
+
+  const updateDealershipId = (value: string) => {
+    setDealershipId(value);
+    setOffset(0);
+    setSelectedLeadId(null);
+    window.localStorage.setItem(DEALERSHIP_STORAGE_KEY, value);
+  };
+
+  const toggleStatus = (status: LeadStatus) => {
+    setOffset(0);
+    setStatuses((current) =>
+      current.includes(status) ? current.filter((entry) => entry !== status) : [...current, status]
+    );
+  };
+
+  const total = data?.pagination.total ?? 0;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.1fr)]">
+      <section className="space-y-4">
+        <div className="grid gap-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-5 md:grid-cols-2">
+          <select
+            value={dealershipId}
+            onChange={(event) => updateDealershipId(event.target.value)}
+            className={clsx(inputClassName, "md:col-span-2")}
+          >
+            {user?.dealerships.map((dealership) => (
+              <option key={dealership.id} value={dealership.id}>
+                {dealership.name}
+              </option>
+            ))}
+          </select>
+          <input
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setOffset(0);
+            }}
+            placeholder="Search name, email or phone"
+            className={inputClassName}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={minScore}
+              onChange={(event) => {
+                setMinScore(event.target.value);
+                setOffset(0);
+              }}
+              placeholder="Min score"
+              className={inputClassName}
+            />
+            <select
+              value={sort}
+              onChange={(event) => setSort(event.target.value as typeof sort)}
+              className={inputClassName}
+            >
+              <option value="score">Highest score</option>
+              <option value="createdAt">Newest</option>
+              <option value="updatedAt">Recently updated</option>
+            </select>
+          </div>
+          <label className="space-y-1 text-xs text-slate-400">
+            <span>Created from</span>
+            <input
+              type="date"
+              value={createdFrom}
+              onChange={(event) => {
+                setCreatedFrom(event.target.value);
+                setOffset(0);
+              }}
+              className={inputClassName}
+            />
+          </label>
+          <label className="space-y-1 text-xs text-slate-400">
+            <span>Created to</span>
+            <input
+              type="date"
+              value={createdTo}
+              onChange={(event) => {
+                setCreatedTo(event.target.value);
+                setOffset(0);
+              }}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex flex-wrap gap-2 md:col-span-2">
+            {LEAD_STATUSES.map((status) => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => toggleStatus(status)}
+                className={clsx(
+                  "rounded-full border px-3 py-1 text-xs font-medium transition",
+                  statuses.includes(status)
+                    ? "border-indigo-400 bg-indigo-500/20 text-indigo-200"
+                    : "border-slate-700 text-slate-400 hover:border-slate-500 hover:text-slate-200"
+                )}
+              >
+                {LEAD_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-hidden rounded-3xl border border-slate-800 bg-slate-900/50">
+          {!dealershipId ? (
+            <p className="p-6 text-sm text-slate-400">
+              {user ? "Your account is not linked to a dealership yet." : "Loading…"}
+            </p>
+          ) : !data?.leads.length ? (
+            <p className="p-6 text-sm text-slate-400">
+              {isLoading ? "Loading leads…" : "No leads match these filters."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-800">
+              {data.leads.map((lead) => (
+                <li key={lead.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedLeadId(lead.id)}
+                    className={clsx(
+                      "flex w-full items-center justify-between gap-4 px-5 py-4 text-left transition hover:bg-slate-800/60",
+                      selectedLeadId === lead.id && "bg-slate-800/80"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-white">
+                        {lead.firstName} {lead.lastName}
+                      </p>
+                      <p className="truncate text-xs text-slate-400">
+                        {lead.email} · {lead.phone}
+                      </p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        {new Date(lead.createdAt).toLocaleString()} ·{" "}
+                        {lead.intent.replace(/_/g, " ").toLowerCase()}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 flex-col items-end gap-1">
+                      <span className="text-lg font-semibold text-indigo-300">{lead.leadScore}</span>
+                      <span className="rounded-full bg-slate-800 px-2 py-0.5 text-[11px] uppercase tracking-wide text-slate-300">
+                        {LEAD_STATUS_LABELS[lead.status]}
+                      </span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-slate-400">
+            <button
+              type="button"
+              disabled={offset === 0}
+              onClick={() => setOffset((current) => Math.max(0, current - PAGE_SIZE))}
+              className="transition hover:text-slate-200 disabled:opacity-40"
+            >
+              ← Previous
+            </button>
+            <span>
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <button
+              type="button"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset((current) => current + PAGE_SIZE)}
+              className="transition hover:text-slate-200 disabled:opacity-40"
+            >
+              Next →
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section>
+        {selectedLeadId ? (
+          <LeadDetailPanel leadId={selectedLeadId} onUpdated={loadLeads} />
+        ) : (
+          <div className="rounded-3xl border border-dashed border-slate-800 p-10 text-center text-sm text-slate-500">
+            Select a lead to see its conversation, vehicles and history.
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
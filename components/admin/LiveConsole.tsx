@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import ConversationPanel from "./ConversationPanel";
+import { useAdminUser } from "./useAdminUser";
+import { fetchConversations, type ConversationSummary } from "./conversationsApi";
+
+const REFRESH_INTERVAL_MS = 5000;
+const DEALERSHIP_STORAGE_KEY = "dealerchat:admin:dealershipId";
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+export default function LiveConsole() {
+  const { user } = useAdminUser();
+  const [dealershipId, setDealershipId] = useState("");
+  const [scope, setScope] = useState<"active" | "all">("active");
+  const [conversations, setConversations] = useState<ConversationSummary[] | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.dealerships.length) return;
+    const stored = window.localStorage.getItem(DEALERSHIP_STORAGE_KEY);
+    setDealershipId(
+      user.dealerships.some((dealership) => dealership.id === stored)
+        ? (stored as string)
+        : user.dealerships[0].id
+    );
+  }, [user]);
+
+  const loadConversations = useCallback(async () => {
+    if (!dealershipId) return;
+
+    try {
+      const response = await fetchConversations(dealershipId, scope);
+      setConversations(response.conversations);
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load conversations.");
+    }
+  }, [dealershipId, scope]);
+
+  useEffect(() => {
+    setConversations(null);
+    void loadConversations();
+    const interval = setInterval(loadConversations, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadConversations]);
+
+  const updateDealershipId = (value: string) => {
+    setDealershipId(value);
+    setSelectedSessionId(null);
+    window.localStorage.setItem(DEALERSHIP_STORAGE_KEY, value);
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,0.9fr)_minmax(0,1.2fr)]">
+      <section className="space-y-4">
+        <div className="grid gap-3 rounded-3xl border border-slate-800 bg-slate-900/60 p-5 md:grid-cols-[minmax(0,1fr)_auto]">
+          <select
+            value={dealershipId}
+            onChange={(event) => updateDealershipId(event.target.value)}
+            className={inputClassName}
+          >
+            {user?.dealerships.map((dealership) => (
+              <option key={dealership.id} value={dealership.id}>
+                {dealership.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={scope}
+            onChange={(event) => setScope(event.target.value as typeof scope)}
+            className={inputClassName}
+          >
+            <option value="active">Active now</option>
+            <option value="all">All conversations</option>
+          </select>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-hidden rounded-3xl border border-slate-800 bg-slate-900/50">
+          {!dealershipId ? (
+            <p className="p-6 text-sm text-slate-400">
+              {user ? "Your account is not linked to a dealership yet." : "Loading…"}
+            </p>
+          ) : !conversations?.length ? (
+            <p className="p-6 text-sm text-slate-400">
+              {conversations ? "No conversations right now." : "Loading conversations…"}
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-800">
+              {conversations.map((conversation) => (
+                <li key={conversation.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedSessionId(conversation.id)}
+                    className={clsx(
+                      "flex w-full items-start justify-between gap-4 px-5 py-4 text-left transition hover:bg-slate-800/60",
+                      selectedSessionId === conversation.id && "bg-slate-800/80"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-white">
+                        {conversationTitle(conversation)}
+                      </p>
+                      <p className="truncate text-xs text-slate-400">
+                        {conversation.lastMessage?.content ?? "No messages yet"}
+                      </p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        {new Date(conversation.lastMessageAt).toLocaleTimeString()}
+                        {conversation.lead ? ` · lead score ${conversation.lead.leadScore}` : ""}
+                      </p>
+                    </div>
+                    <span
+                      className={clsx(
+                        "shrink-0 rounded-full px-2 py-0.5 text-[11px] uppercase tracking-wide",
+                        conversation.aiPaused
+                          ? "bg-emerald-500/20 text-emerald-200"
+                          : "bg-slate-800 text-slate-300"
+                      )}
+                    >
+                      {conversation.aiPaused
+                        ? (conversation.assignedAgent?.name ?? "Agent")
+                        : "Assistant"}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+
+      <section>
+        {selectedSessionId && user ? (
+          <ConversationPanel
+            sessionId={selectedSessionId}
+            currentUserId={user.id}
+            onUpdated={loadConversations}
+          />
+        ) : (
+          <div className="rounded-3xl border border-dashed border-slate-800 p-10 text-center text-sm text-slate-500">
+            Select a conversation to follow it live or take over from the assistant.
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function conversationTitle(conversation: ConversationSummary) {
+  if (conversation.lead) {
+    return `${conversation.lead.firstName} ${conversation.lead.lastName}`;
+  }
+  return conversation.customerName ?? conversation.customerEmail ?? "Anonymous visitor";
+}
@@ -0,0 +1,67 @@
+import type { DealershipRole } from "@prisma/client";
+
+export interface AdminDealership {
+  id: string;
+  name: string;
+  role: DealershipRole;
+}
+
+export interface CurrentAdminUser {
+  id: string;
+  email: string;
+  name: string;
+  isPlatformAdmin: boolean;
+  dealerships: AdminDealership[];
+}
+
+export class AdminUnauthorizedError extends Error {
+  constructor() {
+    super("Sign in to continue");
+    this.name = "AdminUnauthorizedError";
+  }
+}
+
+export function redirectToLogin() {
+  const next = `${window.location.pathname}${window.location.search}`;
+  window.location.assign(`/admin/login?next=${encodeURIComponent(next)}`);
+}
+
+/** Fetches an admin API route, redirecting to the login page when the session has expired. */
+export async function requestAdminJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, { cache: "no-store", ...init });
+
+  if (response.status === 401) {
+    redirectToLogin();
+    throw new AdminUnauthorizedError();
+  }
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.message ?? `Request failed with status ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+export async function fetchCurrentAdmin() {
+  const { user } = await requestAdminJson<{ user: CurrentAdminUser }>("/api/admin/auth/me");
+  return user;
+}
+
+export async function loginAdmin(email: string, password: string) {
+  const response = await fetch("/api/admin/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password })
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.message ?? "Unable to sign in.");
+  }
+}
+
+export async function logoutAdmin() {
+  await fetch("/api/admin/auth/logout", { method: "POST" });
+  window.location.assign("/admin/login");
+}
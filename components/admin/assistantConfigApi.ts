@@ -0,0 +1,57 @@
+import type { AssistantTone } from "@prisma/client";
+import type { AssistantModel } from "@/lib/assistant/options";
+import { requestAdminJson } from "./adminApi";
+
+export interface AssistantConfigFields {
+  personaName: string;
+  tone: AssistantTone;
+  greeting: string;
+  disclaimers: string[];
+  topicsToAvoid: string[];
+  faqFacts: Array<{ question: string; answer: string }>;
+  model: AssistantModel;
+  temperature: number;
+}
+
+export interface AssistantConfigVersion {
+  version: number;
+  personaName: string;
+  tone: AssistantTone;
+  model: string;
+  createdBy: string;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+export interface AssistantConfigOverview {
+  config: AssistantConfigFields & { version: number | null };
+  versions: AssistantConfigVersion[];
+}
+
+export async function fetchAssistantConfig(dealershipId: string) {
+  return requestAdminJson<AssistantConfigOverview>(
+    `/api/admin/dealerships/${dealershipId}/assistant-config`
+  );
+}
+
+export async function saveAssistantConfig(dealershipId: string, config: AssistantConfigFields) {
+  return requestAdminJson<AssistantConfigOverview>(
+    `/api/admin/dealerships/${dealershipId}/assistant-config`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(config)
+    }
+  );
+}
+
+export async function restoreAssistantConfig(dealershipId: string, version: number) {
+  return requestAdminJson<AssistantConfigOverview>(
+    `/api/admin/dealerships/${dealershipId}/assistant-config/restore`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ version })
+    }
+  );
+}
@@ -0,0 +1,99 @@
+import type { LeadStatus, MessageRole } from "@prisma/client";
+import {
+  connectConversationEvents,
+  type LiveConversationHandlers
+} from "@/lib/conversations/liveEvents";
+import { requestAdminJson } from "./adminApi";
+
+interface ConversationAgent {
+  id: string;
+  name: string;
+}
+
+interface ConversationLead {
+  id: string;
+  firstName: string;
+  lastName: string;
+  status: LeadStatus;
+  leadScore: number;
+}
+
+export interface ConversationSummary {
+  id: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  aiPaused: boolean;
+  lastMessageAt: string;
+  createdAt: string;
+  assignedAgent: ConversationAgent | null;
+  lastMessage: { role: MessageRole; content: string; createdAt: string } | null;
+  lead: ConversationLead | null;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: MessageRole;
+  content: string;
+  authorName: string | null;
+  createdAt: string;
+}
+
+export interface ConversationDetailResponse {
+  conversation: Omit<ConversationSummary, "lastMessage"> & { customerPhone: string | null };
+  messages: ConversationMessage[];
+}
+
+interface HandoffResponse {
+  aiPaused: boolean;
+  assignedAgentId: string | null;
+}
+
+export async function fetchConversations(
+  dealershipId: string,
+  scope: "active" | "all" = "active"
+): Promise<{ conversations: ConversationSummary[] }> {
+  const params = new URLSearchParams({ dealershipId, scope });
+  return requestAdminJson(`/api/admin/conversations?${params.toString()}`);
+}
+
+export async function fetchConversation(
+  sessionId: string,
+  after?: string | null
+): Promise<ConversationDetailResponse> {
+  const query = after ? `?${new URLSearchParams({ after }).toString()}` : "";
+  return requestAdminJson(`/api/admin/conversations/${sessionId}${query}`);
+}
+
+export async function takeOverConversation(sessionId: string): Promise<HandoffResponse> {
+  return requestAdminJson(`/api/admin/conversations/${sessionId}/takeover`, { method: "POST" });
+}
+
+export async function releaseConversation(sessionId: string): Promise<HandoffResponse> {
+  return requestAdminJson(`/api/admin/conversations/${sessionId}/release`, { method: "POST" });
+}
+
+export async function sendAgentMessage(
+  sessionId: string,
+  content: string
+): Promise<{ message: ConversationMessage }> {
+  return requestAdminJson(`/api/admin/conversations/${sessionId}/messages`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ content })
+  });
+}
+
+export function subscribeToConversation(
+  sessionId: string,
+  after: string | null,
+  handlers: LiveConversationHandlers
+) {
+  return connectConversationEvents(
+    (cursor) => {
+      const query = cursor ? `?${new URLSearchParams({ after: cursor }).toString()}` : "";
+      return `/api/admin/conversations/${sessionId}/events${query}`;
+    },
+    handlers,
+    after
+  );
+}
@@ -1,2 +1,12 @@
 export { default as AdminDashboard } from "./AdminDashboard";
+export { default as AdminUserMenu } from "./AdminUserMenu";
+export { default as AssistantConfigEditor } from "./AssistantConfigEditor";
+export { default as InventoryColumnMapper } from "./InventoryColumnMapper";
+export { default as InventoryFeedManager } from "./InventoryFeedManager";
+export { default as InventoryImportDiff } from "./InventoryImportDiff";
+export { default as InventoryImportHistory } from "./InventoryImportHistory";
+export { default as KnowledgeBaseManager } from "./KnowledgeBaseManager";
+export { default as LeadsInbox } from "./LeadsInbox";
+export { default as LeadDetailPanel } from "./LeadDetailPanel";
+export { default as LiveConsole } from "./LiveConsole";
 
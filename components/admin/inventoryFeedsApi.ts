@@ -0,0 +1,106 @@
+import type {
+  InventoryFeedRunStatus,
+  InventoryFeedSource,
+  InventoryFeedTrigger
+} from "@prisma/client";
+import { requestAdminJson } from "./adminApi";
+
+export interface InventoryFeedRunSummary {
+  id: string;
+  status: InventoryFeedRunStatus;
+  trigger: InventoryFeedTrigger;
+  rowCount: number | null;
+  skippedRows: number;
+  importJobId: string | null;
+  result: {
+    created?: number;
+    updated?: number;
+    markedSold?: number;
+    errors?: Array<{ row: number; error: string }>;
+  } | null;
+  error: string | null;
+  alert: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface InventoryFeedSummary {
+  id: string;
+  name: string;
+  source: InventoryFeedSource;
+  /** Passwords and private keys come back as a placeholder; send it back unchanged to keep them. */
+  settings: Record<string, unknown>;
+  /** Saved column mapping; null detects the columns from the file's headers. */
+  mappingId: string | null;
+  schedule: string;
+  markMissingAsSold: boolean;
+  enabled: boolean;
+  alertEmail: string | null;
+  shrinkAlertPercent: number;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastRowCount: number | null;
+  consecutiveFailures: number;
+  runs: InventoryFeedRunSummary[];
+}
+
+export interface InventoryFeedInput {
+  name: string;
+  source: InventoryFeedSource;
+  settings: Record<string, unknown>;
+  mappingId: string | null;
+  schedule: string;
+  markMissingAsSold: boolean;
+  enabled: boolean;
+  alertEmail: string | null;
+  shrinkAlertPercent: number;
+}
+
+function feedsUrl(dealershipId: string, feedId?: string) {
+  const base = `/api/admin/dealerships/${dealershipId}/inventory/feeds`;
+  return feedId ? `${base}/${feedId}` : base;
+}
+
+export async function fetchInventoryFeeds(dealershipId: string) {
+  return requestAdminJson<{ feeds: InventoryFeedSummary[] }>(feedsUrl(dealershipId));
+}
+
+export async function fetchInventoryFeed(dealershipId: string, feedId: string) {
+  return requestAdminJson<{ feed: InventoryFeedSummary }>(feedsUrl(dealershipId, feedId));
+}
+
+export async function createInventoryFeed(dealershipId: string, input: InventoryFeedInput) {
+  return requestAdminJson<{ feed: InventoryFeedSummary; scheduled: boolean }>(
+    feedsUrl(dealershipId),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input)
+    }
+  );
+}
+
+export async function updateInventoryFeed(
+  dealershipId: string,
+  feedId: string,
+  changes: Partial<InventoryFeedInput>
+) {
+  return requestAdminJson<{ feed: InventoryFeedSummary; scheduled: boolean }>(
+    feedsUrl(dealershipId, feedId),
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes)
+    }
+  );
+}
+
+export async function deleteInventoryFeed(dealershipId: string, feedId: string) {
+  return requestAdminJson(feedsUrl(dealershipId, feedId), { method: "DELETE" });
+}
+
+export async function runInventoryFeed(dealershipId: string, feedId: string) {
+  return requestAdminJson<{ jobId: string }>(`${feedsUrl(dealershipId, feedId)}/run`, {
+    method: "POST"
+  });
+}
@@ -0,0 +1,147 @@
+import type { InventoryImportStatus } from "@prisma/client";
+import type { InventoryColumnMapping } from "@/lib/inventory/importFields";
+import type { InventoryImportRow } from "@/lib/queues/inventoryImportQueue";
+import { requestAdminJson } from "./adminApi";
+
+export interface InventoryMappingSummary {
+  id: string;
+  name: string;
+  columns: InventoryColumnMapping;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InventoryFilePreview {
+  format: "csv" | "json" | "xml";
+  headers: string[];
+  totalRecords: number;
+  /** The first few records as read from the file, keyed by column. */
+  records: Array<Record<string, string>>;
+  layout: { id: string; name: string } | null;
+  mapping: InventoryColumnMapping;
+  rows: InventoryImportRow[];
+}
+
+export interface InventoryImportSummary {
+  id: string;
+  jobId: string;
+  status: InventoryImportStatus;
+  /** The admin who confirmed the upload, or the feed that pulled it. */
+  requestedBy: string | null;
+  feedRunId: string | null;
+  fileRows: number;
+  created: number;
+  updated: number;
+  markedSold: number;
+  errorCount: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  rolledBackAt: string | null;
+  rolledBackBy: string | null;
+  _count: { snapshots: number };
+  canRollBack: boolean;
+}
+
+export interface InventoryImportDetail extends Omit<InventoryImportSummary, "canRollBack"> {
+  errors: Array<{ row: number; error: string }> | null;
+}
+
+function importsUrl(dealershipId: string, importId?: string) {
+  const base = `/api/admin/dealerships/${dealershipId}/inventory/imports`;
+  return importId ? `${base}/${importId}` : base;
+}
+
+function mappingsUrl(dealershipId: string, mappingId?: string) {
+  const base = `/api/admin/dealerships/${dealershipId}/inventory/mappings`;
+  return mappingId ? `${base}/${mappingId}` : base;
+}
+
+export async function previewInventoryFile(dealershipId: string, file: File) {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("dealershipId", dealershipId);
+
+  return requestAdminJson<InventoryFilePreview>("/api/admin/inventory/import/preview", {
+    method: "POST",
+    body: formData
+  });
+}
+
+export async function fetchInventoryMappings(dealershipId: string) {
+  return requestAdminJson<{ mappings: InventoryMappingSummary[] }>(mappingsUrl(dealershipId));
+}
+
+export async function createInventoryMapping(
+  dealershipId: string,
+  name: string,
+  columns: InventoryColumnMapping
+) {
+  return requestAdminJson<{ mapping: InventoryMappingSummary }>(mappingsUrl(dealershipId), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, columns })
+  });
+}
+
+export async function updateInventoryMapping(
+  dealershipId: string,
+  mappingId: string,
+  columns: InventoryColumnMapping
+) {
+  return requestAdminJson<{ mapping: InventoryMappingSummary }>(
+    mappingsUrl(dealershipId, mappingId),
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ columns })
+    }
+  );
+}
+
+export async function deleteInventoryMapping(dealershipId: string, mappingId: string) {
+  return requestAdminJson(mappingsUrl(dealershipId, mappingId), { method: "DELETE" });
+}
+
+export async function applyInventoryImport(jobId: string) {
+  return requestAdminJson<{ jobId: string; totalRows: number }>(
+    `/api/admin/inventory/import/${jobId}/apply`,
+    { method: "POST" }
+  );
+}
+
+export async function fetchInventoryImportSettings(dealershipId: string) {
+  return requestAdminJson<{ removalLimitPercent: number }>(
+    `/api/admin/dealerships/${dealershipId}/inventory/settings`
+  );
+}
+
+export async function updateInventoryImportSettings(
+  dealershipId: string,
+  removalLimitPercent: number
+) {
+  return requestAdminJson<{ removalLimitPercent: number }>(
+    `/api/admin/dealerships/${dealershipId}/inventory/settings`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ removalLimitPercent })
+    }
+  );
+}
+
+export async function fetchInventoryImports(dealershipId: string) {
+  return requestAdminJson<{ imports: InventoryImportSummary[] }>(importsUrl(dealershipId));
+}
+
+export async function fetchInventoryImport(dealershipId: string, importId: string) {
+  return requestAdminJson<{ import: InventoryImportDetail }>(importsUrl(dealershipId, importId));
+}
+
+export async function rollbackInventoryImport(dealershipId: string, importId: string) {
+  return requestAdminJson<{ restored: number; removed: number; markedSold: number }>(
+    `${importsUrl(dealershipId, importId)}/rollback`,
+    { method: "POST" }
+  );
+}
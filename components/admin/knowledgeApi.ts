@@ -0,0 +1,64 @@
+import type { KnowledgeDocumentKind, KnowledgeDocumentStatus } from "@prisma/client";
+import { requestAdminJson } from "./adminApi";
+
+export interface KnowledgeDocumentSummary {
+  id: string;
+  kind: KnowledgeDocumentKind;
+  title: string;
+  content: string;
+  fileName: string | null;
+  status: KnowledgeDocumentStatus;
+  error: string | null;
+  chunkCount: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function knowledgeUrl(dealershipId: string, documentId?: string) {
+  const base = `/api/admin/dealerships/${dealershipId}/knowledge`;
+  return documentId ? `${base}/${documentId}` : base;
+}
+
+export async function fetchKnowledgeDocuments(dealershipId: string) {
+  return requestAdminJson<{ documents: KnowledgeDocumentSummary[] }>(knowledgeUrl(dealershipId));
+}
+
+export async function createFaqEntry(dealershipId: string, question: string, answer: string) {
+  return requestAdminJson(knowledgeUrl(dealershipId), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, answer })
+  });
+}
+
+export async function updateFaqEntry(
+  dealershipId: string,
+  documentId: string,
+  question: string,
+  answer: string
+) {
+  return requestAdminJson(knowledgeUrl(dealershipId, documentId), {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, answer })
+  });
+}
+
+export async function uploadKnowledgeFile(dealershipId: string, file: File, title?: string) {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (title) formData.append("title", title);
+
+  return requestAdminJson(knowledgeUrl(dealershipId), { method: "POST", body: formData });
+}
+
+export async function deleteKnowledgeDocument(dealershipId: string, documentId: string) {
+  return requestAdminJson(knowledgeUrl(dealershipId, documentId), { method: "DELETE" });
+}
+
+export async function reindexKnowledgeDocument(dealershipId: string, documentId: string) {
+  return requestAdminJson(`${knowledgeUrl(dealershipId, documentId)}/reindex`, {
+    method: "POST"
+  });
+}
@@ -0,0 +1,125 @@
+import type {
+  AppointmentStatus,
+  AppointmentType,
+  CrmProvider,
+  CrmPushStatus,
+  LeadAuditAction,
+  LeadIntent,
+  LeadStatus
+} from "@prisma/client";
+import { requestAdminJson } from "./adminApi";
+
+export interface LeadSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  intent: LeadIntent;
+  status: LeadStatus;
+  leadScore: number;
+  pushedToCRM: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LeadListFilters {
+  dealershipId: string;
+  status?: LeadStatus[];
+  q?: string;
+  minScore?: number;
+  createdFrom?: string;
+  createdTo?: string;
+  sort?: "score" | "createdAt" | "updatedAt";
+  order?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+export interface LeadListResponse {
+  leads: LeadSummary[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
+
+interface LeadVehicle {
+  id: string;
+  year: number;
+  make: string;
+  model: string;
+  trim: string | null;
+  price: string | null;
+  stockNumber: string | null;
+}
+
+export interface LeadDetail extends LeadSummary {
+  preferredContact: string;
+  conversationTranscript: Array<{ role: "user" | "assistant"; content: string }> | null;
+  appointments: Array<{
+    id: string;
+    appointmentType: AppointmentType;
+    status: AppointmentStatus;
+    scheduledDatetime: string;
+    durationMinutes: number;
+    vehicle: LeadVehicle | null;
+  }>;
+  session: {
+    id: string;
+    createdAt: string;
+    vehicleViews: Array<{ id: string; createdAt: string; vehicle: LeadVehicle }>;
+  };
+  auditEntries: Array<{
+    id: string;
+    actor: string;
+    action: LeadAuditAction;
+    fromStatus: LeadStatus | null;
+    toStatus: LeadStatus | null;
+    note: string | null;
+    createdAt: string;
+  }>;
+  crmPushAttempts: Array<{
+    id: string;
+    provider: CrmProvider;
+    status: CrmPushStatus;
+    error: string | null;
+    createdAt: string;
+  }>;
+}
+
+export interface LeadDetailResponse {
+  lead: LeadDetail;
+  allowedStatuses: LeadStatus[];
+  score: {
+    score: number;
+    breakdown: Record<string, number>;
+  } | null;
+}
+
+export async function fetchLeads(filters: LeadListFilters): Promise<LeadListResponse> {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === "" || (Array.isArray(value) && !value.length)) continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+
+  return requestAdminJson<LeadListResponse>(`/api/admin/leads?${params.toString()}`);
+}
+
+export async function fetchLead(leadId: string): Promise<LeadDetailResponse> {
+  return requestAdminJson<LeadDetailResponse>(`/api/admin/leads/${leadId}`);
+}
+
+export async function updateLead(
+  leadId: string,
+  changes: { status?: LeadStatus; note?: string }
+): Promise<Pick<LeadDetailResponse, "allowedStatuses">> {
+  return requestAdminJson(`/api/admin/leads/${leadId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes)
+  });
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchCurrentAdmin, type CurrentAdminUser } from "./adminApi";
+
+export function useAdminUser() {
+  const [user, setUser] = useState<CurrentAdminUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchCurrentAdmin()
+      .then((current) => {
+        if (!cancelled) setUser(current);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load your account.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { user, error };
+}
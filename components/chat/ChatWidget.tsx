@@ -1,10 +1,24 @@
 "use client";
 
 import Image from "next/image";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import { format } from "date-fns";
 import clsx from "clsx";
+import type { VehicleSuggestion } from "@/lib/ai/inventoryLookup";
+import VehicleCarousel, { vehicleTitle } from "./VehicleCarousel";
+import {
+  ChatSessionExpiredError,
+  clearStoredSession,
+  initChatSession,
+  loadStoredSession,
+  storeSession,
+  streamChatMessage,
+  subscribeToChatEvents,
+  type ChatReplySource,
+  type ChatSessionState
+} from "./chatApi";
+import type { LiveConversationMessage } from "@/lib/conversations/liveEvents";
 
 type ChatPosition = "bottom-right" | "bottom-left";
 
@@ -19,11 +33,18 @@ interface ChatWidgetProps {
 
 interface ChatMessage {
   id: string;
-  role: "user" | "assistant";
+  role: "user" | "assistant" | "agent" | "system";
   content: string;
+  authorName?: string | null;
   createdAt: Date;
+  vehicles?: VehicleSuggestion[];
+  sources?: ChatReplySource[];
 }
 
+const GREETING_MESSAGE_ID = "greeting";
+const CONNECTION_ERROR_REPLY =
+  "Sorry, I'm having trouble connecting right now. Please try again in a moment.";
+
 export default function ChatWidget({
   dealershipName,
   dealershipId,
@@ -34,10 +55,14 @@ export default function ChatWidget({
 }: ChatWidgetProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [agentName, setAgentName] = useState<string | null>(null);
+  const [agentActive, setAgentActive] = useState(false);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState("");
   const [messages, setMessages] = useState<ChatMessage[]>(() => [
     {
-      id: crypto.randomUUID(),
+      id: GREETING_MESSAGE_ID,
       role: "assistant",
       content: `Hi there! I'm the AI assistant for ${dealershipName}. How can I help you today?`,
       createdAt: new Date()
@@ -45,6 +70,93 @@ export default function ChatWidget({
   ]);
 
   const listRef = useRef<HTMLDivElement>(null);
+  const sessionRef = useRef<ChatSessionState | null>(null);
+  const pendingSessionRef = useRef<Promise<ChatSessionState> | null>(null);
+  const usesBackend = Boolean(dealershipId) && !onSendMessage;
+
+  const showGreeting = useCallback((greeting: string) => {
+    if (!greeting) return;
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === GREETING_MESSAGE_ID ? { ...message, content: greeting } : message
+      )
+    );
+  }, []);
+
+  const ensureSession = useCallback(async () => {
+    if (sessionRef.current) return sessionRef.current;
+    if (!dealershipId) {
+      throw new Error("dealershipId is required to start a chat session");
+    }
+
+    if (!pendingSessionRef.current) {
+      pendingSessionRef.current = initChatSession(dealershipId)
+        .then((session) => {
+          storeSession(dealershipId, session);
+          sessionRef.current = session;
+          setSessionToken(session.sessionToken);
+          return session;
+        })
+        .finally(() => {
+          pendingSessionRef.current = null;
+        });
+    }
+
+    return pendingSessionRef.current;
+  }, [dealershipId]);
+
+  useEffect(() => {
+    if (!usesBackend || !dealershipId) return;
+    const stored = loadStoredSession(dealershipId);
+    if (stored) {
+      sessionRef.current = stored;
+      setSessionToken(stored.sessionToken);
+      showGreeting(stored.greeting);
+    }
+  }, [usesBackend, dealershipId, showGreeting]);
+
+  useEffect(() => {
+    if (!isOpen || !usesBackend || sessionRef.current) return;
+    ensureSession()
+      .then((session) => showGreeting(session.greeting))
+      .catch((error) => {
+        console.error("Failed to start chat session", error);
+      });
+  }, [isOpen, usesBackend, ensureSession, showGreeting]);
+
+  const appendPushedMessage = useCallback((pushed: LiveConversationMessage) => {
+    setMessages((prev) =>
+      prev.some((message) => message.id === pushed.id)
+        ? prev
+        : [
+            ...prev,
+            {
+              id: pushed.id,
+              role: pushed.role === "AGENT" ? "agent" : "system",
+              content: pushed.content,
+              authorName: pushed.authorName,
+              createdAt: new Date(pushed.createdAt)
+            }
+          ]
+    );
+
+    if (pushed.authorName) {
+      setAgentName(pushed.authorName);
+    }
+  }, []);
+
+  // Stays connected while minimised so agent replies are waiting when the panel reopens.
+  useEffect(() => {
+    if (!usesBackend || !sessionToken) return;
+
+    return subscribeToChatEvents(sessionToken, {
+      onMessage: appendPushedMessage,
+      onStatus: (status) => {
+        setAgentActive(status.agentActive);
+        if (status.agentName) setAgentName(status.agentName);
+      }
+    });
+  }, [usesBackend, sessionToken, appendPushedMessage]);
 
   useEffect(() => {
     if (isOpen && listRef.current) {
@@ -98,9 +210,23 @@ export default function ChatWidget({
     setIsOpen((prev) => !prev);
   };
 
-  const handleSend = async () => {
-    const text = inputValue.trim();
-    if (!text) return;
+  const appendAssistantMessage = (content: string) => {
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        role: "assistant",
+        content,
+        createdAt: new Date()
+      }
+    ]);
+  };
+
+  const handleSend = () => sendMessage(inputValue);
+
+  const sendMessage = async (input: string) => {
+    const text = input.trim();
+    if (!text || isSending) return;
 
     const userMessage: ChatMessage = {
       id: crypto.randomUUID(),
@@ -112,21 +238,93 @@ export default function ChatWidget({
     setMessages((prev) => [...prev, userMessage]);
     setInputValue("");
 
+    setIsSending(true);
     setIsTyping(true);
     try {
-      const response = await resolveAssistantResponse(text);
-      const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        content: response,
-        createdAt: new Date()
-      };
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (usesBackend) {
+        await sendToBackend(text);
+      } else {
+        appendAssistantMessage(await resolveAssistantResponse(text));
+      }
+    } catch (error) {
+      console.error("Failed to send chat message", error);
+      appendAssistantMessage(CONNECTION_ERROR_REPLY);
     } finally {
       setIsTyping(false);
+      setIsSending(false);
     }
   };
 
+  const sendToBackend = async (text: string) => {
+    const assistantId = crypto.randomUUID();
+    let hasStarted = false;
+
+    const upsertAssistantMessage = (update: (content: string) => string) => {
+      if (!hasStarted) {
+        hasStarted = true;
+        setIsTyping(false);
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: assistantId,
+            role: "assistant",
+            content: update(""),
+            createdAt: new Date()
+          }
+        ]);
+        return;
+      }
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === assistantId ? { ...message, content: update(message.content) } : message
+        )
+      );
+    };
+
+    const send = async (session: ChatSessionState) =>
+      streamChatMessage({
+        sessionToken: session.sessionToken,
+        message: text,
+        onToken: (delta) => upsertAssistantMessage((content) => content + delta)
+      });
+
+    let result;
+    try {
+      result = await send(await ensureSession());
+    } catch (error) {
+      if (!(error instanceof ChatSessionExpiredError) || !dealershipId) {
+        throw error;
+      }
+      clearStoredSession(dealershipId);
+      sessionRef.current = null;
+      setSessionToken(null);
+      result = await send(await ensureSession());
+    }
+
+    if (result.reply === null) {
+      setAgentActive(Boolean(result.agentActive));
+      return;
+    }
+
+    const reply = result.reply;
+    upsertAssistantMessage(() => reply);
+    if (result.vehicles?.length || result.sources?.length) {
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === assistantId
+            ? { ...message, vehicles: result.vehicles, sources: result.sources }
+            : message
+        )
+      );
+    }
+  };
+
+  const handleScheduleTestDrive = (vehicle: VehicleSuggestion) =>
+    sendMessage(`I'd like to schedule a test drive for the ${vehicleTitle(vehicle)}.`);
+
+  const handleMoreDetails = (vehicle: VehicleSuggestion) =>
+    sendMessage(`Can you tell me more about the ${vehicleTitle(vehicle)}?`);
+
   const resolveAssistantResponse = async (input: string) => {
     if (!onSendMessage) {
       return defaultResponder(input, dealershipName);
@@ -188,7 +386,9 @@ export default function ChatWidget({
                     {dealershipName}
                   </p>
                   <p className="text-xs text-slate-400">
-                    Typically replies in under 2 minutes
+                    {agentActive
+                      ? `You're chatting with ${agentName ?? "our team"}`
+                      : "Typically replies in under 2 minutes"}
                   </p>
                 </div>
               </div>
@@ -218,7 +418,19 @@ export default function ChatWidget({
                 className="flex h-full flex-col gap-3 overflow-y-auto bg-slate-950/90 px-5 py-4"
               >
                 {messages.map((message) => (
-                  <MessageBubble key={message.id} message={message} />
+                  <div key={message.id} className="flex flex-col gap-2">
+                    <MessageBubble message={message} />
+                    {message.vehicles?.length ? (
+                      <div className="pl-11">
+                        <VehicleCarousel
+                          vehicles={message.vehicles}
+                          disabled={isSending}
+                          onScheduleTestDrive={handleScheduleTestDrive}
+                          onMoreDetails={handleMoreDetails}
+                        />
+                      </div>
+                    ) : null}
+                  </div>
                 ))}
                 <AnimatePresence>
                   {isTyping && (
@@ -279,10 +491,10 @@ export default function ChatWidget({
                   <button
                     type="button"
                     onClick={handleSend}
-                    disabled={isTyping || inputValue.trim().length === 0}
+                    disabled={isSending || inputValue.trim().length === 0}
                     className="inline-flex min-w-[88px] items-center justify-center rounded-full bg-indigo-500 px-4 py-2 text-xs font-semibold text-white shadow-lg shadow-indigo-500/30 transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:shadow-none"
                   >
-                    {isTyping ? "Waiting..." : "Send"}
+                    {isSending ? "Waiting..." : "Send"}
                   </button>
                 </div>
               </div>
@@ -324,6 +536,14 @@ export default function ChatWidget({
 function MessageBubble({ message }: { message: ChatMessage }) {
   const isUser = message.role === "user";
 
+  if (message.role === "system") {
+    return (
+      <p className="self-center rounded-full bg-slate-900/80 px-3 py-1 text-center text-[11px] text-slate-400">
+        {message.content}
+      </p>
+    );
+  }
+
   return (
     <div
       className={clsx(
@@ -332,8 +552,14 @@ function MessageBubble({ message }: { message: ChatMessage }) {
       )}
     >
       {!isUser && (
-        <div className="flex h-9 w-9 items-center justify-center rounded-full bg-slate-800 text-sm font-semibold text-white">
-          AI
+        <div
+          className={clsx(
+            "flex h-9 w-9 items-center justify-center rounded-full text-sm font-semibold text-white",
+            message.role === "agent" ? "bg-emerald-600" : "bg-slate-800"
+          )}
+          title={message.authorName ?? undefined}
+        >
+          {message.role === "agent" ? (message.authorName?.charAt(0).toUpperCase() ?? "A") : "AI"}
         </div>
       )}
       <div
@@ -345,6 +571,12 @@ function MessageBubble({ message }: { message: ChatMessage }) {
         )}
       >
         <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
+        {message.sources?.length ? (
+          <p className="mt-2 border-t border-slate-700/60 pt-1 text-[11px] text-slate-400">
+            Sources:{" "}
+            {Array.from(new Set(message.sources.map((source) => source.title))).join(" · ")}
+          </p>
+        ) : null}
         <span
           className={clsx(
             "mt-1 block text-[10px] uppercase tracking-wide",
@@ -0,0 +1,108 @@
+"use client";
+
+import Image from "next/image";
+import clsx from "clsx";
+import type { VehicleSuggestion } from "@/lib/ai/inventoryLookup";
+
+interface VehicleCarouselProps {
+  vehicles: VehicleSuggestion[];
+  disabled?: boolean;
+  onScheduleTestDrive: (vehicle: VehicleSuggestion) => void;
+  onMoreDetails: (vehicle: VehicleSuggestion) => void;
+}
+
+export default function VehicleCarousel({
+  vehicles,
+  disabled,
+  onScheduleTestDrive,
+  onMoreDetails
+}: VehicleCarouselProps) {
+  if (!vehicles.length) return null;
+
+  return (
+    <div className="-mx-1 flex snap-x snap-mandatory gap-3 overflow-x-auto px-1 pb-2">
+      {vehicles.map((vehicle) => (
+        <article
+          key={vehicle.id}
+          className="flex w-56 shrink-0 snap-start flex-col overflow-hidden rounded-2xl border border-slate-800 bg-slate-900/90 shadow shadow-black/30"
+        >
+          <div className="relative h-32 w-full bg-slate-800">
+            {vehicle.primaryImage ? (
+              <Image
+                src={vehicle.primaryImage}
+                alt={vehicleTitle(vehicle)}
+                fill
+                unoptimized
+                sizes="224px"
+                className="object-cover"
+              />
+            ) : (
+              <div className="flex h-full items-center justify-center text-xs uppercase tracking-wide text-slate-500">
+                Photo coming soon
+              </div>
+            )}
+          </div>
+          <div className="flex flex-1 flex-col gap-1 px-3 py-3">
+            <p className="text-sm font-semibold leading-snug text-white">
+              {vehicleTitle(vehicle)}
+            </p>
+            <p className="text-sm font-semibold text-indigo-300">
+              {typeof vehicle.price === "number" ? formatCurrency(vehicle.price) : "Price TBD"}
+            </p>
+            <p className="text-xs text-slate-400">{vehicleDetails(vehicle)}</p>
+            <div className="mt-auto flex flex-col gap-2 pt-3">
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onScheduleTestDrive(vehicle)}
+                className="rounded-full bg-indigo-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700"
+              >
+                Schedule test drive
+              </button>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onMoreDetails(vehicle)}
+                className={clsx(
+                  "rounded-full border border-slate-700 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-slate-500 hover:text-white",
+                  "disabled:cursor-not-allowed disabled:opacity-60"
+                )}
+              >
+                More details
+              </button>
+            </div>
+          </div>
+        </article>
+      ))}
+    </div>
+  );
+}
+
+export function vehicleTitle(vehicle: VehicleSuggestion) {
+  return [vehicle.year, vehicle.make, vehicle.model, vehicle.trim].filter(Boolean).join(" ");
+}
+
+function vehicleDetails(vehicle: VehicleSuggestion) {
+  const details: string[] = [];
+  const condition = vehicle.condition?.toUpperCase();
+
+  if (condition) {
+    details.push(condition === "NEW" ? "New" : condition === "CERTIFIED" ? "Certified" : "Pre-Owned");
+  }
+
+  if (condition !== "NEW" && vehicle.mileage != null) {
+    details.push(`${vehicle.mileage.toLocaleString("en-US")} miles`);
+  } else if (vehicle.exteriorColor) {
+    details.push(vehicle.exteriorColor);
+  }
+
+  return details.join(" · ");
+}
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0
+  }).format(value);
+}
@@ -0,0 +1,201 @@
+import type { VehicleSuggestion } from "@/lib/ai/inventoryLookup";
+import {
+  connectConversationEvents,
+  type LiveConversationHandlers
+} from "@/lib/conversations/liveEvents";
+
+export interface ChatSessionState {
+  sessionToken: string;
+  sessionId: string;
+  greeting: string;
+}
+
+export interface ChatReplyPayload {
+  /** `null` when a human agent has taken over and will answer separately. */
+  reply: string | null;
+  intent: string | null;
+  entities: Record<string, unknown>;
+  vehicles: VehicleSuggestion[];
+  /** Knowledge base documents the reply drew on. */
+  sources?: ChatReplySource[];
+  agentActive?: boolean;
+}
+
+export interface ChatReplySource {
+  documentId: string;
+  title: string;
+}
+
+interface StreamChatMessageOptions {
+  sessionToken: string;
+  message: string;
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+const STORAGE_PREFIX = "dealerchat:session:";
+
+export class ChatSessionExpiredError extends Error {
+  constructor() {
+    super("Chat session expired");
+    this.name = "ChatSessionExpiredError";
+  }
+}
+
+export function loadStoredSession(dealershipId: string): ChatSessionState | null {
+  try {
+    const raw = window.localStorage.getItem(`${STORAGE_PREFIX}${dealershipId}`);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<ChatSessionState>;
+    if (!parsed.sessionToken || !parsed.sessionId) return null;
+    return {
+      sessionToken: parsed.sessionToken,
+      sessionId: parsed.sessionId,
+      greeting: parsed.greeting ?? ""
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function storeSession(dealershipId: string, session: ChatSessionState) {
+  try {
+    window.localStorage.setItem(`${STORAGE_PREFIX}${dealershipId}`, JSON.stringify(session));
+  } catch {
+    // Storage may be unavailable (private mode, third-party iframe restrictions).
+  }
+}
+
+export function clearStoredSession(dealershipId: string) {
+  try {
+    window.localStorage.removeItem(`${STORAGE_PREFIX}${dealershipId}`);
+  } catch {
+    // Ignore storage errors.
+  }
+}
+
+export async function initChatSession(dealershipId: string): Promise<ChatSessionState> {
+  const response = await fetch("/api/chat/init", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ dealershipId })
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.message ?? `Chat init failed with status ${response.status}`);
+  }
+
+  const payload = (await response.json()) as ChatSessionState;
+  return {
+    sessionToken: payload.sessionToken,
+    sessionId: payload.sessionId,
+    greeting: payload.greeting
+  };
+}
+
+export async function streamChatMessage({
+  sessionToken,
+  message,
+  onToken,
+  signal
+}: StreamChatMessageOptions): Promise<ChatReplyPayload> {
+  const response = await fetch("/api/chat/message", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream"
+    },
+    body: JSON.stringify({ sessionToken, message, stream: true }),
+    signal
+  });
+
+  if (response.status === 401) {
+    throw new ChatSessionExpiredError();
+  }
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.message ?? `Chat request failed with status ${response.status}`);
+  }
+
+  if (response.headers.get("Content-Type")?.includes("application/json")) {
+    return (await response.json()) as ChatReplyPayload;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let streamedReply = "";
+  let result: ChatReplyPayload | null = null;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const parsed = parseServerSentEvent(rawEvent);
+      if (!parsed) continue;
+
+      if (parsed.event === "token") {
+        const delta = String((parsed.data as { delta?: string }).delta ?? "");
+        streamedReply += delta;
+        onToken?.(delta);
+      } else if (parsed.event === "done") {
+        result = parsed.data as ChatReplyPayload;
+      } else if (parsed.event === "error") {
+        throw new Error(
+          String((parsed.data as { message?: string }).message ?? "Chat stream failed")
+        );
+      }
+    }
+  }
+
+  if (result) {
+    return result;
+  }
+
+  if (streamedReply) {
+    return { reply: streamedReply, intent: "UNKNOWN", entities: {}, vehicles: [] };
+  }
+
+  throw new Error("Chat stream ended without a reply");
+}
+
+export function subscribeToChatEvents(
+  sessionToken: string,
+  handlers: LiveConversationHandlers
+) {
+  return connectConversationEvents((after) => {
+    const params = new URLSearchParams({ sessionToken });
+    if (after) params.set("after", after);
+    return `/api/chat/events?${params.toString()}`;
+  }, handlers);
+}
+
+function parseServerSentEvent(rawEvent: string) {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (!dataLines.length) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) as unknown };
+  } catch {
+    return null;
+  }
+}
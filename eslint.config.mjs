@@ -1,9 +0,0 @@
-import nextConfig from "eslint-config-next";
-
-export default [
-  {
-    ignores: ["node_modules", ".next", "dist"]
-  },
-  ...nextConfig()
-];
-
@@ -0,0 +1,303 @@
+import { getChildren, getDefinedAttributes, type XmlNode } from "./xml";
+
+type Occurrence = "1" | "?" | "+" | "*";
+
+interface AttributeRule {
+  values?: readonly string[];
+  pattern?: RegExp;
+  required?: boolean;
+}
+
+interface ElementRule {
+  /** Allowed child elements, in document order. Omitted for text-only elements. */
+  children?: Array<[string, Occurrence]>;
+  attributes?: Record<string, AttributeRule>;
+  text?: RegExp;
+  check?: (xml: XmlNode) => string | null;
+}
+
+const BINARY = { values: ["0", "1"] } as const;
+const TEXT = /\S/;
+const NUMBER = /^\d+(\.\d+)?$/;
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const ID_RULE: ElementRule = {
+  text: TEXT,
+  attributes: { sequence: { pattern: /^\d+$/ }, source: {} }
+};
+
+const CONTACT_RULE: ElementRule = {
+  children: [
+    ["name", "+"],
+    ["email", "?"],
+    ["phone", "*"],
+    ["address", "?"]
+  ],
+  attributes: { primarycontact: BINARY },
+  check: (xml) =>
+    getChildren(xml).some(
+      (child) => typeof child !== "string" && (child.name === "email" || child.name === "phone")
+    )
+      ? null
+      : "contact requires an email or phone"
+};
+
+/** Element rules transcribed from the ADF 1.0 DTD. */
+const ADF_RULES: Record<string, ElementRule> = {
+  adf: { children: [["prospect", "+"]] },
+  prospect: {
+    children: [
+      ["id", "*"],
+      ["requestdate", "1"],
+      ["vehicle", "+"],
+      ["customer", "1"],
+      ["vendor", "1"],
+      ["provider", "?"]
+    ],
+    attributes: { status: { values: ["new", "resend"] } }
+  },
+  id: ID_RULE,
+  requestdate: { text: ISO_8601 },
+  vehicle: {
+    children: [
+      ["id", "*"],
+      ["year", "1"],
+      ["make", "1"],
+      ["model", "1"],
+      ["vin", "?"],
+      ["stock", "?"],
+      ["trim", "?"],
+      ["doors", "?"],
+      ["bodystyle", "?"],
+      ["transmission", "?"],
+      ["odometer", "?"],
+      ["condition", "?"],
+      ["colorcombination", "*"],
+      ["imagetag", "?"],
+      ["price", "*"],
+      ["pricecomments", "?"],
+      ["option", "*"],
+      ["finance", "?"],
+      ["comments", "?"]
+    ],
+    attributes: {
+      interest: { values: ["buy", "lease", "sell", "trade-in", "test-drive"] },
+      status: { values: ["new", "used"] }
+    }
+  },
+  // The DTD allows an empty year; it is left empty for a generic vehicle interest.
+  year: { text: /^(\d{4})?$/ },
+  make: { text: TEXT },
+  model: { text: TEXT },
+  vin: { text: /^[A-HJ-NPR-Z0-9]{17}$/i },
+  stock: { text: TEXT },
+  trim: { text: TEXT },
+  doors: { text: /^\d+$/ },
+  bodystyle: { text: TEXT },
+  transmission: { text: /^[AM]$/ },
+  odometer: {
+    text: /^\d+$/,
+    attributes: {
+      status: { values: ["unknown", "rollover", "replaced", "original"] },
+      units: { values: ["km", "mi"] }
+    }
+  },
+  condition: { text: /^(excellent|good|fair|poor|unknown)$/ },
+  colorcombination: {
+    children: [
+      ["interiorcolor", "?"],
+      ["exteriorcolor", "?"],
+      ["preference", "?"]
+    ]
+  },
+  interiorcolor: { text: TEXT },
+  exteriorcolor: { text: TEXT },
+  preference: { text: /^\d+$/ },
+  price: {
+    text: NUMBER,
+    attributes: {
+      type: { values: ["quote", "offer", "msrp", "invoice", "call", "appraisal", "asking"] },
+      currency: { pattern: /^[A-Z]{3}$/ },
+      delta: { values: ["absolute", "relative", "percentage"] },
+      relativeto: { values: ["msrp", "invoice"] },
+      source: {}
+    }
+  },
+  customer: {
+    children: [
+      ["contact", "1"],
+      ["id", "*"],
+      ["timeframe", "?"],
+      ["comments", "?"]
+    ]
+  },
+  contact: CONTACT_RULE,
+  name: {
+    text: TEXT,
+    attributes: {
+      part: { values: ["first", "middle", "suffix", "last", "full"] },
+      type: { values: ["individual", "business"] }
+    }
+  },
+  email: { text: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, attributes: { preferredcontact: BINARY } },
+  phone: {
+    text: /^\+?[\d\s().-]{7,}$/,
+    attributes: {
+      type: { values: ["voice", "fax", "cellphone", "pager"] },
+      time: { values: ["morning", "afternoon", "evening", "nopreference", "day"] },
+      preferredcontact: BINARY
+    }
+  },
+  address: {
+    children: [
+      ["street", "+"],
+      ["apartment", "?"],
+      ["city", "?"],
+      ["regioncode", "?"],
+      ["postalcode", "?"],
+      ["country", "?"]
+    ],
+    attributes: { type: { values: ["work", "home", "delivery"] } }
+  },
+  street: { text: TEXT, attributes: { line: { values: ["1", "2", "3", "4", "5"] } } },
+  timeframe: {
+    children: [
+      ["description", "1"],
+      ["earliestdate", "?"],
+      ["latestdate", "?"]
+    ]
+  },
+  description: { text: TEXT },
+  earliestdate: { text: ISO_8601 },
+  latestdate: { text: ISO_8601 },
+  comments: { text: TEXT },
+  vendor: {
+    children: [
+      ["id", "*"],
+      ["vendorname", "1"],
+      ["url", "?"],
+      ["contact", "1"]
+    ]
+  },
+  vendorname: { text: TEXT },
+  url: { text: /^https?:\/\/\S+$/ },
+  provider: {
+    children: [
+      ["id", "*"],
+      ["name", "1"],
+      ["service", "?"],
+      ["url", "?"],
+      ["email", "?"],
+      ["phone", "?"],
+      ["contact", "?"]
+    ]
+  },
+  service: { text: TEXT }
+};
+
+export class AdfValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`ADF document is invalid: ${issues.join("; ")}`);
+    this.name = "AdfValidationError";
+  }
+}
+
+/** Returns every way the document deviates from the ADF 1.0 DTD; empty when valid. */
+export function validateAdfDocument(document: XmlNode): string[] {
+  if (document.name !== "adf") {
+    return [`root element must be <adf>, found <${document.name}>`];
+  }
+  return validateElement(document, "adf");
+}
+
+export function assertValidAdfDocument(document: XmlNode) {
+  const issues = validateAdfDocument(document);
+  if (issues.length) {
+    throw new AdfValidationError(issues);
+  }
+}
+
+function validateElement(xml: XmlNode, path: string): string[] {
+  const rule = ADF_RULES[xml.name];
+  if (!rule) {
+    return [`${path}: unknown element <${xml.name}>`];
+  }
+
+  const issues: string[] = [];
+
+  for (const [key, value] of getDefinedAttributes(xml)) {
+    const attribute = rule.attributes?.[key];
+    const text = String(value);
+    if (!attribute) {
+      issues.push(`${path}: unknown attribute "${key}"`);
+    } else if (attribute.values && !attribute.values.includes(text)) {
+      issues.push(`${path}: attribute "${key}" must be one of ${attribute.values.join(", ")}`);
+    } else if (attribute.pattern && !attribute.pattern.test(text)) {
+      issues.push(`${path}: attribute "${key}" has invalid value "${text}"`);
+    }
+  }
+
+  for (const [key, attribute] of Object.entries(rule.attributes ?? {})) {
+    if (attribute.required && xml.attributes?.[key] === undefined) {
+      issues.push(`${path}: missing required attribute "${key}"`);
+    }
+  }
+
+  const children = getChildren(xml);
+  const elements = children.filter((child): child is XmlNode => typeof child !== "string");
+  const text = children.filter((child): child is string => typeof child === "string").join("");
+
+  if (!rule.children) {
+    if (elements.length) {
+      issues.push(`${path}: <${xml.name}> must contain text only`);
+    }
+    if (rule.text && !rule.text.test(text.trim())) {
+      issues.push(`${path}: invalid value "${text.trim()}"`);
+    }
+  } else {
+    if (text.trim()) {
+      issues.push(`${path}: <${xml.name}> must not contain text`);
+    }
+    issues.push(...validateSequence(elements, rule.children, path));
+    elements.forEach((child) => {
+      issues.push(...validateElement(child, `${path} > ${child.name}`));
+    });
+  }
+
+  const customIssue = rule.check?.(xml);
+  if (customIssue) {
+    issues.push(`${path}: ${customIssue}`);
+  }
+
+  return issues;
+}
+
+function validateSequence(
+  elements: XmlNode[],
+  sequence: Array<[string, Occurrence]>,
+  path: string
+) {
+  const issues: string[] = [];
+  let index = 0;
+
+  for (const [name, occurrence] of sequence) {
+    let count = 0;
+    while (elements[index]?.name === name) {
+      count += 1;
+      index += 1;
+    }
+
+    if ((occurrence === "1" || occurrence === "+") && count === 0) {
+      issues.push(`${path}: missing required <${name}>`);
+    }
+    if ((occurrence === "1" || occurrence === "?") && count > 1) {
+      issues.push(`${path}: <${name}> may appear at most once`);
+    }
+  }
+
+  elements.slice(index).forEach((element) => {
+    issues.push(`${path}: unexpected <${element.name}>`);
+  });
+
+  return issues;
+}
@@ -0,0 +1,69 @@
+import { LeadIntent, LeadPreferredContact, LeadStatus } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+import { serializeLeadToAdf, type AdfLead } from "./serializer";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+function buildLead(overrides: Partial<AdfLead> = {}): AdfLead {
+  return {
+    id: "lead-1",
+    dealershipId: "dealership-1",
+    sessionId: "session-1",
+    firstName: "Jamie",
+    lastName: "Rivera",
+    email: "jamie@example.com",
+    phone: "+15555550100",
+    preferredContact: LeadPreferredContact.PHONE,
+    vehicleInterest: null,
+    intent: LeadIntent.INQUIRY,
+    status: LeadStatus.NEW,
+    leadScore: 0,
+    pushedToCRM: false,
+    conversationTranscript: [{ role: "user", content: "Do you have any trucks?" }],
+    createdAt: new Date("2026-01-05T15:00:00.000Z"),
+    updatedAt: new Date("2026-01-05T15:00:00.000Z"),
+    dealership: {
+      id: "dealership-1",
+      name: "Riverside Motors",
+      phone: "+15555550199",
+      email: "sales@riverside.example",
+      address: "1 Main St"
+    },
+    appointments: [],
+    session: { vehicleViews: [] },
+    ...overrides
+  } as unknown as AdfLead;
+}
+
+describe("serializeLeadToAdf", () => {
+  it("sends a generic vehicle interest for a lead with no vehicle", () => {
+    const xml = serializeLeadToAdf(buildLead());
+
+    expect(xml).toContain('<vehicle interest="buy" status="used">');
+    expect(xml).toContain("<year/>");
+    expect(xml).toContain("<make>Unknown</make>");
+    expect(xml).toContain("<model>Unknown</model>");
+  });
+
+  it("uses the make and model the customer asked about", () => {
+    const xml = serializeLeadToAdf(
+      buildLead({ vehicleInterest: { make: "Ford", model: null, year: "2022" } })
+    );
+
+    expect(xml).toContain("<year>2022</year>");
+    expect(xml).toContain("<make>Ford</make>");
+    expect(xml).toContain("<model>Unknown</model>");
+  });
+
+  it("leaves out vendor contact details the dealership hasn't filled in", () => {
+    const lead = buildLead();
+    const xml = serializeLeadToAdf({
+      ...lead,
+      dealership: { ...lead.dealership, email: "  " }
+    });
+    const vendor = xml.slice(xml.indexOf("<vendor>"), xml.indexOf("</vendor>"));
+
+    expect(vendor).not.toContain("<email");
+    expect(vendor).toContain('<phone type="voice">+15555550199</phone>');
+  });
+});
@@ -0,0 +1,287 @@
+import { AppointmentStatus, LeadIntent, type Prisma, type Vehicle } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { assertValidAdfDocument } from "./schema";
+import { node, renderXml, type XmlNode } from "./xml";
+
+export const ADF_PROVIDER_NAME = "DealerChat AI";
+const MAX_VEHICLES = 3;
+const MAX_TRANSCRIPT_EXCERPT = 3;
+const MAX_COMMENT_LENGTH = 240;
+const UNKNOWN_VEHICLE = "Unknown";
+
+export const adfLeadInclude = {
+  dealership: true,
+  appointments: {
+    include: { vehicle: true },
+    orderBy: { scheduledDatetime: "asc" }
+  },
+  session: {
+    include: {
+      vehicleViews: {
+        include: { vehicle: true },
+        orderBy: { createdAt: "desc" },
+        take: MAX_VEHICLES
+      }
+    }
+  }
+} satisfies Prisma.LeadInclude;
+
+export type AdfLead = Prisma.LeadGetPayload<{ include: typeof adfLeadInclude }>;
+
+export async function loadAdfLead(leadId: string) {
+  return prisma.lead.findUnique({
+    where: { id: leadId },
+    include: adfLeadInclude
+  });
+}
+
+/** `year` is null for a generic interest where the customer never named a model year. */
+type AdfVehicle = Pick<Vehicle, "make" | "model"> & { year: number | null } &
+  Partial<
+    Pick<
+      Vehicle,
+      | "id"
+      | "vin"
+      | "stockNumber"
+      | "trim"
+      | "condition"
+      | "bodyType"
+      | "transmission"
+      | "mileage"
+      | "exteriorColor"
+      | "interiorColor"
+      | "price"
+    >
+  >;
+
+const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED
+];
+
+/** Builds the ADF 1.0 (Auto-lead Data Format) document tree for a lead. */
+export function buildAdfDocument(lead: AdfLead): XmlNode {
+  const prospect = node("prospect", { status: "new" }, [
+    node("id", { sequence: 1, source: ADF_PROVIDER_NAME }, lead.id),
+    node("requestdate", {}, lead.createdAt.toISOString()),
+    ...getInterestedVehicles(lead).map((vehicle) => serializeVehicle(vehicle, lead.intent)),
+    serializeCustomer(lead),
+    serializeVendor(lead),
+    node("provider", {}, [
+      node("name", { part: "full" }, ADF_PROVIDER_NAME),
+      node("service", {}, "AI chat assistant")
+    ])
+  ]);
+
+  return node("adf", {}, [prospect]);
+}
+
+/** Serializes a lead as ADF XML, throwing `AdfValidationError` if it would not pass the DTD. */
+export function serializeLeadToAdf(lead: AdfLead) {
+  const document = buildAdfDocument(lead);
+  assertValidAdfDocument(document);
+
+  return [`<?xml version="1.0" encoding="UTF-8"?>`, `<?adf version="1.0"?>`, renderXml(document)].join(
+    "\n"
+  );
+}
+
+export function getInterestedVehicles(lead: AdfLead): AdfVehicle[] {
+  const vehicles = new Map<string, AdfVehicle>();
+
+  for (const appointment of lead.appointments) {
+    if (appointment.vehicle) {
+      vehicles.set(appointment.vehicle.id, appointment.vehicle);
+    }
+  }
+
+  for (const view of lead.session.vehicleViews) {
+    vehicles.set(view.vehicle.id, view.vehicle);
+  }
+
+  if (!vehicles.size) {
+    parseVehicleInterest(lead.vehicleInterest).forEach((vehicle, index) => {
+      vehicles.set(`interest-${index}`, vehicle);
+    });
+  }
+
+  // ADF requires a vehicle, so a lead captured before any vehicle came up
+  // still goes out with a generic interest rather than failing validation.
+  if (!vehicles.size) {
+    vehicles.set("interest-unknown", {
+      year: null,
+      make: UNKNOWN_VEHICLE,
+      model: UNKNOWN_VEHICLE
+    });
+  }
+
+  return Array.from(vehicles.values()).slice(0, MAX_VEHICLES);
+}
+
+function parseVehicleInterest(value: Prisma.JsonValue): AdfVehicle[] {
+  const entries = Array.isArray(value) ? value : value ? [value] : [];
+
+  return entries.flatMap((entry) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) return [];
+    const year = Number(entry.year);
+    const make = typeof entry.make === "string" ? entry.make.trim() : "";
+    const model = typeof entry.model === "string" ? entry.model.trim() : "";
+    if (!make && !model) return [];
+
+    return [
+      {
+        year: /^\d{4}$/.test(String(entry.year ?? "").trim()) ? year : null,
+        make: make || UNKNOWN_VEHICLE,
+        model: model || UNKNOWN_VEHICLE,
+        trim: typeof entry.trim === "string" ? entry.trim : null,
+        vin: typeof entry.vin === "string" ? entry.vin : undefined
+      }
+    ];
+  });
+}
+
+function serializeVehicle(vehicle: AdfVehicle, intent: LeadIntent): XmlNode {
+  const transmission = toAdfTransmission(vehicle.transmission);
+
+  return node(
+    "vehicle",
+    {
+      interest: intent === LeadIntent.TEST_DRIVE ? "test-drive" : "buy",
+      status: vehicle.condition === "NEW" ? "new" : "used"
+    },
+    [
+      vehicle.id ? node("id", { sequence: 1, source: ADF_PROVIDER_NAME }, vehicle.id) : null,
+      node("year", {}, vehicle.year ? String(vehicle.year) : ""),
+      node("make", {}, vehicle.make),
+      node("model", {}, vehicle.model),
+      vehicle.vin ? node("vin", {}, vehicle.vin) : null,
+      vehicle.stockNumber ? node("stock", {}, vehicle.stockNumber) : null,
+      vehicle.trim ? node("trim", {}, vehicle.trim) : null,
+      vehicle.bodyType ? node("bodystyle", {}, vehicle.bodyType) : null,
+      transmission ? node("transmission", {}, transmission) : null,
+      vehicle.mileage != null
+        ? node("odometer", { status: "original", units: "mi" }, String(vehicle.mileage))
+        : null,
+      vehicle.exteriorColor || vehicle.interiorColor
+        ? node("colorcombination", {}, [
+            vehicle.interiorColor ? node("interiorcolor", {}, vehicle.interiorColor) : null,
+            vehicle.exteriorColor ? node("exteriorcolor", {}, vehicle.exteriorColor) : null,
+            node("preference", {}, "1")
+          ])
+        : null,
+      vehicle.price
+        ? node("price", { type: "asking", currency: "USD" }, vehicle.price.toFixed(2))
+        : null
+    ]
+  );
+}
+
+function toAdfTransmission(value: string | null | undefined) {
+  if (!value) return null;
+  if (/^(a|auto|automatic|cvt)/i.test(value.trim())) return "A";
+  if (/^(m|manual)/i.test(value.trim())) return "M";
+  return null;
+}
+
+function serializeCustomer(lead: AdfLead): XmlNode {
+  const nextAppointment = lead.appointments.find(
+    (appointment) =>
+      ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status) &&
+      appointment.scheduledDatetime.getTime() >= Date.now()
+  );
+
+  return node("customer", {}, [
+    node("contact", { primarycontact: 1 }, [
+      node("name", { part: "first", type: "individual" }, lead.firstName),
+      node("name", { part: "last", type: "individual" }, lead.lastName),
+      node("email", { preferredcontact: lead.preferredContact === "EMAIL" ? 1 : 0 }, lead.email),
+      node(
+        "phone",
+        {
+          type: lead.preferredContact === "SMS" ? "cellphone" : "voice",
+          preferredcontact: lead.preferredContact === "EMAIL" ? 0 : 1
+        },
+        lead.phone
+      )
+    ]),
+    nextAppointment
+      ? node("timeframe", {}, [
+          node(
+            "description",
+            {},
+            `${capitalize(humanize(nextAppointment.appointmentType))} appointment`
+          ),
+          node("earliestdate", {}, nextAppointment.scheduledDatetime.toISOString()),
+          node(
+            "latestdate",
+            {},
+            new Date(
+              nextAppointment.scheduledDatetime.getTime() + nextAppointment.durationMinutes * 60_000
+            ).toISOString()
+          )
+        ])
+      : null,
+    node("comments", {}, buildComments(lead))
+  ]);
+}
+
+function serializeVendor(lead: AdfLead): XmlNode {
+  const { dealership } = lead;
+  return node("vendor", {}, [
+    node("id", { sequence: 1, source: ADF_PROVIDER_NAME }, dealership.id),
+    node("vendorname", {}, dealership.name),
+    node("contact", {}, [
+      node("name", { part: "full" }, dealership.name),
+      dealership.email.trim() ? node("email", {}, dealership.email.trim()) : null,
+      dealership.phone.trim() ? node("phone", { type: "voice" }, dealership.phone.trim()) : null,
+      dealership.address.trim()
+        ? node("address", {}, [node("street", { line: 1 }, dealership.address)])
+        : null
+    ])
+  ]);
+}
+
+function buildComments(lead: AdfLead) {
+  const lines = [`Lead intent: ${humanize(lead.intent)}.`, "Captured via website chat."];
+
+  for (const appointment of lead.appointments) {
+    lines.push(
+      `${capitalize(humanize(appointment.appointmentType))} appointment ${appointment.status.toLowerCase()} for ${appointment.scheduledDatetime.toISOString()}${
+        appointment.vehicle
+          ? ` (${[appointment.vehicle.year, appointment.vehicle.make, appointment.vehicle.model].join(" ")})`
+          : ""
+      }.`
+    );
+  }
+
+  const excerpt = getTranscriptExcerpt(lead.conversationTranscript);
+  if (excerpt.length) {
+    lines.push(`Customer said: ${excerpt.map((message) => `"${message}"`).join(" ")}`);
+  }
+
+  return lines.join(" ");
+}
+
+function getTranscriptExcerpt(transcript: Prisma.JsonValue) {
+  if (!Array.isArray(transcript)) return [];
+
+  return transcript
+    .flatMap((entry) =>
+      entry && typeof entry === "object" && !Array.isArray(entry) && entry.role === "user"
+        ? [String(entry.content ?? "").trim()]
+        : []
+    )
+    .filter(Boolean)
+    .slice(-MAX_TRANSCRIPT_EXCERPT)
+    .map((message) =>
+      message.length > MAX_COMMENT_LENGTH ? `${message.slice(0, MAX_COMMENT_LENGTH - 1)}…` : message
+    );
+}
+
+function humanize(value: string) {
+  return value.replace(/_/g, " ").toLowerCase();
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
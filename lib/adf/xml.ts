@@ -0,0 +1,62 @@
+export type XmlChild = XmlNode | string | null | undefined | false;
+
+export interface XmlNode {
+  name: string;
+  attributes?: Record<string, string | number | undefined>;
+  children?: XmlChild[];
+}
+
+export function node(
+  name: string,
+  attributes: XmlNode["attributes"],
+  children: XmlChild[] | string
+): XmlNode {
+  return {
+    name,
+    attributes,
+    children: typeof children === "string" ? [children] : children
+  };
+}
+
+export function getChildren(xml: XmlNode) {
+  return (xml.children ?? []).filter((child): child is XmlNode | string => Boolean(child));
+}
+
+export function getDefinedAttributes(xml: XmlNode) {
+  return Object.entries(xml.attributes ?? {}).filter(
+    (entry): entry is [string, string | number] => entry[1] !== undefined
+  );
+}
+
+export function renderXml(xml: XmlNode, depth = 0): string {
+  const indent = "  ".repeat(depth);
+  const attributes = getDefinedAttributes(xml)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join("");
+  const children = getChildren(xml);
+
+  if (!children.length) {
+    return `${indent}<${xml.name}${attributes}/>`;
+  }
+
+  if (children.every((child) => typeof child === "string")) {
+    return `${indent}<${xml.name}${attributes}>${escapeXml(children.join(""))}</${xml.name}>`;
+  }
+
+  const inner = children
+    .map((child) =>
+      typeof child === "string" ? `${indent}  ${escapeXml(child)}` : renderXml(child, depth + 1)
+    )
+    .join("\n");
+
+  return `${indent}<${xml.name}${attributes}>\n${inner}\n${indent}</${xml.name}>`;
+}
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,398 @@
+import OpenAI from "openai";
+import { LeadIntent, Prisma } from "@prisma/client";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import { ApiError } from "@/lib/api-error";
+import {
+  classifyIntent,
+  type ChatIntent,
+  type IntentClassificationEntities,
+  type IntentClassificationResult
+} from "./intentClassifier";
+import { buildConversationContext, type OpenAIMessage } from "./contextManager";
+import { handleLeadCapture } from "./leadCapture";
+import { recalculateLeadScore } from "@/lib/leads/scoring";
+import { appendSessionMessage, listSessionTranscript } from "@/lib/conversations/messages";
+import { getAssistantConfig, type AssistantConfig } from "@/lib/assistant/config";
+import type { KnowledgeSource } from "@/lib/knowledge/retrieval";
+import {
+  DEFAULT_DURATION_MINUTES,
+  findAvailableSlots,
+  formatSlot
+} from "@/lib/appointments/scheduling";
+import { describeInventoryFacets, getInventoryFacets } from "@/lib/inventory/facets";
+import { vehicleFilterSchema } from "@/lib/inventory/search";
+import { describeVehicleForAssistant } from "@/lib/inventory/details";
+import {
+  buildInventorySearchParams,
+  formatInventoryReply,
+  mapVehicleFromRecord,
+  searchInventory,
+  type VehicleSuggestion
+} from "./inventoryLookup";
+import {
+  recordVehicleDiscussed,
+  recordVehiclesShown,
+  resolveReferencedVehicle
+} from "./vehicleReference";
+
+const openai = new OpenAI({
+  apiKey: env.OPENAI_API_KEY
+});
+
+const OFFERED_SLOT_COUNT = 4;
+
+export interface ChatPipelineSession {
+  id: string;
+  dealershipId: string;
+  dealership: {
+    name: string;
+  };
+}
+
+export interface PreparedChatTurn {
+  session: ChatPipelineSession;
+  message: string;
+  classification: IntentClassificationResult;
+  assistant: AssistantConfig;
+  context: OpenAIMessage[];
+  sources: KnowledgeSource[];
+  vehicles: VehicleSuggestion[];
+  /**
+   * Reply decided without the LLM (e.g. formatted inventory results).
+   * When set, the generation stage is skipped.
+   */
+  presetReply: string | null;
+}
+
+export interface ChatPipelineResult {
+  reply: string;
+  intent: ChatIntent;
+  confidence: number;
+  entities: IntentClassificationEntities;
+  vehicles: VehicleSuggestion[];
+  /** Knowledge base documents the reply drew on. */
+  sources: KnowledgeSource[];
+  leadId?: string;
+}
+
+interface ChatPipelineOptions {
+  session: ChatPipelineSession;
+  message: string;
+}
+
+/** Intents answered from a specific vehicle's data when one can be identified. */
+const VEHICLE_REFERENCE_INTENTS = new Set<ChatIntent>([
+  "VEHICLE_DETAILS",
+  "PRICING",
+  "AVAILABILITY"
+]);
+
+const LEAD_INTENT_BY_CHAT_INTENT: Partial<Record<ChatIntent, LeadIntent>> = {
+  TEST_DRIVE_REQUEST: LeadIntent.TEST_DRIVE,
+  TRADE_IN: LeadIntent.TRADE_IN
+};
+
+/**
+ * Runs a customer message through every stage of the assistant:
+ * classify → inventory lookup → build context → generate → lead capture → persist.
+ */
+export async function runChatPipeline({
+  session,
+  message
+}: ChatPipelineOptions): Promise<ChatPipelineResult> {
+  const turn = await prepareChatTurn({ session, message });
+  const reply = turn.presetReply ?? (await generateReply(turn.context, turn.assistant));
+  return completeChatTurn(turn, reply);
+}
+
+export async function prepareChatTurn({
+  session,
+  message
+}: ChatPipelineOptions): Promise<PreparedChatTurn> {
+  await appendSessionMessage({
+    sessionId: session.id,
+    role: "USER",
+    content: message,
+    intent: null,
+    entities: Prisma.JsonNull
+  });
+
+  const [classification, assistant] = await Promise.all([
+    classifyIntent(message, session.dealership.name),
+    getAssistantConfig(session.dealershipId, session.dealership.name)
+  ]);
+
+  let vehicles: VehicleSuggestion[] = [];
+  let presetReply: string | null = null;
+  const supplementalContext: string[] = [];
+
+  if (classification.intent === "INVENTORY_SEARCH") {
+    const inventory = await lookupInventory(session, classification.entities);
+    vehicles = inventory.vehicles;
+    presetReply = inventory.reply;
+  }
+
+  const referencedVehicle = VEHICLE_REFERENCE_INTENTS.has(classification.intent)
+    ? await lookupReferencedVehicle(session, message, classification.entities)
+    : null;
+
+  if (referencedVehicle) {
+    supplementalContext.push(describeVehicleForAssistant(referencedVehicle));
+    if (classification.intent === "VEHICLE_DETAILS") {
+      vehicles = [mapVehicleFromRecord(referencedVehicle)];
+    }
+  }
+
+  if (classification.intent === "AVAILABILITY" && !referencedVehicle) {
+    const overview = await describeInventoryOverview(session, classification.entities);
+    if (overview) {
+      supplementalContext.push(overview);
+    }
+  }
+
+  if (classification.intent === "TEST_DRIVE_REQUEST") {
+    const slotNote = await describeTestDriveSlots(session, message, classification.entities);
+    if (slotNote) {
+      supplementalContext.push(slotNote);
+    }
+  }
+
+  const { messages: context, sources } = await buildConversationContext({
+    sessionId: session.id,
+    assistant,
+    query: message,
+    intent: classification.intent,
+    intentConfidence: classification.confidence,
+    entities: classification.entities,
+    supplementalContext
+  });
+
+  return {
+    session,
+    message,
+    classification,
+    assistant,
+    context,
+    sources,
+    vehicles,
+    presetReply
+  };
+}
+
+export async function generateReply(
+  context: OpenAIMessage[],
+  { model, temperature }: Pick<AssistantConfig, "model" | "temperature">
+) {
+  const completion = await openai.chat.completions.create({
+    model,
+    temperature,
+    messages: context
+  });
+
+  const reply = completion.choices[0]?.message?.content?.trim();
+  if (!reply) {
+    throw new ApiError(502, "No response from AI assistant");
+  }
+
+  return reply;
+}
+
+export async function* streamReply(
+  context: OpenAIMessage[],
+  { model, temperature }: Pick<AssistantConfig, "model" | "temperature">,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const stream = await openai.chat.completions.create(
+    {
+      model,
+      temperature,
+      messages: context,
+      stream: true
+    },
+    { signal }
+  );
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      yield delta;
+    }
+  }
+}
+
+export async function completeChatTurn(
+  turn: PreparedChatTurn,
+  generatedReply: string
+): Promise<ChatPipelineResult> {
+  const { session, classification, vehicles } = turn;
+  // Preset replies (e.g. inventory results) never saw the knowledge excerpts.
+  const sources = turn.presetReply ? [] : turn.sources;
+
+  // The whole stored conversation, not the prompt window, which is trimmed to fit the model.
+  const conversation = [
+    ...(await listSessionTranscript(session.id)),
+    { role: "assistant" as const, content: generatedReply }
+  ];
+
+  const leadCapture = await handleLeadCapture({
+    sessionId: session.id,
+    dealershipId: session.dealershipId,
+    conversation,
+    intent: LEAD_INTENT_BY_CHAT_INTENT[classification.intent],
+    vehicle: classification.entities.vehicle
+  });
+
+  const reply = leadCapture.needsInfo.length
+    ? `${generatedReply}\n\n${leadCapture.needsInfo[0]}`
+    : generatedReply;
+
+  await appendSessionMessage({
+    sessionId: session.id,
+    role: "ASSISTANT",
+    content: reply,
+    intent: classification.intent,
+    entities: hasEntityData(classification.entities)
+      ? (classification.entities as Prisma.InputJsonValue)
+      : Prisma.JsonNull,
+    sources: sources.length ? (sources as unknown as Prisma.InputJsonValue) : Prisma.JsonNull
+  });
+
+  if (leadCapture.leadId) {
+    await recalculateLeadScore(leadCapture.leadId);
+  }
+
+  return {
+    reply,
+    intent: classification.intent,
+    confidence: classification.confidence,
+    entities: classification.entities,
+    vehicles,
+    sources,
+    leadId: leadCapture.leadId
+  };
+}
+
+async function lookupInventory(
+  session: ChatPipelineSession,
+  entities: IntentClassificationEntities
+): Promise<{ vehicles: VehicleSuggestion[]; reply: string }> {
+  try {
+    const { vehicles, total } = await searchInventory(session.dealershipId, entities);
+
+    if (!vehicles.length) {
+      return {
+        vehicles,
+        reply:
+          "I couldn't find any vehicles that match those preferences right now. Would you like me to broaden the search or notify you when something becomes available?"
+      };
+    }
+
+    await recordVehiclesShown(session.id, vehicles.map((vehicle) => vehicle.id));
+
+    return {
+      vehicles,
+      reply: formatInventoryReply(vehicles, entities, session.dealership.name, total)
+    };
+  } catch (error) {
+    logger.error("Inventory lookup failed", error as Error);
+    return {
+      vehicles: [],
+      reply:
+        "I'm having trouble fetching the inventory at the moment. Could you try narrowing the details or checking back in a moment?"
+    };
+  }
+}
+
+/**
+ * The vehicle the customer is referring to, recorded as discussed so later
+ * turns ("can I test drive it?") resolve to it. Lookup failures are logged
+ * and treated as no reference.
+ */
+async function lookupReferencedVehicle(
+  session: ChatPipelineSession,
+  message: string,
+  entities: IntentClassificationEntities
+) {
+  try {
+    const vehicle = await resolveReferencedVehicle({
+      sessionId: session.id,
+      dealershipId: session.dealershipId,
+      message,
+      entities
+    });
+
+    if (vehicle) {
+      await recordVehicleDiscussed(session.id, vehicle.id);
+    }
+    return vehicle;
+  } catch (error) {
+    logger.error("Failed to resolve referenced vehicle", error as Error);
+    return null;
+  }
+}
+
+async function describeTestDriveSlots(
+  session: ChatPipelineSession,
+  message: string,
+  entities: IntentClassificationEntities
+) {
+  try {
+    const vehicle = await resolveReferencedVehicle({
+      sessionId: session.id,
+      dealershipId: session.dealershipId,
+      message,
+      entities
+    });
+
+    const { timeZone, slots } = await findAvailableSlots({
+      dealershipId: session.dealershipId,
+      vehicleId: vehicle?.id,
+      durationMinutes: DEFAULT_DURATION_MINUTES.TEST_DRIVE,
+      limit: OFFERED_SLOT_COUNT
+    });
+
+    const vehicleLabel = vehicle ? ` for the ${vehicle.year} ${vehicle.make} ${vehicle.model}` : "";
+
+    if (!slots.length) {
+      return `There are no open test drive slots${vehicleLabel} in the next week. Offer to have the sales team reach out to arrange a time.`;
+    }
+
+    return `Open test drive slots${vehicleLabel}: ${slots
+      .map((slot) => formatSlot(slot, timeZone))
+      .join("; ")}. Offer these exact times and only these times.`;
+  } catch (error) {
+    logger.error("Failed to load test drive availability", error as Error);
+    return null;
+  }
+}
+
+async function describeInventoryOverview(
+  session: ChatPipelineSession,
+  entities: IntentClassificationEntities
+) {
+  try {
+    const params = buildInventorySearchParams(session.dealershipId, entities);
+    const filters = vehicleFilterSchema.safeParse(Object.fromEntries(params.entries()));
+    if (!filters.success) return null;
+
+    const facets = await getInventoryFacets(filters.data);
+    return [
+      describeInventoryFacets(facets),
+      "Use these counts when the customer asks what is in stock; do not invent vehicles."
+    ].join("\n");
+  } catch (error) {
+    logger.error("Failed to load inventory overview", error as Error);
+    return null;
+  }
+}
+
+function hasEntityData(entities: IntentClassificationEntities) {
+  return Object.values(entities).some((value) => {
+    if (value === null || value === undefined) return false;
+    if (typeof value === "object") {
+      return Object.values(value).some((nested) => nested !== null && nested !== undefined);
+    }
+    return true;
+  });
+}
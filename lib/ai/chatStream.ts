@@ -0,0 +1,117 @@
+import { logger } from "@/lib/logger";
+import {
+  completeChatTurn,
+  streamReply,
+  type ChatPipelineResult,
+  type PreparedChatTurn
+} from "./chatPipeline";
+
+export const CHAT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no"
+};
+
+type ChatStreamEvent =
+  | { event: "token"; data: { delta: string } }
+  | {
+      event: "done";
+      data: Pick<ChatPipelineResult, "reply" | "intent" | "entities" | "vehicles" | "sources">;
+    }
+  | { event: "error"; data: { message: string } };
+
+/**
+ * Streams the reply for a prepared turn as Server-Sent Events:
+ * `token` events while the model generates, then a single `done` event
+ * carrying the final reply, intent, entities, vehicles and cited sources.
+ *
+ * The assistant Message is written once, either when generation finishes or
+ * when the client disconnects (with whatever text was produced so far).
+ */
+export function createChatReplyStream(turn: PreparedChatTurn, signal: AbortSignal) {
+  const encoder = new TextEncoder();
+  let reply = "";
+  let finalized = false;
+
+  const finalize = async () => {
+    if (finalized) return null;
+    finalized = true;
+    return completeChatTurn(turn, reply);
+  };
+
+  const persistPartialReply = async () => {
+    if (finalized || !reply.trim()) return;
+    try {
+      await finalize();
+    } catch (error) {
+      logger.error("Failed to persist aborted chat reply", error as Error);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = ({ event, data }: ChatStreamEvent) => {
+        if (signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // Stream already closed by the client.
+        }
+      };
+
+      try {
+        if (turn.presetReply) {
+          reply = turn.presetReply;
+          send({ event: "token", data: { delta: reply } });
+        } else {
+          for await (const delta of streamReply(turn.context, turn.assistant, signal)) {
+            reply += delta;
+            send({ event: "token", data: { delta } });
+          }
+        }
+
+        if (signal.aborted) {
+          await persistPartialReply();
+          return;
+        }
+
+        if (!reply.trim()) {
+          send({ event: "error", data: { message: "No response from AI assistant" } });
+          return;
+        }
+
+        const result = await finalize();
+        if (result) {
+          send({
+            event: "done",
+            data: {
+              reply: result.reply,
+              intent: result.intent,
+              entities: result.entities,
+              vehicles: result.vehicles,
+              sources: result.sources
+            }
+          });
+        }
+      } catch (error) {
+        if (signal.aborted) {
+          await persistPartialReply();
+          return;
+        }
+        logger.error("Chat reply stream failed", error as Error);
+        await persistPartialReply();
+        send({ event: "error", data: { message: "The assistant is unavailable right now." } });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed.
+        }
+      }
+    },
+    async cancel() {
+      await persistPartialReply();
+    }
+  });
+}
@@ -1,18 +1,37 @@
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
-import type { Message, Lead } from "@prisma/client";
+import type { AssistantTone, Dealership, Message, Lead } from "@prisma/client";
+import type { AssistantConfig } from "@/lib/assistant/config";
+import { describeBusinessHours, parseBusinessHours } from "@/lib/appointments/businessHours";
+import {
+  searchKnowledge,
+  toKnowledgeSource,
+  type KnowledgeMatch,
+  type KnowledgeSource
+} from "@/lib/knowledge/retrieval";
 import { IntentClassificationResult } from "./intentClassifier";
+import { formatVehicleLine, mapVehicleFromRecord } from "./inventoryLookup";
 
-type OpenAIMessage = {
+export type OpenAIMessage = {
   role: "system" | "user" | "assistant";
   content: string;
 };
 
+export interface ConversationContext {
+  messages: OpenAIMessage[];
+  /** Knowledge base chunks given to the model for this turn. */
+  sources: KnowledgeSource[];
+}
+
 interface BuildContextOptions {
   sessionId: string;
+  assistant: AssistantConfig;
+  /** The customer's latest message, used to retrieve knowledge base excerpts. */
+  query?: string;
   intent?: IntentClassificationResult["intent"];
   intentConfidence?: number;
   entities?: IntentClassificationResult["entities"];
+  supplementalContext?: string[];
 }
 
 const INTENT_CONTEXT: Partial<Record<IntentClassificationResult["intent"], string>> = {
@@ -37,14 +56,31 @@ const INTENT_CONTEXT: Partial<Record<IntentClassificationResult["intent"], strin
     "The user wants to trade in a vehicle. Ask for vehicle details (year, make, model, mileage) and explain appraisal steps."
 };
 
+const TONE_GUIDANCE: Record<AssistantTone, string> = {
+  FRIENDLY: "Be warm, approachable and helpful.",
+  PROFESSIONAL: "Be polished and courteous; avoid slang and emoji.",
+  CASUAL: "Be relaxed and conversational, like a knowledgeable friend.",
+  ENTHUSIASTIC: "Be upbeat and energetic without overselling."
+};
+
+/** Intents where dealership knowledge is unlikely to help, so retrieval is skipped. */
+const SKIP_KNOWLEDGE_INTENTS = new Set<IntentClassificationResult["intent"]>([
+  "GREETING",
+  "INVENTORY_SEARCH"
+]);
+
 const MAX_CONTEXT_TOKENS = 4000;
+const MAX_SHOWN_VEHICLES = 5;
 
 export async function buildConversationContext({
   sessionId,
+  assistant,
+  query,
   intent,
   intentConfidence,
-  entities
-}: BuildContextOptions): Promise<OpenAIMessage[]> {
+  entities,
+  supplementalContext = []
+}: BuildContextOptions): Promise<ConversationContext> {
   try {
     const session = await prisma.chatSession.findUnique({
       where: { id: sessionId },
@@ -57,6 +93,11 @@ export async function buildConversationContext({
         leads: {
           take: 1,
           orderBy: { createdAt: "desc" }
+        },
+        vehicleViews: {
+          orderBy: [{ shownAt: { sort: "desc", nulls: "last" } }, { position: "asc" }],
+          take: MAX_SHOWN_VEHICLES,
+          include: { vehicle: true }
         }
       }
     });
@@ -71,10 +112,25 @@ export async function buildConversationContext({
     const systemMessages: OpenAIMessage[] = [
       {
         role: "system",
-        content: `You are chatting with a customer on behalf of ${session.dealership.name}. Always use factual information from the dealership.`
+        content: buildBasePrompt(session.dealership.name, assistant)
       }
     ];
 
+    const guardrails = buildGuardrails(assistant);
+    if (guardrails) {
+      systemMessages.push({ role: "system", content: guardrails });
+    }
+
+    systemMessages.push({ role: "system", content: buildDealershipDetails(session.dealership) });
+
+    const knowledge =
+      query && !(intent && SKIP_KNOWLEDGE_INTENTS.has(intent))
+        ? await searchKnowledge(session.dealershipId, query)
+        : [];
+    if (knowledge.length) {
+      systemMessages.push({ role: "system", content: buildKnowledgeContext(knowledge) });
+    }
+
     if (intent) {
       const contextNote =
         INTENT_CONTEXT[intent] ??
@@ -103,20 +159,101 @@ export async function buildConversationContext({
       });
     }
 
+    if (session.vehicleViews.length) {
+      systemMessages.push({
+        role: "system",
+        content: `Vehicles already shown to the customer (latest results first, in the order shown):\n${session.vehicleViews
+          .map((view) => formatVehicleLine(mapVehicleFromRecord(view.vehicle)))
+          .join("\n")}`
+      });
+    }
+
+    for (const note of supplementalContext) {
+      systemMessages.push({ role: "system", content: note });
+    }
+
     const messageHistory = formatMessages(session.messages);
     const trimmedHistory = trimMessagesToTokenLimit(systemMessages, messageHistory);
 
-    return [...systemMessages, ...trimmedHistory];
+    return {
+      messages: [...systemMessages, ...trimmedHistory],
+      sources: knowledge.map(toKnowledgeSource)
+    };
   } catch (error) {
     logger.error("Failed to build conversation context", error as Error);
-    return [
-      {
-        role: "system",
-        content:
-          "You are a car dealership assistant. The chat history could not be retrieved. Ask the user how you can help."
-      }
-    ];
+    return {
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a car dealership assistant. The chat history could not be retrieved. Ask the user how you can help."
+        }
+      ],
+      sources: []
+    };
+  }
+}
+
+function buildBasePrompt(dealershipName: string, assistant: AssistantConfig) {
+  return [
+    `You are ${assistant.personaName}, a helpful car dealership assistant chatting with a customer on behalf of ${dealershipName}.`,
+    "Your role is to help customers find vehicles, answer questions, and schedule appointments.",
+    `${TONE_GUIDANCE[assistant.tone]} Keep responses concise (under 100 words).`,
+    "If the customer wants to schedule something, guide them to booking.",
+    "Always try to capture their contact info (name, email, phone) naturally.",
+    "Never make up vehicle details - only use real inventory data provided to you."
+  ].join("\n");
+}
+
+/** Dealership-specific facts and rules layered on top of the base prompt. */
+function buildGuardrails({ faqFacts, topicsToAvoid, disclaimers }: AssistantConfig) {
+  const sections: string[] = [];
+
+  if (faqFacts.length) {
+    sections.push(
+      `Dealership facts (treat these as accurate and prefer them over assumptions):\n${faqFacts
+        .map((fact) => `Q: ${fact.question}\nA: ${fact.answer}`)
+        .join("\n")}`
+    );
+  }
+
+  if (topicsToAvoid.length) {
+    sections.push(
+      `Do not discuss these topics. If the customer raises one, say you can't help with that here and offer to connect them with the team:\n${topicsToAvoid
+        .map((topic) => `- ${topic}`)
+        .join("\n")}`
+    );
+  }
+
+  if (disclaimers.length) {
+    sections.push(
+      `When a reply touches on the subject of one of these disclaimers, include it word for word:\n${disclaimers
+        .map((disclaimer) => `- ${disclaimer}`)
+        .join("\n")}`
+    );
   }
+
+  return sections.join("\n\n");
+}
+
+function buildDealershipDetails(dealership: Dealership) {
+  const lines = [`Dealership details for ${dealership.name} (use these for hours and location questions):`];
+
+  if (dealership.address.trim()) lines.push(`Address: ${dealership.address}`);
+  if (dealership.phone.trim()) lines.push(`Phone: ${dealership.phone}`);
+  if (dealership.email.trim()) lines.push(`Email: ${dealership.email}`);
+  lines.push(
+    `Hours (${dealership.timezone}): ${describeBusinessHours(parseBusinessHours(dealership.businessHours)).join("; ")}`
+  );
+
+  return lines.join("\n");
+}
+
+function buildKnowledgeContext(matches: KnowledgeMatch[]) {
+  return [
+    "Excerpts from the dealership's knowledge base, most relevant first. Answer policy, financing and warranty questions from these; if they do not cover the question, say you will have the team confirm rather than guessing.",
+    ...matches.map((match, index) => `[${index + 1}] ${match.title}\n${match.content}`)
+  ].join("\n\n");
 }
 
 function buildEntityContext(entities: IntentClassificationResult["entities"]) {
@@ -141,6 +278,24 @@ function buildEntityContext(entities: IntentClassificationResult["entities"]) {
     parts.push(`Vehicle condition preference: ${entities.condition.toLowerCase()}.`);
   }
 
+  const specs = [
+    entities.yearRange?.min != null || entities.yearRange?.max != null
+      ? `years ${entities.yearRange.min ?? "any"}–${entities.yearRange.max ?? "latest"}`
+      : null,
+    entities.maxMileage != null ? `under ${entities.maxMileage.toLocaleString()} miles` : null,
+    entities.drivetrain,
+    entities.fuelType,
+    entities.transmission,
+    entities.color
+  ].filter(Boolean);
+  if (specs.length) {
+    parts.push(`Other preferences: ${specs.join(", ")}.`);
+  }
+
+  if (entities.features?.length) {
+    parts.push(`Desired features: ${entities.features.join(", ")}.`);
+  }
+
   if (entities.priceRange) {
     const { min, max } = entities.priceRange;
     const rangeLabel =
@@ -189,7 +344,10 @@ function buildCustomerDetails(metadata: Record<string, unknown> | null, lead: Le
 }
 
 function formatMessages(messages: Message[]): OpenAIMessage[] {
+  // SYSTEM rows are customer-facing notices (e.g. an agent joining); agent replies
+  // stay in the history so the assistant can pick up where the human left off.
   return messages
+    .filter((message) => message.role !== "SYSTEM")
     .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
     .map((message) => ({
       role: message.role === "USER" ? ("user" as const) : ("assistant" as const),
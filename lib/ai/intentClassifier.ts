@@ -1,63 +1,114 @@
 import OpenAI from "openai";
 import { env } from "@/lib/env";
 import { logger } from "@/lib/logger";
+import { VEHICLE_SORTS, type VehicleSort } from "@/lib/inventory/filters";
 
 const openai = new OpenAI({
   apiKey: env.OPENAI_API_KEY
 });
 
+export const CHAT_INTENTS = [
+  "GREETING",
+  "INVENTORY_SEARCH",
+  "VEHICLE_DETAILS",
+  "PRICING",
+  "AVAILABILITY",
+  "TEST_DRIVE_REQUEST",
+  "CONTACT_REQUEST",
+  "HOURS_LOCATION",
+  "FINANCING",
+  "TRADE_IN",
+  "UNKNOWN"
+] as const;
+
+export type ChatIntent = (typeof CHAT_INTENTS)[number];
+
+const MAX_FEATURES = 8;
+
 const functionDefinition = [
   {
-    name: "classify_intent",
-    description:
-      "Classify the intent of a user's message and extract relevant entities for automotive dealership conversations.",
-    parameters: {
-      type: "object",
-      properties: {
-        intent: {
-          type: "string",
-          enum: [
-            "GREETING",
-            "INVENTORY_SEARCH",
-            "VEHICLE_DETAILS",
-            "PRICING",
-            "AVAILABILITY",
-            "TEST_DRIVE_REQUEST",
-            "CONTACT_REQUEST",
-            "HOURS_LOCATION",
-            "FINANCING",
-            "TRADE_IN",
-            "UNKNOWN"
-          ]
-        },
-        confidence: {
-          type: "number",
-          description: "Confidence score from 0 to 1."
-        },
-        entities: {
-          type: "object",
-          properties: {
-            vehicle: {
-              type: "object",
-              properties: {
-                make: { type: "string", nullable: true },
-                model: { type: "string", nullable: true },
-                year: { type: "string", nullable: true }
-              }
-            },
-            priceRange: {
-              type: "object",
-              properties: {
-                min: { type: "number", nullable: true },
-                max: { type: "number", nullable: true }
+    type: "function",
+    function: {
+      name: "classify_intent",
+      description:
+        "Classify the intent of a user's message and extract relevant entities for automotive dealership conversations.",
+      parameters: {
+        type: "object",
+        properties: {
+          intent: {
+            type: "string",
+            enum: [...CHAT_INTENTS]
+          },
+          confidence: {
+            type: "number",
+            description: "Confidence score from 0 to 1."
+          },
+          entities: {
+            type: "object",
+            properties: {
+              vehicle: {
+                type: "object",
+                properties: {
+                  make: { type: "string", nullable: true },
+                  model: { type: "string", nullable: true },
+                  year: { type: "string", nullable: true }
+                }
+              },
+              priceRange: {
+                type: "object",
+                properties: {
+                  min: { type: "number", nullable: true },
+                  max: { type: "number", nullable: true }
+                }
+              },
+              yearRange: {
+                type: "object",
+                properties: {
+                  min: { type: "number", nullable: true },
+                  max: { type: "number", nullable: true }
+                }
+              },
+              maxMileage: { type: "number", nullable: true },
+              bodyType: { type: "string", nullable: true },
+              drivetrain: {
+                type: "string",
+                nullable: true,
+                description: "e.g. AWD, 4WD, FWD, RWD"
+              },
+              fuelType: {
+                type: "string",
+                nullable: true,
+                description: "e.g. gas, hybrid, plug-in, electric, diesel"
+              },
+              transmission: {
+                type: "string",
+                enum: ["automatic", "manual"],
+                nullable: true
+              },
+              color: { type: "string", nullable: true, description: "Exterior color." },
+              condition: {
+                type: "string",
+                enum: ["NEW", "USED", "CERTIFIED"],
+                nullable: true
+              },
+              features: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Desired features or qualities, e.g. heated seats, third row, good on gas."
+              },
+              sort: {
+                type: "string",
+                enum: [...VEHICLE_SORTS],
+                nullable: true,
+                description:
+                  "Only when the customer asks for an ordering, e.g. cheapest, newest, lowest miles."
               }
-            },
-            bodyType: { type: "string", nullable: true },
-            condition: { type: "string", enum: ["NEW", "USED"], nullable: true }
+            }
           }
-        }
-      },
-      required: ["intent", "confidence", "entities"]
+        },
+        required: ["intent", "confidence", "entities"]
+      }
     }
   }
 ] satisfies Array<OpenAI.Chat.Completions.ChatCompletionTool>;
@@ -72,12 +123,23 @@ export interface IntentClassificationEntities {
     min?: number | null;
     max?: number | null;
   };
+  yearRange?: {
+    min?: number | null;
+    max?: number | null;
+  };
+  maxMileage?: number | null;
   bodyType?: string | null;
-  condition?: "NEW" | "USED" | null;
+  condition?: "NEW" | "USED" | "CERTIFIED" | null;
+  drivetrain?: string | null;
+  fuelType?: string | null;
+  transmission?: "automatic" | "manual" | null;
+  color?: string | null;
+  features?: string[];
+  sort?: VehicleSort | null;
 }
 
 export interface IntentClassificationResult {
-  intent: (typeof functionDefinition[0]["parameters"]["properties"]["intent"]["enum"])[number];
+  intent: ChatIntent;
   entities: IntentClassificationEntities;
   confidence: number;
 }
@@ -89,7 +151,8 @@ export async function classifyIntent(
   const prompt = `
 You are an intent classifier for a car dealership assistant${dealershipName ? ` representing ${dealershipName}` : ""}.
 Analyze the customer message and determine the intent from the provided list.
-Extract relevant entities such as vehicle details, price range, body type, and condition.
+Extract relevant entities such as vehicle details, price and year ranges, mileage, body type,
+condition, drivetrain, fuel type, transmission, color, desired features, and sort order.
 If no clear intent is found, return UNKNOWN with confidence 0.2.
 Ensure confidence is between 0 and 1.`;
 
@@ -115,7 +178,7 @@ Ensure confidence is between 0 and 1.`;
     const parsed = JSON.parse(toolCall.function.arguments);
 
     return {
-      intent: parsed.intent ?? "UNKNOWN",
+      intent: toChatIntent(parsed.intent),
       confidence: clampConfidence(parsed.confidence),
       entities: sanitizeEntities(parsed.entities)
     };
@@ -136,7 +199,7 @@ function sanitizeEntities(entities: IntentClassificationEntities | undefined) {
     safeEntities.vehicle = {
       make: entities.vehicle.make ?? null,
       model: entities.vehicle.model ?? null,
-      year: entities.vehicle.year ?? null
+      year: entities.vehicle.year != null ? String(entities.vehicle.year) : null
     };
   }
 
@@ -147,22 +210,64 @@ function sanitizeEntities(entities: IntentClassificationEntities | undefined) {
     };
   }
 
+  if (entities.yearRange) {
+    safeEntities.yearRange = {
+      min: toNumberOrNull(entities.yearRange.min),
+      max: toNumberOrNull(entities.yearRange.max)
+    };
+  }
+
+  const maxMileage = toNumberOrNull(entities.maxMileage);
+  if (maxMileage != null && maxMileage >= 0) {
+    safeEntities.maxMileage = maxMileage;
+  }
+
   if (entities.bodyType) {
     safeEntities.bodyType = String(entities.bodyType);
   }
 
+  for (const field of ["drivetrain", "fuelType", "color"] as const) {
+    if (entities[field]) {
+      safeEntities[field] = String(entities[field]).trim();
+    }
+  }
+
+  if (entities.transmission) {
+    const transmission = String(entities.transmission).toLowerCase();
+    safeEntities.transmission =
+      transmission === "automatic" || transmission === "manual" ? transmission : null;
+  }
+
+  if (entities.sort) {
+    safeEntities.sort = VEHICLE_SORTS.find((sort) => sort === entities.sort) ?? null;
+  }
+
   if (entities.condition) {
+    const condition = entities.condition.toUpperCase();
     safeEntities.condition =
-      entities.condition.toUpperCase() === "NEW"
-        ? "NEW"
-        : entities.condition.toUpperCase() === "USED"
-        ? "USED"
+      condition === "NEW" || condition === "USED" || condition === "CERTIFIED"
+        ? condition
         : null;
   }
 
+  if (Array.isArray(entities.features)) {
+    const features = entities.features
+      .map((feature) => String(feature).trim())
+      .filter(Boolean)
+      .slice(0, MAX_FEATURES);
+    if (features.length) {
+      safeEntities.features = features;
+    }
+  }
+
   return safeEntities;
 }
 
+function toChatIntent(value: unknown): ChatIntent {
+  const normalized = String(value ?? "").toUpperCase();
+  return CHAT_INTENTS.find((intent) => intent === normalized) ?? "UNKNOWN";
+}
+
 function toNumberOrNull(value: unknown): number | null {
   if (value === null || value === undefined) return null;
   const num = Number(value);
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { searchVehicles } from "@/lib/inventory/search";
+import { searchInventory } from "./inventoryLookup";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+vi.mock("@/lib/knowledge/embeddings", () => ({
+  embedText: vi.fn(),
+  embedTexts: vi.fn(),
+  toVectorLiteral: vi.fn()
+}));
+vi.mock("@/lib/inventory/search", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/inventory/search")>()),
+  searchVehicles: vi.fn()
+}));
+
+const DEALERSHIP_ID = "6f1c2f0e-7a51-4d0b-9a59-0f2f3c1d8e11";
+
+describe("searchInventory", () => {
+  beforeEach(() => {
+    vi.mocked(searchVehicles).mockResolvedValue({
+      mode: "semantic",
+      data: [
+        {
+          id: "vehicle-1",
+          year: 2022,
+          make: "Toyota",
+          model: "Tacoma",
+          trim: "SR5",
+          condition: "USED",
+          price: 29_999,
+          mileage: 20_000,
+          exteriorColor: "Silver",
+          bodyType: "Truck",
+          images: ["https://cdn.example/1.jpg", 42],
+          availability: "IN_STOCK"
+        }
+      ],
+      total: 37,
+      nextCursor: null
+    } as never);
+  });
+
+  it("runs the classified entities through the shared vehicle search", async () => {
+    const { vehicles, total } = await searchInventory(DEALERSHIP_ID, {
+      vehicle: { make: "Toyota", model: null, year: null },
+      priceRange: { min: null, max: 30_000 },
+      features: ["sunroof"]
+    });
+
+    expect(searchVehicles).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dealershipId: DEALERSHIP_ID,
+        make: "Toyota",
+        maxPrice: 30_000,
+        q: "sunroof"
+      }),
+      { limit: 10, offset: 0 }
+    );
+    expect(total).toBe(37);
+    expect(vehicles).toEqual([
+      expect.objectContaining({
+        id: "vehicle-1",
+        price: 29_999,
+        images: ["https://cdn.example/1.jpg"],
+        primaryImage: "https://cdn.example/1.jpg"
+      })
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+import type { Prisma } from "@prisma/client";
+import { searchVehicles, vehicleSearchSchema } from "@/lib/inventory/search";
+import type { IntentClassificationEntities } from "./intentClassifier";
+
+export interface VehicleSuggestion {
+  id: string;
+  year?: number | null;
+  make?: string | null;
+  model?: string | null;
+  trim?: string | null;
+  price?: number | null;
+  condition?: string | null;
+  mileage?: number | null;
+  exteriorColor?: string | null;
+  bodyType?: string | null;
+  images: string[];
+  primaryImage?: string | null;
+  availability?: string | null;
+}
+
+/**
+ * Search API query parameters for the classified entities. Also used to scope
+ * inventory facets, so the assistant counts exactly what a search would return.
+ */
+export function buildInventorySearchParams(
+  dealershipId: string,
+  entities: IntentClassificationEntities
+) {
+  const params = new URLSearchParams();
+  params.set("dealershipId", dealershipId);
+  if (entities.vehicle?.make) {
+    params.set("make", String(entities.vehicle.make));
+  }
+  if (entities.vehicle?.model) {
+    params.set("model", String(entities.vehicle.model));
+  }
+  if (entities.vehicle?.year) {
+    params.set("year", String(entities.vehicle.year));
+  }
+  if (entities.priceRange?.min != null) {
+    params.set("minPrice", String(Math.max(0, entities.priceRange.min)));
+  }
+  if (entities.priceRange?.max != null) {
+    params.set("maxPrice", String(Math.max(0, entities.priceRange.max)));
+  }
+  if (entities.bodyType) {
+    params.set("bodyType", entities.bodyType);
+  }
+  if (entities.condition) {
+    params.set("condition", entities.condition);
+  }
+  if (entities.yearRange?.min != null) {
+    params.set("minYear", String(Math.trunc(entities.yearRange.min)));
+  }
+  if (entities.yearRange?.max != null) {
+    params.set("maxYear", String(Math.trunc(entities.yearRange.max)));
+  }
+  if (entities.maxMileage != null) {
+    params.set("maxMileage", String(Math.trunc(entities.maxMileage)));
+  }
+  if (entities.drivetrain) {
+    params.set("drivetrain", entities.drivetrain);
+  }
+  if (entities.fuelType) {
+    params.set("fuelType", entities.fuelType);
+  }
+  if (entities.transmission) {
+    params.set("transmission", entities.transmission);
+  }
+  if (entities.color) {
+    params.set("exteriorColor", entities.color);
+  }
+  if (entities.features?.length) {
+    params.set("q", entities.features.join(", ").slice(0, 200));
+  }
+  if (entities.sort) {
+    params.set("sort", entities.sort);
+  }
+
+  return params;
+}
+
+/** Vehicles suggested per inventory reply. */
+const SUGGESTION_LIMIT = 10;
+
+type VehicleSearchResult = Awaited<ReturnType<typeof searchVehicles>>["data"][number];
+
+/**
+ * Runs the classified entities through the same search as the inventory API,
+ * so the assistant's suggestions and `total` match what a shopper would see.
+ */
+export async function searchInventory(
+  dealershipId: string,
+  entities: IntentClassificationEntities
+): Promise<{ vehicles: VehicleSuggestion[]; total: number }> {
+  const params = buildInventorySearchParams(dealershipId, entities);
+  const search = vehicleSearchSchema.parse(Object.fromEntries(params.entries()));
+
+  const { data, total } = await searchVehicles(search, { limit: SUGGESTION_LIMIT, offset: 0 });
+  return { vehicles: data.map(mapVehicleFromSearch), total };
+}
+
+function mapVehicleFromSearch(vehicle: VehicleSearchResult): VehicleSuggestion {
+  const images = vehicle.images.filter((url): url is string => typeof url === "string");
+
+  return {
+    id: vehicle.id,
+    year: vehicle.year,
+    make: vehicle.make,
+    model: vehicle.model,
+    trim: vehicle.trim,
+    price: vehicle.price,
+    condition: vehicle.condition,
+    mileage: vehicle.mileage,
+    exteriorColor: vehicle.exteriorColor,
+    bodyType: vehicle.bodyType,
+    images,
+    primaryImage: images[0] ?? null,
+    availability: vehicle.availability
+  };
+}
+
+export function mapVehicleFromRecord(vehicle: {
+  id: string;
+  year: number;
+  make: string;
+  model: string;
+  trim: string | null;
+  price: Prisma.Decimal | null;
+  mileage: number | null;
+  condition: string;
+  exteriorColor: string | null;
+  bodyType: string | null;
+  images: any;
+  availability: string;
+}) {
+  const images = Array.isArray(vehicle.images)
+    ? vehicle.images.filter((url: unknown) => typeof url === "string")
+    : [];
+
+  return {
+    id: vehicle.id,
+    year: vehicle.year,
+    make: vehicle.make,
+    model: vehicle.model,
+    trim: vehicle.trim,
+    price: vehicle.price ? vehicle.price.toNumber() : null,
+    mileage: vehicle.mileage,
+    condition: vehicle.condition,
+    exteriorColor: vehicle.exteriorColor,
+    bodyType: vehicle.bodyType,
+    images,
+    primaryImage: images[0] ?? null,
+    availability: vehicle.availability
+  } as VehicleSuggestion;
+}
+
+export function formatInventoryReply(
+  vehicles: VehicleSuggestion[],
+  entities: IntentClassificationEntities,
+  dealershipName: string,
+  total = vehicles.length
+) {
+  if (!vehicles.length) {
+    return `I couldn't find any vehicles that match those preferences at ${dealershipName} right now. Would you like me to keep an eye out or adjust the search?`;
+  }
+
+  // Feature-only searches match across makes, so don't name the first result's model.
+  if (entities.features?.length && !entities.vehicle?.make && !entities.vehicle?.model) {
+    return `I found ${total} vehicles with ${entities.features.join(", ")}. Here are the best matches — which interests you?`;
+  }
+
+  const descriptorParts = [];
+  const make = entities.vehicle?.make ?? vehicles[0]?.make;
+  if (make) descriptorParts.push(make);
+  const model = entities.vehicle?.model ?? vehicles[0]?.model;
+  if (model) descriptorParts.push(model);
+
+  const descriptor =
+    descriptorParts.length > 0 ? descriptorParts.join(" ") : "vehicles";
+
+  return `We have ${total} ${descriptor} available. Here are the best matches — which interests you?`;
+}
+
+export function formatVehicleLine(vehicle: VehicleSuggestion) {
+  const title = [vehicle.year, vehicle.make, vehicle.model, vehicle.trim]
+    .filter(Boolean)
+    .join(" ");
+
+  const price = typeof vehicle.price === "number" ? formatCurrency(vehicle.price) : "Price TBD";
+
+  const details: string[] = [];
+  if (vehicle.condition) {
+    details.push(
+      vehicle.condition.toUpperCase() === "NEW"
+        ? "New"
+        : vehicle.condition.toUpperCase() === "CERTIFIED"
+        ? "Certified"
+        : "Pre-Owned"
+    );
+  }
+
+  if (vehicle.condition && vehicle.condition.toUpperCase() !== "NEW" && vehicle.mileage != null) {
+    details.push(`${formatMileage(vehicle.mileage)} miles`);
+  } else if (vehicle.exteriorColor) {
+    details.push(vehicle.exteriorColor);
+  }
+
+  return `• ${title.trim()} - ${price}${
+    details.length ? " | " + details.join(" | ") : ""
+  }`;
+}
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0
+  }).format(value);
+}
+
+function formatMileage(mileage: number) {
+  if (mileage >= 1000) {
+    return `${Math.round(mileage / 100) / 10}K`;
+  }
+  return mileage.toString();
+}
@@ -1,6 +1,8 @@
-import { LeadIntent, LeadPreferredContact, LeadStatus } from "@prisma/client";
+import { LeadIntent, LeadPreferredContact, LeadStatus, Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
+import { enqueueCrmPush } from "@/lib/queues/crmPushQueue";
+import type { IntentClassificationEntities } from "./intentClassifier";
 
 type ConversationMessage = {
   role: "user" | "assistant";
@@ -11,6 +13,9 @@ interface LeadCaptureOptions {
   sessionId: string;
   dealershipId: string;
   conversation: ConversationMessage[];
+  intent?: LeadIntent;
+  /** The vehicle named in this turn, if any; earlier turns are checked when it is empty. */
+  vehicle?: IntentClassificationEntities["vehicle"];
   extractedInfo?: {
     name?: string | null;
     email?: string | null;
@@ -34,6 +39,9 @@ type SessionLeadMetadata = {
   email?: string;
 };
 
+/** How many recent messages to search for a named vehicle when capturing a lead. */
+const VEHICLE_INTEREST_LOOKBACK = 20;
+
 const INTEREST_KEYWORDS = [
   "test drive",
   "interested",
@@ -60,6 +68,8 @@ export async function handleLeadCapture({
   sessionId,
   dealershipId,
   conversation,
+  intent,
+  vehicle,
   extractedInfo
 }: LeadCaptureOptions): Promise<LeadCaptureResult> {
   try {
@@ -130,6 +140,7 @@ export async function handleLeadCapture({
       !needsInfo.length
     ) {
       const { firstName, lastName } = splitName(updatedMetadata.name);
+      const vehicleInterest = await findVehicleInterest(sessionId, vehicle);
 
       const existingLead = await prisma.lead.findFirst({
         where: { sessionId }
@@ -145,7 +156,10 @@ export async function handleLeadCapture({
             phone: updatedMetadata.phone,
             preferredContact: updatedMetadata.phone
               ? LeadPreferredContact.PHONE
-              : LeadPreferredContact.EMAIL
+              : LeadPreferredContact.EMAIL,
+            ...(intent && intent !== LeadIntent.INQUIRY ? { intent } : {}),
+            ...(vehicleInterest ? { vehicleInterest } : {}),
+            conversationTranscript: conversation as Prisma.InputJsonValue
           }
         });
 
@@ -169,14 +183,17 @@ export async function handleLeadCapture({
           preferredContact: updatedMetadata.phone
             ? LeadPreferredContact.PHONE
             : LeadPreferredContact.EMAIL,
-          intent: LeadIntent.INQUIRY,
+          intent: intent ?? LeadIntent.INQUIRY,
+          vehicleInterest: vehicleInterest ?? Prisma.JsonNull,
           status: LeadStatus.NEW,
           leadScore: 0,
           pushedToCRM: false,
-          conversationTranscript: null
+          conversationTranscript: conversation as Prisma.InputJsonValue
         }
       });
 
+      await enqueueCrmPush(lead.id, "created");
+
       collectedInfo.name = `${firstName} ${lastName}`.trim();
       await persistSessionMetadata(sessionId, updatedMetadata);
       return {
@@ -201,6 +218,48 @@ export async function handleLeadCapture({
   }
 }
 
+/**
+ * The make and model the customer last asked about, from the current turn or
+ * the classified entities saved on recent messages. Used in CRM exports when
+ * the lead never viewed or booked a specific vehicle.
+ */
+async function findVehicleInterest(
+  sessionId: string,
+  vehicle: IntentClassificationEntities["vehicle"]
+) {
+  const current = toVehicleInterest(vehicle);
+  if (current) return current;
+
+  const messages = await prisma.message.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: "desc" },
+    take: VEHICLE_INTEREST_LOOKBACK,
+    select: { entities: true }
+  });
+
+  for (const message of messages) {
+    const entities = message.entities as IntentClassificationEntities | null;
+    const interest = toVehicleInterest(entities?.vehicle);
+    if (interest) return interest;
+  }
+
+  return null;
+}
+
+function toVehicleInterest(
+  vehicle: IntentClassificationEntities["vehicle"]
+): Prisma.InputJsonObject | null {
+  const make = vehicle?.make?.trim();
+  const model = vehicle?.model?.trim();
+  if (!make && !model) return null;
+
+  return {
+    make: make ?? null,
+    model: model ?? null,
+    year: vehicle?.year != null ? String(vehicle.year).trim() || null : null
+  };
+}
+
 function isValidEmail(email: string) {
   const regex =
     /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
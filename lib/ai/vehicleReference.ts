@@ -0,0 +1,169 @@
+import type { Vehicle } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { toNameKey } from "@/lib/inventory/vehicleNames";
+import type { IntentClassificationEntities } from "./intentClassifier";
+
+const RECENT_VIEW_LIMIT = 20;
+
+const ORDINALS: Array<[RegExp, number]> = [
+  [/\b(first|1st)\b/, 0],
+  [/\b(second|2nd)\b/, 1],
+  [/\b(third|3rd)\b/, 2],
+  [/\b(fourth|4th)\b/, 3],
+  [/\b(fifth|5th)\b/, 4],
+  [/\b(last|final)\b/, -1]
+];
+
+const VIN_PATTERN = /\b([A-HJ-NPR-Z0-9]{17})\b/i;
+const STOCK_PATTERN = /\b(?:stock|stk)\s*(?:#|no\.?|number)?\s*:?\s*([A-Z0-9-]{3,20})\b|#\s*([A-Z0-9-]{3,20})\b/i;
+
+interface VehicleReferenceInput {
+  sessionId: string;
+  dealershipId: string;
+  message: string;
+  entities: IntentClassificationEntities;
+}
+
+/**
+ * Works out which vehicle the customer means. In order: a VIN or stock number
+ * in the message; an ordinal ("the second one") into the most recent set of
+ * results; attributes ("the blue one", "the Camry") matched against vehicles
+ * already shown in this session; otherwise the vehicle last discussed, or the
+ * only one shown. Returns `null` when the reference is ambiguous so the
+ * assistant can ask.
+ */
+export async function resolveReferencedVehicle({
+  sessionId,
+  dealershipId,
+  message,
+  entities
+}: VehicleReferenceInput): Promise<Vehicle | null> {
+  const explicit = await findByIdentifier(dealershipId, message);
+  if (explicit) return explicit;
+
+  const views = await prisma.vehicleView.findMany({
+    where: { sessionId },
+    include: { vehicle: true },
+    orderBy: [{ shownAt: { sort: "desc", nulls: "last" } }, { position: "asc" }],
+    take: RECENT_VIEW_LIMIT
+  });
+  if (!views.length) return null;
+
+  const latestShownAt = views[0].shownAt?.getTime();
+  const latestResults = latestShownAt
+    ? views.filter((view) => view.shownAt?.getTime() === latestShownAt)
+    : [];
+
+  const text = message.toLowerCase();
+  const ordinal = ORDINALS.find(([pattern]) => pattern.test(text));
+  if (ordinal && latestResults.length) {
+    const index = ordinal[1] < 0 ? latestResults.length - 1 : ordinal[1];
+    return latestResults[index]?.vehicle ?? null;
+  }
+
+  const words = new Set(text.split(/[^a-z0-9]+/).filter(Boolean));
+  const messageKey = toNameKey(message);
+  const scored = views
+    .map((view) => ({
+      vehicle: view.vehicle,
+      score: scoreAttributes(view.vehicle, words, messageKey, entities)
+    }))
+    .filter((entry) => entry.score > 0);
+
+  if (scored.length) {
+    const best = Math.max(...scored.map((entry) => entry.score));
+    return scored.find((entry) => entry.score === best)!.vehicle;
+  }
+
+  const discussed = views
+    .filter((view) => view.discussedAt)
+    .sort((a, b) => b.discussedAt!.getTime() - a.discussedAt!.getTime())[0];
+  if (discussed && (!latestShownAt || discussed.discussedAt!.getTime() >= latestShownAt)) {
+    return discussed.vehicle;
+  }
+
+  return latestResults.length === 1 ? latestResults[0].vehicle : null;
+}
+
+/** Records a set of search results in display order, replacing the previous "latest results". */
+export async function recordVehiclesShown(sessionId: string, vehicleIds: string[]) {
+  const shownAt = new Date();
+
+  await prisma.$transaction(
+    vehicleIds.map((vehicleId, position) =>
+      prisma.vehicleView.upsert({
+        where: { sessionId_vehicleId: { sessionId, vehicleId } },
+        create: { sessionId, vehicleId, position, shownAt },
+        update: { position, shownAt }
+      })
+    )
+  );
+}
+
+export async function recordVehicleDiscussed(sessionId: string, vehicleId: string) {
+  const discussedAt = new Date();
+
+  await prisma.vehicleView.upsert({
+    where: { sessionId_vehicleId: { sessionId, vehicleId } },
+    create: { sessionId, vehicleId, discussedAt },
+    update: { discussedAt }
+  });
+}
+
+async function findByIdentifier(dealershipId: string, message: string) {
+  const vin = message.match(VIN_PATTERN)?.[1];
+  if (vin) {
+    const vehicle = await prisma.vehicle.findFirst({
+      where: { dealershipId, vin: vin.toUpperCase() }
+    });
+    if (vehicle) return vehicle;
+  }
+
+  const stockMatch = message.match(STOCK_PATTERN);
+  const stockNumber = stockMatch?.[1] ?? stockMatch?.[2];
+  if (stockNumber) {
+    return prisma.vehicle.findFirst({
+      where: { dealershipId, stockNumber: { equals: stockNumber, mode: "insensitive" } },
+      orderBy: { updatedAt: "desc" }
+    });
+  }
+
+  return null;
+}
+
+function scoreAttributes(
+  vehicle: Vehicle,
+  words: Set<string>,
+  messageKey: string,
+  entities: IntentClassificationEntities
+) {
+  let score = 0;
+
+  const color = vehicle.exteriorColor?.toLowerCase();
+  const colorMatches = entities.color
+    ? color?.includes(entities.color.toLowerCase())
+    : color?.split(/[^a-z]+/).some((word) => word.length >= 3 && words.has(word));
+  if (colorMatches) score += 2;
+
+  if (mentionsName(vehicle.modelKey, entities.vehicle?.model, words, messageKey)) score += 2;
+  if (mentionsName(vehicle.makeKey, entities.vehicle?.make, words, messageKey)) score += 1;
+  if (words.has(String(vehicle.year))) score += 1;
+  if (vehicle.trim && words.has(vehicle.trim.toLowerCase())) score += 1;
+
+  return score;
+}
+
+/**
+ * Short keys ("x5", "rx") must be a whole word so they don't match inside
+ * other words; longer ones may span words ("grand cherokee").
+ */
+function mentionsName(
+  key: string,
+  entity: string | null | undefined,
+  words: Set<string>,
+  messageKey: string
+) {
+  if (key.length < 2) return false;
+  if (entity) return toNameKey(entity).includes(key);
+  return key.length >= 4 ? messageKey.includes(key) : words.has(key);
+}
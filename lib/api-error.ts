@@ -43,6 +43,16 @@ export function handleApiError(error: unknown) {
       );
     }
 
+    if (error.code === "P2034") {
+      return NextResponse.json(
+        {
+          error: "Conflict",
+          message: "The request conflicted with a concurrent update. Please retry."
+        },
+        { status: 409 }
+      );
+    }
+
     if (error.code === "P2025") {
       return NextResponse.json(
         {
@@ -0,0 +1,206 @@
+export interface OpeningWindow {
+  /** Minutes after local midnight. */
+  open: number;
+  close: number;
+}
+
+/** Opening windows indexed by weekday (0 = Sunday … 6 = Saturday). */
+export type WeeklyHours = OpeningWindow[][];
+
+const DAY_KEYS: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6
+};
+
+/**
+ * Parses `Dealership.businessHours`. Accepts day keys in full or abbreviated
+ * form, with values such as `"09:00-19:00"`, `"9am - 7pm"`, `"closed"`,
+ * `{ open: "09:00", close: "19:00" }`, `{ closed: true }` or an array of those.
+ */
+export function parseBusinessHours(raw: unknown): WeeklyHours {
+  const week: WeeklyHours = [[], [], [], [], [], [], []];
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return week;
+  }
+
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const day = DAY_KEYS[key.trim().toLowerCase()];
+    if (day === undefined) continue;
+    week[day] = parseDayValue(value);
+  }
+
+  return week;
+}
+
+function parseDayValue(value: unknown): OpeningWindow[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => parseDayValue(entry));
+  }
+
+  if (typeof value === "string") {
+    if (/closed/i.test(value)) return [];
+    const [open, close] = value.split(/\s*(?:-|–|to)\s*/i);
+    return toWindow(open, close);
+  }
+
+  if (value && typeof value === "object") {
+    const entry = value as Record<string, unknown>;
+    if (entry.closed === true) return [];
+    return toWindow(entry.open ?? entry.start, entry.close ?? entry.end);
+  }
+
+  return [];
+}
+
+function toWindow(open: unknown, close: unknown): OpeningWindow[] {
+  const openMinutes = parseTimeOfDay(open);
+  const closeMinutes = parseTimeOfDay(close);
+  if (openMinutes === null || closeMinutes === null || closeMinutes <= openMinutes) {
+    return [];
+  }
+  return [{ open: openMinutes, close: closeMinutes }];
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Human-readable weekly hours, Monday first, e.g. `Mon: 9:00 AM–7:00 PM`. */
+export function describeBusinessHours(hours: WeeklyHours) {
+  return [1, 2, 3, 4, 5, 6, 0].map((day) => {
+    const windows = hours[day];
+    const label = windows.length
+      ? windows
+          .map((window) => `${formatTimeOfDay(window.open)}–${formatTimeOfDay(window.close)}`)
+          .join(", ")
+      : "closed";
+    return `${WEEKDAY_LABELS[day]}: ${label}`;
+  });
+}
+
+function formatTimeOfDay(minutes: number) {
+  const hours = Math.floor(minutes / 60) % 24;
+  const suffix = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, "0")} ${suffix}`;
+}
+
+export function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export function getLocalDate(date: Date, timeZone: string): LocalDate {
+  const parts = getZonedParts(date, timeZone);
+  return { year: parts.year, month: parts.month, day: parts.day };
+}
+
+/** Adds calendar days to a local date without crossing into UTC offsets. */
+export function addLocalDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+}
+
+export function getLocalWeekday(date: LocalDate) {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/** Converts a wall-clock time at the dealership into an absolute instant. */
+export function zonedTimeToUtc(date: LocalDate, minutes: number, timeZone: string) {
+  const guess = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const offset = getTimeZoneOffset(new Date(guess), timeZone);
+  const candidate = guess - offset;
+  const correctedOffset = getTimeZoneOffset(new Date(candidate), timeZone);
+  return new Date(correctedOffset === offset ? candidate : guess - correctedOffset);
+}
+
+/** Minutes after local midnight for an instant, in the dealership's time zone. */
+export function getLocalMinutes(date: Date, timeZone: string) {
+  const parts = getZonedParts(date, timeZone);
+  return parts.hour * 60 + parts.minute;
+}
+
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  });
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second
+  };
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
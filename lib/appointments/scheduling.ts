@@ -0,0 +1,393 @@
+import {
+  AppointmentStatus,
+  AppointmentType,
+  LeadStatus,
+  Prisma,
+  VehicleAvailability
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { syncAppointmentReminders } from "@/lib/queues/appointmentReminderQueue";
+import { recalculateLeadScore } from "@/lib/leads/scoring";
+import { SYSTEM_ACTOR, recordLeadStatusChange } from "@/lib/leads/workflow";
+import {
+  addLocalDays,
+  getLocalDate,
+  getLocalMinutes,
+  getLocalWeekday,
+  parseBusinessHours,
+  zonedTimeToUtc,
+  type WeeklyHours
+} from "./businessHours";
+
+export const DEFAULT_DURATION_MINUTES: Record<AppointmentType, number> = {
+  TEST_DRIVE: 30,
+  SERVICE: 60,
+  GENERAL: 30
+};
+
+const SLOT_INTERVAL_MINUTES = 30;
+const MIN_LEAD_TIME_MINUTES = 60;
+const MAX_DURATION_MINUTES = 8 * 60;
+export const MAX_SEARCH_DAYS = 30;
+
+const ACTIVE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED
+];
+
+export interface AppointmentSlot {
+  start: Date;
+  end: Date;
+}
+
+interface FindSlotsOptions {
+  dealershipId: string;
+  durationMinutes: number;
+  vehicleId?: string | null;
+  from?: Date;
+  days?: number;
+  limit?: number;
+  excludeAppointmentId?: string;
+}
+
+export interface BookAppointmentInput {
+  dealershipId: string;
+  leadId: string;
+  vehicleId?: string | null;
+  appointmentType: AppointmentType;
+  scheduledDatetime: Date;
+  durationMinutes?: number;
+  notes?: string | null;
+}
+
+export interface RescheduleAppointmentInput {
+  scheduledDatetime?: Date;
+  durationMinutes?: number;
+  vehicleId?: string | null;
+  notes?: string | null;
+}
+
+type TransactionClient = Prisma.TransactionClient;
+
+export async function findAvailableSlots({
+  dealershipId,
+  durationMinutes,
+  vehicleId,
+  from,
+  days = 7,
+  limit = 20,
+  excludeAppointmentId
+}: FindSlotsOptions): Promise<{ timeZone: string; slots: AppointmentSlot[] }> {
+  const dealership = await getDealershipSchedule(dealershipId);
+  const hours = parseBusinessHours(dealership.businessHours);
+
+  const earliest = new Date(
+    Math.max(from?.getTime() ?? 0, Date.now() + MIN_LEAD_TIME_MINUTES * 60_000)
+  );
+
+  const candidates = listCandidateSlots(
+    hours,
+    dealership.timezone,
+    earliest,
+    Math.min(days, MAX_SEARCH_DAYS),
+    durationMinutes
+  );
+
+  if (!candidates.length) {
+    return { timeZone: dealership.timezone, slots: [] };
+  }
+
+  const bookings = vehicleId
+    ? await loadVehicleBookings(prisma, {
+        vehicleId,
+        from: candidates[0].start,
+        to: candidates[candidates.length - 1].end,
+        excludeAppointmentId
+      })
+    : [];
+
+  const slots = candidates
+    .filter((slot) => !bookings.some((booking) => overlaps(slot, booking)))
+    .slice(0, limit);
+
+  return { timeZone: dealership.timezone, slots };
+}
+
+export async function bookAppointment(input: BookAppointmentInput) {
+  const durationMinutes =
+    input.durationMinutes ?? DEFAULT_DURATION_MINUTES[input.appointmentType];
+  const slot = toSlot(input.scheduledDatetime, durationMinutes);
+
+  await assertBookableSlot(input.dealershipId, slot);
+  if (input.vehicleId) {
+    await assertBookableVehicle(input.dealershipId, input.vehicleId);
+  }
+
+  const appointment = await prisma.$transaction(
+    async (tx) => {
+      if (input.vehicleId) {
+        await assertVehicleFree(tx, input.vehicleId, slot);
+      }
+
+      const created = await tx.appointment.create({
+        data: {
+          dealershipId: input.dealershipId,
+          leadId: input.leadId,
+          vehicleId: input.vehicleId ?? null,
+          appointmentType: input.appointmentType,
+          scheduledDatetime: slot.start,
+          durationMinutes,
+          notes: input.notes ?? null
+        }
+      });
+
+      const lead = await tx.lead.findUniqueOrThrow({
+        where: { id: input.leadId },
+        select: { status: true }
+      });
+
+      if (lead.status !== LeadStatus.APPOINTMENT_SET) {
+        await tx.lead.update({
+          where: { id: input.leadId },
+          data: { status: LeadStatus.APPOINTMENT_SET }
+        });
+
+        await recordLeadStatusChange(tx, {
+          leadId: input.leadId,
+          actor: SYSTEM_ACTOR,
+          fromStatus: lead.status,
+          toStatus: LeadStatus.APPOINTMENT_SET,
+          note: "Appointment booked from chat"
+        });
+      }
+
+      return created;
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  await syncAppointmentReminders(appointment);
+  await recalculateLeadScore(appointment.leadId);
+  return appointment;
+}
+
+export async function rescheduleAppointment(
+  appointmentId: string,
+  changes: RescheduleAppointmentInput
+) {
+  const existing = await prisma.appointment.findUnique({
+    where: { id: appointmentId }
+  });
+
+  if (!existing) {
+    throw new ApiError(404, "Appointment not found");
+  }
+
+  if (!ACTIVE_STATUSES.includes(existing.status)) {
+    throw new ApiError(409, `Cannot reschedule an appointment that is ${existing.status}`);
+  }
+
+  const durationMinutes = changes.durationMinutes ?? existing.durationMinutes;
+  const vehicleId = changes.vehicleId !== undefined ? changes.vehicleId : existing.vehicleId;
+  const slot = toSlot(changes.scheduledDatetime ?? existing.scheduledDatetime, durationMinutes);
+
+  await assertBookableSlot(existing.dealershipId, slot);
+  if (vehicleId && vehicleId !== existing.vehicleId) {
+    await assertBookableVehicle(existing.dealershipId, vehicleId);
+  }
+
+  const appointment = await prisma.$transaction(
+    async (tx) => {
+      if (vehicleId) {
+        await assertVehicleFree(tx, vehicleId, slot, existing.id);
+      }
+
+      return tx.appointment.update({
+        where: { id: existing.id },
+        data: {
+          scheduledDatetime: slot.start,
+          durationMinutes,
+          vehicleId,
+          status: AppointmentStatus.SCHEDULED,
+          ...(changes.notes !== undefined ? { notes: changes.notes } : {})
+        }
+      });
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+
+  await syncAppointmentReminders(appointment, existing.scheduledDatetime);
+  return appointment;
+}
+
+export async function cancelAppointment(appointmentId: string) {
+  const existing = await prisma.appointment.findUnique({
+    where: { id: appointmentId }
+  });
+
+  if (!existing) {
+    throw new ApiError(404, "Appointment not found");
+  }
+
+  if (!ACTIVE_STATUSES.includes(existing.status)) {
+    throw new ApiError(409, `Cannot cancel an appointment that is ${existing.status}`);
+  }
+
+  const appointment = await prisma.appointment.update({
+    where: { id: existing.id },
+    data: { status: AppointmentStatus.CANCELLED }
+  });
+
+  await syncAppointmentReminders(appointment);
+  await recalculateLeadScore(appointment.leadId);
+  return appointment;
+}
+
+export function formatSlot(slot: AppointmentSlot, timeZone: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  }).format(slot.start);
+}
+
+function listCandidateSlots(
+  hours: WeeklyHours,
+  timeZone: string,
+  earliest: Date,
+  days: number,
+  durationMinutes: number
+) {
+  const slots: AppointmentSlot[] = [];
+  const firstDay = getLocalDate(earliest, timeZone);
+
+  for (let offset = 0; offset < days; offset += 1) {
+    const date = addLocalDays(firstDay, offset);
+    for (const window of hours[getLocalWeekday(date)]) {
+      for (
+        let minutes = window.open;
+        minutes + durationMinutes <= window.close;
+        minutes += SLOT_INTERVAL_MINUTES
+      ) {
+        const start = zonedTimeToUtc(date, minutes, timeZone);
+        if (start >= earliest) {
+          slots.push(toSlot(start, durationMinutes));
+        }
+      }
+    }
+  }
+
+  return slots;
+}
+
+async function getDealershipSchedule(dealershipId: string) {
+  const dealership = await prisma.dealership.findUnique({
+    where: { id: dealershipId },
+    select: { businessHours: true, timezone: true }
+  });
+
+  if (!dealership) {
+    throw new ApiError(404, "Dealership not found");
+  }
+
+  return dealership;
+}
+
+async function assertBookableSlot(dealershipId: string, slot: AppointmentSlot) {
+  const durationMinutes = (slot.end.getTime() - slot.start.getTime()) / 60_000;
+  if (durationMinutes <= 0 || durationMinutes > MAX_DURATION_MINUTES) {
+    throw new ApiError(422, "Invalid appointment duration");
+  }
+
+  if (slot.start.getTime() < Date.now()) {
+    throw new ApiError(422, "Appointments must be scheduled in the future");
+  }
+
+  const dealership = await getDealershipSchedule(dealershipId);
+  const hours = parseBusinessHours(dealership.businessHours);
+  const localDate = getLocalDate(slot.start, dealership.timezone);
+  const startMinutes = getLocalMinutes(slot.start, dealership.timezone);
+
+  const fitsWindow = hours[getLocalWeekday(localDate)].some(
+    (window) => startMinutes >= window.open && startMinutes + durationMinutes <= window.close
+  );
+
+  if (!fitsWindow) {
+    throw new ApiError(422, "Requested time is outside business hours");
+  }
+}
+
+async function assertBookableVehicle(dealershipId: string, vehicleId: string) {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: { dealershipId: true, availability: true }
+  });
+
+  if (!vehicle || vehicle.dealershipId !== dealershipId) {
+    throw new ApiError(404, "Vehicle not found");
+  }
+
+  if (vehicle.availability === VehicleAvailability.SOLD) {
+    throw new ApiError(409, "This vehicle has been sold");
+  }
+}
+
+async function assertVehicleFree(
+  tx: TransactionClient,
+  vehicleId: string,
+  slot: AppointmentSlot,
+  excludeAppointmentId?: string
+) {
+  const bookings = await loadVehicleBookings(tx, {
+    vehicleId,
+    from: slot.start,
+    to: slot.end,
+    excludeAppointmentId
+  });
+
+  if (bookings.some((booking) => overlaps(slot, booking))) {
+    throw new ApiError(409, "That vehicle is already booked for the requested time");
+  }
+}
+
+async function loadVehicleBookings(
+  client: TransactionClient,
+  {
+    vehicleId,
+    from,
+    to,
+    excludeAppointmentId
+  }: { vehicleId: string; from: Date; to: Date; excludeAppointmentId?: string }
+): Promise<AppointmentSlot[]> {
+  const appointments = await client.appointment.findMany({
+    where: {
+      vehicleId,
+      status: { in: ACTIVE_STATUSES },
+      scheduledDatetime: {
+        gte: new Date(from.getTime() - MAX_DURATION_MINUTES * 60_000),
+        lt: to
+      },
+      ...(excludeAppointmentId ? { id: { not: excludeAppointmentId } } : {})
+    },
+    select: { scheduledDatetime: true, durationMinutes: true }
+  });
+
+  return appointments.map((appointment) =>
+    toSlot(appointment.scheduledDatetime, appointment.durationMinutes)
+  );
+}
+
+function toSlot(start: Date, durationMinutes: number): AppointmentSlot {
+  return {
+    start,
+    end: new Date(start.getTime() + durationMinutes * 60_000)
+  };
+}
+
+function overlaps(a: AppointmentSlot, b: AppointmentSlot) {
+  return a.start < b.end && b.start < a.end;
+}
@@ -0,0 +1,187 @@
+import { AssistantTone, Prisma, type DealershipAssistantConfig } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { logger } from "@/lib/logger";
+import { ASSISTANT_MODELS, MAX_ASSISTANT_TEMPERATURE } from "./options";
+
+const MAX_LIST_ENTRIES = 25;
+const MAX_FAQ_FACTS = 50;
+
+const listSchema = z.array(z.string().trim().min(1).max(500)).max(MAX_LIST_ENTRIES);
+
+const faqFactSchema = z.object({
+  question: z.string().trim().min(1).max(300),
+  answer: z.string().trim().min(1).max(1000)
+});
+
+export const assistantConfigSchema = z.object({
+  personaName: z.string().trim().min(1).max(60),
+  tone: z.nativeEnum(AssistantTone),
+  greeting: z.string().trim().min(1).max(500),
+  disclaimers: listSchema,
+  topicsToAvoid: listSchema,
+  faqFacts: z.array(faqFactSchema).max(MAX_FAQ_FACTS),
+  model: z.enum(ASSISTANT_MODELS),
+  temperature: z.number().min(0).max(MAX_ASSISTANT_TEMPERATURE)
+});
+
+export type AssistantConfigInput = z.infer<typeof assistantConfigSchema>;
+
+export interface AssistantConfig extends AssistantConfigInput {
+  /** `null` until the dealership saves its first version. */
+  version: number | null;
+}
+
+export function getDefaultAssistantConfig(dealershipName: string): AssistantConfig {
+  return {
+    version: null,
+    personaName: "the virtual assistant",
+    tone: AssistantTone.FRIENDLY,
+    greeting: `Hi there! Welcome to ${dealershipName}. I'm here to help with any vehicles or offers you're interested in. How can I assist you today?`,
+    disclaimers: [],
+    topicsToAvoid: [],
+    faqFacts: [],
+    model: "gpt-4o-mini",
+    temperature: 0.4
+  };
+}
+
+/** Maps a stored version onto the config, falling back to defaults for fields that no longer validate. */
+function toAssistantConfig(
+  record: DealershipAssistantConfig,
+  dealershipName: string
+): AssistantConfig {
+  const defaults = getDefaultAssistantConfig(dealershipName);
+  const parsed = assistantConfigSchema.safeParse(record);
+
+  if (parsed.success) {
+    return { ...parsed.data, version: record.version };
+  }
+
+  logger.warn("Assistant config version failed validation; using defaults for invalid fields", {
+    dealershipId: record.dealershipId,
+    version: record.version,
+    issues: parsed.error.flatten().fieldErrors
+  });
+
+  const config: AssistantConfig = { ...defaults, version: record.version };
+  const { shape } = assistantConfigSchema;
+  for (const key of Object.keys(shape) as (keyof AssistantConfigInput)[]) {
+    const field = shape[key].safeParse(record[key]);
+    if (field.success) Object.assign(config, { [key]: field.data });
+  }
+
+  return config;
+}
+
+/** The dealership's latest saved version, or the defaults if it has never saved one. */
+export async function getAssistantConfig(dealershipId: string, dealershipName: string) {
+  const latest = await prisma.dealershipAssistantConfig.findFirst({
+    where: { dealershipId },
+    orderBy: { version: "desc" }
+  });
+
+  return latest
+    ? toAssistantConfig(latest, dealershipName)
+    : getDefaultAssistantConfig(dealershipName);
+}
+
+export async function listAssistantConfigVersions(dealershipId: string) {
+  return prisma.dealershipAssistantConfig.findMany({
+    where: { dealershipId },
+    orderBy: { version: "desc" },
+    select: {
+      version: true,
+      personaName: true,
+      tone: true,
+      model: true,
+      createdBy: true,
+      restoredFrom: true,
+      createdAt: true
+    }
+  });
+}
+
+async function createVersion(
+  dealershipId: string,
+  input: AssistantConfigInput,
+  actor: string,
+  restoredFrom: number | null = null
+) {
+  const latest = await prisma.dealershipAssistantConfig.findFirst({
+    where: { dealershipId },
+    orderBy: { version: "desc" },
+    select: { version: true }
+  });
+
+  try {
+    return await prisma.dealershipAssistantConfig.create({
+      data: {
+        dealershipId,
+        version: (latest?.version ?? 0) + 1,
+        ...input,
+        createdBy: actor,
+        restoredFrom
+      }
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new ApiError(
+        409,
+        "The assistant configuration was changed by someone else; reload and try again"
+      );
+    }
+    throw error;
+  }
+}
+
+/** Saves a new version; earlier versions are kept so they can be restored. */
+export async function saveAssistantConfig(
+  dealershipId: string,
+  input: AssistantConfigInput,
+  actor: string
+) {
+  return createVersion(dealershipId, input, actor);
+}
+
+/** Restores an earlier version by copying it forward as the newest version. */
+export async function restoreAssistantConfig(dealershipId: string, version: number, actor: string) {
+  const target = await prisma.dealershipAssistantConfig.findUnique({
+    where: { dealershipId_version: { dealershipId, version } }
+  });
+
+  if (!target) {
+    throw new ApiError(404, `Version ${version} not found`);
+  }
+
+  const parsed = assistantConfigSchema.safeParse(target);
+  if (!parsed.success) {
+    throw new ApiError(
+      422,
+      `Version ${version} is no longer valid and cannot be restored`,
+      parsed.error.flatten()
+    );
+  }
+
+  return createVersion(dealershipId, parsed.data, actor, version);
+}
+
+/** Current config plus version history, as shown in the admin editor. */
+export async function loadAssistantConfigOverview(dealershipId: string) {
+  const dealership = await prisma.dealership.findUnique({
+    where: { id: dealershipId },
+    select: { name: true }
+  });
+
+  if (!dealership) {
+    throw new ApiError(404, "Dealership not found");
+  }
+
+  const [config, versions] = await Promise.all([
+    getAssistantConfig(dealershipId, dealership.name),
+    listAssistantConfigVersions(dealershipId)
+  ]);
+
+  return { config, versions };
+}
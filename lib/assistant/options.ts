@@ -0,0 +1,22 @@
+import type { AssistantTone } from "@prisma/client";
+
+export const ASSISTANT_TONES: AssistantTone[] = [
+  "FRIENDLY",
+  "PROFESSIONAL",
+  "CASUAL",
+  "ENTHUSIASTIC"
+];
+
+export const ASSISTANT_TONE_LABELS: Record<AssistantTone, string> = {
+  FRIENDLY: "Friendly",
+  PROFESSIONAL: "Professional",
+  CASUAL: "Casual",
+  ENTHUSIASTIC: "Enthusiastic"
+};
+
+/** Reply models a dealership may pick; intent classification always uses the default. */
+export const ASSISTANT_MODELS = ["gpt-4o-mini", "gpt-4o"] as const;
+
+export type AssistantModel = (typeof ASSISTANT_MODELS)[number];
+
+export const MAX_ASSISTANT_TEMPERATURE = 1.2;
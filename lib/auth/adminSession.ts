@@ -0,0 +1,174 @@
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import { DealershipRole, type Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+
+export const ADMIN_SESSION_COOKIE = "dealerchat_admin";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const ROLE_RANK: Record<DealershipRole, number> = {
+  SALESPERSON: 1,
+  MANAGER: 2,
+  OWNER: 3
+};
+
+const adminUserInclude = {
+  memberships: {
+    include: { dealership: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "asc" }
+  }
+} satisfies Prisma.UserInclude;
+
+export type AdminUser = Prisma.UserGetPayload<{ include: typeof adminUserInclude }>;
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function createAdminSession(userId: string) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.adminSession.create({
+    data: { userId, tokenHash: hashToken(token), expiresAt }
+  });
+
+  cookies().set(ADMIN_SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt
+  });
+}
+
+export async function destroyAdminSession() {
+  const token = cookies().get(ADMIN_SESSION_COOKIE)?.value;
+  if (token) {
+    await prisma.adminSession.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+  cookies().delete(ADMIN_SESSION_COOKIE);
+}
+
+export async function getAdminUser(): Promise<AdminUser | null> {
+  const token = cookies().get(ADMIN_SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await prisma.adminSession.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { include: adminUserInclude } }
+  });
+
+  if (!session || session.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  return session.user;
+}
+
+export async function requireAdminUser() {
+  const user = await getAdminUser();
+  if (!user) {
+    throw new ApiError(401, "Sign in to continue");
+  }
+  return user;
+}
+
+export function getDealershipRole(user: AdminUser, dealershipId: string) {
+  return user.memberships.find((membership) => membership.dealershipId === dealershipId)?.role ?? null;
+}
+
+/** Dealership ids the user may act on, or `null` when unrestricted (platform admins). */
+export function getAccessibleDealershipIds(user: AdminUser) {
+  return user.isPlatformAdmin ? null : user.memberships.map((membership) => membership.dealershipId);
+}
+
+export function hasDealershipAccess(
+  user: AdminUser,
+  dealershipId: string,
+  minimumRole: DealershipRole = DealershipRole.SALESPERSON
+) {
+  if (user.isPlatformAdmin) return true;
+  const role = getDealershipRole(user, dealershipId);
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+export function assertDealershipAccess(
+  user: AdminUser,
+  dealershipId: string,
+  minimumRole: DealershipRole = DealershipRole.SALESPERSON
+) {
+  if (hasDealershipAccess(user, dealershipId, minimumRole)) return;
+
+  if (getDealershipRole(user, dealershipId)) {
+    throw new ApiError(403, `This action requires the ${minimumRole.toLowerCase()} role`);
+  }
+  throw new ApiError(404, "Dealership not found");
+}
+
+/** Resolves the signed-in user and checks their role at the given dealership. */
+export async function requireDealershipAccess(
+  dealershipId: string,
+  minimumRole: DealershipRole = DealershipRole.SALESPERSON
+) {
+  const user = await requireAdminUser();
+  assertDealershipAccess(user, dealershipId, minimumRole);
+  return user;
+}
+
+export function getActorName(user: AdminUser) {
+  return `${user.name} <${user.email}>`;
+}
+
+export function toAdminUserResponse(user: AdminUser) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    isPlatformAdmin: user.isPlatformAdmin,
+    dealerships: user.memberships.map((membership) => ({
+      id: membership.dealership.id,
+      name: membership.dealership.name,
+      role: membership.role
+    }))
+  };
+}
+
+/** Loads a lead's dealership and checks access; unknown and foreign leads both 404. */
+export async function requireLeadAccess(
+  leadId: string,
+  minimumRole: DealershipRole = DealershipRole.SALESPERSON
+) {
+  const user = await requireAdminUser();
+  const lead = await prisma.lead.findUnique({
+    where: { id: leadId },
+    select: { dealershipId: true }
+  });
+
+  if (!lead || !hasDealershipAccess(user, lead.dealershipId)) {
+    throw new ApiError(404, "Lead not found");
+  }
+
+  assertDealershipAccess(user, lead.dealershipId, minimumRole);
+  return user;
+}
+
+/** Loads a chat session's dealership and checks access; unknown and foreign sessions both 404. */
+export async function requireConversationAccess(
+  sessionId: string,
+  minimumRole: DealershipRole = DealershipRole.SALESPERSON
+) {
+  const user = await requireAdminUser();
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { dealershipId: true }
+  });
+
+  if (!session || !hasDealershipAccess(user, session.dealershipId)) {
+    throw new ApiError(404, "Conversation not found");
+  }
+
+  assertDealershipAccess(user, session.dealershipId, minimumRole);
+  return user;
+}
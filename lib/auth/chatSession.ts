@@ -0,0 +1,53 @@
+import jwt from "jsonwebtoken";
+import { env } from "@/lib/env";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+
+export interface ChatSessionTokenPayload {
+  sessionId: string;
+  dealershipId: string;
+}
+
+export function signSessionToken(payload: ChatSessionTokenPayload) {
+  return jwt.sign(payload, env.JWT_SECRET, { expiresIn: "24h" });
+}
+
+export function verifySessionToken(token: string): ChatSessionTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as {
+      sessionId?: string;
+      dealershipId?: string;
+    };
+
+    if (!decoded.sessionId || !decoded.dealershipId) {
+      return null;
+    }
+
+    return {
+      sessionId: decoded.sessionId,
+      dealershipId: decoded.dealershipId
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function requireChatSession(token: string) {
+  const payload = verifySessionToken(token);
+  if (!payload) {
+    throw new ApiError(401, "Invalid session token");
+  }
+
+  const session = await prisma.chatSession.findUnique({
+    where: { id: payload.sessionId },
+    include: {
+      dealership: true
+    }
+  });
+
+  if (!session || session.dealershipId !== payload.dealershipId) {
+    throw new ApiError(401, "Session not found or mismatch");
+  }
+
+  return session;
+}
@@ -0,0 +1,33 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+const KEY_LENGTH = 64;
+const SCRYPT_COST = 16384;
+export const MIN_PASSWORD_LENGTH = 10;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/** Hashes a password as `scrypt$<cost>$<salt>$<key>` (base64 salt and key). */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, { N: SCRYPT_COST });
+  return ["scrypt", SCRYPT_COST, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, storedHash: string) {
+  const [algorithm, cost, salt, key] = storedHash.split("$");
+  if (algorithm !== "scrypt" || !cost || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), { N: Number(cost) });
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,136 @@
+import type { MessageRole } from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { toMessageCursor } from "./liveEvents";
+import {
+  formatMessageCursor,
+  listSessionMessages,
+  parseMessageCursor,
+  toPublicMessage,
+  type MessageCursor
+} from "./messages";
+import {
+  subscribeToConversation,
+  type ConversationEvent,
+  type ConversationStatus
+} from "./realtime";
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const RECONNECT_DELAY_MS = 3000;
+
+interface ConversationStreamOptions {
+  sessionId: string;
+  /** Replay messages written after this position before going live. */
+  after: MessageCursor;
+  /** Restricts which message roles reach this client. */
+  roles?: MessageRole[];
+  status: ConversationStatus;
+  signal: AbortSignal;
+}
+
+/**
+ * Streams a session's events as Server-Sent Events. Each `message` event
+ * carries the message's cursor (`createdAt` plus id) as its event id, so a
+ * reconnecting EventSource sends it back as `Last-Event-ID` and resumes where
+ * it left off, including messages written in the same millisecond.
+ *
+ * The stream subscribes before replaying, buffering live events until the
+ * replay is written, so nothing published in between is lost.
+ */
+export function createConversationEventStream({
+  sessionId,
+  after,
+  roles,
+  status,
+  signal
+}: ConversationStreamOptions) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let replaying = true;
+      const buffered: ConversationEvent[] = [];
+      const delivered = new Set<string>(after.messageId ? [after.messageId] : []);
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client.
+        }
+      };
+
+      const deliver = (event: ConversationEvent) => {
+        if (event.type === "status") {
+          const { agentActive, agentName } = event;
+          write(`event: status\ndata: ${JSON.stringify({ agentActive, agentName })}\n\n`);
+          return;
+        }
+
+        const { message } = event;
+        if (roles && !roles.includes(message.role)) return;
+        if (delivered.has(message.id)) return;
+        delivered.add(message.id);
+        write(
+          `id: ${toMessageCursor(message)}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`
+        );
+      };
+
+      const unsubscribe = await subscribeToConversation(sessionId, (event) => {
+        if (replaying) {
+          buffered.push(event);
+        } else {
+          deliver(event);
+        }
+      });
+
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed.
+        }
+      };
+
+      if (signal.aborted) {
+        cleanup();
+        return;
+      }
+      signal.addEventListener("abort", cleanup, { once: true });
+
+      write(
+        `retry: ${RECONNECT_DELAY_MS}\nid: ${formatMessageCursor(after)}\nevent: ready\ndata: ${JSON.stringify(status)}\n\n`
+      );
+
+      try {
+        const missed = await listSessionMessages(sessionId, { after, roles });
+        missed.forEach((message) => deliver({ type: "message", message: toPublicMessage(message) }));
+      } catch (error) {
+        logger.error("Failed to replay conversation messages", error as Error, { sessionId });
+      }
+
+      replaying = false;
+      buffered.splice(0).forEach(deliver);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+}
+
+/** Resume point for a stream: the `Last-Event-ID` header wins over the `after` query param. */
+export function resolveStreamCursor(
+  request: Request,
+  after: MessageCursor | undefined
+): MessageCursor {
+  const resumed = parseMessageCursor(request.headers.get("Last-Event-ID"));
+  return resumed ?? after ?? { createdAt: new Date(), messageId: null };
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import type { AdminUser } from "@/lib/auth/adminSession";
+import { appendSessionMessage } from "./messages";
+import { releaseConversation, takeOverConversation } from "./handoff";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { chatSession: { findUnique: vi.fn(), updateMany: vi.fn() } }
+}));
+vi.mock("./messages", () => ({ appendSessionMessage: vi.fn() }));
+vi.mock("./realtime", () => ({ publishConversationEvent: vi.fn() }));
+
+const agent = {
+  id: "agent-2",
+  name: "Sam Lee",
+  isPlatformAdmin: false,
+  memberships: [{ dealershipId: "dealership-1", role: "SALESPERSON" }]
+} as unknown as AdminUser;
+const session = {
+  id: "session-1",
+  dealershipId: "dealership-1",
+  aiPaused: false,
+  assignedAgentId: null,
+  dealership: { name: "Riverside Motors" }
+};
+
+describe("takeOverConversation", () => {
+  beforeEach(() => {
+    vi.mocked(prisma.chatSession.findUnique).mockResolvedValue(session as never);
+    vi.mocked(prisma.chatSession.updateMany).mockReset();
+  });
+
+  it("claims the conversation only while nobody else holds it", async () => {
+    vi.mocked(prisma.chatSession.updateMany).mockResolvedValue({ count: 1 });
+
+    await takeOverConversation(session.id, agent);
+
+    expect(prisma.chatSession.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: session.id,
+        OR: [{ aiPaused: false }, { assignedAgentId: null }, { assignedAgentId: agent.id }]
+      },
+      data: { aiPaused: true, assignedAgentId: agent.id }
+    });
+  });
+
+  it("rejects an agent who lost the race to take over", async () => {
+    vi.mocked(prisma.chatSession.updateMany).mockResolvedValue({ count: 0 });
+
+    await expect(takeOverConversation(session.id, agent)).rejects.toMatchObject({
+      statusCode: 409
+    });
+  });
+});
+
+describe("releaseConversation", () => {
+  const heldByAlex = {
+    ...session,
+    aiPaused: true,
+    assignedAgentId: "agent-1",
+    assignedAgent: { name: "Alex Kim" }
+  };
+
+  beforeEach(() => {
+    vi.mocked(prisma.chatSession.findUnique).mockResolvedValue(heldByAlex as never);
+    vi.mocked(prisma.chatSession.updateMany).mockReset();
+    vi.mocked(prisma.chatSession.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(appendSessionMessage).mockClear();
+  });
+
+  it("won't let another salesperson hand back a colleague's conversation", async () => {
+    await expect(releaseConversation(session.id, agent)).rejects.toMatchObject({
+      statusCode: 403
+    });
+    expect(prisma.chatSession.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("lets a manager hand it back on the assigned agent's behalf", async () => {
+    const manager = {
+      ...agent,
+      id: "manager-1",
+      name: "Pat Jones",
+      memberships: [{ dealershipId: "dealership-1", role: "MANAGER" }]
+    } as unknown as AdminUser;
+
+    await releaseConversation(session.id, manager);
+
+    expect(prisma.chatSession.updateMany).toHaveBeenCalledWith({
+      where: { id: session.id, aiPaused: true, assignedAgentId: "agent-1" },
+      data: { aiPaused: false, assignedAgentId: null }
+    });
+    expect(appendSessionMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringMatching(/^Alex left the chat/) })
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { DealershipRole, MessageRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { hasDealershipAccess, type AdminUser } from "@/lib/auth/adminSession";
+import { appendSessionMessage } from "./messages";
+import { publishConversationEvent, type ConversationStatus } from "./realtime";
+
+async function loadSession(sessionId: string) {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    include: { dealership: { select: { name: true } } }
+  });
+
+  if (!session) {
+    throw new ApiError(404, "Conversation not found");
+  }
+
+  return session;
+}
+
+/** Whether a person is currently answering the customer, for the widget header. */
+export async function getConversationStatus(sessionId: string): Promise<ConversationStatus> {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { aiPaused: true, assignedAgent: { select: { name: true } } }
+  });
+
+  return {
+    agentActive: Boolean(session?.aiPaused),
+    agentName: session?.aiPaused ? (session.assignedAgent?.name ?? null) : null
+  };
+}
+
+function firstName(user: { name: string }) {
+  return user.name.trim().split(/\s+/)[0] || "A team member";
+}
+
+/** Pauses the assistant on a session and assigns it to the agent. */
+export async function takeOverConversation(sessionId: string, agent: AdminUser) {
+  const session = await loadSession(sessionId);
+
+  if (session.aiPaused && session.assignedAgentId && session.assignedAgentId !== agent.id) {
+    throw new ApiError(409, "Another agent is already handling this conversation");
+  }
+
+  if (session.aiPaused && session.assignedAgentId === agent.id) {
+    return session;
+  }
+
+  // Claimed conditionally so two agents taking over at once can't both win.
+  const claimed = await prisma.chatSession.updateMany({
+    where: {
+      id: session.id,
+      OR: [{ aiPaused: false }, { assignedAgentId: null }, { assignedAgentId: agent.id }]
+    },
+    data: { aiPaused: true, assignedAgentId: agent.id }
+  });
+
+  if (!claimed.count) {
+    throw new ApiError(409, "Another agent is already handling this conversation");
+  }
+
+  const updated = await loadSession(session.id);
+
+  await appendSessionMessage({
+    sessionId: session.id,
+    role: MessageRole.SYSTEM,
+    content: `${firstName(agent)} from ${session.dealership.name} joined the chat.`
+  });
+
+  await publishConversationEvent(session.id, {
+    type: "status",
+    agentActive: true,
+    agentName: agent.name
+  });
+
+  return updated;
+}
+
+/**
+ * Hands the session back to the assistant. Only the agent handling it may,
+ * unless a manager steps in for them.
+ */
+export async function releaseConversation(sessionId: string, agent: AdminUser) {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    include: { assignedAgent: { select: { name: true } } }
+  });
+
+  if (!session) {
+    throw new ApiError(404, "Conversation not found");
+  }
+
+  if (!session.aiPaused) {
+    return session;
+  }
+
+  if (
+    session.assignedAgentId &&
+    session.assignedAgentId !== agent.id &&
+    !hasDealershipAccess(agent, session.dealershipId, DealershipRole.MANAGER)
+  ) {
+    throw new ApiError(
+      403,
+      "Only the agent handling this conversation or a manager can hand it back"
+    );
+  }
+
+  // Conditional on the assignment we checked, so a takeover in between isn't undone.
+  const released = await prisma.chatSession.updateMany({
+    where: { id: session.id, aiPaused: true, assignedAgentId: session.assignedAgentId },
+    data: { aiPaused: false, assignedAgentId: null }
+  });
+
+  if (!released.count) {
+    throw new ApiError(409, "This conversation changed hands; refresh and try again");
+  }
+
+  const updated = await loadSession(session.id);
+
+  // A manager stepping in hands back on behalf of the agent who was in the chat.
+  const leaving = session.assignedAgent ?? agent;
+  await appendSessionMessage({
+    sessionId: session.id,
+    role: MessageRole.SYSTEM,
+    content: `${firstName(leaving)} left the chat. Our virtual assistant will take it from here.`
+  });
+
+  await publishConversationEvent(session.id, { type: "status", agentActive: false, agentName: null });
+
+  return updated;
+}
+
+export async function sendAgentMessage(sessionId: string, agent: AdminUser, content: string) {
+  const session = await loadSession(sessionId);
+
+  if (!session.aiPaused || session.assignedAgentId !== agent.id) {
+    throw new ApiError(409, "Take over the conversation before replying");
+  }
+
+  return appendSessionMessage({
+    sessionId: session.id,
+    role: MessageRole.AGENT,
+    content,
+    authorId: agent.id
+  });
+}
@@ -0,0 +1,92 @@
+/** Browser-side helper for the conversation event streams; safe to import from client components. */
+
+const MIN_RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60_000;
+export const MESSAGE_CURSOR_SEPARATOR = "_";
+
+export interface LiveConversationStatus {
+  agentActive: boolean;
+  agentName: string | null;
+}
+
+export interface LiveConversationMessage {
+  id: string;
+  role: "USER" | "ASSISTANT" | "AGENT" | "SYSTEM";
+  content: string;
+  authorName: string | null;
+  createdAt: string;
+}
+
+export interface LiveConversationHandlers {
+  onMessage: (message: LiveConversationMessage) => void;
+  onStatus?: (status: LiveConversationStatus) => void;
+  /** Called when the stream gives up and is about to be reopened. */
+  onDisconnect?: () => void;
+}
+
+/**
+ * Resume position just after a message: its timestamp plus its id, since
+ * several messages can share a millisecond. Used as SSE event ids and as the
+ * `after` param of the conversation endpoints.
+ */
+export function toMessageCursor(message: Pick<LiveConversationMessage, "id" | "createdAt">) {
+  return `${message.createdAt}${MESSAGE_CURSOR_SEPARATOR}${message.id}`;
+}
+
+/**
+ * Opens an EventSource and keeps it open. The browser retries dropped
+ * connections itself, resending `Last-Event-ID`; when it gives up (for
+ * example after an error response) the stream is reopened with backoff,
+ * passing the last seen id as `after` so missed messages are replayed.
+ */
+export function connectConversationEvents(
+  buildUrl: (after: string | null) => string,
+  handlers: LiveConversationHandlers,
+  initialCursor: string | null = null
+) {
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastEventId = initialCursor;
+  let delay = MIN_RECONNECT_DELAY_MS;
+  let stopped = false;
+
+  const trackId = (event: MessageEvent) => {
+    if (event.lastEventId) lastEventId = event.lastEventId;
+  };
+
+  const open = () => {
+    source = new EventSource(buildUrl(lastEventId));
+
+    source.addEventListener("ready", (event) => {
+      const message = event as MessageEvent<string>;
+      delay = MIN_RECONNECT_DELAY_MS;
+      trackId(message);
+      handlers.onStatus?.(JSON.parse(message.data) as LiveConversationStatus);
+    });
+
+    source.addEventListener("status", (event) => {
+      handlers.onStatus?.(JSON.parse((event as MessageEvent<string>).data) as LiveConversationStatus);
+    });
+
+    source.addEventListener("message", (event) => {
+      trackId(event);
+      handlers.onMessage(JSON.parse(event.data) as LiveConversationMessage);
+    });
+
+    source.onerror = () => {
+      if (stopped || source?.readyState !== EventSource.CLOSED) return;
+      source.close();
+      handlers.onDisconnect?.();
+      reconnectTimer = setTimeout(open, delay);
+      delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+  };
+
+  open();
+
+  return () => {
+    stopped = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    source?.close();
+  };
+}
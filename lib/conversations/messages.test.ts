@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { toMessageCursor } from "./liveEvents";
+import {
+  formatMessageCursor,
+  listSessionMessages,
+  listSessionTranscript,
+  parseMessageCursor
+} from "./messages";
+
+vi.mock("@/lib/prisma", () => ({ prisma: { message: { findMany: vi.fn() } } }));
+vi.mock("@/lib/redis", () => ({ default: {} }));
+
+const createdAt = "2026-02-01T12:00:00.123Z";
+const messageId = "0b6f3c7e-3f59-4a5e-9a61-2d1f0c7b9e42";
+
+describe("message cursors", () => {
+  it("round-trips a message's timestamp and id", () => {
+    const cursor = parseMessageCursor(toMessageCursor({ id: messageId, createdAt }));
+
+    expect(cursor).toEqual({ createdAt: new Date(createdAt), messageId });
+    expect(formatMessageCursor(cursor!)).toBe(`${createdAt}_${messageId}`);
+  });
+
+  it("accepts a bare timestamp and rejects garbage", () => {
+    expect(parseMessageCursor(createdAt)).toEqual({
+      createdAt: new Date(createdAt),
+      messageId: null
+    });
+    expect(parseMessageCursor("not-a-date")).toBeNull();
+  });
+});
+
+describe("listSessionMessages", () => {
+  beforeEach(() => {
+    vi.mocked(prisma.message.findMany).mockReset();
+    vi.mocked(prisma.message.findMany).mockResolvedValue([]);
+  });
+
+  it("replays the cursor's whole millisecond except the cursor's message", async () => {
+    await listSessionMessages("session-1", {
+      after: { createdAt: new Date(createdAt), messageId }
+    });
+
+    expect(vi.mocked(prisma.message.findMany).mock.calls[0][0]).toMatchObject({
+      where: {
+        sessionId: "session-1",
+        createdAt: { gte: new Date(createdAt) },
+        NOT: { id: messageId }
+      },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+    });
+  });
+});
+
+describe("listSessionTranscript", () => {
+  beforeEach(() => {
+    vi.mocked(prisma.message.findMany).mockReset();
+  });
+
+  it("pages through every stored message, counting staff replies as the dealership's", async () => {
+    const page = Array.from({ length: 200 }, (_, index) => ({
+      id: `message-${index}`,
+      role: index % 2 ? "ASSISTANT" : "USER",
+      content: `Message ${index}`,
+      createdAt: new Date(Date.parse(createdAt) + index)
+    }));
+    vi.mocked(prisma.message.findMany)
+      .mockResolvedValueOnce(page as never)
+      .mockResolvedValueOnce([
+        page[199],
+        { id: "message-200", role: "AGENT", content: "Sam here", createdAt: new Date() }
+      ] as never);
+
+    const transcript = await listSessionTranscript("session-1");
+
+    expect(transcript).toHaveLength(201);
+    expect(transcript[0]).toEqual({ role: "user", content: "Message 0" });
+    expect(transcript[200]).toEqual({ role: "assistant", content: "Sam here" });
+    expect(vi.mocked(prisma.message.findMany).mock.calls[0][0]).toMatchObject({
+      where: { role: { in: ["USER", "ASSISTANT", "AGENT"] } }
+    });
+  });
+});
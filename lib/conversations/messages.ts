@@ -0,0 +1,159 @@
+import { MessageRole, type Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { MESSAGE_CURSOR_SEPARATOR } from "./liveEvents";
+import { publishConversationEvent } from "./realtime";
+
+const MAX_MESSAGES_PER_FETCH = 200;
+
+export const messageAuthorSelect = {
+  author: { select: { id: true, name: true } }
+} satisfies Prisma.MessageInclude;
+
+export type SessionMessage = Prisma.MessageGetPayload<{ include: typeof messageAuthorSelect }>;
+
+/**
+ * Persists a message, bumps the session's `lastMessageAt` so live views can
+ * sort on it, and publishes it to any open event streams.
+ */
+export async function appendSessionMessage(
+  data: Prisma.MessageUncheckedCreateInput
+): Promise<SessionMessage> {
+  const [message] = await prisma.$transaction([
+    prisma.message.create({ data, include: messageAuthorSelect }),
+    prisma.chatSession.update({
+      where: { id: data.sessionId },
+      data: { lastMessageAt: new Date() }
+    })
+  ]);
+
+  await publishConversationEvent(data.sessionId, {
+    type: "message",
+    message: toPublicMessage(message)
+  });
+
+  return message;
+}
+
+export interface MessageCursor {
+  createdAt: Date;
+  /** The last message already seen; null for a bare timestamp. */
+  messageId: string | null;
+}
+
+/** Parses a `toMessageCursor` value. A bare ISO timestamp is accepted too. */
+export function parseMessageCursor(value: string | null | undefined): MessageCursor | null {
+  if (!value) return null;
+  const [timestamp, messageId] = value.split(MESSAGE_CURSOR_SEPARATOR);
+  const createdAt = new Date(timestamp);
+  if (Number.isNaN(createdAt.getTime())) return null;
+  return { createdAt, messageId: messageId || null };
+}
+
+export function formatMessageCursor(cursor: MessageCursor) {
+  const timestamp = cursor.createdAt.toISOString();
+  return cursor.messageId
+    ? `${timestamp}${MESSAGE_CURSOR_SEPARATOR}${cursor.messageId}`
+    : timestamp;
+}
+
+/** The `after` query param of the conversation endpoints. */
+export const messageCursorSchema = z
+  .string()
+  .max(200)
+  .transform((value, context) => {
+    const cursor = parseMessageCursor(value);
+    if (!cursor) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return cursor;
+  });
+
+interface ListMessagesOptions {
+  after?: MessageCursor;
+  roles?: MessageRole[];
+}
+
+/**
+ * Where clause for messages after a cursor. With a message id the cursor's
+ * whole millisecond is included, minus that message, so others written in
+ * the same millisecond aren't skipped; clients drop any they already have.
+ */
+function afterCursor(cursor: MessageCursor): Prisma.MessageWhereInput {
+  if (!cursor.messageId) {
+    return { createdAt: { gt: cursor.createdAt } };
+  }
+  return { createdAt: { gte: cursor.createdAt }, NOT: { id: cursor.messageId } };
+}
+
+export async function listSessionMessages(
+  sessionId: string,
+  { after, roles }: ListMessagesOptions = {}
+) {
+  return prisma.message.findMany({
+    where: {
+      sessionId,
+      ...(after ? afterCursor(after) : {}),
+      ...(roles ? { role: { in: roles } } : {})
+    },
+    include: messageAuthorSelect,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: MAX_MESSAGES_PER_FETCH
+  });
+}
+
+/** Roles in a lead's transcript; system notices such as handoffs are left out. */
+const TRANSCRIPT_ROLES: MessageRole[] = [
+  MessageRole.USER,
+  MessageRole.ASSISTANT,
+  MessageRole.AGENT
+];
+
+/**
+ * The session's whole conversation, oldest first, as stored on its lead.
+ * Staff replies are the dealership's side of the chat, like the assistant's.
+ */
+export async function listSessionTranscript(sessionId: string) {
+  const transcript: Array<{ role: "user" | "assistant"; content: string }> = [];
+  const seen = new Set<string>();
+  let after: MessageCursor | undefined;
+
+  for (;;) {
+    const messages = await listSessionMessages(sessionId, { after, roles: TRANSCRIPT_ROLES });
+
+    for (const message of messages) {
+      if (seen.has(message.id)) continue;
+      seen.add(message.id);
+      transcript.push({
+        role: message.role === MessageRole.USER ? "user" : "assistant",
+        content: message.content
+      });
+    }
+
+    if (messages.length < MAX_MESSAGES_PER_FETCH) return transcript;
+    const last = messages[messages.length - 1];
+    after = { createdAt: last.createdAt, messageId: last.id };
+  }
+}
+
+/** Messages shown to the customer that did not come back from their own request. */
+export const PUSHED_MESSAGE_ROLES: MessageRole[] = [MessageRole.AGENT, MessageRole.SYSTEM];
+
+export interface PublicMessage {
+  id: string;
+  role: MessageRole;
+  content: string;
+  authorName: string | null;
+  createdAt: string;
+}
+
+export function toPublicMessage(message: SessionMessage): PublicMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    authorName: message.author?.name ?? null,
+    createdAt: message.createdAt.toISOString()
+  };
+}
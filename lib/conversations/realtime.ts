@@ -0,0 +1,100 @@
+import type Redis from "ioredis";
+import redis from "@/lib/redis";
+import { logger } from "@/lib/logger";
+import type { PublicMessage } from "./messages";
+
+export interface ConversationStatus {
+  agentActive: boolean;
+  agentName: string | null;
+}
+
+export type ConversationEvent =
+  | { type: "message"; message: PublicMessage }
+  | ({ type: "status" } & ConversationStatus);
+
+type ConversationListener = (event: ConversationEvent) => void;
+
+type GlobalConversationSubscriber = {
+  conversationSubscriber?: {
+    client: Redis;
+    listeners: Map<string, Set<ConversationListener>>;
+  };
+};
+
+const globalRealtime = global as typeof global & GlobalConversationSubscriber;
+
+function channelFor(sessionId: string) {
+  return `chat:session:${sessionId}`;
+}
+
+/**
+ * One subscriber connection per process, fanned out to every open stream.
+ * Redis pub/sub lets an event published on one instance reach clients
+ * connected to any other.
+ */
+function getSubscriber() {
+  if (!globalRealtime.conversationSubscriber) {
+    const client = redis.duplicate();
+    const listeners = new Map<string, Set<ConversationListener>>();
+
+    client.on("message", (channel: string, payload: string) => {
+      const channelListeners = listeners.get(channel);
+      if (!channelListeners?.size) return;
+
+      let event: ConversationEvent;
+      try {
+        event = JSON.parse(payload) as ConversationEvent;
+      } catch (error) {
+        logger.error("Discarding malformed conversation event", error as Error, { channel });
+        return;
+      }
+
+      channelListeners.forEach((listener) => listener(event));
+    });
+
+    globalRealtime.conversationSubscriber = { client, listeners };
+  }
+
+  return globalRealtime.conversationSubscriber;
+}
+
+/** Publishes an event to every stream open on the session. Never throws. */
+export async function publishConversationEvent(sessionId: string, event: ConversationEvent) {
+  try {
+    await redis.publish(channelFor(sessionId), JSON.stringify(event));
+  } catch (error) {
+    logger.error("Failed to publish conversation event", error as Error, {
+      sessionId,
+      type: event.type
+    });
+  }
+}
+
+/** Listens for events on a session; resolves once the subscription is active. */
+export async function subscribeToConversation(
+  sessionId: string,
+  listener: ConversationListener
+): Promise<() => void> {
+  const { client, listeners } = getSubscriber();
+  const channel = channelFor(sessionId);
+
+  let channelListeners = listeners.get(channel);
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+    await client.subscribe(channel);
+  }
+  channelListeners.add(listener);
+
+  return () => {
+    const current = listeners.get(channel);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size) return;
+
+    listeners.delete(channel);
+    client.unsubscribe(channel).catch((error: Error) => {
+      logger.error("Failed to unsubscribe from conversation channel", error, { sessionId });
+    });
+  };
+}
@@ -11,6 +11,8 @@ const envSchema = z.object({
   TWILIO_AUTH_TOKEN: z.string().optional(),
   TWILIO_PHONE_NUMBER: z.string().optional(),
   SENDGRID_API_KEY: z.string().optional(),
+  NOTIFICATIONS_FROM_EMAIL: z.string().email().optional(),
+  NOTIFICATIONS_TRANSPORT: z.enum(["live", "fake"]).optional(),
   STRIPE_SECRET_KEY: z.string().optional(),
   STRIPE_PUBLISHABLE_KEY: z.string().optional(),
   DEALERSOCKET_CLIENT_ID: z.string().optional(),
@@ -0,0 +1,32 @@
+import { CrmProvider } from "@prisma/client";
+import { z } from "zod";
+import { env } from "@/lib/env";
+import { serializeLeadToAdf } from "@/lib/adf/serializer";
+import { getNotificationTransport } from "@/lib/notifications/transport";
+import type { CrmAdapter } from "./types";
+
+const settingsSchema = z.object({
+  to: z.string().email("ADF lead inbox must be a valid email"),
+  from: z.string().email().optional()
+});
+
+export type AdfEmailSettings = z.infer<typeof settingsSchema>;
+
+/** Emails the ADF document to the CRM's lead-intake inbox. */
+export const adfEmailAdapter: CrmAdapter<AdfEmailSettings> = {
+  provider: CrmProvider.ADF_EMAIL,
+  settingsSchema,
+  async push(lead, settings) {
+    const xml = serializeLeadToAdf(lead);
+
+    const receipt = await getNotificationTransport().sendEmail({
+      to: settings.to,
+      from: settings.from ?? env.NOTIFICATIONS_FROM_EMAIL ?? lead.dealership.email,
+      subject: `ADF lead: ${lead.firstName} ${lead.lastName}`,
+      text: xml,
+      html: `<pre>${xml.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")}</pre>`
+    });
+
+    return { externalId: receipt.id };
+  }
+};
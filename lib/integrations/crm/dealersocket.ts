@@ -0,0 +1,72 @@
+import axios from "axios";
+import { CrmProvider } from "@prisma/client";
+import { z } from "zod";
+import { env } from "@/lib/env";
+import { serializeLeadToAdf } from "@/lib/adf/serializer";
+import type { CrmAdapter } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const settingsSchema = z.object({
+  dealerId: z.string().min(1, "DealerSocket dealerId is required")
+});
+
+export type DealerSocketSettings = z.infer<typeof settingsSchema>;
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+async function getAccessToken(baseUrl: string) {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) {
+    return cachedToken.value;
+  }
+
+  const response = await axios.post<{ access_token: string; expires_in?: number }>(
+    `${baseUrl}/oauth/token`,
+    new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: env.DEALERSOCKET_CLIENT_ID ?? "",
+      client_secret: env.DEALERSOCKET_CLIENT_SECRET ?? ""
+    }),
+    { timeout: REQUEST_TIMEOUT_MS }
+  );
+
+  cachedToken = {
+    value: response.data.access_token,
+    expiresAt: Date.now() + (response.data.expires_in ?? 3600) * 1000
+  };
+
+  return cachedToken.value;
+}
+
+/** Posts the lead to DealerSocket as an ADF document. */
+export const dealerSocketAdapter: CrmAdapter<DealerSocketSettings> = {
+  provider: CrmProvider.DEALERSOCKET,
+  settingsSchema,
+  async push(lead, settings) {
+    if (
+      !env.DEALERSOCKET_API_URL ||
+      !env.DEALERSOCKET_CLIENT_ID ||
+      !env.DEALERSOCKET_CLIENT_SECRET
+    ) {
+      throw new Error("DealerSocket is not configured");
+    }
+
+    const baseUrl = env.DEALERSOCKET_API_URL.replace(/\/$/, "");
+    const token = await getAccessToken(baseUrl);
+
+    const response = await axios.post<{ id?: string; leadId?: string }>(
+      `${baseUrl}/dealers/${encodeURIComponent(settings.dealerId)}/leads`,
+      serializeLeadToAdf(lead),
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/xml"
+        },
+        timeout: REQUEST_TIMEOUT_MS
+      }
+    );
+
+    const externalId = response.data?.id ?? response.data?.leadId;
+    return { externalId: externalId ? String(externalId) : null };
+  }
+};
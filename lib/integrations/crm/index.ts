@@ -0,0 +1,134 @@
+import axios from "axios";
+import { CrmProvider, CrmPushStatus, type Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { loadAdfLead, type AdfLead } from "@/lib/adf/serializer";
+import { adfEmailAdapter, type AdfEmailSettings } from "./adfEmail";
+import { dealerSocketAdapter, type DealerSocketSettings } from "./dealersocket";
+import type { CrmAdapter } from "./types";
+
+export type { CrmAdapter, CrmPushResult } from "./types";
+
+export type CrmSettings = {
+  [CrmProvider.DEALERSOCKET]: DealerSocketSettings;
+  [CrmProvider.ADF_EMAIL]: AdfEmailSettings;
+};
+
+export const crmAdapters: { [P in CrmProvider]: CrmAdapter<CrmSettings[P]> } = {
+  [CrmProvider.DEALERSOCKET]: dealerSocketAdapter,
+  [CrmProvider.ADF_EMAIL]: adfEmailAdapter
+};
+
+interface PushLeadOptions {
+  jobId?: string;
+  attempt: number;
+}
+
+/**
+ * Pushes a lead to every enabled CRM integration of its dealership and records
+ * one CrmPushAttempt per adapter. Adapters that already succeeded within the
+ * same job are skipped on retry. Throws if any adapter fails so the queue retries.
+ */
+export async function pushLeadToCrm(leadId: string, { jobId, attempt }: PushLeadOptions) {
+  const lead = await loadAdfLead(leadId);
+  if (!lead) {
+    throw new Error(`Lead ${leadId} not found`);
+  }
+
+  const integrations = await prisma.crmIntegration.findMany({
+    where: { dealershipId: lead.dealershipId, enabled: true }
+  });
+
+  if (!integrations.length) {
+    logger.info(`No CRM integrations enabled for dealership ${lead.dealershipId}`);
+    return { skipped: true, pushed: [] };
+  }
+
+  const alreadyPushed = jobId
+    ? await prisma.crmPushAttempt.findMany({
+        where: { leadId, jobId, status: CrmPushStatus.SUCCEEDED },
+        select: { provider: true }
+      })
+    : [];
+
+  const pushed: Array<{ provider: CrmProvider; externalId: string | null }> = [];
+  const failures: string[] = [];
+
+  for (const integration of integrations) {
+    if (alreadyPushed.some((entry) => entry.provider === integration.provider)) {
+      continue;
+    }
+
+    try {
+      const result = await pushWithAdapter(integration.provider, lead, integration.settings);
+
+      await prisma.crmPushAttempt.create({
+        data: {
+          leadId,
+          provider: integration.provider,
+          status: CrmPushStatus.SUCCEEDED,
+          jobId: jobId ?? null,
+          attempt,
+          externalId: result.externalId
+        }
+      });
+
+      pushed.push({ provider: integration.provider, externalId: result.externalId });
+    } catch (error) {
+      const message = describeCrmError(error);
+
+      await prisma.crmPushAttempt.create({
+        data: {
+          leadId,
+          provider: integration.provider,
+          status: CrmPushStatus.FAILED,
+          jobId: jobId ?? null,
+          attempt,
+          error: message
+        }
+      });
+
+      failures.push(`${integration.provider}: ${message}`);
+    }
+  }
+
+  if (failures.length) {
+    throw new Error(`CRM push failed for lead ${leadId}: ${failures.join("; ")}`);
+  }
+
+  await prisma.lead.update({
+    where: { id: leadId },
+    data: { pushedToCRM: true }
+  });
+
+  return { skipped: false, pushed };
+}
+
+/** Parses the integration's stored settings with its adapter's schema, then pushes the lead. */
+function pushWithAdapter<P extends CrmProvider>(
+  provider: P,
+  lead: AdfLead,
+  settings: Prisma.JsonValue
+) {
+  const adapter: CrmAdapter<CrmSettings[P]> = crmAdapters[provider];
+  return adapter.push(lead, adapter.settingsSchema.parse(settings));
+}
+
+function describeCrmError(error: unknown) {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const body =
+      typeof error.response?.data === "string"
+        ? error.response.data
+        : JSON.stringify(error.response?.data ?? "");
+    return [status ? `HTTP ${status}` : error.code, error.message, body?.slice(0, 500)]
+      .filter(Boolean)
+      .join(" - ");
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return String(error);
+}
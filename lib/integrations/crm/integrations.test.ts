@@ -0,0 +1,63 @@
+import { CrmProvider } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ZodError } from "zod";
+import { prisma } from "@/lib/prisma";
+import { createCrmIntegration, updateCrmIntegration } from "./integrations";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    crmIntegration: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() }
+  }
+}));
+vi.mock("@/lib/env", () => ({ env: {} }));
+vi.mock("@/lib/notifications/transport", () => ({ getNotificationTransport: vi.fn() }));
+
+const DEALERSHIP_ID = "dealership-a";
+
+describe("CRM integrations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.crmIntegration.findUnique).mockResolvedValue(null);
+  });
+
+  it("saves settings parsed by the provider's adapter", async () => {
+    await createCrmIntegration(DEALERSHIP_ID, {
+      provider: CrmProvider.ADF_EMAIL,
+      settings: { to: "leads@crm.example", unused: true },
+      enabled: true
+    });
+
+    expect(prisma.crmIntegration.create).toHaveBeenCalledWith({
+      data: {
+        dealershipId: DEALERSHIP_ID,
+        provider: CrmProvider.ADF_EMAIL,
+        settings: { to: "leads@crm.example" },
+        enabled: true
+      }
+    });
+  });
+
+  it("rejects settings the adapter couldn't push with", async () => {
+    await expect(
+      createCrmIntegration(DEALERSHIP_ID, {
+        provider: CrmProvider.DEALERSOCKET,
+        settings: {},
+        enabled: true
+      })
+    ).rejects.toBeInstanceOf(ZodError);
+    expect(prisma.crmIntegration.create).not.toHaveBeenCalled();
+  });
+
+  it("doesn't update another dealership's integration", async () => {
+    vi.mocked(prisma.crmIntegration.findUnique).mockResolvedValue({
+      id: "integration-1",
+      dealershipId: "dealership-b",
+      provider: CrmProvider.ADF_EMAIL
+    } as never);
+
+    await expect(
+      updateCrmIntegration(DEALERSHIP_ID, "integration-1", { enabled: false })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(prisma.crmIntegration.update).not.toHaveBeenCalled();
+  });
+});
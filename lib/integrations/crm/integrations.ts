@@ -0,0 +1,84 @@
+import { CrmProvider, type Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { crmAdapters } from "./index";
+
+export const crmIntegrationSchema = z.object({
+  provider: z.nativeEnum(CrmProvider),
+  settings: z.record(z.unknown()),
+  enabled: z.boolean().default(true)
+});
+
+/** The provider is fixed once created; a dealership has at most one integration per provider. */
+export const crmIntegrationUpdateSchema = crmIntegrationSchema.omit({ provider: true }).partial();
+
+export type CrmIntegrationInput = z.infer<typeof crmIntegrationSchema>;
+export type CrmIntegrationUpdate = z.infer<typeof crmIntegrationUpdateSchema>;
+
+/** Validates settings with the provider's adapter, so a saved integration can always push. */
+function parseCrmSettings(provider: CrmProvider, settings: unknown) {
+  return crmAdapters[provider].settingsSchema.parse(settings) as Prisma.InputJsonObject;
+}
+
+async function loadIntegration(dealershipId: string, integrationId: string) {
+  const integration = await prisma.crmIntegration.findUnique({
+    where: { id: integrationId }
+  });
+
+  if (!integration || integration.dealershipId !== dealershipId) {
+    throw new ApiError(404, "CRM integration not found");
+  }
+
+  return integration;
+}
+
+export async function listCrmIntegrations(dealershipId: string) {
+  return prisma.crmIntegration.findMany({
+    where: { dealershipId },
+    orderBy: { createdAt: "asc" }
+  });
+}
+
+export async function createCrmIntegration(dealershipId: string, input: CrmIntegrationInput) {
+  const existing = await prisma.crmIntegration.findUnique({
+    where: { dealershipId_provider: { dealershipId, provider: input.provider } },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw new ApiError(409, `This dealership already has a ${input.provider} integration`);
+  }
+
+  return prisma.crmIntegration.create({
+    data: {
+      dealershipId,
+      provider: input.provider,
+      settings: parseCrmSettings(input.provider, input.settings),
+      enabled: input.enabled
+    }
+  });
+}
+
+export async function updateCrmIntegration(
+  dealershipId: string,
+  integrationId: string,
+  changes: CrmIntegrationUpdate
+) {
+  const existing = await loadIntegration(dealershipId, integrationId);
+
+  return prisma.crmIntegration.update({
+    where: { id: existing.id },
+    data: {
+      settings: changes.settings
+        ? parseCrmSettings(existing.provider, changes.settings)
+        : undefined,
+      enabled: changes.enabled
+    }
+  });
+}
+
+export async function deleteCrmIntegration(dealershipId: string, integrationId: string) {
+  await loadIntegration(dealershipId, integrationId);
+  await prisma.crmIntegration.delete({ where: { id: integrationId } });
+}
@@ -0,0 +1,13 @@
+import type { CrmProvider } from "@prisma/client";
+import type { z } from "zod";
+import type { AdfLead } from "@/lib/adf/serializer";
+
+export interface CrmPushResult {
+  externalId: string | null;
+}
+
+export interface CrmAdapter<TSettings = unknown> {
+  provider: CrmProvider;
+  settingsSchema: z.ZodType<TSettings>;
+  push(lead: AdfLead, settings: TSettings): Promise<CrmPushResult>;
+}
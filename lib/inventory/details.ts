@@ -0,0 +1,101 @@
+import type { Vehicle } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { listVehicleFeatures } from "./semanticIndex";
+
+export type VehicleDetail = ReturnType<typeof toVehicleDetail>;
+
+export async function getVehicleById(vehicleId: string, dealershipId?: string) {
+  const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId } });
+  return assertFound(vehicle, dealershipId);
+}
+
+export async function getVehicleByVin(vin: string, dealershipId?: string) {
+  const vehicle = await prisma.vehicle.findUnique({ where: { vin: vin.trim().toUpperCase() } });
+  return assertFound(vehicle, dealershipId);
+}
+
+/** Stock numbers are only unique within a dealership, so one is required here. */
+export async function getVehicleByStockNumber(dealershipId: string, stockNumber: string) {
+  const vehicle = await prisma.vehicle.findFirst({
+    where: {
+      dealershipId,
+      stockNumber: { equals: stockNumber.trim(), mode: "insensitive" }
+    },
+    orderBy: { updatedAt: "desc" }
+  });
+  return assertFound(vehicle, dealershipId);
+}
+
+function assertFound(vehicle: Vehicle | null, dealershipId?: string) {
+  if (!vehicle || (dealershipId && vehicle.dealershipId !== dealershipId)) {
+    throw new ApiError(404, "Vehicle not found");
+  }
+  return vehicle;
+}
+
+export function toVehicleDetail(vehicle: Vehicle) {
+  return {
+    id: vehicle.id,
+    dealershipId: vehicle.dealershipId,
+    vin: vehicle.vin,
+    stockNumber: vehicle.stockNumber,
+    year: vehicle.year,
+    make: vehicle.make,
+    model: vehicle.model,
+    trim: vehicle.trim,
+    condition: vehicle.condition,
+    price: vehicle.price?.toNumber() ?? null,
+    mileage: vehicle.mileage,
+    bodyType: vehicle.bodyType,
+    transmission: vehicle.transmission,
+    drivetrain: vehicle.drivetrain,
+    fuelType: vehicle.fuelType,
+    mpgCity: vehicle.mpgCity,
+    mpgHighway: vehicle.mpgHighway,
+    exteriorColor: vehicle.exteriorColor,
+    interiorColor: vehicle.interiorColor,
+    features: listVehicleFeatures(vehicle.features),
+    images: Array.isArray(vehicle.images)
+      ? vehicle.images.filter((url): url is string => typeof url === "string")
+      : [],
+    availability: vehicle.availability,
+    featured: vehicle.featured,
+    updatedAt: vehicle.updatedAt
+  };
+}
+
+/** Fact sheet for the assistant's system context; only fields the feed actually provides. */
+export function describeVehicleForAssistant(vehicle: Vehicle) {
+  const detail = toVehicleDetail(vehicle);
+  const facts: Array<[string, string | number | null]> = [
+    ["Vehicle", [detail.year, detail.make, detail.model, detail.trim].filter(Boolean).join(" ")],
+    ["Condition", detail.condition.toLowerCase()],
+    ["Availability", detail.availability.replace(/_/g, " ").toLowerCase()],
+    ["Price", detail.price !== null ? `$${detail.price.toLocaleString("en-US")}` : null],
+    ["Mileage", detail.mileage !== null ? `${detail.mileage.toLocaleString("en-US")} miles` : null],
+    ["Body type", detail.bodyType],
+    ["Transmission", detail.transmission],
+    ["Drivetrain", detail.drivetrain],
+    ["Fuel", detail.fuelType],
+    [
+      "MPG",
+      detail.mpgCity !== null || detail.mpgHighway !== null
+        ? `${detail.mpgCity ?? "?"} city / ${detail.mpgHighway ?? "?"} highway`
+        : null
+    ],
+    ["Exterior", detail.exteriorColor],
+    ["Interior", detail.interiorColor],
+    ["VIN", detail.vin],
+    ["Stock #", detail.stockNumber],
+    ["Features", detail.features.length ? detail.features.join(", ") : null]
+  ];
+
+  return [
+    "The customer is asking about this vehicle. Answer only from these facts; if something " +
+      "isn't listed, say you'll have the team confirm it.",
+    ...facts.flatMap(([label, value]) =>
+      value !== null && value !== "" ? [`${label}: ${value}`] : []
+    )
+  ].join("\n");
+}
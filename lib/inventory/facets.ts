@@ -0,0 +1,265 @@
+import { createHash } from "crypto";
+import type { VehicleCondition } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import redis from "@/lib/redis";
+import { logger } from "@/lib/logger";
+import {
+  hasFeatureTags,
+  resolveVehicleFilters,
+  toVehicleWhere,
+  type VehicleFilterInput
+} from "./search";
+import { toNameKey } from "./vehicleNames";
+
+const FACET_CACHE_TTL_SECONDS = 10 * 60;
+
+interface RangeBucket {
+  label: string;
+  min: number | null;
+  max: number | null;
+}
+
+/** Bounds are inclusive so a bucket maps straight onto `minPrice` / `maxPrice`. */
+const PRICE_BUCKETS: RangeBucket[] = [
+  { label: "Under $10k", min: null, max: 9_999 },
+  { label: "$10k–$20k", min: 10_000, max: 19_999 },
+  { label: "$20k–$30k", min: 20_000, max: 29_999 },
+  { label: "$30k–$40k", min: 30_000, max: 39_999 },
+  { label: "$40k–$60k", min: 40_000, max: 59_999 },
+  { label: "$60k+", min: 60_000, max: null }
+];
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface RangeFacetCount extends RangeBucket {
+  count: number;
+}
+
+export interface InventoryFacets {
+  total: number;
+  makes: FacetCount[];
+  models: Array<FacetCount & { make: string }>;
+  bodyTypes: FacetCount[];
+  conditions: Array<FacetCount & { value: VehicleCondition }>;
+  years: RangeFacetCount[];
+  prices: RangeFacetCount[];
+  generatedAt: string;
+}
+
+/**
+ * Counts of in-stock vehicles per make, model, body type, condition, year
+ * bucket and price bucket for the given filters. Results are cached per
+ * dealership and filter set until `invalidateInventoryFacets` runs.
+ */
+export async function getInventoryFacets(filters: VehicleFilterInput): Promise<InventoryFacets> {
+  const cacheKey = await buildCacheKey(filters);
+
+  if (cacheKey) {
+    try {
+      const cached = await redis.get(cacheKey);
+      if (cached) return JSON.parse(cached) as InventoryFacets;
+    } catch (error) {
+      logger.warn("Failed to read inventory facet cache", error);
+    }
+  }
+
+  const facets = await computeFacets(filters);
+
+  if (cacheKey) {
+    try {
+      await redis.setex(cacheKey, FACET_CACHE_TTL_SECONDS, JSON.stringify(facets));
+    } catch (error) {
+      logger.warn("Failed to write inventory facet cache", error);
+    }
+  }
+
+  return facets;
+}
+
+/**
+ * Drops every cached facet set for a dealership by bumping its cache
+ * generation; old entries simply expire.
+ */
+export async function invalidateInventoryFacets(dealershipId: string) {
+  try {
+    await redis.incr(generationKey(dealershipId));
+  } catch (error) {
+    logger.error(`Failed to invalidate inventory facets for ${dealershipId}`, error as Error);
+  }
+}
+
+const SUMMARY_ENTRIES_PER_FACET = 6;
+
+/** A compact plain-text rendering for the assistant's system context. */
+export function describeInventoryFacets(facets: InventoryFacets) {
+  if (!facets.total) {
+    return "No in-stock vehicles match the customer's criteria right now.";
+  }
+
+  const sections: Array<[string, Array<{ label: string; count: number }>]> = [
+    ["Makes", facets.makes],
+    [
+      "Models",
+      facets.models.map((model) => ({ label: `${model.make} ${model.label}`, count: model.count }))
+    ],
+    ["Body types", facets.bodyTypes],
+    ["Conditions", facets.conditions],
+    ["Model years", facets.years],
+    ["Prices", facets.prices]
+  ];
+
+  const lines = sections
+    .filter(([, entries]) => entries.length)
+    .map(
+      ([title, entries]) =>
+        `${title}: ${entries
+          .slice(0, SUMMARY_ENTRIES_PER_FACET)
+          .map((entry) => `${entry.label} (${entry.count})`)
+          .join(", ")}`
+    );
+
+  return [`${facets.total} in-stock vehicles match the customer's criteria.`, ...lines].join("\n");
+}
+
+async function computeFacets(filters: VehicleFilterInput): Promise<InventoryFacets> {
+  const { andFilters } = await resolveVehicleFilters(filters);
+
+  const vehicles = (
+    await prisma.vehicle.findMany({
+      where: toVehicleWhere(filters.dealershipId, andFilters),
+      select: {
+        make: true,
+        model: true,
+        bodyType: true,
+        condition: true,
+        year: true,
+        price: true,
+        features: true
+      }
+    })
+  ).filter((vehicle) => !filters.features?.length || hasFeatureTags(vehicle, filters.features));
+
+  const makes = new FacetCounter();
+  const models = new FacetCounter();
+  const modelMakes = new Map<string, string>();
+  const bodyTypes = new FacetCounter();
+  const conditions = new FacetCounter();
+  const years = buildYearBuckets().map((bucket) => ({ ...bucket, count: 0 }));
+  const prices = PRICE_BUCKETS.map((bucket) => ({ ...bucket, count: 0 }));
+
+  for (const vehicle of vehicles) {
+    const makeKey = toNameKey(vehicle.make);
+    const modelKey = `${makeKey}:${toNameKey(vehicle.model)}`;
+
+    makes.add(makeKey, vehicle.make);
+    models.add(modelKey, vehicle.model);
+    modelMakes.set(modelKey, vehicle.make);
+    if (vehicle.bodyType) bodyTypes.add(toNameKey(vehicle.bodyType), vehicle.bodyType);
+    conditions.add(vehicle.condition, vehicle.condition);
+
+    incrementBucket(years, vehicle.year);
+    if (vehicle.price) incrementBucket(prices, vehicle.price.toNumber());
+  }
+
+  return {
+    total: vehicles.length,
+    makes: makes.list().map(toFacetCount),
+    models: models.list().map((model) => ({
+      ...toFacetCount(model),
+      make: modelMakes.get(model.key) ?? ""
+    })),
+    bodyTypes: bodyTypes.list().map(toFacetCount),
+    conditions: conditions.list().map((condition) => ({
+      value: condition.key as VehicleCondition,
+      label: CONDITION_LABELS[condition.key as VehicleCondition],
+      count: condition.count
+    })),
+    years: years.filter((bucket) => bucket.count > 0),
+    prices: prices.filter((bucket) => bucket.count > 0),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+const CONDITION_LABELS: Record<VehicleCondition, string> = {
+  NEW: "New",
+  USED: "Used",
+  CERTIFIED: "Certified pre-owned"
+};
+
+/**
+ * Groups values by normalized key so "Chevrolet" and "CHEVROLET" count
+ * together, labelled with the most common spelling.
+ */
+class FacetCounter {
+  private entries = new Map<string, { count: number; labels: Map<string, number> }>();
+
+  add(key: string, label: string) {
+    const entry = this.entries.get(key) ?? { count: 0, labels: new Map<string, number>() };
+    entry.count += 1;
+    entry.labels.set(label, (entry.labels.get(label) ?? 0) + 1);
+    this.entries.set(key, entry);
+  }
+
+  list() {
+    return Array.from(this.entries.entries())
+      .map(([key, entry]) => ({
+        key,
+        label: Array.from(entry.labels.entries()).sort((a, b) => b[1] - a[1])[0][0],
+        count: entry.count
+      }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+}
+
+/** The label doubles as the value to pass back as a search filter. */
+function toFacetCount({ label, count }: { label: string; count: number }): FacetCount {
+  return { value: label, label, count };
+}
+
+/** Newest model years individually, then five-year buckets, then everything older. */
+function buildYearBuckets(): RangeBucket[] {
+  const latest = new Date().getFullYear() + 1;
+  const buckets: RangeBucket[] = [];
+
+  for (let year = latest; year > latest - 3; year -= 1) {
+    buckets.push({ label: String(year), min: year, max: year });
+  }
+
+  let max = latest - 3;
+  for (let index = 0; index < 3; index += 1) {
+    buckets.push({ label: `${max - 4}–${max}`, min: max - 4, max });
+    max -= 5;
+  }
+
+  buckets.push({ label: `${max} and older`, min: null, max });
+  return buckets;
+}
+
+function incrementBucket(buckets: RangeFacetCount[], value: number) {
+  const bucket = buckets.find(
+    (candidate) =>
+      (candidate.min === null || value >= candidate.min) &&
+      (candidate.max === null || value <= candidate.max)
+  );
+  if (bucket) bucket.count += 1;
+}
+
+function generationKey(dealershipId: string) {
+  return `inventory:facets:${dealershipId}:generation`;
+}
+
+/** `null` when Redis is unavailable, in which case facets are computed uncached. */
+async function buildCacheKey(filters: VehicleFilterInput) {
+  try {
+    const generation = (await redis.get(generationKey(filters.dealershipId))) ?? "0";
+    const digest = createHash("sha256").update(JSON.stringify(filters)).digest("hex");
+    return `inventory:facets:${filters.dealershipId}:${generation}:${digest}`;
+  } catch (error) {
+    logger.warn("Inventory facet cache unavailable", error);
+    return null;
+  }
+}
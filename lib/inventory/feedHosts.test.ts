@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { FeedHostError, isPublicAddress, resolvePublicHost } from "./feedHosts";
+
+describe("isPublicAddress", () => {
+  it("rejects loopback, private, link-local and reserved addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.5",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "not-an-ip"
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("accepts public addresses", () => {
+    for (const address of ["8.8.8.8", "203.0.114.10", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+});
+
+describe("resolvePublicHost", () => {
+  it("rejects internal hosts, including bracketed IPv6 URL hosts", async () => {
+    await expect(resolvePublicHost("169.254.169.254")).rejects.toBeInstanceOf(FeedHostError);
+    await expect(resolvePublicHost("[::1]")).rejects.toBeInstanceOf(FeedHostError);
+    await expect(resolvePublicHost("localhost")).rejects.toBeInstanceOf(FeedHostError);
+  });
+
+  it("returns the address of a public host", async () => {
+    await expect(resolvePublicHost("8.8.8.8")).resolves.toBe("8.8.8.8");
+  });
+});
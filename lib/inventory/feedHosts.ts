@@ -0,0 +1,94 @@
+import dns from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+
+/**
+ * Loopback, private, link-local (cloud metadata), shared, benchmark,
+ * multicast and reserved ranges. Feeds are fetched from inside our network,
+ * so a feed host in any of these could reach internal services.
+ */
+const INTERNAL_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"]
+];
+
+const internalAddresses = new BlockList();
+for (const [network, prefix, type] of INTERNAL_SUBNETS) {
+  internalAddresses.addSubnet(network, prefix, type);
+}
+
+export class FeedHostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedHostError";
+  }
+}
+
+/** Whether an IP address is on the public internet; IPv4-mapped IPv6 is checked as IPv4. */
+export function isPublicAddress(address: string) {
+  const family = isIP(address);
+  if (!family) return false;
+  return !internalAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolves a feed host and returns the address to connect to. Throws a
+ * `FeedHostError` if the host doesn't resolve or any of its addresses is internal.
+ */
+export async function resolvePublicHost(hostname: string) {
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new FeedHostError(`Feed host "${host}" could not be found`);
+  }
+
+  if (!addresses.length || addresses.some((entry) => !isPublicAddress(entry.address))) {
+    throw new FeedHostError(`Feed host "${host}" resolves to a private or internal address`);
+  }
+
+  return addresses[0].address;
+}
+
+/**
+ * Socket `lookup` that applies the same check when connecting, so a host
+ * can't pass validation and then resolve to an internal address.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked || !addresses.length) {
+      callback(
+        new FeedHostError(`Feed host "${hostname}" resolves to a private or internal address`),
+        ""
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
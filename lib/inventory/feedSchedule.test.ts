@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isValidFeedSchedule } from "./feedSchedule";
+
+describe("isValidFeedSchedule", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts patterns that never run more often than every 15 minutes", () => {
+    expect(isValidFeedSchedule("*/15 * * * *")).toBe(true);
+    expect(isValidFeedSchedule("0 */6 * * *")).toBe(true);
+    expect(isValidFeedSchedule("30 2 * * 1-5")).toBe(true);
+    expect(isValidFeedSchedule("0 0 29 2 *")).toBe(true);
+  });
+
+  it("rejects patterns with any gap under 15 minutes", () => {
+    expect(isValidFeedSchedule("*/5 * * * *")).toBe(false);
+    expect(isValidFeedSchedule("0,50,55 * * * *")).toBe(false);
+    expect(isValidFeedSchedule("0,10 3 * * 0")).toBe(false);
+  });
+
+  it("rejects malformed patterns and patterns that never run", () => {
+    expect(isValidFeedSchedule("*/15 * * *")).toBe(false);
+    expect(isValidFeedSchedule("0 0 * * * *")).toBe(false);
+    expect(isValidFeedSchedule("not a cron")).toBe(false);
+    expect(isValidFeedSchedule("0 0 30 2 *")).toBe(false);
+  });
+
+  it("gives the same answer whatever the current time", () => {
+    for (const now of ["2026-03-02T10:00:00Z", "2026-03-02T10:51:00Z", "2026-03-08T02:30:00Z"]) {
+      vi.useFakeTimers({ now: new Date(now) });
+      expect(isValidFeedSchedule("0,50,55 * * * *")).toBe(false);
+      expect(isValidFeedSchedule("0 * * * *")).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { parseExpression } from "cron-parser";
+
+/** Feeds may not be pulled more often than this, whatever their cron pattern says. */
+export const MIN_FEED_INTERVAL_MINUTES = 15;
+
+/**
+ * Every run day repeats the same minutes and hours, so a week and a day from
+ * the first run covers every gap a pattern can produce, midnight included.
+ */
+const SCHEDULE_CHECK_DAYS = 8;
+const SCHEDULE_CHECK_MAX_RUNS = (SCHEDULE_CHECK_DAYS * 24 * 60) / MIN_FEED_INTERVAL_MINUTES + 1;
+
+/** Fixed so the result doesn't depend on when a feed is saved: a Monday in a leap year. */
+const SCHEDULE_CHECK_START = new Date(Date.UTC(2024, 0, 1));
+
+/**
+ * Whether a five-field cron pattern is allowed for a feed. Walks the pattern's
+ * runs and rejects it if any two consecutive runs are closer than the minimum
+ * interval.
+ */
+export function isValidFeedSchedule(pattern: string) {
+  if (pattern.trim().split(/\s+/).length !== 5) return false;
+
+  try {
+    const interval = parseExpression(pattern, { currentDate: SCHEDULE_CHECK_START, tz: "UTC" });
+    let previous = interval.next().getTime();
+    const until = previous + SCHEDULE_CHECK_DAYS * 24 * 60 * 60_000;
+
+    for (let run = 1; run < SCHEDULE_CHECK_MAX_RUNS; run += 1) {
+      const next = interval.next().getTime();
+      if (next - previous < MIN_FEED_INTERVAL_MINUTES * 60_000) return false;
+      if (next > until) break;
+      previous = next;
+    }
+
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,182 @@
+import http from "http";
+import https from "https";
+import axios from "axios";
+import SftpClient from "ssh2-sftp-client";
+import { InventoryFeedSource, type Prisma } from "@prisma/client";
+import { z } from "zod";
+import { lookupPublicAddress, resolvePublicHost } from "./feedHosts";
+
+const MAX_FEED_BYTES = 50 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 60_000;
+const MAX_FEED_REDIRECTS = 5;
+
+const httpAgent = new http.Agent({ lookup: lookupPublicAddress });
+const httpsAgent = new https.Agent({ lookup: lookupPublicAddress });
+
+export const REDACTED_SECRET = "********";
+const SECRET_FIELDS = ["password", "privateKey"];
+
+const httpFeedSettingsSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), "Feed URL must use http or https"),
+  username: z.string().trim().max(200).optional(),
+  password: z.string().max(500).optional()
+});
+
+const sftpFeedSettingsSchema = z
+  .object({
+    host: z.string().trim().min(1).max(255),
+    port: z.coerce.number().int().min(1).max(65535).default(22),
+    username: z.string().trim().min(1).max(200),
+    password: z.string().max(500).optional(),
+    privateKey: z.string().max(20_000).optional(),
+    path: z.string().trim().min(1).max(1000)
+  })
+  .refine((settings) => settings.password || settings.privateKey, {
+    message: "A password or private key is required",
+    path: ["password"]
+  });
+
+export const feedSettingsSchemas = {
+  [InventoryFeedSource.HTTP]: httpFeedSettingsSchema,
+  [InventoryFeedSource.SFTP]: sftpFeedSettingsSchema
+} satisfies Record<InventoryFeedSource, z.ZodTypeAny>;
+
+/** Replaces stored passwords and keys with a placeholder before settings leave the server. */
+export function redactFeedSettings(settings: Prisma.JsonValue) {
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) return {};
+
+  return Object.fromEntries(
+    Object.entries(settings).map(([key, value]) => [
+      key,
+      SECRET_FIELDS.includes(key) && value ? REDACTED_SECRET : value
+    ])
+  );
+}
+
+/** Keeps the stored secret for any field submitted back as the redaction placeholder. */
+export function restoreFeedSecrets(settings: Record<string, unknown>, stored: Prisma.JsonValue) {
+  const previous =
+    stored && typeof stored === "object" && !Array.isArray(stored) ? stored : {};
+
+  return Object.fromEntries(
+    Object.entries(settings).map(([key, value]) => [
+      key,
+      SECRET_FIELDS.includes(key) && value === REDACTED_SECRET ? previous[key] : value
+    ])
+  );
+}
+
+/**
+ * Checks that the feed's host is public before its settings are saved. Throws
+ * a `FeedHostError` otherwise; fetching checks again, since DNS can change.
+ */
+export async function assertPublicFeedHost(
+  source: InventoryFeedSource,
+  settings: Prisma.JsonValue
+) {
+  if (source === InventoryFeedSource.SFTP) {
+    await resolvePublicHost(sftpFeedSettingsSchema.parse(settings).host);
+  } else {
+    await resolvePublicHost(new URL(httpFeedSettingsSchema.parse(settings).url).hostname);
+  }
+}
+
+/**
+ * Downloads the feed file as text, along with its file name for format
+ * detection. Throws an error with a readable message on failure.
+ */
+export async function fetchFeedContent(source: InventoryFeedSource, settings: Prisma.JsonValue) {
+  if (source === InventoryFeedSource.SFTP) {
+    const sftp = sftpFeedSettingsSchema.parse(settings);
+    return { content: await fetchSftpFeed(sftp), fileName: sftp.path };
+  }
+
+  const http = httpFeedSettingsSchema.parse(settings);
+  return { content: await fetchHttpFeed(http), fileName: new URL(http.url).pathname };
+}
+
+/**
+ * Redirects are followed by hand so every hop's host is checked; credentials
+ * are only sent to the feed's own origin.
+ */
+async function fetchHttpFeed(settings: z.infer<typeof httpFeedSettingsSchema>) {
+  const origin = new URL(settings.url).origin;
+  let url = settings.url;
+
+  try {
+    for (let redirects = 0; ; redirects += 1) {
+      await resolvePublicHost(new URL(url).hostname);
+
+      const response = await axios.get<string>(url, {
+        responseType: "text",
+        transformResponse: (data) => data,
+        timeout: FETCH_TIMEOUT_MS,
+        maxContentLength: MAX_FEED_BYTES,
+        maxRedirects: 0,
+        validateStatus: (status) => status >= 200 && status < 400,
+        httpAgent,
+        httpsAgent,
+        auth:
+          settings.username && new URL(url).origin === origin
+            ? { username: settings.username, password: settings.password ?? "" }
+            : undefined
+      });
+
+      if (response.status < 300) {
+        return String(response.data ?? "");
+      }
+
+      const location = response.headers.location;
+      if (!location || redirects >= MAX_FEED_REDIRECTS) {
+        throw new Error(`Feed URL responded with HTTP ${response.status}`);
+      }
+
+      url = new URL(String(location), url).toString();
+      if (!/^https?:\/\//i.test(url)) {
+        throw new Error("Feed URL redirected to a non-HTTP address");
+      }
+    }
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(
+        error.response
+          ? `Feed URL responded with HTTP ${error.response.status}`
+          : `Feed URL could not be reached: ${error.message}`
+      );
+    }
+    throw error;
+  }
+}
+
+async function fetchSftpFeed(settings: z.infer<typeof sftpFeedSettingsSchema>) {
+  const client = new SftpClient();
+
+  try {
+    await client.connect({
+      host: await resolvePublicHost(settings.host),
+      port: settings.port,
+      username: settings.username,
+      password: settings.password,
+      privateKey: settings.privateKey,
+      readyTimeout: FETCH_TIMEOUT_MS
+    });
+
+    const stats = await client.stat(settings.path);
+    if (stats.size > MAX_FEED_BYTES) {
+      throw new Error(`Feed file is larger than ${MAX_FEED_BYTES / 1024 / 1024} MB`);
+    }
+
+    const content = await client.get(settings.path);
+    return Buffer.isBuffer(content) ? content.toString("utf-8") : String(content);
+  } catch (error) {
+    throw new Error(
+      `SFTP download failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    await client.end().catch(() => undefined);
+  }
+}
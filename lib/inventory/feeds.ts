@@ -0,0 +1,407 @@
+import {
+  InventoryFeedRunStatus,
+  InventoryFeedSource,
+  InventoryFeedTrigger,
+  Prisma,
+  type InventoryFeed
+} from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { logger } from "@/lib/logger";
+import { sendStaffAlert } from "@/lib/notifications";
+import { enqueueInventoryImport } from "@/lib/queues/inventoryImportQueue";
+import {
+  removeInventoryFeedSchedule,
+  syncInventoryFeedSchedule
+} from "@/lib/queues/inventoryFeedQueue";
+import { InventoryFileError, readInventoryFile } from "./importFile";
+import { getInventoryMapping, toColumnMapping } from "./importMappings";
+import { FeedHostError } from "./feedHosts";
+import {
+  assertPublicFeedHost,
+  feedSettingsSchemas,
+  fetchFeedContent,
+  redactFeedSettings,
+  restoreFeedSecrets
+} from "./feedSources";
+import { isValidFeedSchedule, MIN_FEED_INTERVAL_MINUTES } from "./feedSchedule";
+
+const RECENT_RUN_COUNT = 20;
+const RETAINED_RUN_COUNT = 100;
+
+export const inventoryFeedSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  source: z.nativeEnum(InventoryFeedSource),
+  settings: z.record(z.unknown()),
+  /** Saved column mapping; null detects the columns from the file's headers. */
+  mappingId: z.string().uuid().nullable().optional(),
+  schedule: z
+    .string()
+    .trim()
+    .refine(
+      isValidFeedSchedule,
+      `Schedule must be a five-field cron pattern running at most every ${MIN_FEED_INTERVAL_MINUTES} minutes`
+    ),
+  markMissingAsSold: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+  alertEmail: z.string().trim().email().nullable().optional(),
+  shrinkAlertPercent: z.number().int().min(1).max(100).default(20)
+});
+
+export const inventoryFeedUpdateSchema = inventoryFeedSchema.partial();
+
+export type InventoryFeedInput = z.infer<typeof inventoryFeedSchema>;
+export type InventoryFeedUpdate = z.infer<typeof inventoryFeedUpdateSchema>;
+
+const feedRunSelect = {
+  id: true,
+  status: true,
+  trigger: true,
+  rowCount: true,
+  skippedRows: true,
+  importJobId: true,
+  result: true,
+  error: true,
+  alert: true,
+  startedAt: true,
+  finishedAt: true
+} satisfies Prisma.InventoryFeedRunSelect;
+
+function toFeedResponse<T extends Pick<InventoryFeed, "settings">>(feed: T) {
+  return { ...feed, settings: redactFeedSettings(feed.settings) };
+}
+
+async function validateFeedHost(source: InventoryFeedSource, settings: Prisma.JsonValue) {
+  try {
+    await assertPublicFeedHost(source, settings);
+  } catch (error) {
+    if (error instanceof FeedHostError) {
+      throw new ApiError(400, error.message);
+    }
+    throw error;
+  }
+}
+
+async function loadFeed(dealershipId: string, feedId: string) {
+  const feed = await prisma.inventoryFeed.findUnique({
+    where: { id: feedId },
+    include: { dealership: { select: { timezone: true } } }
+  });
+
+  if (!feed || feed.dealershipId !== dealershipId) {
+    throw new ApiError(404, "Inventory feed not found");
+  }
+
+  return feed;
+}
+
+export async function listInventoryFeeds(dealershipId: string) {
+  const feeds = await prisma.inventoryFeed.findMany({
+    where: { dealershipId },
+    orderBy: { createdAt: "asc" },
+    include: { runs: { select: feedRunSelect, orderBy: { startedAt: "desc" }, take: 1 } }
+  });
+
+  return feeds.map(toFeedResponse);
+}
+
+/** A feed with its most recent runs, newest first. */
+export async function getInventoryFeed(dealershipId: string, feedId: string) {
+  const feed = await prisma.inventoryFeed.findUnique({
+    where: { id: feedId },
+    include: {
+      runs: { select: feedRunSelect, orderBy: { startedAt: "desc" }, take: RECENT_RUN_COUNT }
+    }
+  });
+
+  if (!feed || feed.dealershipId !== dealershipId) {
+    throw new ApiError(404, "Inventory feed not found");
+  }
+
+  return toFeedResponse(feed);
+}
+
+/** Saves a feed and schedules it; `scheduled` is false if the queue could not be updated. */
+export async function createInventoryFeed(
+  dealershipId: string,
+  input: InventoryFeedInput,
+  actor: string
+) {
+  const dealership = await prisma.dealership.findUnique({
+    where: { id: dealershipId },
+    select: { timezone: true }
+  });
+
+  if (!dealership) {
+    throw new ApiError(404, "Dealership not found");
+  }
+
+  const settings = feedSettingsSchemas[input.source].parse(input.settings);
+  await validateFeedHost(input.source, settings);
+  if (input.mappingId) {
+    await getInventoryMapping(dealershipId, input.mappingId);
+  }
+
+  const feed = await prisma.inventoryFeed.create({
+    data: {
+      dealershipId,
+      name: input.name,
+      source: input.source,
+      settings,
+      mappingId: input.mappingId ?? null,
+      schedule: input.schedule,
+      markMissingAsSold: input.markMissingAsSold,
+      enabled: input.enabled,
+      alertEmail: input.alertEmail ?? null,
+      shrinkAlertPercent: input.shrinkAlertPercent,
+      createdBy: actor
+    }
+  });
+
+  const scheduled = await syncInventoryFeedSchedule(feed, dealership.timezone);
+  return { feed: toFeedResponse(feed), scheduled };
+}
+
+export async function updateInventoryFeed(
+  dealershipId: string,
+  feedId: string,
+  changes: InventoryFeedUpdate
+) {
+  const existing = await loadFeed(dealershipId, feedId);
+  const source = changes.source ?? existing.source;
+  const settings =
+    changes.settings || source !== existing.source
+      ? feedSettingsSchemas[source].parse(
+          restoreFeedSecrets(changes.settings ?? {}, existing.settings)
+        )
+      : undefined;
+
+  if (settings) {
+    await validateFeedHost(source, settings);
+  }
+  if (changes.mappingId) {
+    await getInventoryMapping(dealershipId, changes.mappingId);
+  }
+
+  const feed = await prisma.inventoryFeed.update({
+    where: { id: feedId },
+    data: {
+      name: changes.name,
+      source: changes.source,
+      settings,
+      mappingId: changes.mappingId,
+      schedule: changes.schedule,
+      markMissingAsSold: changes.markMissingAsSold,
+      enabled: changes.enabled,
+      alertEmail: changes.alertEmail,
+      shrinkAlertPercent: changes.shrinkAlertPercent
+    }
+  });
+
+  const scheduled = await syncInventoryFeedSchedule(feed, existing.dealership.timezone);
+  return { feed: toFeedResponse(feed), scheduled };
+}
+
+export async function deleteInventoryFeed(dealershipId: string, feedId: string) {
+  await loadFeed(dealershipId, feedId);
+  await removeInventoryFeedSchedule(feedId);
+  await prisma.inventoryFeed.delete({ where: { id: feedId } });
+}
+
+export async function assertInventoryFeedInDealership(dealershipId: string, feedId: string) {
+  await loadFeed(dealershipId, feedId);
+}
+
+/**
+ * Re-creates the repeatable job of every enabled feed, so schedules survive a
+ * Redis flush. Runs when the worker starts.
+ */
+export async function restoreInventoryFeedSchedules() {
+  const feeds = await prisma.inventoryFeed.findMany({
+    where: { enabled: true },
+    select: { id: true, schedule: true, enabled: true, dealership: { select: { timezone: true } } }
+  });
+
+  let restored = 0;
+  for (const feed of feeds) {
+    if (await syncInventoryFeedSchedule(feed, feed.dealership.timezone)) {
+      restored += 1;
+    }
+  }
+  return restored;
+}
+
+/**
+ * Pulls a feed and queues its rows on the regular inventory-import pipeline.
+ * The run stays RUNNING until the import job finishes (see
+ * `completeInventoryFeedRun`). A feed that shrank by more than its alert
+ * threshold is still imported, but without marking missing vehicles as sold.
+ * Runs in the worker; fetch and parse failures fail the run and are rethrown.
+ */
+export async function runInventoryFeed(feedId: string, trigger: InventoryFeedTrigger) {
+  const feed = await prisma.inventoryFeed.findUnique({
+    where: { id: feedId },
+    include: {
+      dealership: { select: { name: true, email: true } },
+      mapping: { select: { columns: true } }
+    }
+  });
+
+  if (!feed) {
+    await removeInventoryFeedSchedule(feedId);
+    return { skipped: true, reason: "Feed no longer exists" };
+  }
+
+  if (!feed.enabled && trigger === InventoryFeedTrigger.SCHEDULE) {
+    return { skipped: true, reason: "Feed is disabled" };
+  }
+
+  const run = await prisma.inventoryFeedRun.create({ data: { feedId, trigger } });
+  await prisma.inventoryFeed.update({ where: { id: feedId }, data: { lastRunAt: run.startedAt } });
+  await pruneFeedRuns(feedId);
+
+  try {
+    const { content, fileName } = await fetchFeedContent(feed.source, feed.settings);
+    const { rows, skipped } = readInventoryFile(content, {
+      fileName,
+      mapping: feed.mapping ? toColumnMapping(feed.mapping.columns) : null
+    });
+    const shrinkAlert = describeFeedShrink(feed, rows.length);
+
+    const job = await enqueueInventoryImport({
+      dealershipId: feed.dealershipId,
+      rows,
+      markMissingAsSold: feed.markMissingAsSold && !shrinkAlert,
+      totalRows: rows.length,
+      feedRunId: run.id,
+      requestedBy: `Feed "${feed.name}"`
+    });
+
+    await prisma.inventoryFeedRun.update({
+      where: { id: run.id },
+      data: {
+        rowCount: rows.length,
+        skippedRows: skipped.length,
+        importJobId: job.id ?? null,
+        alert: shrinkAlert
+      }
+    });
+
+    if (shrinkAlert) {
+      await alertFeedContacts(feed, `Inventory feed "${feed.name}" shrank unexpectedly`, [
+        shrinkAlert,
+        "Check that the feed export is complete before the next scheduled run."
+      ]);
+    }
+
+    return { skipped: false, runId: run.id, importJobId: job.id, rowCount: rows.length };
+  } catch (error) {
+    await failInventoryFeedRun(run.id, describeFeedError(error));
+    throw error;
+  }
+}
+
+/** Marks a feed run as succeeded once its import job has completed. */
+export async function completeInventoryFeedRun(runId: string, result: Prisma.InputJsonValue) {
+  const run = await prisma.inventoryFeedRun.update({
+    where: { id: runId },
+    data: { status: InventoryFeedRunStatus.SUCCEEDED, result, finishedAt: new Date() }
+  });
+
+  await prisma.inventoryFeed.update({
+    where: { id: run.feedId },
+    data: {
+      lastSuccessAt: run.finishedAt,
+      lastRowCount: run.rowCount,
+      consecutiveFailures: 0
+    }
+  });
+}
+
+/**
+ * Marks a feed run as failed and alerts the feed's contact on the first
+ * failure in a row; later failures are recorded without another email until
+ * the feed succeeds again.
+ */
+export async function failInventoryFeedRun(runId: string, error: string) {
+  const run = await prisma.inventoryFeedRun.update({
+    where: { id: runId },
+    data: { status: InventoryFeedRunStatus.FAILED, error, finishedAt: new Date() }
+  });
+
+  const feed = await prisma.inventoryFeed.update({
+    where: { id: run.feedId },
+    data: { consecutiveFailures: { increment: 1 } },
+    include: { dealership: { select: { name: true, email: true } } }
+  });
+
+  if (feed.consecutiveFailures === 1) {
+    const alert = `Inventory feed "${feed.name}" failed: ${error}`;
+    await prisma.inventoryFeedRun.update({ where: { id: runId }, data: { alert } });
+    await alertFeedContacts(feed, `Inventory feed "${feed.name}" failed`, [
+      alert,
+      feed.lastSuccessAt
+        ? `Chat inventory was last refreshed from this feed at ${feed.lastSuccessAt.toISOString()}.`
+        : "This feed has not completed a successful import yet.",
+      "No further alerts will be sent until the feed succeeds again."
+    ]);
+  }
+}
+
+function describeFeedShrink(
+  feed: Pick<InventoryFeed, "lastRowCount" | "shrinkAlertPercent" | "markMissingAsSold">,
+  rowCount: number
+) {
+  if (!feed.lastRowCount) return null;
+
+  const dropPercent = Math.round(((feed.lastRowCount - rowCount) / feed.lastRowCount) * 100);
+  if (dropPercent < feed.shrinkAlertPercent) return null;
+
+  return [
+    `The feed returned ${rowCount} vehicles, down ${dropPercent}% from ${feed.lastRowCount} on the last successful run.`,
+    feed.markMissingAsSold ? "Vehicles missing from the feed were not marked as sold." : ""
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function describeFeedError(error: unknown) {
+  if (error instanceof InventoryFileError) {
+    const details = typeof error.body.details === "string" ? ` (${error.body.details})` : "";
+    return `${error.message}${details}`;
+  }
+  if (error instanceof z.ZodError) {
+    return `Feed settings are invalid: ${error.errors.map((issue) => issue.message).join(", ")}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function alertFeedContacts(
+  feed: Pick<InventoryFeed, "id" | "alertEmail"> & { dealership: { name: string; email: string } },
+  subject: string,
+  lines: string[]
+) {
+  const to = feed.alertEmail ?? feed.dealership.email;
+
+  try {
+    await sendStaffAlert(to, `${feed.dealership.name}: ${subject}`, lines);
+  } catch (error) {
+    logger.error(`Failed to send alert for inventory feed ${feed.id}`, error as Error);
+  }
+}
+
+async function pruneFeedRuns(feedId: string) {
+  const stale = await prisma.inventoryFeedRun.findMany({
+    where: { feedId },
+    orderBy: { startedAt: "desc" },
+    skip: RETAINED_RUN_COUNT,
+    select: { id: true }
+  });
+
+  if (stale.length) {
+    await prisma.inventoryFeedRun.deleteMany({
+      where: { id: { in: stale.map((run) => run.id) } }
+    });
+  }
+}
@@ -0,0 +1,47 @@
+/** Sort orders accepted by inventory search; `relevance` is the blended default ranking. */
+export const VEHICLE_SORTS = [
+  "relevance",
+  "price_asc",
+  "price_desc",
+  "mileage_asc",
+  "newest",
+  "mpg_desc"
+] as const;
+
+export type VehicleSort = (typeof VEHICLE_SORTS)[number];
+
+export type VehicleSpecField = "drivetrain" | "fuelType" | "transmission";
+
+/**
+ * Feeds spell specs inconsistently ("AWD", "All-Wheel Drive", "4x4"), so a
+ * filter value matches any of its synonyms as a case-insensitive substring.
+ */
+const SPEC_SYNONYMS: Record<VehicleSpecField, string[][]> = {
+  drivetrain: [
+    ["awd", "all-wheel", "all wheel"],
+    ["4wd", "4x4", "four-wheel", "four wheel"],
+    ["fwd", "front-wheel", "front wheel"],
+    ["rwd", "rear-wheel", "rear wheel"]
+  ],
+  fuelType: [
+    ["gas", "gasoline", "petrol", "unleaded"],
+    ["plug-in", "phev"],
+    ["hybrid", "hev"],
+    ["electric", "ev", "bev"],
+    ["diesel"],
+    ["flex", "e85"]
+  ],
+  transmission: [
+    ["automatic", "auto", "cvt"],
+    ["manual", "stick", "standard"]
+  ]
+};
+
+/** The substrings a spec filter value should match, the value itself first. */
+export function expandSpecTerms(field: VehicleSpecField, value: string) {
+  const term = value.trim().toLowerCase();
+  if (!term) return [];
+
+  const group = SPEC_SYNONYMS[field].find((terms) => terms.includes(term));
+  return Array.from(new Set([term, ...(group ?? [])]));
+}
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { computeInventoryImportDiff, FOREIGN_VIN_ERROR } from "./importDiff";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    dealership: { findUniqueOrThrow: vi.fn() },
+    vehicle: { findMany: vi.fn(), count: vi.fn() }
+  }
+}));
+
+const DEALERSHIP_ID = "dealership-a";
+const OTHER_DEALERSHIP_ID = "dealership-b";
+
+const row = (vin: string) => ({
+  vin,
+  year: 2022,
+  make: "Toyota",
+  model: "Tacoma",
+  condition: "used"
+});
+
+describe("computeInventoryImportDiff", () => {
+  beforeEach(() => {
+    vi.mocked(prisma.dealership.findUniqueOrThrow).mockResolvedValue({
+      inventoryRemovalLimitPercent: 30
+    } as never);
+    vi.mocked(prisma.vehicle.count).mockResolvedValue(0);
+    vi.mocked(prisma.vehicle.findMany).mockImplementation((async (args: {
+      where: { dealershipId: string | { not: string } };
+    }) =>
+      typeof args.where.dealershipId === "object"
+        ? [{ vin: "FOREIGN1", dealershipId: OTHER_DEALERSHIP_ID }]
+        : []) as never);
+  });
+
+  it("skips every row for a VIN another dealership lists", async () => {
+    const diff = await computeInventoryImportDiff({
+      dealershipId: DEALERSHIP_ID,
+      rows: [row("foreign1"), row("NEW1"), row("FOREIGN1")],
+      markMissingAsSold: false
+    });
+
+    expect(diff.errors).toEqual([
+      { row: 1, error: FOREIGN_VIN_ERROR },
+      { row: 3, error: FOREIGN_VIN_ERROR }
+    ]);
+    expect(diff.counts).toMatchObject({ create: 1, update: 0, unchanged: 0, errors: 2 });
+    expect(diff.create.map((vehicle) => vehicle.vin)).toEqual(["NEW1"]);
+    expect(prisma.vehicle.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { dealershipId: DEALERSHIP_ID, vin: { in: ["NEW1"] } } })
+    );
+  });
+});
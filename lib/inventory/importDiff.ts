@@ -0,0 +1,254 @@
+import { Prisma, VehicleAvailability } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import type { InventoryImportJobData } from "@/lib/queues/inventoryImportQueue";
+import { normalizeVin, parseImportRow, type ImportedVehicleData } from "./importRows";
+
+/** Vehicles listed per section of the diff; the counts always cover the whole file. */
+const MAX_LISTED_VEHICLES = 500;
+
+const COMPARED_FIELDS = [
+  "stockNumber",
+  "year",
+  "make",
+  "model",
+  "trim",
+  "condition",
+  "price",
+  "mileage",
+  "bodyType",
+  "transmission",
+  "drivetrain",
+  "fuelType",
+  "mpgCity",
+  "mpgHighway",
+  "exteriorColor",
+  "interiorColor",
+  "features",
+  "images",
+  "availability",
+  "featured"
+] as const;
+
+type ComparedField = (typeof COMPARED_FIELDS)[number];
+type DiffValue = string | number | boolean | string[] | null;
+
+export const inventoryImportSettingsSchema = z.object({
+  removalLimitPercent: z.number().int().min(1).max(100)
+});
+
+export interface InventoryFieldChange {
+  field: ComparedField;
+  from: DiffValue;
+  to: DiffValue;
+}
+
+export interface InventoryDiffVehicle {
+  vin: string;
+  title: string;
+  stockNumber: string | null;
+}
+
+export interface InventoryDiffUpdate extends InventoryDiffVehicle {
+  changes: InventoryFieldChange[];
+}
+
+export interface InventoryImportDiff {
+  counts: { create: number; update: number; unchanged: number; markSold: number; errors: number };
+  create: InventoryDiffVehicle[];
+  update: InventoryDiffUpdate[];
+  markSold: InventoryDiffVehicle[];
+  errors: Array<{ row: number; error: string }>;
+  /** In-stock vehicles before the import. */
+  inStock: number;
+  /** In-stock vehicles the import would mark sold or otherwise take off the lot. */
+  removed: number;
+  removalPercent: number;
+  removalLimitPercent: number;
+  /** True when `removed` exceeds the dealership's removal limit; the import will not run. */
+  blocked: boolean;
+}
+
+const existingVehicleSelect = {
+  vin: true,
+  ...Object.fromEntries(COMPARED_FIELDS.map((field) => [field, true]))
+} as { vin: true } & Record<ComparedField, true>;
+
+/** Row error for a VIN another dealership lists. Imports never write those vehicles. */
+export const FOREIGN_VIN_ERROR = "This VIN belongs to a vehicle at another dealership";
+
+/** The VINs, of those given, that belong to another dealership's vehicles. */
+export async function findForeignVins(dealershipId: string, vins: string[]) {
+  const vehicles = vins.length
+    ? await prisma.vehicle.findMany({
+        where: { vin: { in: vins }, dealershipId: { not: dealershipId } },
+        select: { vin: true }
+      })
+    : [];
+  return new Set(vehicles.map((vehicle) => vehicle.vin));
+}
+
+/**
+ * Works out what an import would do without writing anything: vehicles to
+ * create, field-level changes to existing ones, in-stock vehicles to mark
+ * sold, and whether that takes more of the lot off sale than the
+ * dealership's removal limit allows. Rows for another dealership's VINs are
+ * listed as errors, as the import skips them.
+ */
+export async function computeInventoryImportDiff({
+  dealershipId,
+  rows,
+  markMissingAsSold
+}: Pick<InventoryImportJobData, "dealershipId" | "rows" | "markMissingAsSold">) {
+  const dealership = await prisma.dealership.findUniqueOrThrow({
+    where: { id: dealershipId },
+    select: { inventoryRemovalLimitPercent: true }
+  });
+
+  const incoming = new Map<string, ImportedVehicleData>();
+  const rowsByVin = new Map<string, number[]>();
+  const seenVins = new Set<string>();
+  const errors: InventoryImportDiff["errors"] = [];
+
+  rows.forEach((raw, index) => {
+    const vin = normalizeVin(raw.vin);
+    if (vin) seenVins.add(vin);
+
+    const parsed = parseImportRow(raw);
+    if (!parsed.success) {
+      errors.push({ row: index + 1, error: parsed.error });
+      return;
+    }
+
+    // Later rows for the same VIN are applied on top of earlier ones.
+    const { vehicle } = parsed;
+    incoming.set(vehicle.vin, { ...incoming.get(vehicle.vin), ...vehicle.data });
+    rowsByVin.set(vehicle.vin, [...(rowsByVin.get(vehicle.vin) ?? []), index + 1]);
+  });
+
+  // Reported the way the import reports them: every row for the VIN is skipped.
+  for (const vin of await findForeignVins(dealershipId, Array.from(incoming.keys()))) {
+    incoming.delete(vin);
+    for (const row of rowsByVin.get(vin) ?? []) {
+      errors.push({ row, error: FOREIGN_VIN_ERROR });
+    }
+  }
+  errors.sort((a, b) => a.row - b.row);
+
+  const existing = incoming.size
+    ? await prisma.vehicle.findMany({
+        where: { dealershipId, vin: { in: Array.from(incoming.keys()) } },
+        select: existingVehicleSelect
+      })
+    : [];
+  const existingByVin = new Map(existing.map((vehicle) => [vehicle.vin, vehicle]));
+
+  const create: InventoryDiffVehicle[] = [];
+  const update: InventoryDiffUpdate[] = [];
+  let unchanged = 0;
+  let removed = 0;
+
+  for (const [vin, data] of incoming) {
+    const current = existingByVin.get(vin);
+    if (!current) {
+      create.push(toDiffVehicle(vin, data));
+      continue;
+    }
+
+    const changes = listVehicleChanges(current, data);
+    if (changes.length) {
+      update.push({ ...toDiffVehicle(vin, data), changes });
+    } else {
+      unchanged += 1;
+    }
+
+    if (
+      current.availability === VehicleAvailability.IN_STOCK &&
+      data.availability !== VehicleAvailability.IN_STOCK
+    ) {
+      removed += 1;
+    }
+  }
+
+  const inStockWhere = { dealershipId, availability: VehicleAvailability.IN_STOCK };
+  const markSoldWhere: Prisma.VehicleWhereInput = {
+    ...inStockWhere,
+    vin: { notIn: Array.from(seenVins) }
+  };
+  const shouldMarkSold = markMissingAsSold && seenVins.size > 0;
+
+  const [inStock, markSoldCount, markSold] = await Promise.all([
+    prisma.vehicle.count({ where: inStockWhere }),
+    shouldMarkSold ? prisma.vehicle.count({ where: markSoldWhere }) : 0,
+    shouldMarkSold
+      ? prisma.vehicle.findMany({
+          where: markSoldWhere,
+          orderBy: [{ make: "asc" }, { model: "asc" }, { year: "desc" }],
+          take: MAX_LISTED_VEHICLES,
+          select: { vin: true, year: true, make: true, model: true, trim: true, stockNumber: true }
+        })
+      : []
+  ]);
+
+  removed += markSoldCount;
+  const removalLimitPercent = dealership.inventoryRemovalLimitPercent;
+
+  return {
+    counts: {
+      create: create.length,
+      update: update.length,
+      unchanged,
+      markSold: markSoldCount,
+      errors: errors.length
+    },
+    create: create.slice(0, MAX_LISTED_VEHICLES),
+    update: update.slice(0, MAX_LISTED_VEHICLES),
+    markSold: markSold.map((vehicle) => toDiffVehicle(vehicle.vin, vehicle)),
+    errors,
+    inStock,
+    removed,
+    removalPercent: inStock ? Math.round((removed / inStock) * 100) : 0,
+    removalLimitPercent,
+    blocked: removed > 0 && removed * 100 > inStock * removalLimitPercent
+  } satisfies InventoryImportDiff;
+}
+
+/** Fields the import row would change on an existing vehicle, with before and after values. */
+export function listVehicleChanges(
+  current: Record<ComparedField, unknown>,
+  data: ImportedVehicleData
+): InventoryFieldChange[] {
+  return COMPARED_FIELDS.filter((field) => field in data)
+    .map((field) => ({
+      field,
+      from: toDiffValue(current[field]),
+      to: toDiffValue(data[field as keyof ImportedVehicleData])
+    }))
+    .filter((change) => JSON.stringify(change.from) !== JSON.stringify(change.to));
+}
+
+export function describeBlockedImport(diff: InventoryImportDiff) {
+  return (
+    `Import blocked: it would take ${diff.removed} of ${diff.inStock} in-stock vehicles ` +
+    `(${diff.removalPercent}%) off the lot, above the ${diff.removalLimitPercent}% limit`
+  );
+}
+
+function toDiffVehicle(
+  vin: string,
+  vehicle: Pick<ImportedVehicleData, "year" | "make" | "model" | "trim" | "stockNumber">
+): InventoryDiffVehicle {
+  return {
+    vin,
+    title: [vehicle.year, vehicle.make, vehicle.model, vehicle.trim].filter(Boolean).join(" "),
+    stockNumber: vehicle.stockNumber
+  };
+}
+
+function toDiffValue(value: unknown): DiffValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Prisma.Decimal) return value.toNumber();
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  return String(value);
+}
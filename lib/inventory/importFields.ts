@@ -0,0 +1,272 @@
+/**
+ * Vehicle fields an inventory file can be mapped onto, plus the DMS export
+ * layouts we recognise. Safe to import from client components.
+ */
+
+export const INVENTORY_IMPORT_FIELDS = [
+  "vin",
+  "stockNumber",
+  "year",
+  "make",
+  "model",
+  "trim",
+  "condition",
+  "price",
+  "mileage",
+  "bodyType",
+  "transmission",
+  "drivetrain",
+  "fuelType",
+  "mpgCity",
+  "mpgHighway",
+  "exteriorColor",
+  "interiorColor",
+  "features",
+  "images",
+  "availability",
+  "featured"
+] as const;
+
+export type InventoryImportField = (typeof INVENTORY_IMPORT_FIELDS)[number];
+
+/** Source column (CSV header, or a dotted path for JSON and XML) for each mapped field. */
+export type InventoryColumnMapping = Partial<Record<InventoryImportField, string>>;
+
+export const REQUIRED_IMPORT_FIELDS: InventoryImportField[] = [
+  "vin",
+  "year",
+  "make",
+  "model",
+  "condition"
+];
+
+export const IMPORT_FIELD_LABELS: Record<InventoryImportField, string> = {
+  vin: "VIN",
+  stockNumber: "Stock #",
+  year: "Year",
+  make: "Make",
+  model: "Model",
+  trim: "Trim",
+  condition: "Condition (new, used or certified)",
+  price: "Price",
+  mileage: "Mileage",
+  bodyType: "Body type",
+  transmission: "Transmission",
+  drivetrain: "Drivetrain",
+  fuelType: "Fuel type",
+  mpgCity: "City MPG",
+  mpgHighway: "Highway MPG",
+  exteriorColor: "Exterior color",
+  interiorColor: "Interior color",
+  features: "Features / options",
+  images: "Image URLs",
+  availability: "Availability (in stock, in transit, sold)",
+  featured: "Featured"
+};
+
+/** Header names seen in the wild for each field, compared after `toColumnKey`, best first. */
+const FIELD_ALIASES: Record<InventoryImportField, string[]> = {
+  vin: ["vin", "vehiclevin", "vinnumber"],
+  stockNumber: ["stock#", "stocknumber", "stockno", "stocknum", "stock"],
+  year: ["year", "modelyear", "vehicleyear"],
+  make: ["make", "vehiclemake", "manufacturer"],
+  model: ["model", "vehiclemodel", "modelname"],
+  trim: ["trim", "trimlevel", "series"],
+  condition: ["condition", "newused", "type", "stocktype", "inventorytype", "vehiclecondition"],
+  price: ["price", "sellingprice", "internetprice", "saleprice", "askingprice", "listprice", "msrp"],
+  mileage: ["mileage", "miles", "odometer", "odometerreading"],
+  bodyType: ["bodytype", "bodystyle", "body"],
+  transmission: ["transmission", "transmissiontype", "trans"],
+  drivetrain: ["drivetrain", "drivetype", "drive", "drivewheels"],
+  fuelType: ["fueltype", "fuel"],
+  mpgCity: ["mpgcity", "citympg", "epacity"],
+  mpgHighway: ["mpghighway", "highwaympg", "hwympg", "mpghwy", "epahighway"],
+  exteriorColor: ["exteriorcolor", "extcolor", "exteriorcolour", "color", "colour"],
+  interiorColor: ["interiorcolor", "intcolor", "interiorcolour"],
+  features: ["features", "options", "equipment", "optionslist", "installedoptions", "feature"],
+  images: ["images", "imageurls", "imagelist", "photos", "photourls", "photo", "image"],
+  availability: ["availability", "status", "vehiclestatus"],
+  featured: ["featured", "isfeatured"]
+};
+
+export interface InventoryFileLayout {
+  id: string;
+  name: string;
+  columns: InventoryColumnMapping;
+}
+
+/** Column layouts of common DMS and inventory-syndication exports. */
+export const INVENTORY_FILE_LAYOUTS: InventoryFileLayout[] = [
+  {
+    id: "dealerchat",
+    name: "DealerChat CSV template",
+    columns: {
+      vin: "VIN",
+      stockNumber: "Stock#",
+      year: "Year",
+      make: "Make",
+      model: "Model",
+      trim: "Trim",
+      condition: "Condition",
+      price: "Price",
+      mileage: "Mileage",
+      exteriorColor: "Color",
+      bodyType: "BodyType",
+      images: "Images"
+    }
+  },
+  {
+    id: "homenet",
+    name: "HomeNet IOL export",
+    columns: {
+      vin: "VIN",
+      stockNumber: "Stock",
+      year: "Year",
+      make: "Make",
+      model: "Model",
+      trim: "Trim",
+      condition: "Type",
+      price: "SellingPrice",
+      mileage: "Miles",
+      bodyType: "Body",
+      transmission: "Transmission",
+      drivetrain: "Drivetrain",
+      fuelType: "Fuel_Type",
+      mpgCity: "CityMPG",
+      mpgHighway: "HighwayMPG",
+      exteriorColor: "ExteriorColor",
+      interiorColor: "InteriorColor",
+      features: "Options",
+      images: "ImageList"
+    }
+  },
+  {
+    id: "vauto",
+    name: "vAuto inventory export",
+    columns: {
+      vin: "VIN",
+      stockNumber: "Stock #",
+      year: "Year",
+      make: "Make",
+      model: "Model",
+      trim: "Series",
+      condition: "New/Used",
+      price: "Price",
+      mileage: "Odometer",
+      bodyType: "Body",
+      transmission: "Transmission",
+      drivetrain: "Drivetrain",
+      exteriorColor: "Exterior Color",
+      interiorColor: "Interior Color",
+      features: "Equipment",
+      images: "Photo URLs"
+    }
+  },
+  {
+    id: "cdk",
+    name: "CDK inventory export",
+    columns: {
+      vin: "VIN",
+      stockNumber: "StockNo",
+      year: "Year",
+      make: "Make",
+      model: "Model",
+      trim: "Trim",
+      condition: "NewUsed",
+      price: "InternetPrice",
+      mileage: "Mileage",
+      bodyType: "BodyStyle",
+      transmission: "Transmission",
+      drivetrain: "DriveType",
+      fuelType: "FuelType",
+      mpgCity: "CityMpg",
+      mpgHighway: "HwyMpg",
+      exteriorColor: "ExtColor",
+      interiorColor: "IntColor",
+      features: "Options",
+      images: "ImageUrls"
+    }
+  }
+];
+
+/** Header comparison key: case, spacing and punctuation other than `#` are ignored. */
+export function toColumnKey(column: string) {
+  return column.toLowerCase().replace(/[^a-z0-9#]/g, "");
+}
+
+/** The last segment of a dotted JSON/XML path, which is what aliases are matched against. */
+function toLeafKey(column: string) {
+  return toColumnKey(column.split(".").pop() ?? column);
+}
+
+/** Finds the header a mapping refers to, tolerating case and spacing differences. */
+export function findColumn(headers: string[], column: string | undefined) {
+  if (!column) return undefined;
+  const key = toColumnKey(column);
+  return (
+    headers.find((header) => header === column) ??
+    headers.find((header) => toColumnKey(header) === key)
+  );
+}
+
+/** The known layout covering every required field with the most columns present, if any. */
+export function detectInventoryLayout(headers: string[]) {
+  let best: { layout: InventoryFileLayout; matched: number } | null = null;
+
+  for (const layout of INVENTORY_FILE_LAYOUTS) {
+    const columns = Object.entries(layout.columns) as Array<[InventoryImportField, string]>;
+    const present = columns.filter(([, column]) => findColumn(headers, column));
+    const coversRequired = REQUIRED_IMPORT_FIELDS.every((field) =>
+      present.some(([mapped]) => mapped === field)
+    );
+
+    if (coversRequired && (!best || present.length > best.matched)) {
+      best = { layout, matched: present.length };
+    }
+  }
+
+  return best?.layout ?? null;
+}
+
+/**
+ * Guesses a mapping for the given headers: a recognised layout's columns
+ * first, then header-name aliases for any field still unmapped.
+ */
+export function suggestColumnMapping(headers: string[]): InventoryColumnMapping {
+  const mapping: InventoryColumnMapping = {};
+  const used = new Set<string>();
+
+  const layout = detectInventoryLayout(headers);
+  if (layout) {
+    for (const [field, column] of Object.entries(layout.columns) as Array<
+      [InventoryImportField, string]
+    >) {
+      const header = findColumn(headers, column);
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+      }
+    }
+  }
+
+  for (const field of INVENTORY_IMPORT_FIELDS) {
+    if (mapping[field]) continue;
+
+    for (const alias of FIELD_ALIASES[field]) {
+      const header = headers.find(
+        (candidate) => !used.has(candidate) && toLeafKey(candidate) === alias
+      );
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+export function listMissingRequiredFields(headers: string[], mapping: InventoryColumnMapping) {
+  return REQUIRED_IMPORT_FIELDS.filter((field) => !findColumn(headers, mapping[field]));
+}
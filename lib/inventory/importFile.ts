@@ -0,0 +1,306 @@
+import { parse } from "csv-parse/sync";
+import { XMLParser } from "fast-xml-parser";
+import { VehicleAvailability } from "@prisma/client";
+import type { InventoryImportRow } from "@/lib/queues/inventoryImportQueue";
+import {
+  IMPORT_FIELD_LABELS,
+  findColumn,
+  listMissingRequiredFields,
+  suggestColumnMapping,
+  type InventoryColumnMapping,
+  type InventoryImportField
+} from "./importFields";
+
+export type InventoryFileFormat = "csv" | "json" | "xml";
+
+const CSV_DELIMITERS = [",", "\t", "|", ";"];
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@",
+  parseTagValue: false
+});
+const MAX_FEATURES = 200;
+
+export interface ParsedInventoryFile {
+  format: InventoryFileFormat;
+  /** CSV headers, or dotted paths into each record for JSON and XML. */
+  headers: string[];
+  records: Array<Record<string, string>>;
+}
+
+export interface SkippedInventoryRow {
+  row: number;
+  reason: string;
+}
+
+export interface InventoryFileRows {
+  format: InventoryFileFormat;
+  mapping: InventoryColumnMapping;
+  rows: InventoryImportRow[];
+  skipped: SkippedInventoryRow[];
+}
+
+/** A file that cannot be imported at all; `body` carries extra fields for the API response. */
+export class InventoryFileError extends Error {
+  constructor(
+    public title: string,
+    message: string,
+    public body: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "InventoryFileError";
+  }
+}
+
+export function detectInventoryFileFormat(content: string, fileName?: string): InventoryFileFormat {
+  const extension = fileName?.toLowerCase().match(/\.(csv|txt|tsv|json|xml)$/)?.[1];
+  if (extension === "json") return "json";
+  if (extension === "xml") return "xml";
+  if (extension) return "csv";
+
+  const first = content.replace(/^\uFEFF/, "").trimStart().charAt(0);
+  if (first === "<") return "xml";
+  if (first === "[" || first === "{") return "json";
+  return "csv";
+}
+
+/** Parses a CSV, JSON or XML inventory file into flat records keyed by column. */
+export function parseInventoryFile(content: string, format: InventoryFileFormat): ParsedInventoryFile {
+  const text = content.replace(/^\uFEFF/, "");
+  const records =
+    format === "csv"
+      ? parseCsvRecords(text)
+      : format === "json"
+        ? parseStructuredRecords(() => JSON.parse(text), "JSON")
+        : parseStructuredRecords(() => xmlParser.parse(text), "XML");
+
+  if (!records.length) {
+    throw new InventoryFileError("Bad Request", "The file contains no vehicles");
+  }
+
+  const headers = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+  return { format, headers, records };
+}
+
+/**
+ * Reads an inventory file into import rows using the given column mapping,
+ * or one suggested from the file's headers. Rows without a VIN are skipped
+ * and reported; a file that cannot be parsed, lacks a required column or has
+ * no usable rows throws `InventoryFileError`.
+ */
+export function readInventoryFile(
+  content: string,
+  { fileName, mapping }: { fileName?: string; mapping?: InventoryColumnMapping | null } = {}
+): InventoryFileRows {
+  const file = parseInventoryFile(content, detectInventoryFileFormat(content, fileName));
+  const columns = mapping ?? suggestColumnMapping(file.headers);
+
+  const missing = listMissingRequiredFields(file.headers, columns);
+  if (missing.length) {
+    throw new InventoryFileError(
+      "Invalid file",
+      `Missing required columns: ${missing.map((field) => IMPORT_FIELD_LABELS[field]).join(", ")}`,
+      { headers: file.headers }
+    );
+  }
+
+  const { rows, skipped } = mapInventoryRecords(file, columns);
+  if (!rows.length) {
+    throw new InventoryFileError(
+      "Bad Request",
+      "All rows were invalid. Please review the file format.",
+      { skipped }
+    );
+  }
+
+  return { format: file.format, mapping: columns, rows, skipped };
+}
+
+export function mapInventoryRecords(file: ParsedInventoryFile, mapping: InventoryColumnMapping) {
+  const resolved = Object.fromEntries(
+    Object.entries(mapping).map(([field, column]) => [field, findColumn(file.headers, column)])
+  ) as InventoryColumnMapping;
+
+  const rows: InventoryImportRow[] = [];
+  const skipped: SkippedInventoryRow[] = [];
+
+  file.records.forEach((record, index) => {
+    const value = (field: InventoryImportField) => {
+      const column = resolved[field];
+      const raw = column ? record[column]?.trim() : undefined;
+      return raw || undefined;
+    };
+
+    const vin = value("vin");
+    if (!vin) {
+      skipped.push({ row: index + 1, reason: "Missing VIN" });
+      return;
+    }
+
+    rows.push({
+      vin,
+      stockNumber: value("stockNumber"),
+      year: toInteger(value("year")),
+      make: value("make"),
+      model: value("model"),
+      trim: value("trim"),
+      condition: toCondition(value("condition")),
+      price: toNumber(value("price")),
+      mileage: toInteger(value("mileage")),
+      bodyType: value("bodyType"),
+      transmission: value("transmission"),
+      drivetrain: value("drivetrain"),
+      fuelType: value("fuelType"),
+      mpgCity: toInteger(value("mpgCity")),
+      mpgHighway: toInteger(value("mpgHighway")),
+      exteriorColor: value("exteriorColor"),
+      interiorColor: value("interiorColor"),
+      features: toFeatureList(value("features")),
+      images: (value("images") ?? "").split(/[\s,|]+/).filter(Boolean),
+      availability: toAvailability(value("availability")),
+      featured: toBoolean(value("featured"))
+    });
+  });
+
+  return { rows, skipped };
+}
+
+function parseCsvRecords(text: string): Array<Record<string, string>> {
+  try {
+    return parse(text, {
+      columns: true,
+      delimiter: detectCsvDelimiter(text),
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true
+    });
+  } catch (error) {
+    throw new InventoryFileError("Invalid CSV", "Unable to parse CSV file", {
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/** Picks the delimiter that splits the header line into the most columns. */
+function detectCsvDelimiter(text: string) {
+  const newline = text.indexOf("\n");
+  const header = newline === -1 ? text : text.slice(0, newline);
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best
+  );
+}
+
+function parseStructuredRecords(read: () => unknown, label: string) {
+  let document: unknown;
+  try {
+    document = read();
+  } catch (error) {
+    throw new InventoryFileError(`Invalid ${label}`, `Unable to parse ${label} file`, {
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return findRecordList(document).map((record) => {
+    const values = new Map<string, string[]>();
+    flattenRecord(record, "", values);
+    return Object.fromEntries(
+      Array.from(values, ([path, entries]) => [path, entries.join(",")])
+    );
+  });
+}
+
+/**
+ * The vehicle records in a JSON or XML document: the first list of objects
+ * found breadth-first (e.g. `{ "vehicles": [...] }` or repeated `<vehicle>`
+ * elements), or a lone record nested under single-key wrappers.
+ */
+function findRecordList(document: unknown): Array<Record<string, unknown>> {
+  const queue: unknown[] = [document];
+
+  while (queue.length) {
+    const node = queue.shift();
+    if (Array.isArray(node)) {
+      const objects = node.filter(isPlainObject);
+      if (objects.length) return objects;
+    } else if (isPlainObject(node)) {
+      queue.push(...Object.values(node));
+    }
+  }
+
+  let node = document;
+  while (isPlainObject(node)) {
+    const entries = Object.entries(node).filter(([key]) => !key.startsWith("@") && key !== "?xml");
+    if (entries.length === 1 && isPlainObject(entries[0][1])) {
+      node = entries[0][1];
+    } else {
+      return entries.length ? [node] : [];
+    }
+  }
+  return [];
+}
+
+function flattenRecord(value: unknown, path: string, values: Map<string, string[]>) {
+  if (Array.isArray(value)) {
+    value.forEach((entry) => flattenRecord(entry, path, values));
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const [key, entry] of Object.entries(value)) {
+      const childPath = key === "#text" ? path : path ? `${path}.${key}` : key;
+      flattenRecord(entry, childPath, values);
+    }
+    return;
+  }
+
+  if (value === null || value === undefined || !path) return;
+  const text = String(value).trim();
+  if (!text) return;
+  values.set(path, [...(values.get(path) ?? []), text]);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNumber(value: string | undefined) {
+  if (!value) return undefined;
+  const number = Number(value.replace(/[$,\s]|mi(les)?$/gi, ""));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toInteger(value: string | undefined) {
+  const number = toNumber(value);
+  return number === undefined ? undefined : Math.round(number);
+}
+
+/** Normalises DMS spellings (N/U, Pre-Owned, CPO) to the names the importer accepts. */
+function toCondition(value: string | undefined) {
+  if (!value) return undefined;
+  if (/^n(ew)?$/i.test(value)) return "NEW";
+  if (/certified|^cpo$/i.test(value)) return "CERTIFIED";
+  if (/^u(sed)?$|pre-?owned/i.test(value)) return "USED";
+  return value;
+}
+
+function toAvailability(value: string | undefined) {
+  if (!value) return undefined;
+  if (/sold/i.test(value)) return VehicleAvailability.SOLD;
+  if (/transit|ordered|incoming|pipeline/i.test(value)) return VehicleAvailability.IN_TRANSIT;
+  if (/stock|available|active|^(y|yes|true|1)$/i.test(value)) return VehicleAvailability.IN_STOCK;
+  return undefined;
+}
+
+function toBoolean(value: string | undefined) {
+  if (!value) return undefined;
+  return /^(y|yes|true|1)$/i.test(value);
+}
+
+function toFeatureList(value: string | undefined) {
+  if (!value) return undefined;
+  const features = value
+    .split(/[,|;\n]/)
+    .map((feature) => feature.trim())
+    .filter(Boolean);
+  return Array.from(new Set(features)).slice(0, MAX_FEATURES);
+}
@@ -0,0 +1,67 @@
+import { InventoryImportAction, InventoryImportStatus, Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { rollbackInventoryImport } from "./importHistory";
+
+const tx = vi.hoisted(() => ({
+  inventoryImport: { findUnique: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+  inventoryImportSnapshot: { findMany: vi.fn() },
+  vehicle: { findMany: vi.fn(), deleteMany: vi.fn(), updateMany: vi.fn() }
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { $transaction: vi.fn(async (run: (client: typeof tx) => unknown) => run(tx)) }
+}));
+vi.mock("./facets", () => ({ invalidateInventoryFacets: vi.fn() }));
+vi.mock("@/lib/queues/vehicleIndexQueue", () => ({ enqueueVehicleIndex: vi.fn() }));
+
+const DEALERSHIP_ID = "dealership-a";
+
+describe("rollbackInventoryImport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.inventoryImport.findUnique.mockResolvedValue({
+      dealershipId: DEALERSHIP_ID,
+      status: InventoryImportStatus.SUCCEEDED,
+      startedAt: new Date("2026-01-01T00:00:00.000Z")
+    });
+    tx.inventoryImport.findFirst.mockResolvedValue(null);
+    tx.inventoryImportSnapshot.findMany.mockResolvedValue([
+      { vin: "NEW1", action: InventoryImportAction.CREATED, previous: null },
+      { vin: "OLD1", action: InventoryImportAction.UPDATED, previous: { mileage: 100 } }
+    ]);
+    tx.vehicle.findMany.mockResolvedValue([]);
+    tx.vehicle.deleteMany.mockResolvedValue({ count: 1 });
+    tx.vehicle.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("only writes the dealership's own vehicles, in one serializable transaction", async () => {
+    const result = await rollbackInventoryImport(DEALERSHIP_ID, "import-1", "manager@example.com");
+
+    expect(result).toEqual({ restored: 1, removed: 1, markedSold: 1 });
+    expect(prisma.$transaction).toHaveBeenCalledWith(
+      expect.any(Function),
+      expect.objectContaining({
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+      })
+    );
+    expect(tx.vehicle.deleteMany).toHaveBeenCalledWith({
+      where: { dealershipId: DEALERSHIP_ID, vin: { in: ["NEW1"] } }
+    });
+    for (const [args] of tx.vehicle.updateMany.mock.calls) {
+      expect(args.where.dealershipId).toBe(DEALERSHIP_ID);
+    }
+  });
+
+  it("refuses once a later import has changed vehicles, without writing anything", async () => {
+    tx.inventoryImport.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "import-2" });
+
+    await expect(
+      rollbackInventoryImport(DEALERSHIP_ID, "import-1", "manager@example.com")
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(tx.vehicle.deleteMany).not.toHaveBeenCalled();
+    expect(tx.vehicle.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,353 @@
+import {
+  InventoryImportAction,
+  InventoryImportStatus,
+  Prisma,
+  VehicleAvailability
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import type { InventoryImportJobData } from "@/lib/queues/inventoryImportQueue";
+import { enqueueVehicleIndex } from "@/lib/queues/vehicleIndexQueue";
+import { invalidateInventoryFacets } from "./facets";
+import { listVehicleChanges } from "./importDiff";
+import type { ImportedVehicle } from "./importRows";
+
+const RECENT_IMPORT_COUNT = 50;
+
+/** Rollbacks restore every snapshot in one transaction; large imports outlast the 5s default. */
+const ROLLBACK_TIMEOUT_MS = 60_000;
+
+/** Vehicle columns an import can overwrite: what a snapshot records and a rollback restores. */
+const restorableVehicleSelect = {
+  dealershipId: true,
+  stockNumber: true,
+  year: true,
+  make: true,
+  model: true,
+  makeKey: true,
+  modelKey: true,
+  trim: true,
+  condition: true,
+  price: true,
+  mileage: true,
+  bodyType: true,
+  transmission: true,
+  drivetrain: true,
+  fuelType: true,
+  mpgCity: true,
+  mpgHighway: true,
+  exteriorColor: true,
+  interiorColor: true,
+  features: true,
+  images: true,
+  availability: true,
+  featured: true
+} satisfies Prisma.VehicleSelect;
+
+export const importedVehicleSelect = {
+  vin: true,
+  ...restorableVehicleSelect
+} satisfies Prisma.VehicleSelect;
+
+export type ExistingVehicle = Prisma.VehicleGetPayload<{ select: typeof importedVehicleSelect }>;
+
+export const inventoryImportSelect = {
+  id: true,
+  jobId: true,
+  status: true,
+  requestedBy: true,
+  feedRunId: true,
+  fileRows: true,
+  created: true,
+  updated: true,
+  markedSold: true,
+  errorCount: true,
+  error: true,
+  startedAt: true,
+  finishedAt: true,
+  rolledBackAt: true,
+  rolledBackBy: true,
+  _count: { select: { snapshots: true } }
+} satisfies Prisma.InventoryImportSelect;
+
+/** Records an import as running; called by the worker before it writes anything. */
+export async function startInventoryImport(jobId: string, data: InventoryImportJobData) {
+  return prisma.inventoryImport.upsert({
+    where: { jobId },
+    create: {
+      jobId,
+      dealershipId: data.dealershipId,
+      requestedBy: data.requestedBy ?? null,
+      feedRunId: data.feedRunId ?? null,
+      fileRows: data.totalRows
+    },
+    update: {},
+    select: { id: true }
+  });
+}
+
+/** The dealership's own vehicles for the VINs; imports never write another dealership's. */
+export async function findImportedVehicles(dealershipId: string, vins: string[]) {
+  const vehicles = vins.length
+    ? await prisma.vehicle.findMany({
+        where: { dealershipId, vin: { in: vins } },
+        select: importedVehicleSelect
+      })
+    : [];
+  return new Map(vehicles.map((vehicle) => [vehicle.vin, vehicle]));
+}
+
+/**
+ * Whether writing the vehicle would change anything. Unchanged vehicles are
+ * skipped by the import and need no snapshot.
+ */
+export function hasVehicleChanges(existing: ExistingVehicle | undefined, vehicle: ImportedVehicle) {
+  return (
+    !existing ||
+    existing.makeKey !== vehicle.data.makeKey ||
+    existing.modelKey !== vehicle.data.modelKey ||
+    listVehicleChanges(existing, vehicle.data).length > 0
+  );
+}
+
+/** The snapshot a rollback restores the vehicle from; `existing` is undefined for new vehicles. */
+export function toImportSnapshot(
+  importId: string,
+  vin: string,
+  existing: ExistingVehicle | undefined
+): Prisma.InventoryImportSnapshotUncheckedCreateInput {
+  return {
+    importId,
+    vin,
+    action: existing ? InventoryImportAction.UPDATED : InventoryImportAction.CREATED,
+    previous: existing ? toSnapshotJson(existing) : Prisma.JsonNull
+  };
+}
+
+/** Marks in-stock vehicles missing from the file as sold, snapshotting their availability. */
+export async function markMissingVehiclesSold(
+  importId: string,
+  dealershipId: string,
+  seenVins: Set<string>
+) {
+  const missing = await prisma.vehicle.findMany({
+    where: {
+      dealershipId,
+      availability: VehicleAvailability.IN_STOCK,
+      vin: { notIn: Array.from(seenVins) }
+    },
+    select: { vin: true, availability: true }
+  });
+  if (!missing.length) return 0;
+
+  const [, result] = await prisma.$transaction([
+    prisma.inventoryImportSnapshot.createMany({
+      data: missing.map((vehicle) => ({
+        importId,
+        vin: vehicle.vin,
+        action: InventoryImportAction.MARKED_SOLD,
+        previous: { availability: vehicle.availability }
+      })),
+      skipDuplicates: true
+    }),
+    prisma.vehicle.updateMany({
+      where: { dealershipId, vin: { in: missing.map((vehicle) => vehicle.vin) } },
+      data: { availability: VehicleAvailability.SOLD }
+    })
+  ]);
+  return result.count;
+}
+
+export async function completeInventoryImport(
+  jobId: string,
+  result: {
+    created: number;
+    updated: number;
+    markedSold: number;
+    errors: Array<{ row: number; error: string }>;
+  }
+) {
+  await prisma.inventoryImport.update({
+    where: { jobId },
+    data: {
+      status: InventoryImportStatus.SUCCEEDED,
+      created: result.created,
+      updated: result.updated,
+      markedSold: result.markedSold,
+      errorCount: result.errors.length,
+      errors: result.errors,
+      finishedAt: new Date()
+    }
+  });
+}
+
+/** Marks a running import failed; a no-op for dry runs, which are never recorded. */
+export async function failInventoryImport(jobId: string, error: string) {
+  await prisma.inventoryImport.updateMany({
+    where: { jobId, status: InventoryImportStatus.RUNNING },
+    data: { status: InventoryImportStatus.FAILED, error, finishedAt: new Date() }
+  });
+}
+
+/**
+ * Recent imports, newest first. Only the latest import that changed anything
+ * can be rolled back; older ones are covered by its changes until it is undone.
+ */
+export async function listInventoryImports(dealershipId: string) {
+  const imports = await prisma.inventoryImport.findMany({
+    where: { dealershipId },
+    orderBy: { startedAt: "desc" },
+    take: RECENT_IMPORT_COUNT,
+    select: inventoryImportSelect
+  });
+
+  const latest = imports.find(isUndoable);
+  return imports.map((entry) => ({
+    ...entry,
+    canRollBack: entry === latest && entry.status !== InventoryImportStatus.RUNNING
+  }));
+}
+
+export async function getInventoryImport(dealershipId: string, importId: string) {
+  const entry = await prisma.inventoryImport.findUnique({
+    where: { id: importId },
+    select: { ...inventoryImportSelect, dealershipId: true, errors: true }
+  });
+
+  if (!entry || entry.dealershipId !== dealershipId) {
+    throw new ApiError(404, "Inventory import not found");
+  }
+
+  return entry;
+}
+
+/**
+ * Restores every vehicle an import changed to its snapshot. Vehicles the
+ * import created are deleted, except those with appointments, which are
+ * marked sold so the appointment keeps its vehicle. The checks and writes
+ * share one serializable transaction, so an import that runs meanwhile
+ * fails the rollback instead of being overwritten.
+ */
+export async function rollbackInventoryImport(
+  dealershipId: string,
+  importId: string,
+  actor: string
+) {
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const entry = await tx.inventoryImport.findUnique({
+        where: { id: importId },
+        select: { dealershipId: true, status: true, startedAt: true }
+      });
+
+      if (!entry || entry.dealershipId !== dealershipId) {
+        throw new ApiError(404, "Inventory import not found");
+      }
+      if (entry.status === InventoryImportStatus.ROLLED_BACK) {
+        throw new ApiError(409, "This import has already been rolled back");
+      }
+      if (entry.status === InventoryImportStatus.RUNNING) {
+        throw new ApiError(409, "This import is still running");
+      }
+
+      const running = await tx.inventoryImport.findFirst({
+        where: { dealershipId, status: InventoryImportStatus.RUNNING },
+        select: { id: true }
+      });
+      if (running) {
+        throw new ApiError(409, "Wait for the running import to finish before rolling back");
+      }
+
+      const later = await tx.inventoryImport.findFirst({
+        where: {
+          dealershipId,
+          startedAt: { gt: entry.startedAt },
+          status: { not: InventoryImportStatus.ROLLED_BACK },
+          snapshots: { some: {} }
+        },
+        select: { id: true }
+      });
+      if (later) {
+        throw new ApiError(409, "Roll back the imports that ran after this one first");
+      }
+
+      const snapshots = await tx.inventoryImportSnapshot.findMany({
+        where: { importId },
+        select: { vin: true, action: true, previous: true }
+      });
+
+      const createdVins = snapshots
+        .filter((snapshot) => snapshot.action === InventoryImportAction.CREATED)
+        .map((snapshot) => snapshot.vin);
+      const booked = new Set(
+        (
+          await tx.vehicle.findMany({
+            where: { dealershipId, vin: { in: createdVins }, appointments: { some: {} } },
+            select: { vin: true }
+          })
+        ).map((vehicle) => vehicle.vin)
+      );
+      const restored = snapshots.filter(
+        (snapshot) => snapshot.action !== InventoryImportAction.CREATED
+      );
+
+      const deleted = await tx.vehicle.deleteMany({
+        where: { dealershipId, vin: { in: createdVins.filter((vin) => !booked.has(vin)) } }
+      });
+      const retired = await tx.vehicle.updateMany({
+        where: { dealershipId, vin: { in: Array.from(booked) } },
+        data: { availability: VehicleAvailability.SOLD }
+      });
+      for (const snapshot of restored) {
+        await tx.vehicle.updateMany({
+          where: { dealershipId, vin: snapshot.vin },
+          data: toRestoreData(snapshot.previous)
+        });
+      }
+
+      await tx.inventoryImport.update({
+        where: { id: importId },
+        data: {
+          status: InventoryImportStatus.ROLLED_BACK,
+          rolledBackAt: new Date(),
+          rolledBackBy: actor
+        }
+      });
+
+      return { restored: restored.length, removed: deleted.count, markedSold: retired.count };
+    },
+    {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      timeout: ROLLBACK_TIMEOUT_MS
+    }
+  );
+
+  await invalidateInventoryFacets(dealershipId);
+  await enqueueVehicleIndex(dealershipId);
+
+  return result;
+}
+
+function isUndoable(entry: { status: InventoryImportStatus; _count: { snapshots: number } }) {
+  return entry.status !== InventoryImportStatus.ROLLED_BACK && entry._count.snapshots > 0;
+}
+
+function toSnapshotJson(vehicle: ExistingVehicle): Prisma.InputJsonObject {
+  const { vin: _vin, price, ...fields } = vehicle;
+  return { ...fields, price: price?.toString() ?? null } as Prisma.InputJsonObject;
+}
+
+/** Snapshot values back into vehicle columns; unknown keys are ignored. */
+function toRestoreData(previous: Prisma.JsonValue): Prisma.VehicleUncheckedUpdateManyInput {
+  const values =
+    previous && typeof previous === "object" && !Array.isArray(previous) ? previous : {};
+
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([field]) => field in restorableVehicleSelect)
+      .map(([field, value]) => [
+        field,
+        (field === "features" || field === "images") && value === null ? Prisma.JsonNull : value
+      ])
+  );
+}
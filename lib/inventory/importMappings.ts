@@ -0,0 +1,117 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import {
+  INVENTORY_IMPORT_FIELDS,
+  type InventoryColumnMapping,
+  type InventoryImportField
+} from "./importFields";
+
+export const columnMappingSchema = z
+  .object(
+    Object.fromEntries(
+      INVENTORY_IMPORT_FIELDS.map((field) => [field, z.string().trim().min(1).max(300).optional()])
+    ) as Record<InventoryImportField, z.ZodOptional<z.ZodString>>
+  )
+  .strict();
+
+export const inventoryMappingSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  columns: columnMappingSchema
+});
+
+export const inventoryMappingUpdateSchema = inventoryMappingSchema.partial();
+
+export const inventoryMappingSelect = {
+  id: true,
+  name: true,
+  columns: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.InventoryImportMappingSelect;
+
+/** Reads stored columns defensively; unknown fields and non-string values are dropped. */
+export function toColumnMapping(value: Prisma.JsonValue): InventoryColumnMapping {
+  const parsed = columnMappingSchema.strip().safeParse(value);
+  return parsed.success ? parsed.data : {};
+}
+
+export async function listInventoryMappings(dealershipId: string) {
+  return prisma.inventoryImportMapping.findMany({
+    where: { dealershipId },
+    orderBy: { name: "asc" },
+    select: inventoryMappingSelect
+  });
+}
+
+/** Throws 404 unless the mapping exists and belongs to the dealership. */
+export async function getInventoryMapping(dealershipId: string, mappingId: string) {
+  const mapping = await prisma.inventoryImportMapping.findUnique({
+    where: { id: mappingId },
+    select: { ...inventoryMappingSelect, dealershipId: true }
+  });
+
+  if (!mapping || mapping.dealershipId !== dealershipId) {
+    throw new ApiError(404, "Column mapping not found");
+  }
+
+  return mapping;
+}
+
+export async function createInventoryMapping(
+  dealershipId: string,
+  input: z.infer<typeof inventoryMappingSchema>,
+  actor: string
+) {
+  return prisma.inventoryImportMapping.create({
+    data: { dealershipId, name: input.name, columns: input.columns, createdBy: actor },
+    select: inventoryMappingSelect
+  });
+}
+
+export async function updateInventoryMapping(
+  dealershipId: string,
+  mappingId: string,
+  changes: z.infer<typeof inventoryMappingUpdateSchema>
+) {
+  await getInventoryMapping(dealershipId, mappingId);
+
+  return prisma.inventoryImportMapping.update({
+    where: { id: mappingId },
+    data: { name: changes.name, columns: changes.columns },
+    select: inventoryMappingSelect
+  });
+}
+
+export async function deleteInventoryMapping(dealershipId: string, mappingId: string) {
+  await getInventoryMapping(dealershipId, mappingId);
+  await prisma.inventoryImportMapping.delete({ where: { id: mappingId } });
+}
+
+/**
+ * The columns an upload should be read with: an explicit mapping sent as JSON,
+ * a saved mapping, or null to detect the columns from the file's headers.
+ */
+export async function resolveColumnMapping(
+  dealershipId: string,
+  { mappingId, columns }: { mappingId?: string | null; columns?: string | null }
+) {
+  if (columns) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(columns);
+    } catch {
+      throw new ApiError(400, "Column mapping must be a JSON object");
+    }
+    return columnMappingSchema.parse(parsed);
+  }
+
+  if (mappingId) {
+    const mapping = await getInventoryMapping(dealershipId, mappingId);
+    return toColumnMapping(mapping.columns);
+  }
+
+  return null;
+}
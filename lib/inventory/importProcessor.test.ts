@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { FOREIGN_VIN_ERROR } from "./importDiff";
+import { findImportedVehicles } from "./importHistory";
+import { processInventoryImport } from "./importProcessor";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    $transaction: vi.fn(async (operations: unknown[]) => operations),
+    vehicle: { create: vi.fn(), update: vi.fn() },
+    inventoryImportSnapshot: { create: vi.fn() }
+  }
+}));
+vi.mock("./importDiff", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./importDiff")>()),
+  computeInventoryImportDiff: vi.fn(async () => ({ blocked: false })),
+  findForeignVins: vi.fn(async () => new Set(["FOREIGN1"]))
+}));
+vi.mock("./importHistory", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./importHistory")>()),
+  startInventoryImport: vi.fn(async () => ({ id: "import-1" })),
+  completeInventoryImport: vi.fn(),
+  findImportedVehicles: vi.fn(async () => new Map()),
+  markMissingVehiclesSold: vi.fn(async () => 0)
+}));
+vi.mock("./facets", () => ({ invalidateInventoryFacets: vi.fn() }));
+vi.mock("@/lib/queues/vehicleIndexQueue", () => ({ enqueueVehicleIndex: vi.fn() }));
+
+const DEALERSHIP_ID = "dealership-a";
+
+const row = (vin: string) => ({
+  vin,
+  year: 2022,
+  make: "Toyota",
+  model: "Tacoma",
+  condition: "used"
+});
+
+describe("processInventoryImport", () => {
+  beforeEach(() => {
+    vi.mocked(prisma.vehicle.create).mockClear();
+    vi.mocked(prisma.vehicle.update).mockClear();
+  });
+
+  it("reports another dealership's VINs as row errors and never writes them", async () => {
+    const result = await processInventoryImport({
+      id: "job-1",
+      data: {
+        dealershipId: DEALERSHIP_ID,
+        rows: [row("FOREIGN1"), row("NEW1")],
+        markMissingAsSold: false,
+        totalRows: 2
+      },
+      updateProgress: vi.fn()
+    } as never);
+
+    expect(findImportedVehicles).toHaveBeenCalledWith(DEALERSHIP_ID, ["FOREIGN1", "NEW1"]);
+    expect(result).toMatchObject({
+      created: 1,
+      updated: 0,
+      errors: [{ row: 1, error: FOREIGN_VIN_ERROR }]
+    });
+    expect(prisma.vehicle.update).not.toHaveBeenCalled();
+    expect(prisma.vehicle.create).toHaveBeenCalledTimes(1);
+    expect(prisma.vehicle.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ vin: "NEW1", dealershipId: DEALERSHIP_ID })
+      })
+    );
+  });
+});
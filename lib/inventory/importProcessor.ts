@@ -0,0 +1,272 @@
+import type { Job } from "bullmq";
+import { prisma } from "@/lib/prisma";
+import type { InventoryImportJobData } from "@/lib/queues/inventoryImportQueue";
+import { enqueueVehicleIndex } from "@/lib/queues/vehicleIndexQueue";
+import { invalidateInventoryFacets } from "./facets";
+import {
+  computeInventoryImportDiff,
+  describeBlockedImport,
+  findForeignVins,
+  FOREIGN_VIN_ERROR,
+  type InventoryImportDiff
+} from "./importDiff";
+import {
+  completeInventoryImport,
+  findImportedVehicles,
+  hasVehicleChanges,
+  markMissingVehiclesSold,
+  startInventoryImport,
+  toImportSnapshot,
+  type ExistingVehicle
+} from "./importHistory";
+import { normalizeVin, parseImportRow, type ImportedVehicle } from "./importRows";
+
+/** Rows written per transaction; progress is reported once per batch. */
+const IMPORT_BATCH_SIZE = 250;
+
+/** The parts of a BullMQ job the processor uses, so it can run outside a worker. */
+export type InventoryImportJob = Pick<
+  Job<InventoryImportJobData>,
+  "id" | "data" | "updateProgress"
+>;
+
+export interface InventoryRowError {
+  row: number;
+  error: string;
+}
+
+export interface InventoryImportResult {
+  processed: number;
+  total: number;
+  created: number;
+  updated: number;
+  /** Rows whose vehicle already matched the file; nothing is written for them. */
+  unchanged: number;
+  errors: InventoryRowError[];
+  markedSold: number;
+}
+
+export interface InventoryDryRunResult {
+  dryRun: true;
+  total: number;
+  diff: InventoryImportDiff;
+}
+
+interface ImportContext {
+  importId: string;
+  dealershipId: string;
+  existingByVin: Map<string, ExistingVehicle>;
+  /** VINs another dealership lists; their rows are reported as errors and never written. */
+  foreignVins: Set<string>;
+  /** VINs this import has written; the first write's snapshot is what a rollback restores. */
+  snapshotted: Set<string>;
+  /** VINs this import created, so repeated rows count as updates. */
+  createdVins: Set<string>;
+}
+
+interface VehicleWrite {
+  row: number;
+  vehicle: ImportedVehicle;
+  isNew: boolean;
+  snapshot: boolean;
+}
+
+/**
+ * Runs an `inventory-import` job. A dry run only computes the diff; a real
+ * import re-checks the removal limit, then validates every row and writes
+ * changed vehicles with their rollback snapshots in batched transactions.
+ */
+export async function processInventoryImport(
+  job: InventoryImportJob
+): Promise<InventoryImportResult | InventoryDryRunResult> {
+  const { dealershipId, rows, markMissingAsSold, totalRows, dryRun } = job.data;
+  const diff = await computeInventoryImportDiff(job.data);
+
+  if (dryRun) {
+    return { dryRun: true, total: totalRows, diff };
+  }
+
+  const jobId = String(job.id);
+  const history = await startInventoryImport(jobId, job.data);
+
+  // Re-checked here rather than trusting the dry run: stock may have changed
+  // since, and scheduled feeds import without one.
+  if (diff.blocked) {
+    throw new Error(describeBlockedImport(diff));
+  }
+
+  const seenVins = new Set(rows.map((raw) => normalizeVin(raw.vin)).filter(Boolean));
+  const context: ImportContext = {
+    importId: history.id,
+    dealershipId,
+    existingByVin: await findImportedVehicles(dealershipId, Array.from(seenVins)),
+    foreignVins: await findForeignVins(dealershipId, Array.from(seenVins)),
+    snapshotted: new Set(),
+    createdVins: new Set()
+  };
+
+  const result: InventoryImportResult = {
+    processed: 0,
+    total: totalRows,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    errors: [],
+    markedSold: 0
+  };
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const writes: VehicleWrite[] = [];
+
+    rows.slice(start, start + IMPORT_BATCH_SIZE).forEach((raw, offset) => {
+      const row = start + offset + 1;
+      const parsed = parseImportRow(raw);
+
+      if (!parsed.success) {
+        result.errors.push({ row, error: parsed.error });
+      } else if (context.foreignVins.has(parsed.vehicle.vin)) {
+        result.errors.push({ row, error: FOREIGN_VIN_ERROR });
+      } else {
+        const write = planVehicleWrite(context, row, parsed.vehicle);
+        if (write) {
+          writes.push(write);
+        } else {
+          result.unchanged += 1;
+        }
+      }
+    });
+
+    for (const write of await saveVehicleWrites(context, writes, result.errors)) {
+      if (write.isNew) {
+        result.created += 1;
+      } else {
+        result.updated += 1;
+      }
+    }
+
+    result.processed = Math.min(rows.length, start + IMPORT_BATCH_SIZE);
+    await job.updateProgress({ processed: result.processed, total: totalRows });
+  }
+
+  if (markMissingAsSold && seenVins.size > 0) {
+    result.markedSold = await markMissingVehiclesSold(history.id, dealershipId, seenVins);
+  }
+
+  if (result.created || result.updated || result.markedSold) {
+    await invalidateInventoryFacets(dealershipId);
+  }
+
+  if (result.created || result.updated) {
+    await enqueueVehicleIndex(dealershipId);
+  }
+
+  result.errors.sort((a, b) => a.row - b.row);
+  await completeInventoryImport(jobId, result);
+  return result;
+}
+
+/**
+ * Decides what a valid row writes, or null when the vehicle already matches.
+ * Claims the VIN's snapshot and creation up front so repeated rows in the
+ * same batch don't claim them again; `releaseVehicleWrite` undoes this.
+ */
+function planVehicleWrite(
+  context: ImportContext,
+  row: number,
+  vehicle: ImportedVehicle
+): VehicleWrite | null {
+  const existing = context.existingByVin.get(vehicle.vin);
+  const isNew = !existing && !context.createdVins.has(vehicle.vin);
+  const alreadyWritten = context.snapshotted.has(vehicle.vin);
+
+  // Compared against the state before the import, so a VIN this import has
+  // already written is always written again for the last row to win.
+  if (!isNew && !alreadyWritten && !hasVehicleChanges(existing, vehicle)) {
+    return null;
+  }
+
+  const snapshot = !alreadyWritten;
+  if (snapshot) context.snapshotted.add(vehicle.vin);
+  if (isNew) context.createdVins.add(vehicle.vin);
+
+  return { row, vehicle, isNew, snapshot };
+}
+
+function releaseVehicleWrite(context: ImportContext, write: VehicleWrite) {
+  if (write.snapshot) context.snapshotted.delete(write.vehicle.vin);
+  if (write.isNew) context.createdVins.delete(write.vehicle.vin);
+}
+
+/**
+ * Writes a batch in one transaction. If it fails, each write is retried on
+ * its own so one bad row is reported instead of failing its whole batch.
+ * Returns the writes that were saved.
+ */
+async function saveVehicleWrites(
+  context: ImportContext,
+  writes: VehicleWrite[],
+  errors: InventoryRowError[]
+) {
+  if (!writes.length) return [];
+
+  try {
+    await prisma.$transaction(writes.flatMap((write) => toOperations(context, write)));
+    return writes;
+  } catch {
+    const saved: VehicleWrite[] = [];
+
+    for (const write of writes) {
+      try {
+        await prisma.$transaction(toOperations(context, write));
+        saved.push(write);
+      } catch (rowError) {
+        releaseVehicleWrite(context, write);
+        errors.push({ row: write.row, error: toRowErrorMessage(rowError) });
+      }
+    }
+    return saved;
+  }
+}
+
+/**
+ * Creates new vehicles and updates only the dealership's own, so a VIN another
+ * dealership claimed since the lookup fails its row instead of being taken over.
+ */
+function toOperations(context: ImportContext, { vehicle, isNew, snapshot }: VehicleWrite) {
+  const write = isNew
+    ? prisma.vehicle.create({
+        data: {
+          featured: false,
+          ...vehicle.data,
+          dealershipId: context.dealershipId,
+          vin: vehicle.vin
+        },
+        select: { id: true }
+      })
+    : prisma.vehicle.update({
+        where: { vin: vehicle.vin, dealershipId: context.dealershipId },
+        data: vehicle.data,
+        select: { id: true }
+      });
+
+  if (!snapshot) return [write];
+
+  return [
+    write,
+    prisma.inventoryImportSnapshot.create({
+      data: toImportSnapshot(
+        context.importId,
+        vehicle.vin,
+        context.existingByVin.get(vehicle.vin)
+      ),
+      select: { id: true }
+    })
+  ];
+}
+
+/** Prisma errors end with the database's own explanation; that's the useful part for staff. */
+function toRowErrorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "Unknown error";
+  const lines = error.message.trim().split("\n").filter(Boolean);
+  return lines[lines.length - 1] || "Unknown error";
+}
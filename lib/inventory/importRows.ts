@@ -0,0 +1,149 @@
+import { Prisma, VehicleAvailability, VehicleCondition } from "@prisma/client";
+import { z } from "zod";
+import type { InventoryImportRow } from "@/lib/queues/inventoryImportQueue";
+import { toNameKey } from "./vehicleNames";
+
+/** Fields only written when the file has a column for them, so a sparse file doesn't clear them. */
+const OPTIONAL_FIELDS = [
+  "transmission",
+  "drivetrain",
+  "fuelType",
+  "mpgCity",
+  "mpgHighway",
+  "interiorColor",
+  "features",
+  "featured"
+] as const;
+
+/** Model years run about a year ahead of the calendar; allow one more for early releases. */
+const MAX_MODEL_YEAR_AHEAD = 2;
+
+/** Messages written for this schema read on their own; zod's defaults get the field name. */
+const ROW_MESSAGE_PATTERN = /^(Missing|Invalid|VIN)\b/;
+
+const optionalText = z.string().trim().max(200).nullish();
+const optionalCount = z.number().int().nonnegative().nullish();
+
+/**
+ * Validates one import row. Job data arrives as JSON, so optional fields may
+ * be null as well as missing.
+ */
+export const inventoryImportRowSchema = z.object({
+  vin: z
+    .string({ required_error: "Missing VIN", invalid_type_error: "Missing VIN" })
+    .trim()
+    .toUpperCase()
+    .min(1, "Missing VIN")
+    .max(50, "VIN is too long"),
+  stockNumber: optionalText,
+  year: z
+    .number({ required_error: "Missing year", invalid_type_error: "Invalid year" })
+    .int("Invalid year")
+    .min(1900, "Invalid year")
+    .refine(
+      (year) => year <= new Date().getFullYear() + MAX_MODEL_YEAR_AHEAD,
+      "Invalid year"
+    ),
+  make: z
+    .string({ required_error: "Missing make", invalid_type_error: "Missing make" })
+    .trim()
+    .min(1, "Missing make")
+    .max(100),
+  model: z
+    .string({ required_error: "Missing model", invalid_type_error: "Missing model" })
+    .trim()
+    .min(1, "Missing model")
+    .max(100),
+  trim: optionalText,
+  condition: z.unknown().transform((value, context) => {
+    const condition = toVehicleCondition(value);
+    if (!condition) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: value ? `Invalid condition "${value}"` : "Missing condition"
+      });
+      return z.NEVER;
+    }
+    return condition;
+  }),
+  price: z.number().nonnegative("Invalid price").finite().nullish(),
+  mileage: optionalCount,
+  bodyType: optionalText,
+  transmission: optionalText,
+  drivetrain: optionalText,
+  fuelType: optionalText,
+  mpgCity: optionalCount,
+  mpgHighway: optionalCount,
+  exteriorColor: optionalText,
+  interiorColor: optionalText,
+  features: z.array(z.string()).max(200).nullish(),
+  images: z.array(z.string()).nullish(),
+  availability: z.nativeEnum(VehicleAvailability).nullish(),
+  featured: z.boolean().nullish()
+});
+
+export function normalizeVin(vin: unknown) {
+  return typeof vin === "string" ? vin.trim().toUpperCase() : "";
+}
+
+export function toVehicleCondition(value: unknown) {
+  if (!value) return null;
+  const normalized = String(value).trim().toUpperCase();
+  if (normalized === "NEW") return VehicleCondition.NEW;
+  if (normalized === "USED") return VehicleCondition.USED;
+  if (normalized === "CERTIFIED" || normalized === "CPO") return VehicleCondition.CERTIFIED;
+  return null;
+}
+
+/**
+ * Validates an import row and returns the vehicle columns it writes, keyed by
+ * its normalised VIN, or every problem with the row as one message.
+ */
+export function parseImportRow(raw: InventoryImportRow) {
+  const parsed = inventoryImportRowSchema.safeParse(raw);
+  if (!parsed.success) {
+    const messages = parsed.error.issues.map((issue) =>
+      ROW_MESSAGE_PATTERN.test(issue.message)
+        ? issue.message
+        : `${issue.path.join(".")}: ${issue.message}`
+    );
+    return { success: false as const, error: Array.from(new Set(messages)).join("; ") };
+  }
+
+  const row = parsed.data;
+  const optional = Object.fromEntries(
+    OPTIONAL_FIELDS.filter((field) => row[field] !== undefined && row[field] !== null).map(
+      (field) => [field, row[field]]
+    )
+  ) as { [Field in (typeof OPTIONAL_FIELDS)[number]]?: NonNullable<(typeof row)[Field]> };
+
+  return {
+    success: true as const,
+    vehicle: {
+      vin: row.vin,
+      data: {
+        stockNumber: row.stockNumber ?? null,
+        year: row.year,
+        make: row.make,
+        model: row.model,
+        makeKey: toNameKey(row.make),
+        modelKey: toNameKey(row.model),
+        trim: row.trim ?? null,
+        condition: row.condition,
+        price: typeof row.price === "number" ? new Prisma.Decimal(row.price) : null,
+        mileage: row.mileage ?? null,
+        exteriorColor: row.exteriorColor ?? null,
+        bodyType: row.bodyType ?? null,
+        images: row.images?.filter(Boolean) ?? [],
+        availability: row.availability ?? VehicleAvailability.IN_STOCK,
+        ...optional
+      }
+    }
+  };
+}
+
+export type ImportedVehicle = Extract<
+  ReturnType<typeof parseImportRow>,
+  { success: true }
+>["vehicle"];
+export type ImportedVehicleData = ImportedVehicle["data"];
@@ -0,0 +1,130 @@
+import { Prisma, VehicleAvailability, VehicleCondition } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { searchVehicles, vehicleSearchSchema } from "./search";
+import { findSemanticMatches } from "./semanticIndex";
+
+vi.mock("@/lib/prisma", () => ({ prisma: { vehicle: { findMany: vi.fn() } } }));
+vi.mock("@/lib/knowledge/embeddings", () => ({
+  embedText: vi.fn(),
+  embedTexts: vi.fn(),
+  toVectorLiteral: vi.fn()
+}));
+vi.mock("./semanticIndex", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./semanticIndex")>()),
+  findSemanticMatches: vi.fn()
+}));
+
+const DEALERSHIP_ID = "6f1c2f0e-7a51-4d0b-9a59-0f2f3c1d8e11";
+
+function buildVehicle(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    featured: false,
+    price: new Prisma.Decimal(30_000),
+    year: 2022,
+    make: "Toyota",
+    model: "Tacoma",
+    trim: "SR5",
+    condition: VehicleCondition.USED,
+    bodyType: "Truck",
+    transmission: "Automatic",
+    drivetrain: "4WD",
+    fuelType: "Gasoline",
+    mpgCity: 18,
+    mpgHighway: 22,
+    exteriorColor: "Silver",
+    interiorColor: "Black",
+    mileage: 20_000,
+    features: [],
+    images: [],
+    availability: VehicleAvailability.IN_STOCK,
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    ...overrides
+  };
+}
+
+const vehicles = [
+  buildVehicle("vehicle-1"),
+  buildVehicle("vehicle-2", { price: new Prisma.Decimal(25_000), featured: true })
+];
+
+describe("searchVehicles in keyword mode", () => {
+  beforeEach(() => {
+    vi.mocked(prisma.vehicle.findMany).mockReset();
+    vi.mocked(prisma.vehicle.findMany).mockImplementation((async (args: {
+      where: { id?: { in: string[] } };
+    }) => {
+      const ids = args.where.id?.in;
+      return ids ? vehicles.filter((vehicle) => ids.includes(vehicle.id)) : vehicles;
+    }) as never);
+  });
+
+  it("ranks by the filters alone when no query term can be scored", async () => {
+    const search = vehicleSearchSchema.parse({
+      dealershipId: DEALERSHIP_ID,
+      q: "a to go",
+      mode: "keyword"
+    });
+
+    const result = await searchVehicles(search, { limit: 10, offset: 0 });
+
+    expect(result.mode).toBe("structured");
+    expect(result.total).toBe(2);
+    expect(result.data.map((vehicle) => vehicle.id)).toEqual(["vehicle-2", "vehicle-1"]);
+    expect(result.data[0].relevance).toBeNull();
+  });
+
+  it("still drops vehicles that match none of the scoring terms", async () => {
+    const search = vehicleSearchSchema.parse({
+      dealershipId: DEALERSHIP_ID,
+      q: "sunroof",
+      mode: "keyword"
+    });
+
+    const result = await searchVehicles(search, { limit: 10, offset: 0 });
+
+    expect(result.mode).toBe("keyword");
+    expect(result.total).toBe(0);
+  });
+});
+
+describe("searchVehicles in semantic mode", () => {
+  const inventory = Array.from({ length: 150 }, (_, index) =>
+    buildVehicle(`vehicle-${String(index).padStart(3, "0")}`, {
+      price: new Prisma.Decimal(index % 2 ? 45_000 : 20_000)
+    })
+  );
+
+  beforeEach(() => {
+    vi.mocked(prisma.vehicle.findMany).mockReset();
+    vi.mocked(prisma.vehicle.findMany).mockImplementation((async (args: {
+      where: { id?: { in: string[] }; AND?: unknown[] };
+    }) => {
+      const ids = args.where.id?.in;
+      if (ids) return inventory.filter((vehicle) => ids.includes(vehicle.id));
+      // The only structured filter in this test is maxPrice.
+      return args.where.AND
+        ? inventory.filter((vehicle) => vehicle.price.toNumber() <= 30_000)
+        : inventory;
+    }) as never);
+    vi.mocked(findSemanticMatches).mockImplementation(async (_dealershipId, _query, ids) =>
+      new Map(ids.map((id) => [id, 0.5]))
+    );
+  });
+
+  it("scores every vehicle that passes the filters, not a fixed nearest pool", async () => {
+    const search = vehicleSearchSchema.parse({
+      dealershipId: DEALERSHIP_ID,
+      q: "roomy family hauler",
+      maxPrice: "30000"
+    });
+
+    const result = await searchVehicles(search, { limit: 10, offset: 0 });
+
+    expect(result.mode).toBe("semantic");
+    expect(result.total).toBe(75);
+    expect(vi.mocked(findSemanticMatches).mock.calls[0][2]).toHaveLength(75);
+  });
+});
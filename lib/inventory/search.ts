@@ -0,0 +1,557 @@
+import { Prisma, VehicleAvailability, VehicleCondition, type Vehicle } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { buildVehicleSearchText, findSemanticMatches, listVehicleFeatures } from "./semanticIndex";
+import { expandMakeKeys, expandModelKeys } from "./vehicleNames";
+import {
+  VEHICLE_SORTS,
+  expandSpecTerms,
+  type VehicleSort,
+  type VehicleSpecField
+} from "./filters";
+
+const QUERY_STOPWORDS = new Set([
+  "and",
+  "any",
+  "for",
+  "has",
+  "have",
+  "like",
+  "looking",
+  "need",
+  "one",
+  "something",
+  "that",
+  "the",
+  "want",
+  "with"
+]);
+
+const yearSchema = z.coerce
+  .number()
+  .int()
+  .refine((val) => val >= 1980 && val <= new Date().getFullYear() + 1, {
+    message: "Invalid year"
+  });
+
+/** Comma-separated query values, e.g. `drivetrain=AWD,4WD`. */
+const listSchema = z
+  .string()
+  .transform((val) =>
+    val
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+  )
+  .pipe(z.array(z.string().max(50)).max(10));
+
+const vehicleFilterFields = z.object({
+  dealershipId: z.string().uuid(),
+  make: z.string().trim().max(50).optional(),
+  model: z.string().trim().max(50).optional(),
+  year: yearSchema.optional(),
+  minYear: yearSchema.optional(),
+  maxYear: yearSchema.optional(),
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
+  maxMileage: z.coerce.number().int().nonnegative().optional(),
+  bodyType: z.string().trim().max(50).optional(),
+  condition: z
+    .string()
+    .transform((val) => val.toUpperCase())
+    .refine(
+      (val) =>
+        val === VehicleCondition.NEW ||
+        val === VehicleCondition.USED ||
+        val === VehicleCondition.CERTIFIED,
+      {
+        message: "Invalid condition"
+      }
+    )
+    .optional(),
+  drivetrain: listSchema.optional(),
+  fuelType: listSchema.optional(),
+  transmission: listSchema.optional(),
+  exteriorColor: listSchema.optional(),
+  interiorColor: listSchema.optional(),
+  features: listSchema.optional(),
+  featured: z
+    .enum(["true", "false"])
+    .transform((val) => val === "true")
+    .optional()
+});
+
+function refineRanges(
+  values: z.infer<typeof vehicleFilterFields>,
+  context: z.RefinementCtx
+) {
+  if (
+    values.minPrice !== undefined &&
+    values.maxPrice !== undefined &&
+    values.minPrice > values.maxPrice
+  ) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "minPrice must be less than or equal to maxPrice",
+      path: ["minPrice"]
+    });
+  }
+
+  if (
+    values.minYear !== undefined &&
+    values.maxYear !== undefined &&
+    values.minYear > values.maxYear
+  ) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "minYear must be less than or equal to maxYear",
+      path: ["minYear"]
+    });
+  }
+}
+
+/** The filters shared by search and facets. */
+export const vehicleFilterSchema = vehicleFilterFields.superRefine(refineRanges);
+
+export const vehicleSearchSchema = vehicleFilterFields
+  .extend({
+    q: z.string().trim().max(200).optional(),
+    mode: z.enum(["semantic", "keyword"]).optional(),
+    sort: z.enum(VEHICLE_SORTS).default("relevance")
+  })
+  .superRefine(refineRanges);
+
+export const vehiclePaginationSchema = z.object({
+  limit: z.coerce.number().min(1).max(20).default(10),
+  offset: z.coerce.number().min(0).default(0),
+  /** Opaque position returned as `nextCursor`; takes precedence over `offset`. */
+  cursor: z.string().max(500).optional()
+});
+
+export type VehicleFilterInput = z.infer<typeof vehicleFilterSchema>;
+export type VehicleSearchInput = z.infer<typeof vehicleSearchSchema>;
+export type VehiclePagination = z.infer<typeof vehiclePaginationSchema>;
+
+/**
+ * How a free-text `q` was matched; `structured` means no query was given, or
+ * none of its terms could be scored.
+ */
+export type VehicleSearchMode = "semantic" | "keyword" | "structured";
+
+/**
+ * Searches in-stock inventory. Structured filters always narrow the result
+ * set; make and model go through the alias dictionary and trigram matching
+ * on the normalized name keys, so "Chevy", "chevrolet" and "Chevorlet" all
+ * find the same cars. A free-text `q` is matched against embeddings of each
+ * vehicle's trim, specs, colors and features when the dealership has been
+ * indexed, and against the same text by keyword otherwise.
+ *
+ * Every matching vehicle is ranked (on a narrow projection) before the
+ * requested page is loaded, so ordering and `total` are correct across the
+ * whole inventory rather than within a capped candidate pool. `sort` other
+ * than `relevance` orders by that field and uses the blended score only to
+ * break ties.
+ */
+export async function searchVehicles(
+  search: VehicleSearchInput,
+  { limit, offset, cursor }: VehiclePagination
+) {
+  const { andFilters, nameScores } = await resolveVehicleFilters(search);
+
+  const candidates = (
+    await prisma.vehicle.findMany({
+      where: toVehicleWhere(search.dealershipId, andFilters),
+      select: rankingSelect
+    })
+  ).filter((vehicle) => !search.features?.length || hasFeatureTags(vehicle, search.features));
+
+  let mode: VehicleSearchMode = "structured";
+  let semanticScores: Map<string, number> | null = null;
+
+  if (search.q) {
+    mode = "keyword";
+    // Scored after filtering, so every filtered vehicle similar enough to the
+    // query is a match, however many there are.
+    if (search.mode !== "keyword" && candidates.length) {
+      semanticScores = await findSemanticMatches(
+        search.dealershipId,
+        search.q,
+        candidates.map((vehicle) => vehicle.id)
+      );
+    }
+    if (semanticScores?.size) {
+      mode = "semantic";
+    }
+  }
+
+  const queryTerms = mode === "keyword" ? tokenizeQuery(search.q!) : [];
+  // A query of only stopwords and short terms ("a 4x4") has nothing to score
+  // against; rank by the filters alone rather than dropping every vehicle.
+  if (mode === "keyword" && !queryTerms.length) {
+    mode = "structured";
+  }
+
+  const ranked = candidates.flatMap((vehicle) => {
+    if (mode === "semantic" && !semanticScores!.has(vehicle.id)) return [];
+
+    const relevance =
+      mode === "semantic"
+        ? semanticScores!.get(vehicle.id) ?? 0
+        : mode === "keyword"
+          ? keywordRelevance(queryTerms, vehicle)
+          : 0;
+
+    if (mode === "keyword" && relevance === 0) return [];
+
+    const names = nameScores?.get(vehicle.id);
+    const score =
+      (vehicle.featured ? 100 : 0) +
+      (names?.make ?? 0) * 40 +
+      (names?.model ?? 0) * 30 +
+      relevance * 150 -
+      Number(vehicle.price ?? new Prisma.Decimal(0)) / 100_000;
+
+    return [{ id: vehicle.id, relevance, key: sortKey(search.sort, vehicle, score) }];
+  });
+
+  ranked.sort(comparePositions);
+
+  const after = cursor ? decodeCursor(cursor) : null;
+  const start = after
+    ? ranked.findIndex((entry) => comparePositions(entry, after) > 0)
+    : offset;
+  const page = start === -1 ? [] : ranked.slice(start, start + limit);
+
+  const records = await prisma.vehicle.findMany({
+    where: { id: { in: page.map((entry) => entry.id) } }
+  });
+  const recordsById = new Map(records.map((record) => [record.id, record]));
+
+  const data = page.flatMap(({ id, relevance }) => {
+    const record = recordsById.get(id);
+    if (!record) return [];
+    return [
+      {
+        ...toVehicleSearchResult(record),
+        relevance: mode === "structured" ? null : Math.round(relevance * 1000) / 1000
+      }
+    ];
+  });
+
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + page.length < ranked.length;
+
+  return {
+    mode,
+    data,
+    total: ranked.length,
+    nextCursor: hasMore && last ? encodeCursor(last) : null
+  };
+}
+
+/** Missing values sort last in either direction. */
+const LAST = Number.MAX_SAFE_INTEGER;
+
+interface RankedPosition {
+  id: string;
+  key: number[];
+}
+
+/**
+ * Ascending sort key for a vehicle. Cursors store this key plus the vehicle
+ * id, so the next page starts strictly after the last vehicle returned even
+ * if inventory changed in between.
+ */
+function sortKey(sort: VehicleSort, vehicle: RankedVehicle, score: number): number[] {
+  const price = vehicle.price?.toNumber() ?? null;
+  const relevance = -round(score);
+
+  switch (sort) {
+    case "price_asc":
+      return [price ?? LAST, relevance];
+    case "price_desc":
+      return [price === null ? LAST : -price, relevance];
+    case "mileage_asc":
+      return [vehicle.mileage ?? LAST, price ?? LAST];
+    case "newest":
+      return [-vehicle.year, -vehicle.createdAt.getTime()];
+    case "mpg_desc":
+      return [
+        vehicle.mpgHighway === null ? LAST : -vehicle.mpgHighway,
+        vehicle.mpgCity === null ? LAST : -vehicle.mpgCity
+      ];
+    case "relevance":
+      return [relevance, price ?? LAST];
+  }
+}
+
+function comparePositions(a: RankedPosition, b: RankedPosition) {
+  for (let index = 0; index < a.key.length; index += 1) {
+    const difference = a.key[index] - (b.key[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function encodeCursor({ id, key }: RankedPosition) {
+  return Buffer.from(JSON.stringify({ id, key })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): RankedPosition {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      typeof parsed?.id === "string" &&
+      Array.isArray(parsed.key) &&
+      parsed.key.every((value: unknown) => typeof value === "number")
+    ) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new ApiError(400, "Invalid cursor");
+}
+
+/** Scores are floats; rounding keeps cursor comparisons stable across requests. */
+function round(value: number) {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Database filters for everything except feature tags (matched in memory
+ * with `hasFeatureTags`), plus the make/model match scores used for ranking.
+ */
+export async function resolveVehicleFilters(search: VehicleFilterInput) {
+  const andFilters = buildStructuredFilters(search);
+
+  const nameScores =
+    search.make || search.model
+      ? await findNameMatches(search.dealershipId, search.make, search.model)
+      : null;
+  if (nameScores) {
+    andFilters.push({ id: { in: Array.from(nameScores.keys()) } });
+  }
+
+  return { andFilters, nameScores };
+}
+
+export function toVehicleWhere(
+  dealershipId: string,
+  andFilters: Prisma.VehicleWhereInput[]
+): Prisma.VehicleWhereInput {
+  return {
+    dealershipId,
+    availability: VehicleAvailability.IN_STOCK,
+    ...(andFilters.length ? { AND: andFilters } : {})
+  };
+}
+
+const rankingSelect = {
+  id: true,
+  featured: true,
+  price: true,
+  year: true,
+  make: true,
+  model: true,
+  trim: true,
+  condition: true,
+  bodyType: true,
+  transmission: true,
+  drivetrain: true,
+  fuelType: true,
+  mpgCity: true,
+  mpgHighway: true,
+  exteriorColor: true,
+  interiorColor: true,
+  mileage: true,
+  features: true,
+  createdAt: true
+} satisfies Prisma.VehicleSelect;
+
+type RankedVehicle = Prisma.VehicleGetPayload<{ select: typeof rankingSelect }>;
+
+/**
+ * Vehicles whose make/model key equals, extends, or is trigram-similar to any
+ * alias of the requested names, with a 0–1 score per field. Uses the GIN
+ * trigram indexes on `makeKey` / `modelKey`.
+ */
+async function findNameMatches(
+  dealershipId: string,
+  make: string | undefined,
+  model: string | undefined
+) {
+  const makeKeys = make ? expandMakeKeys(make) : [];
+  const modelKeys = model ? expandModelKeys(model) : [];
+
+  const rows = await prisma.$queryRaw<
+    Array<{ id: string; makeScore: number | null; modelScore: number | null }>
+  >(Prisma.sql`
+    SELECT
+      v."id",
+      ${makeKeys.length ? nameScoreSql("makeKey", makeKeys) : Prisma.sql`NULL`} AS "makeScore",
+      ${modelKeys.length ? nameScoreSql("modelKey", modelKeys) : Prisma.sql`NULL`} AS "modelScore"
+    FROM "Vehicle" v
+    WHERE v."dealershipId" = ${dealershipId}::uuid
+      AND v."availability" = 'IN_STOCK'
+      AND ${makeKeys.length ? nameMatchSql("makeKey", makeKeys) : Prisma.sql`TRUE`}
+      AND ${modelKeys.length ? nameMatchSql("modelKey", modelKeys) : Prisma.sql`TRUE`}
+  `);
+
+  return new Map(
+    rows.map((row) => [
+      row.id,
+      { make: Number(row.makeScore ?? 0), model: Number(row.modelScore ?? 0) }
+    ])
+  );
+}
+
+function nameMatchSql(column: "makeKey" | "modelKey", keys: string[]) {
+  const field = Prisma.raw(`v."${column}"`);
+  return Prisma.sql`(${Prisma.join(
+    keys.map(
+      (key) => Prisma.sql`(${field} = ${key} OR ${field} LIKE ${`${key}%`} OR ${field} % ${key})`
+    ),
+    " OR "
+  )})`;
+}
+
+/** Exact key 1, prefix ("chev" → "chevrolet") 0.9, otherwise trigram similarity. */
+function nameScoreSql(column: "makeKey" | "modelKey", keys: string[]) {
+  const field = Prisma.raw(`v."${column}"`);
+  return Prisma.sql`GREATEST(${Prisma.join(
+    keys.map(
+      (key) => Prisma.sql`CASE
+        WHEN ${field} = ${key} THEN 1
+        WHEN ${field} LIKE ${`${key}%`} THEN 0.9
+        ELSE similarity(${field}, ${key})
+      END`
+    )
+  )})`;
+}
+
+function buildStructuredFilters(search: VehicleFilterInput) {
+  const andFilters: Prisma.VehicleWhereInput[] = [];
+
+  if (search.condition) {
+    andFilters.push({ condition: search.condition as VehicleCondition });
+  }
+
+  if (search.bodyType) {
+    andFilters.push({
+      bodyType: {
+        equals: search.bodyType,
+        mode: "insensitive"
+      }
+    });
+  }
+
+  if (search.year) {
+    andFilters.push({ year: search.year });
+  }
+
+  if (search.minYear !== undefined || search.maxYear !== undefined) {
+    andFilters.push({
+      year: {
+        ...(search.minYear !== undefined ? { gte: search.minYear } : {}),
+        ...(search.maxYear !== undefined ? { lte: search.maxYear } : {})
+      }
+    });
+  }
+
+  if (search.minPrice || search.maxPrice) {
+    andFilters.push({
+      price: {
+        ...(search.minPrice !== undefined ? { gte: new Prisma.Decimal(search.minPrice) } : {}),
+        ...(search.maxPrice !== undefined ? { lte: new Prisma.Decimal(search.maxPrice) } : {})
+      }
+    });
+  }
+
+  if (search.maxMileage !== undefined) {
+    andFilters.push({ mileage: { lte: search.maxMileage } });
+  }
+
+  for (const field of ["drivetrain", "fuelType", "transmission"] as const) {
+    const values = search[field];
+    if (values?.length) {
+      andFilters.push(anyContains(field, values.flatMap((value) => expandSpecTerms(field, value))));
+    }
+  }
+
+  for (const field of ["exteriorColor", "interiorColor"] as const) {
+    const values = search[field];
+    if (values?.length) {
+      andFilters.push(anyContains(field, values));
+    }
+  }
+
+  if (search.featured !== undefined) {
+    andFilters.push({ featured: search.featured });
+  }
+
+  return andFilters;
+}
+
+function anyContains(
+  field: VehicleSpecField | "exteriorColor" | "interiorColor",
+  terms: string[]
+): Prisma.VehicleWhereInput {
+  return {
+    OR: terms.map((term) => ({ [field]: { contains: term, mode: "insensitive" } }))
+  };
+}
+
+/** Every requested tag must appear in one of the vehicle's features. */
+export function hasFeatureTags(vehicle: Pick<Vehicle, "features">, tags: string[]) {
+  const features = listVehicleFeatures(vehicle.features).map((feature) => feature.toLowerCase());
+  return tags.every((tag) => {
+    const needle = tag.toLowerCase();
+    return features.some((feature) => feature.includes(needle));
+  });
+}
+
+function toVehicleSearchResult(vehicle: Vehicle) {
+  return {
+    id: vehicle.id,
+    year: vehicle.year,
+    make: vehicle.make,
+    model: vehicle.model,
+    trim: vehicle.trim,
+    condition: vehicle.condition,
+    price: vehicle.price?.toNumber() ?? null,
+    mileage: vehicle.mileage,
+    bodyType: vehicle.bodyType,
+    transmission: vehicle.transmission,
+    drivetrain: vehicle.drivetrain,
+    fuelType: vehicle.fuelType,
+    mpgCity: vehicle.mpgCity,
+    mpgHighway: vehicle.mpgHighway,
+    exteriorColor: vehicle.exteriorColor,
+    interiorColor: vehicle.interiorColor,
+    features: vehicle.features,
+    images: Array.isArray(vehicle.images) ? vehicle.images.slice(0, 8) : [],
+    availability: vehicle.availability,
+    featured: vehicle.featured,
+    updatedAt: vehicle.updatedAt
+  };
+}
+
+function tokenizeQuery(query: string) {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((term) => term.length >= 3 && !QUERY_STOPWORDS.has(term))
+    )
+  );
+}
+
+/** Share of query terms that appear in the vehicle's indexed text. */
+function keywordRelevance(terms: string[], vehicle: RankedVehicle) {
+  if (!terms.length) return 0;
+  const text = buildVehicleSearchText(vehicle).toLowerCase();
+  return terms.filter((term) => text.includes(term)).length / terms.length;
+}
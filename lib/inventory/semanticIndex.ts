@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import { Prisma, VehicleAvailability, type Vehicle } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { embedText, embedTexts, toVectorLiteral } from "@/lib/knowledge/embeddings";
+
+/** Cosine similarity below which a vehicle is treated as unrelated to the query. */
+const MIN_SIMILARITY = 0.2;
+
+const SEARCHABLE_AVAILABILITY: VehicleAvailability[] = [
+  VehicleAvailability.IN_STOCK,
+  VehicleAvailability.IN_TRANSIT
+];
+
+type SearchableVehicle = Pick<
+  Vehicle,
+  | "year"
+  | "make"
+  | "model"
+  | "trim"
+  | "condition"
+  | "bodyType"
+  | "transmission"
+  | "drivetrain"
+  | "fuelType"
+  | "mpgCity"
+  | "mpgHighway"
+  | "exteriorColor"
+  | "interiorColor"
+  | "mileage"
+  | "features"
+>;
+
+/**
+ * The text that represents a vehicle in the semantic index. Also used for the
+ * keyword fallback, so both modes see the same trim, specs, colors and features.
+ */
+export function buildVehicleSearchText(vehicle: SearchableVehicle) {
+  const specs = [vehicle.transmission, vehicle.drivetrain, vehicle.fuelType].filter(Boolean);
+  const lines = [
+    [vehicle.year, vehicle.make, vehicle.model, vehicle.trim].filter(Boolean).join(" "),
+    [vehicle.condition.toLowerCase(), vehicle.bodyType].filter(Boolean).join(" ")
+  ];
+
+  if (specs.length) lines.push(specs.join(", "));
+  if (vehicle.mpgCity != null || vehicle.mpgHighway != null) {
+    lines.push(`${vehicle.mpgCity ?? "?"} city / ${vehicle.mpgHighway ?? "?"} highway mpg`);
+  }
+  if (vehicle.mileage != null) lines.push(`${vehicle.mileage} miles`);
+  if (vehicle.exteriorColor) lines.push(`${vehicle.exteriorColor} exterior`);
+  if (vehicle.interiorColor) lines.push(`${vehicle.interiorColor} interior`);
+
+  const features = listVehicleFeatures(vehicle.features);
+  if (features.length) lines.push(`Features: ${features.join(", ")}`);
+
+  return lines.join(". ");
+}
+
+/**
+ * `Vehicle.features` arrives from feeds as a list of strings, a list of
+ * `{ name }` objects or a map of category → list; flatten all of them.
+ */
+export function listVehicleFeatures(value: Prisma.JsonValue | null): string[] {
+  if (typeof value === "string") return value.trim() ? [value.trim()] : [];
+  if (Array.isArray(value)) return value.flatMap((entry) => listVehicleFeatures(entry));
+
+  if (value && typeof value === "object") {
+    if (typeof value.name === "string") return listVehicleFeatures(value.name);
+    return Object.values(value).flatMap((entry) => listVehicleFeatures(entry ?? null));
+  }
+
+  return [];
+}
+
+/**
+ * Embeds every searchable vehicle whose indexed text changed since the last
+ * run. Unchanged vehicles are skipped by content hash, so re-running after an
+ * import only pays for the rows that moved.
+ */
+export async function indexDealershipVehicles(dealershipId: string) {
+  const vehicles = await prisma.vehicle.findMany({
+    where: { dealershipId, availability: { in: SEARCHABLE_AVAILABILITY } },
+    include: { embedding: { select: { contentHash: true } } }
+  });
+
+  const stale = vehicles.flatMap((vehicle) => {
+    const text = buildVehicleSearchText(vehicle);
+    const contentHash = createHash("sha256").update(text).digest("hex");
+    return vehicle.embedding?.contentHash === contentHash
+      ? []
+      : [{ vehicleId: vehicle.id, text, contentHash }];
+  });
+
+  if (!stale.length) {
+    return { indexed: 0, unchanged: vehicles.length };
+  }
+
+  const vectors = await embedTexts(stale.map((entry) => entry.text));
+
+  for (const [index, entry] of stale.entries()) {
+    await prisma.$executeRaw`
+      INSERT INTO "VehicleEmbedding" ("vehicleId", "dealershipId", "contentHash", "embedding", "updatedAt")
+      VALUES (
+        ${entry.vehicleId}::uuid,
+        ${dealershipId}::uuid,
+        ${entry.contentHash},
+        ${toVectorLiteral(vectors[index])}::vector,
+        NOW()
+      )
+      ON CONFLICT ("vehicleId") DO UPDATE SET
+        "contentHash" = EXCLUDED."contentHash",
+        "embedding" = EXCLUDED."embedding",
+        "updatedAt" = EXCLUDED."updatedAt"
+    `;
+  }
+
+  return { indexed: stale.length, unchanged: vehicles.length - stale.length };
+}
+
+/**
+ * Cosine similarity to a free-text query of the given vehicles (those that
+ * passed the structured filters), keyed by vehicle id. Every vehicle at or
+ * above `MIN_SIMILARITY` is returned, not just the nearest few. Returns
+ * `null` when semantic search is unavailable (nothing indexed yet or the
+ * embeddings call failed) so callers can fall back to keyword matching.
+ */
+export async function findSemanticMatches(
+  dealershipId: string,
+  query: string,
+  vehicleIds: string[]
+): Promise<Map<string, number> | null> {
+  try {
+    const hasEmbeddings = await prisma.vehicleEmbedding.findFirst({
+      where: { dealershipId },
+      select: { vehicleId: true }
+    });
+    if (!hasEmbeddings) return null;
+
+    const vector = toVectorLiteral(await embedText(query));
+
+    const rows = await prisma.$queryRaw<Array<{ vehicleId: string; score: number }>>(Prisma.sql`
+      SELECT e."vehicleId", 1 - (e."embedding" <=> ${vector}::vector) AS "score"
+      FROM "VehicleEmbedding" e
+      WHERE e."dealershipId" = ${dealershipId}::uuid
+        AND e."vehicleId" = ANY(${vehicleIds}::uuid[])
+        AND e."embedding" IS NOT NULL
+        AND 1 - (e."embedding" <=> ${vector}::vector) >= ${MIN_SIMILARITY}
+    `);
+
+    return new Map(rows.map((row) => [row.vehicleId, Number(row.score)]));
+  } catch (error) {
+    logger.error("Semantic vehicle search failed", error as Error, { dealershipId });
+    return null;
+  }
+}
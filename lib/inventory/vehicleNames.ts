@@ -0,0 +1,70 @@
+/**
+ * Make and model normalization shared by search and inventory imports.
+ * A "name key" is the lowercase alphanumeric form of a name, so "F-150",
+ * "f150" and "F 150" all become `f150` and "Mercedes-Benz" becomes
+ * `mercedesbenz`. `Vehicle.makeKey` / `Vehicle.modelKey` store these keys.
+ */
+
+/** Groups of make keys that refer to the same manufacturer. */
+const MAKE_ALIAS_GROUPS = [
+  ["chevrolet", "chevy"],
+  ["volkswagen", "vw"],
+  ["mercedesbenz", "mercedes", "benz", "mb"],
+  ["bmw", "bimmer", "beemer"],
+  ["alfaromeo", "alfa"],
+  ["astonmartin", "aston"],
+  ["landrover", "rangerover"],
+  ["rollsroyce", "rolls"],
+  ["mini", "minicooper"],
+  ["ram", "dodgeram"],
+  ["hyundai", "hundai", "hyundia"],
+  ["porsche", "porsch"],
+  ["mitsubishi", "mitsu"],
+  ["infiniti", "infinity"]
+];
+
+/** Groups of model keys that refer to the same nameplate. */
+const MODEL_ALIAS_GROUPS = [
+  ["corvette", "vette"],
+  ["mustang", "stang"],
+  ["suburban", "burb"],
+  ["4runner", "forerunner", "fourrunner"],
+  ["3series", "3er"]
+];
+
+const MAKE_ALIASES = buildAliasIndex(MAKE_ALIAS_GROUPS);
+const MODEL_ALIASES = buildAliasIndex(MODEL_ALIAS_GROUPS);
+
+export function toNameKey(value: string | null | undefined) {
+  return (value ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+/** Every make key the input may refer to, the input's own key first. */
+export function expandMakeKeys(value: string) {
+  return expandKeys(value, MAKE_ALIASES);
+}
+
+/** Every model key the input may refer to, the input's own key first. */
+export function expandModelKeys(value: string) {
+  return expandKeys(value, MODEL_ALIASES);
+}
+
+function expandKeys(value: string, aliases: Map<string, string[]>) {
+  const key = toNameKey(value);
+  if (!key) return [];
+  return Array.from(new Set([key, ...(aliases.get(key) ?? [])]));
+}
+
+function buildAliasIndex(groups: string[][]) {
+  const index = new Map<string, string[]>();
+  for (const group of groups) {
+    for (const key of group) {
+      index.set(key, group);
+    }
+  }
+  return index;
+}
@@ -0,0 +1,92 @@
+const MAX_CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+/**
+ * Splits Markdown or plain text into overlapping chunks for embedding.
+ * Paragraphs are kept whole where possible and each chunk is prefixed with
+ * the headings it sits under, so a chunk still makes sense on its own.
+ */
+export function chunkText(text: string, maxChars = MAX_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  const headings: string[] = [];
+  let current = "";
+  let currentHeading = "";
+  // False while `current` only holds overlap carried from the previous chunk.
+  let hasNewText = false;
+
+  const flush = () => {
+    const body = current.trim();
+    if (body && hasNewText) {
+      chunks.push(currentHeading ? `${currentHeading}\n\n${body}` : body);
+      current = overlapTail(body);
+    } else {
+      current = "";
+    }
+    hasNewText = false;
+  };
+
+  for (const block of normalize(text).split(/\n{2,}/)) {
+    const heading = block.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      flush();
+      current = "";
+      headings.splice(heading[1].length - 1);
+      headings[heading[1].length - 1] = heading[2].trim();
+      currentHeading = headings.filter(Boolean).join(" › ");
+      continue;
+    }
+
+    for (const piece of splitOversized(block, maxChars)) {
+      if (current && current.length + piece.length + 2 > maxChars) {
+        flush();
+        if (current.length + piece.length + 2 > maxChars) current = "";
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+      hasNewText = true;
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+export function formatFaqChunk(question: string, answer: string) {
+  return `Q: ${question.trim()}\nA: ${answer.trim()}`;
+}
+
+/** The end of a chunk, starting on a word boundary, repeated at the start of the next one. */
+function overlapTail(body: string) {
+  if (body.length <= CHUNK_OVERLAP_CHARS) return "";
+  const tail = body.slice(-CHUNK_OVERLAP_CHARS);
+  return tail.slice(tail.search(/\s/) + 1).trim();
+}
+
+function normalize(text: string) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Breaks a paragraph that alone exceeds the limit on sentence, then word boundaries. */
+function splitOversized(block: string, maxChars: number): string[] {
+  if (block.length <= maxChars) return [block];
+
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of block.split(/(?<=[.!?])\s+/)) {
+    const words = sentence.length > maxChars ? sentence.split(/\s+/) : [sentence];
+    for (const word of words) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        pieces.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${word}` : word.slice(0, maxChars);
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
@@ -0,0 +1,40 @@
+import OpenAI from "openai";
+import { env } from "@/lib/env";
+
+const openai = new OpenAI({
+  apiKey: env.OPENAI_API_KEY
+});
+
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+/** Must match the `vector(…)` columns on `KnowledgeChunk` and `VehicleEmbedding`. */
+export const EMBEDDING_DIMENSIONS = 1536;
+const EMBEDDING_BATCH_SIZE = 96;
+
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+
+  for (let offset = 0; offset < texts.length; offset += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(offset, offset + EMBEDDING_BATCH_SIZE);
+    const response = await openai.embeddings.create({
+      model: EMBEDDING_MODEL,
+      dimensions: EMBEDDING_DIMENSIONS,
+      input: batch
+    });
+
+    response.data
+      .sort((a, b) => a.index - b.index)
+      .forEach((entry) => vectors.push(entry.embedding));
+  }
+
+  return vectors;
+}
+
+export async function embedText(text: string) {
+  const [vector] = await embedTexts([text]);
+  return vector;
+}
+
+/** pgvector's text input format, for use with a `::vector` cast in raw queries. */
+export function toVectorLiteral(vector: number[]) {
+  return `[${vector.join(",")}]`;
+}
@@ -0,0 +1,26 @@
+import { KnowledgeDocumentKind } from "@prisma/client";
+import { ApiError } from "@/lib/api-error";
+
+export const MAX_KNOWLEDGE_FILE_BYTES = 10 * 1024 * 1024;
+
+/** Detects the document kind from an upload and returns its plain text. */
+export async function extractUploadedText(file: File) {
+  if (file.size > MAX_KNOWLEDGE_FILE_BYTES) {
+    throw new ApiError(413, "File is too large (max 10 MB)");
+  }
+
+  const name = file.name.toLowerCase();
+
+  if (file.type === "application/pdf" || name.endsWith(".pdf")) {
+    const { extractText, getDocumentProxy } = await import("unpdf");
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return { kind: KnowledgeDocumentKind.PDF, text: text.trim() };
+  }
+
+  if (/\.(md|markdown|txt)$/.test(name) || file.type.startsWith("text/")) {
+    return { kind: KnowledgeDocumentKind.MARKDOWN, text: (await file.text()).trim() };
+  }
+
+  throw new ApiError(415, "Upload a Markdown, text or PDF file");
+}
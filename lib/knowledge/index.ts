@@ -0,0 +1,207 @@
+import { randomUUID } from "crypto";
+import {
+  KnowledgeDocumentKind,
+  KnowledgeDocumentStatus,
+  Prisma,
+  type KnowledgeDocument
+} from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { logger } from "@/lib/logger";
+import { enqueueKnowledgeIndex } from "@/lib/queues/knowledgeIndexQueue";
+import { chunkText, formatFaqChunk } from "./chunking";
+import { embedTexts, toVectorLiteral } from "./embeddings";
+
+export const knowledgeFaqSchema = z.object({
+  question: z.string().trim().min(1).max(300),
+  answer: z.string().trim().min(1).max(5000)
+});
+
+interface CreateKnowledgeDocumentInput {
+  dealershipId: string;
+  kind: KnowledgeDocumentKind;
+  title: string;
+  content: string;
+  fileName?: string | null;
+  actor: string;
+}
+
+export const knowledgeDocumentSelect = {
+  id: true,
+  dealershipId: true,
+  kind: true,
+  title: true,
+  fileName: true,
+  status: true,
+  error: true,
+  chunkCount: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.KnowledgeDocumentSelect;
+
+/** Throws 404 unless the document exists and belongs to the dealership. */
+export async function assertKnowledgeDocumentInDealership(dealershipId: string, documentId: string) {
+  const document = await prisma.knowledgeDocument.findUnique({
+    where: { id: documentId },
+    select: { dealershipId: true }
+  });
+
+  if (!document || document.dealershipId !== dealershipId) {
+    throw new ApiError(404, "Knowledge document not found");
+  }
+}
+
+async function queueIndexing(document: Pick<KnowledgeDocument, "id">) {
+  const job = await enqueueKnowledgeIndex(document.id);
+  if (job) return;
+
+  await prisma.knowledgeDocument.update({
+    where: { id: document.id },
+    data: {
+      status: KnowledgeDocumentStatus.FAILED,
+      error: "Indexing could not be queued; try re-indexing the document"
+    }
+  });
+}
+
+export async function createKnowledgeDocument(input: CreateKnowledgeDocumentInput) {
+  if (!input.content.trim()) {
+    throw new ApiError(422, "The document has no text to index");
+  }
+
+  const document = await prisma.knowledgeDocument.create({
+    data: {
+      dealershipId: input.dealershipId,
+      kind: input.kind,
+      title: input.title,
+      content: input.content,
+      fileName: input.fileName ?? null,
+      createdBy: input.actor
+    },
+    select: knowledgeDocumentSelect
+  });
+
+  await queueIndexing(document);
+  return document;
+}
+
+/** Replaces an FAQ entry's question and answer and re-indexes it. */
+export async function updateFaqEntry(documentId: string, question: string, answer: string) {
+  const existing = await prisma.knowledgeDocument.findUnique({
+    where: { id: documentId },
+    select: { kind: true }
+  });
+
+  if (!existing) {
+    throw new ApiError(404, "Knowledge document not found");
+  }
+
+  if (existing.kind !== KnowledgeDocumentKind.FAQ) {
+    throw new ApiError(409, "Only FAQ entries can be edited; upload a new file instead");
+  }
+
+  const document = await prisma.knowledgeDocument.update({
+    where: { id: documentId },
+    data: {
+      title: question,
+      content: answer,
+      status: KnowledgeDocumentStatus.PENDING,
+      error: null
+    },
+    select: knowledgeDocumentSelect
+  });
+
+  await queueIndexing(document);
+  return document;
+}
+
+export async function reindexKnowledgeDocument(documentId: string) {
+  const document = await prisma.knowledgeDocument.update({
+    where: { id: documentId },
+    data: { status: KnowledgeDocumentStatus.PENDING, error: null },
+    select: knowledgeDocumentSelect
+  });
+
+  await queueIndexing(document);
+  return document;
+}
+
+function toChunks(document: Pick<KnowledgeDocument, "kind" | "title" | "content">) {
+  if (document.kind === KnowledgeDocumentKind.FAQ) {
+    return [formatFaqChunk(document.title, document.content)];
+  }
+  return chunkText(document.content);
+}
+
+/**
+ * Chunks and embeds a document, replacing its previous chunks. Runs in the
+ * worker; a failure is recorded on the document and rethrown so the job retries.
+ */
+export async function indexKnowledgeDocument(documentId: string) {
+  const document = await prisma.knowledgeDocument.findUnique({ where: { id: documentId } });
+  if (!document) {
+    logger.warn(`Knowledge document ${documentId} no longer exists; skipping indexing`);
+    return { skipped: true, chunks: 0 };
+  }
+
+  try {
+    const chunks = toChunks(document);
+    const vectors = await embedTexts(chunks);
+
+    const indexed = await prisma.$transaction(
+      async (tx) => {
+        // A newer edit queued its own job; let that one write the chunks.
+        const current = await tx.knowledgeDocument.findUnique({
+          where: { id: document.id },
+          select: { title: true, content: true }
+        });
+        if (!current || current.title !== document.title || current.content !== document.content) {
+          return false;
+        }
+
+        await tx.knowledgeChunk.deleteMany({ where: { documentId: document.id } });
+
+        for (const [position, content] of chunks.entries()) {
+          await tx.$executeRaw`
+            INSERT INTO "KnowledgeChunk" ("id", "documentId", "dealershipId", "position", "content", "embedding")
+            VALUES (
+              ${randomUUID()}::uuid,
+              ${document.id}::uuid,
+              ${document.dealershipId}::uuid,
+              ${position},
+              ${content},
+              ${toVectorLiteral(vectors[position])}::vector
+            )
+          `;
+        }
+
+        await tx.knowledgeDocument.update({
+          where: { id: document.id },
+          data: {
+            status: KnowledgeDocumentStatus.INDEXED,
+            error: null,
+            chunkCount: chunks.length
+          }
+        });
+
+        return true;
+      },
+      { timeout: 30_000 }
+    );
+
+    return { skipped: !indexed, chunks: indexed ? chunks.length : 0 };
+  } catch (error) {
+    await prisma.knowledgeDocument
+      .update({
+        where: { id: document.id },
+        data: {
+          status: KnowledgeDocumentStatus.FAILED,
+          error: error instanceof Error ? error.message : "Indexing failed"
+        }
+      })
+      .catch(() => undefined);
+    throw error;
+  }
+}
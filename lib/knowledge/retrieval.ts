@@ -0,0 +1,86 @@
+import { Prisma, type KnowledgeDocumentKind } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { embedText, toVectorLiteral } from "./embeddings";
+
+const DEFAULT_RESULT_LIMIT = 4;
+/** Cosine similarity below which a chunk is treated as unrelated to the question. */
+const MIN_SIMILARITY = 0.35;
+
+export interface KnowledgeSource {
+  documentId: string;
+  chunkId: string;
+  title: string;
+  kind: KnowledgeDocumentKind;
+  score: number;
+}
+
+export interface KnowledgeMatch extends KnowledgeSource {
+  content: string;
+}
+
+/**
+ * Finds the dealership's knowledge chunks closest to the query. Returns an
+ * empty list (without calling the embeddings API) when the dealership has
+ * nothing indexed, and never throws — a failed lookup just means no excerpts.
+ */
+export async function searchKnowledge(
+  dealershipId: string,
+  query: string,
+  limit = DEFAULT_RESULT_LIMIT
+): Promise<KnowledgeMatch[]> {
+  if (!query.trim()) return [];
+
+  try {
+    const hasChunks = await prisma.knowledgeChunk.findFirst({
+      where: { dealershipId },
+      select: { id: true }
+    });
+    if (!hasChunks) return [];
+
+    const vector = toVectorLiteral(await embedText(query));
+
+    const rows = await prisma.$queryRaw<
+      Array<{
+        chunkId: string;
+        documentId: string;
+        title: string;
+        kind: KnowledgeDocumentKind;
+        content: string;
+        score: number;
+      }>
+    >(Prisma.sql`
+      SELECT
+        c."id" AS "chunkId",
+        c."documentId",
+        d."title",
+        d."kind",
+        c."content",
+        1 - (c."embedding" <=> ${vector}::vector) AS "score"
+      FROM "KnowledgeChunk" c
+      JOIN "KnowledgeDocument" d ON d."id" = c."documentId"
+      WHERE c."dealershipId" = ${dealershipId}::uuid
+        AND c."embedding" IS NOT NULL
+      ORDER BY c."embedding" <=> ${vector}::vector
+      LIMIT ${limit}
+    `);
+
+    return rows
+      .map((row) => ({ ...row, score: Number(row.score) }))
+      .filter((row) => row.score >= MIN_SIMILARITY);
+  } catch (error) {
+    logger.error("Knowledge base search failed", error as Error, { dealershipId });
+    return [];
+  }
+}
+
+/** The citation stored on the assistant message, without the chunk text. */
+export function toKnowledgeSource(match: KnowledgeMatch): KnowledgeSource {
+  return {
+    documentId: match.documentId,
+    chunkId: match.chunkId,
+    title: match.title,
+    kind: match.kind,
+    score: Math.round(match.score * 1000) / 1000
+  };
+}
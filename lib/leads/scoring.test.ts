@@ -0,0 +1,54 @@
+import { LeadStatus } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { rescoreDecayingLeads } from "./scoring";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    dealership: { findMany: vi.fn() },
+    lead: { findMany: vi.fn(), findUnique: vi.fn() }
+  }
+}));
+vi.mock("@/lib/env", () => ({ env: { OPENAI_API_KEY: "test-key" } }));
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+describe("rescoreDecayingLeads", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.lead.findMany).mockResolvedValue([{ id: "lead-1" }] as never);
+    vi.mocked(prisma.lead.findUnique).mockResolvedValue(null);
+  });
+
+  it("rescores open leads active within each dealership's recency window", async () => {
+    vi.mocked(prisma.dealership.findMany).mockResolvedValue([
+      {
+        id: "dealership-a",
+        leadScoringWeights: { recency: { fullWithinHours: 24, decayDays: 2 } }
+      },
+      { id: "dealership-b", leadScoringWeights: { recency: { points: 0 } } }
+    ] as never);
+
+    const rescored = await rescoreDecayingLeads(NOW);
+
+    // 24h at full points, 48h of decay and a day's grace for missed runs.
+    const since = new Date("2026-02-25T12:00:00.000Z");
+    expect(rescored).toBe(1);
+    expect(prisma.lead.findMany).toHaveBeenCalledTimes(1);
+    expect(prisma.lead.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          dealershipId: "dealership-a",
+          status: { not: LeadStatus.LOST },
+          OR: [
+            { updatedAt: { gte: since } },
+            { session: { messages: { some: { createdAt: { gte: since } } } } }
+          ]
+        }
+      })
+    );
+    expect(prisma.lead.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: "lead-1" } })
+    );
+  });
+});
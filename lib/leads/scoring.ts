@@ -0,0 +1,275 @@
+import { AppointmentStatus, LeadStatus, type Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { CHAT_INTENTS, type ChatIntent } from "@/lib/ai/intentClassifier";
+
+export const MAX_LEAD_SCORE = 100;
+const RESCORE_BATCH_SIZE = 100;
+/** Leads idle this much longer than the recency window are still rescored, to cover missed runs. */
+const RECENCY_GRACE_HOURS = 24;
+
+const weightsSchema = z.object({
+  intents: z.record(z.enum(CHAT_INTENTS), z.number().min(0).max(MAX_LEAD_SCORE)),
+  vehicleView: z.number().min(0).max(MAX_LEAD_SCORE),
+  maxVehicleViews: z.number().int().min(0).max(50),
+  budget: z.number().min(0).max(MAX_LEAD_SCORE),
+  appointment: z.number().min(0).max(MAX_LEAD_SCORE),
+  contact: z.object({
+    name: z.number().min(0).max(MAX_LEAD_SCORE),
+    email: z.number().min(0).max(MAX_LEAD_SCORE),
+    phone: z.number().min(0).max(MAX_LEAD_SCORE)
+  }),
+  recency: z.object({
+    points: z.number().min(0).max(MAX_LEAD_SCORE),
+    /** Activity within this window earns the full recency points. */
+    fullWithinHours: z.number().min(0),
+    /** Recency points then decay linearly to zero over this many days. */
+    decayDays: z.number().min(0)
+  })
+});
+
+export type LeadScoringWeights = z.infer<typeof weightsSchema>;
+
+export const leadScoringWeightsSchema = weightsSchema.deepPartial();
+
+export const DEFAULT_LEAD_SCORING_WEIGHTS: LeadScoringWeights = {
+  intents: {
+    TEST_DRIVE_REQUEST: 20,
+    FINANCING: 10,
+    TRADE_IN: 10,
+    PRICING: 8,
+    CONTACT_REQUEST: 8,
+    AVAILABILITY: 6,
+    VEHICLE_DETAILS: 4,
+    INVENTORY_SEARCH: 4
+  },
+  vehicleView: 2,
+  maxVehicleViews: 5,
+  budget: 8,
+  appointment: 20,
+  contact: { name: 4, email: 4, phone: 6 },
+  recency: { points: 10, fullWithinHours: 24, decayDays: 14 }
+};
+
+export interface LeadScoreSignals {
+  intents: ChatIntent[];
+  vehicleViews: number;
+  hasBudget: boolean;
+  appointments: number;
+  contact: { name: boolean; email: boolean; phone: boolean };
+  lastActivityAt: Date | null;
+}
+
+export interface LeadScoreBreakdown {
+  intents: number;
+  vehicleViews: number;
+  budget: number;
+  appointments: number;
+  contact: number;
+  recency: number;
+}
+
+/** Merges a dealership's stored overrides onto the default weights. */
+export function resolveLeadScoringWeights(raw: unknown): LeadScoringWeights {
+  const parsed = leadScoringWeightsSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    logger.warn("Ignoring invalid lead scoring weights", parsed.error.flatten());
+    return DEFAULT_LEAD_SCORING_WEIGHTS;
+  }
+
+  const overrides = parsed.data;
+  const defaults = DEFAULT_LEAD_SCORING_WEIGHTS;
+
+  return {
+    intents: { ...defaults.intents, ...overrides.intents },
+    vehicleView: overrides.vehicleView ?? defaults.vehicleView,
+    maxVehicleViews: overrides.maxVehicleViews ?? defaults.maxVehicleViews,
+    budget: overrides.budget ?? defaults.budget,
+    appointment: overrides.appointment ?? defaults.appointment,
+    contact: { ...defaults.contact, ...overrides.contact },
+    recency: { ...defaults.recency, ...overrides.recency }
+  };
+}
+
+export function computeLeadScore(
+  signals: LeadScoreSignals,
+  weights: LeadScoringWeights,
+  now = new Date()
+): { score: number; breakdown: LeadScoreBreakdown } {
+  const breakdown: LeadScoreBreakdown = {
+    intents: Array.from(new Set(signals.intents)).reduce(
+      (total, intent) => total + (weights.intents[intent] ?? 0),
+      0
+    ),
+    vehicleViews: Math.min(signals.vehicleViews, weights.maxVehicleViews) * weights.vehicleView,
+    budget: signals.hasBudget ? weights.budget : 0,
+    appointments: signals.appointments > 0 ? weights.appointment : 0,
+    contact:
+      (signals.contact.name ? weights.contact.name : 0) +
+      (signals.contact.email ? weights.contact.email : 0) +
+      (signals.contact.phone ? weights.contact.phone : 0),
+    recency: getRecencyPoints(signals.lastActivityAt, weights.recency, now)
+  };
+
+  const total = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+
+  return {
+    score: Math.max(0, Math.min(MAX_LEAD_SCORE, Math.round(total))),
+    breakdown
+  };
+}
+
+function getRecencyPoints(
+  lastActivityAt: Date | null,
+  recency: LeadScoringWeights["recency"],
+  now: Date
+) {
+  if (!lastActivityAt) return 0;
+
+  const ageHours = Math.max(0, (now.getTime() - lastActivityAt.getTime()) / 3_600_000);
+  if (ageHours <= recency.fullWithinHours) return recency.points;
+
+  const decayHours = recency.decayDays * 24;
+  if (decayHours <= 0) return 0;
+
+  const remaining = 1 - (ageHours - recency.fullWithinHours) / decayHours;
+  return Math.max(0, recency.points * remaining);
+}
+
+export async function loadLeadScoreSignals(leadId: string) {
+  const lead = await prisma.lead.findUnique({
+    where: { id: leadId },
+    include: {
+      dealership: { select: { leadScoringWeights: true } },
+      appointments: {
+        where: { status: { not: AppointmentStatus.CANCELLED } },
+        select: { id: true }
+      },
+      session: {
+        select: {
+          messages: {
+            select: { intent: true, entities: true, createdAt: true },
+            orderBy: { createdAt: "asc" }
+          },
+          _count: { select: { vehicleViews: true } }
+        }
+      }
+    }
+  });
+
+  if (!lead) return null;
+
+  const { messages } = lead.session;
+
+  const signals: LeadScoreSignals = {
+    intents: messages.flatMap((message) =>
+      CHAT_INTENTS.includes(message.intent as ChatIntent) ? [message.intent as ChatIntent] : []
+    ),
+    vehicleViews: lead.session._count.vehicleViews,
+    hasBudget: messages.some((message) => hasBudgetEntity(message.entities)),
+    appointments: lead.appointments.length,
+    contact: {
+      name: Boolean(lead.firstName.trim()) && lead.lastName !== "Customer",
+      email: Boolean(lead.email),
+      phone: Boolean(lead.phone)
+    },
+    lastActivityAt: messages[messages.length - 1]?.createdAt ?? lead.updatedAt
+  };
+
+  return {
+    lead,
+    signals,
+    weights: resolveLeadScoringWeights(lead.dealership.leadScoringWeights)
+  };
+}
+
+function hasBudgetEntity(entities: unknown) {
+  if (!entities || typeof entities !== "object") return false;
+  const priceRange = (entities as { priceRange?: { min?: unknown; max?: unknown } }).priceRange;
+  return typeof priceRange?.min === "number" || typeof priceRange?.max === "number";
+}
+
+/** Recomputes and stores a lead's score. Never throws; scoring must not break the chat. */
+export async function recalculateLeadScore(leadId: string) {
+  try {
+    const loaded = await loadLeadScoreSignals(leadId);
+    if (!loaded) return null;
+
+    const { score } = computeLeadScore(loaded.signals, loaded.weights);
+
+    if (score !== loaded.lead.leadScore) {
+      await prisma.lead.update({
+        where: { id: leadId },
+        data: { leadScore: score }
+      });
+    }
+
+    return score;
+  } catch (error) {
+    logger.error(`Failed to recalculate score for lead ${leadId}`, error as Error);
+    return null;
+  }
+}
+
+/** Re-scores every open lead of a dealership, e.g. after its weights change. */
+export async function rescoreDealershipLeads(dealershipId: string) {
+  return rescoreLeads({ dealershipId, status: { not: LeadStatus.LOST } });
+}
+
+/**
+ * Re-scores open leads whose recency points may have decayed since they were
+ * stored. `leadScore` is only recalculated on activity, so without this an
+ * idle lead would keep its "recent activity" points. Runs periodically in
+ * the worker.
+ */
+export async function rescoreDecayingLeads(now = new Date()) {
+  const dealerships = await prisma.dealership.findMany({
+    select: { id: true, leadScoringWeights: true }
+  });
+
+  let rescored = 0;
+  for (const dealership of dealerships) {
+    const { recency } = resolveLeadScoringWeights(dealership.leadScoringWeights);
+    if (!recency.points) continue;
+
+    const windowHours = recency.fullWithinHours + recency.decayDays * 24 + RECENCY_GRACE_HOURS;
+    const since = new Date(now.getTime() - windowHours * 3_600_000);
+
+    rescored += await rescoreLeads({
+      dealershipId: dealership.id,
+      status: { not: LeadStatus.LOST },
+      OR: [
+        { updatedAt: { gte: since } },
+        { session: { messages: { some: { createdAt: { gte: since } } } } }
+      ]
+    });
+  }
+
+  return rescored;
+}
+
+async function rescoreLeads(where: Prisma.LeadWhereInput) {
+  let cursor: string | undefined;
+  let rescored = 0;
+
+  for (;;) {
+    const leads = await prisma.lead.findMany({
+      where,
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: RESCORE_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+
+    for (const lead of leads) {
+      await recalculateLeadScore(lead.id);
+    }
+
+    rescored += leads.length;
+    if (leads.length < RESCORE_BATCH_SIZE) break;
+    cursor = leads[leads.length - 1].id;
+  }
+
+  return rescored;
+}
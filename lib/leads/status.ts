@@ -0,0 +1,30 @@
+import type { LeadStatus } from "@prisma/client";
+
+export const LEAD_STATUSES: LeadStatus[] = [
+  "NEW",
+  "CONTACTED",
+  "QUALIFIED",
+  "APPOINTMENT_SET",
+  "LOST"
+];
+
+/** Statuses a lead may move to from each status. LOST leads can be reopened. */
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  NEW: ["CONTACTED", "QUALIFIED", "APPOINTMENT_SET", "LOST"],
+  CONTACTED: ["QUALIFIED", "APPOINTMENT_SET", "LOST"],
+  QUALIFIED: ["CONTACTED", "APPOINTMENT_SET", "LOST"],
+  APPOINTMENT_SET: ["QUALIFIED", "LOST"],
+  LOST: ["NEW", "CONTACTED"]
+};
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  NEW: "New",
+  CONTACTED: "Contacted",
+  QUALIFIED: "Qualified",
+  APPOINTMENT_SET: "Appointment set",
+  LOST: "Lost"
+};
+
+export function canTransitionLead(from: LeadStatus, to: LeadStatus) {
+  return LEAD_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,99 @@
+import { LeadAuditAction, LeadStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ApiError } from "@/lib/api-error";
+import { enqueueCrmPush } from "@/lib/queues/crmPushQueue";
+import { canTransitionLead } from "./status";
+
+export const SYSTEM_ACTOR = "system";
+
+export interface UpdateLeadInput {
+  actor: string;
+  status?: LeadStatus;
+  note?: string | null;
+}
+
+interface StatusChange {
+  leadId: string;
+  actor: string;
+  fromStatus: LeadStatus;
+  toStatus: LeadStatus;
+  note?: string | null;
+}
+
+/**
+ * Moves a lead through the status workflow and/or attaches a note, recording
+ * both in the lead's audit trail.
+ */
+export async function updateLead(leadId: string, { actor, status, note }: UpdateLeadInput) {
+  const lead = await prisma.lead.findUnique({
+    where: { id: leadId },
+    select: { id: true, status: true }
+  });
+
+  if (!lead) {
+    throw new ApiError(404, "Lead not found");
+  }
+
+  const statusChanged = status !== undefined && status !== lead.status;
+  const trimmedNote = note?.trim() || null;
+
+  if (statusChanged && !canTransitionLead(lead.status, status)) {
+    throw new ApiError(409, `Cannot move a lead from ${lead.status} to ${status}`);
+  }
+
+  if (!statusChanged && !trimmedNote) {
+    throw new ApiError(422, "Provide a new status or a note");
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (statusChanged) {
+      const { count } = await tx.lead.updateMany({
+        where: { id: lead.id, status: lead.status },
+        data: { status }
+      });
+
+      if (!count) {
+        throw new ApiError(409, "This lead was updated by someone else. Refresh and try again.");
+      }
+
+      await recordLeadStatusChange(tx, {
+        leadId: lead.id,
+        actor,
+        fromStatus: lead.status,
+        toStatus: status,
+        note: trimmedNote
+      });
+    } else {
+      await tx.leadAuditEntry.create({
+        data: {
+          leadId: lead.id,
+          actor,
+          action: LeadAuditAction.NOTE,
+          note: trimmedNote
+        }
+      });
+    }
+  });
+
+  if (statusChanged && status === LeadStatus.QUALIFIED) {
+    await enqueueCrmPush(lead.id, "qualified");
+  }
+
+  return prisma.lead.findUniqueOrThrow({ where: { id: lead.id } });
+}
+
+export async function recordLeadStatusChange(
+  client: Prisma.TransactionClient,
+  { leadId, actor, fromStatus, toStatus, note }: StatusChange
+) {
+  return client.leadAuditEntry.create({
+    data: {
+      leadId,
+      actor,
+      action: LeadAuditAction.STATUS_CHANGE,
+      fromStatus,
+      toStatus,
+      note: note ?? null
+    }
+  });
+}
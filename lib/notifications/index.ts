@@ -0,0 +1,98 @@
+import { AppointmentStatus, LeadPreferredContact } from "@prisma/client";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import type { AppointmentReminderType } from "@/lib/queues/appointmentReminderQueue";
+import { getNotificationTransport, type DeliveryReceipt } from "./transport";
+import {
+  renderReminderEmail,
+  renderReminderSms,
+  renderStaffAlertEmail,
+  type ReminderAppointment
+} from "./templates";
+
+export {
+  createFakeTransport,
+  setNotificationTransport,
+  type NotificationTransport
+} from "./transport";
+export type { ReminderAppointment } from "./templates";
+
+interface ChannelDelivery {
+  channel: "sms" | "email";
+  success: boolean;
+  id?: string | null;
+  error?: string;
+}
+
+export async function sendAppointmentReminder(
+  appointment: ReminderAppointment,
+  type: AppointmentReminderType
+) {
+  if (
+    appointment.status !== AppointmentStatus.SCHEDULED &&
+    appointment.status !== AppointmentStatus.CONFIRMED
+  ) {
+    logger.info(`Skipping ${type} reminder for ${appointment.status} appointment ${appointment.id}`);
+    return { success: false, skipped: true, deliveries: [] as ChannelDelivery[] };
+  }
+
+  const transport = getNotificationTransport();
+  const { lead } = appointment;
+  const deliveries: ChannelDelivery[] = [];
+
+  if (lead.phone && lead.preferredContact !== LeadPreferredContact.EMAIL) {
+    deliveries.push(
+      await deliver("sms", () =>
+        transport.sendSms({ to: lead.phone, body: renderReminderSms(appointment, type) })
+      )
+    );
+  }
+
+  if (lead.email) {
+    const email = renderReminderEmail(appointment, type);
+    deliveries.push(
+      await deliver("email", () =>
+        transport.sendEmail({
+          to: lead.email,
+          from: env.NOTIFICATIONS_FROM_EMAIL ?? appointment.dealership.email,
+          ...email
+        })
+      )
+    );
+  }
+
+  const success = deliveries.some((delivery) => delivery.success);
+  if (!success) {
+    throw new Error(
+      `No reminder could be delivered for appointment ${appointment.id}: ${
+        deliveries.map((delivery) => `${delivery.channel} (${delivery.error})`).join(", ") ||
+        "lead has no contact details"
+      }`
+    );
+  }
+
+  return { success, skipped: false, deliveries };
+}
+
+/** Emails dealership staff about an operational problem, such as a failing inventory feed. */
+export async function sendStaffAlert(to: string, subject: string, lines: string[]) {
+  return getNotificationTransport().sendEmail({
+    to,
+    from: env.NOTIFICATIONS_FROM_EMAIL ?? to,
+    ...renderStaffAlertEmail(subject, lines)
+  });
+}
+
+async function deliver(
+  channel: ChannelDelivery["channel"],
+  send: () => Promise<DeliveryReceipt>
+): Promise<ChannelDelivery> {
+  try {
+    const receipt = await send();
+    return { channel, success: true, id: receipt.id };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Reminder ${channel} delivery failed`, message);
+    return { channel, success: false, error: message };
+  }
+}
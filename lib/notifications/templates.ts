@@ -0,0 +1,85 @@
+import type { Appointment, Dealership, Lead, Vehicle } from "@prisma/client";
+import type { AppointmentReminderType } from "@/lib/queues/appointmentReminderQueue";
+
+export type ReminderAppointment = Appointment & {
+  lead: Lead;
+  dealership: Dealership;
+  vehicle: Vehicle | null;
+};
+
+const APPOINTMENT_LABELS: Record<Appointment["appointmentType"], string> = {
+  TEST_DRIVE: "test drive",
+  SERVICE: "service appointment",
+  GENERAL: "appointment"
+};
+
+const WHEN_LABELS: Record<AppointmentReminderType, string> = {
+  "24h": "tomorrow",
+  "1h": "in about an hour"
+};
+
+export function renderReminderSms(appointment: ReminderAppointment, type: AppointmentReminderType) {
+  const { lead, dealership } = appointment;
+  const subject = describeAppointment(appointment);
+
+  return [
+    `Hi ${lead.firstName}, this is ${dealership.name}.`,
+    `Reminder: your ${subject} is ${WHEN_LABELS[type]} (${formatAppointmentTime(appointment)}).`,
+    `Need to reschedule? Call ${dealership.phone}.`
+  ].join(" ");
+}
+
+export function renderReminderEmail(appointment: ReminderAppointment, type: AppointmentReminderType) {
+  const { lead, dealership } = appointment;
+  const subject = describeAppointment(appointment);
+  const when = formatAppointmentTime(appointment);
+
+  const lines = [
+    `Hi ${lead.firstName},`,
+    `This is a reminder that your ${subject} at ${dealership.name} is ${WHEN_LABELS[type]} (${when}).`,
+    `Address: ${dealership.address}`,
+    `If you need to reschedule, call us at ${dealership.phone} or reply to this email.`,
+    `See you soon,\n${dealership.name}`
+  ];
+
+  return {
+    subject: `Reminder: your ${subject} on ${when}`,
+    text: lines.join("\n\n"),
+    html: lines.map((line) => `<p>${escapeHtml(line).replace(/\n/g, "<br />")}</p>`).join("")
+  };
+}
+
+export function renderStaffAlertEmail(subject: string, lines: string[]) {
+  return {
+    subject,
+    text: lines.join("\n\n"),
+    html: lines.map((line) => `<p>${escapeHtml(line).replace(/\n/g, "<br />")}</p>`).join("")
+  };
+}
+
+function describeAppointment(appointment: ReminderAppointment) {
+  const label = APPOINTMENT_LABELS[appointment.appointmentType];
+  const { vehicle } = appointment;
+  return vehicle ? `${label} of the ${vehicle.year} ${vehicle.make} ${vehicle.model}` : label;
+}
+
+function formatAppointmentTime(appointment: ReminderAppointment) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: appointment.dealership.timezone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short"
+  }).format(appointment.scheduledDatetime);
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
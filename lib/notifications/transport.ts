@@ -0,0 +1,98 @@
+import { env } from "@/lib/env";
+import { getSendGridClient } from "@/lib/integrations/sendgrid";
+import { getTwilioClient } from "@/lib/integrations/twilio";
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DeliveryReceipt {
+  id: string | null;
+}
+
+export interface NotificationTransport {
+  sendSms(message: SmsMessage): Promise<DeliveryReceipt>;
+  sendEmail(message: EmailMessage): Promise<DeliveryReceipt>;
+}
+
+export type SentNotification =
+  | ({ channel: "sms" } & SmsMessage)
+  | ({ channel: "email" } & EmailMessage);
+
+export interface FakeNotificationTransport extends NotificationTransport {
+  sent: SentNotification[];
+  reset(): void;
+}
+
+export function createProviderTransport(): NotificationTransport {
+  return {
+    async sendSms({ to, body }) {
+      if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !env.TWILIO_PHONE_NUMBER) {
+        throw new Error("Twilio is not configured");
+      }
+
+      const message = await getTwilioClient().messages.create({
+        to,
+        from: env.TWILIO_PHONE_NUMBER,
+        body
+      });
+
+      return { id: message.sid };
+    },
+    async sendEmail(message) {
+      if (!env.SENDGRID_API_KEY) {
+        throw new Error("SendGrid is not configured");
+      }
+
+      const [response] = await getSendGridClient().send(message);
+      const messageId = response.headers?.["x-message-id"];
+
+      return { id: typeof messageId === "string" ? messageId : null };
+    }
+  };
+}
+
+/** In-memory transport that records messages instead of sending them. */
+export function createFakeTransport(): FakeNotificationTransport {
+  const sent: SentNotification[] = [];
+
+  return {
+    sent,
+    async sendSms(message) {
+      sent.push({ channel: "sms", ...message });
+      return { id: `fake-sms-${sent.length}` };
+    },
+    async sendEmail(message) {
+      sent.push({ channel: "email", ...message });
+      return { id: `fake-email-${sent.length}` };
+    },
+    reset() {
+      sent.length = 0;
+    }
+  };
+}
+
+let activeTransport: NotificationTransport | null = null;
+
+export function getNotificationTransport() {
+  if (!activeTransport) {
+    activeTransport =
+      env.NOTIFICATIONS_TRANSPORT === "fake" || env.NODE_ENV === "test"
+        ? createFakeTransport()
+        : createProviderTransport();
+  }
+  return activeTransport;
+}
+
+export function setNotificationTransport(transport: NotificationTransport | null) {
+  activeTransport = transport;
+}
@@ -0,0 +1,136 @@
+import { Queue } from "bullmq";
+import { AppointmentStatus } from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { getQueueConnection } from "./connection";
+
+type GlobalQueue = {
+  appointmentReminderQueue?: Queue<AppointmentReminderJobData>;
+};
+
+const globalQueue = global as typeof global & GlobalQueue;
+
+export const appointmentReminderQueue = (() => {
+  if (!globalQueue.appointmentReminderQueue) {
+    globalQueue.appointmentReminderQueue = new Queue<AppointmentReminderJobData>(
+      "appointment-reminders",
+      { connection: getQueueConnection() }
+    );
+  }
+  return globalQueue.appointmentReminderQueue;
+})();
+
+export type AppointmentReminderType = "24h" | "1h";
+
+export interface AppointmentReminderJobData {
+  appointmentId: string;
+  type: AppointmentReminderType;
+  /**
+   * The start time the reminder was scheduled for, as an ISO string. The
+   * worker drops the reminder if the appointment has moved since.
+   */
+  scheduledFor?: string;
+}
+
+export const REMINDER_LEAD_TIMES: Record<AppointmentReminderType, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "1h": 60 * 60 * 1000
+};
+
+const REMINDER_TYPES = Object.keys(REMINDER_LEAD_TIMES) as AppointmentReminderType[];
+
+const ACTIVE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED
+];
+
+interface ReminderAppointment {
+  id: string;
+  scheduledDatetime: Date;
+  status: AppointmentStatus;
+}
+
+/**
+ * Includes the start time, so a rescheduled appointment gets new jobs even
+ * when the old ones are running or locked and can't be removed.
+ */
+function reminderJobId(
+  appointmentId: string,
+  type: AppointmentReminderType,
+  scheduledDatetime: Date
+) {
+  return `reminder-${appointmentId}-${type}-${scheduledDatetime.getTime()}`;
+}
+
+/** Removes the reminder jobs scheduled for each of the given start times. */
+export async function cancelAppointmentReminders(
+  appointmentId: string,
+  scheduledDatetimes: Date[]
+) {
+  const jobIds = scheduledDatetimes.flatMap((scheduledDatetime) =>
+    REMINDER_TYPES.map((type) => reminderJobId(appointmentId, type, scheduledDatetime))
+  );
+
+  await Promise.all(
+    Array.from(new Set(jobIds)).map(async (jobId) => {
+      const job = await appointmentReminderQueue.getJob(jobId);
+      if (!job) return;
+      try {
+        await job.remove();
+      } catch (error) {
+        logger.warn(`Could not remove reminder job ${job.id}`, error);
+      }
+    })
+  );
+}
+
+/**
+ * Replaces any pending reminder jobs for the appointment with fresh delayed
+ * jobs (24h and 1h before the start). Cancelled or past appointments only
+ * have their jobs removed. Pass the previous start time when rescheduling so
+ * its jobs are removed too; any that can't be are dropped by the worker.
+ */
+export async function syncAppointmentReminders(
+  appointment: ReminderAppointment,
+  previousDatetime?: Date
+) {
+  try {
+    await cancelAppointmentReminders(
+      appointment.id,
+      previousDatetime
+        ? [previousDatetime, appointment.scheduledDatetime]
+        : [appointment.scheduledDatetime]
+    );
+
+    if (!ACTIVE_STATUSES.includes(appointment.status)) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const type of REMINDER_TYPES) {
+      const delay = appointment.scheduledDatetime.getTime() - REMINDER_LEAD_TIMES[type] - now;
+      if (delay <= 0) continue;
+
+      await appointmentReminderQueue.add(
+        "appointment-reminder",
+        {
+          appointmentId: appointment.id,
+          type,
+          scheduledFor: appointment.scheduledDatetime.toISOString()
+        },
+        {
+          jobId: reminderJobId(appointment.id, type, appointment.scheduledDatetime),
+          delay,
+          attempts: 2,
+          backoff: { type: "fixed", delay: 5000 },
+          removeOnComplete: true,
+          removeOnFail: false
+        }
+      );
+    }
+  } catch (error) {
+    logger.error(
+      `Failed to schedule reminders for appointment ${appointment.id}`,
+      error as Error
+    );
+  }
+}
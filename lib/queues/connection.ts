@@ -0,0 +1,17 @@
+import Redis from "ioredis";
+import { env } from "@/lib/env";
+
+type GlobalQueueConnection = {
+  queueConnection?: Redis;
+};
+
+const globalQueue = global as typeof global & GlobalQueueConnection;
+
+export function getQueueConnection() {
+  if (!globalQueue.queueConnection) {
+    globalQueue.queueConnection = new Redis(env.REDIS_URL, {
+      maxRetriesPerRequest: null
+    });
+  }
+  return globalQueue.queueConnection;
+}
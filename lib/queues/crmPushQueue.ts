@@ -0,0 +1,41 @@
+import { Queue } from "bullmq";
+import { logger } from "@/lib/logger";
+import { getQueueConnection } from "./connection";
+
+export interface CrmPushJobData {
+  leadId: string;
+  reason: "created" | "qualified" | "manual";
+}
+
+type GlobalQueue = {
+  crmPushQueue?: Queue<CrmPushJobData>;
+};
+
+const globalQueue = global as typeof global & GlobalQueue;
+
+export const crmPushQueue = (() => {
+  if (!globalQueue.crmPushQueue) {
+    globalQueue.crmPushQueue = new Queue<CrmPushJobData>("crm-push", {
+      connection: getQueueConnection()
+    });
+  }
+  return globalQueue.crmPushQueue;
+})();
+
+export async function enqueueCrmPush(leadId: string, reason: CrmPushJobData["reason"]) {
+  try {
+    return await crmPushQueue.add(
+      "crm-push",
+      { leadId, reason },
+      {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 2000 },
+        removeOnComplete: true,
+        removeOnFail: false
+      }
+    );
+  } catch (error) {
+    logger.error(`Failed to enqueue CRM push for lead ${leadId}`, error as Error);
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { Queue } from "bullmq";
+import { InventoryFeedTrigger } from "@prisma/client";
+import { logger } from "@/lib/logger";
+import { getQueueConnection } from "./connection";
+
+export interface InventoryFeedJobData {
+  feedId: string;
+  trigger: InventoryFeedTrigger;
+}
+
+type GlobalQueue = {
+  inventoryFeedQueue?: Queue<InventoryFeedJobData>;
+};
+
+const globalQueue = global as typeof global & GlobalQueue;
+
+export const inventoryFeedQueue = (() => {
+  if (!globalQueue.inventoryFeedQueue) {
+    globalQueue.inventoryFeedQueue = new Queue<InventoryFeedJobData>("inventory-feed", {
+      connection: getQueueConnection()
+    });
+  }
+  return globalQueue.inventoryFeedQueue;
+})();
+
+interface ScheduledFeed {
+  id: string;
+  schedule: string;
+  enabled: boolean;
+}
+
+function feedScheduleId(feedId: string) {
+  return `inventory-feed-${feedId}`;
+}
+
+export async function removeInventoryFeedSchedule(feedId: string) {
+  const repeatableJobs = await inventoryFeedQueue.getRepeatableJobs();
+  await Promise.all(
+    repeatableJobs
+      .filter((job) => job.id === feedScheduleId(feedId))
+      .map((job) => inventoryFeedQueue.removeRepeatableByKey(job.key))
+  );
+}
+
+/**
+ * Replaces the feed's repeatable job with one on its current cron schedule,
+ * evaluated in the dealership's time zone. Disabled feeds are only
+ * unscheduled. Returns false if the schedule could not be updated.
+ */
+export async function syncInventoryFeedSchedule(feed: ScheduledFeed, timeZone: string) {
+  try {
+    await removeInventoryFeedSchedule(feed.id);
+
+    if (feed.enabled) {
+      await inventoryFeedQueue.add(
+        "inventory-feed",
+        { feedId: feed.id, trigger: InventoryFeedTrigger.SCHEDULE },
+        {
+          jobId: feedScheduleId(feed.id),
+          repeat: { pattern: feed.schedule, tz: timeZone },
+          attempts: 1,
+          removeOnComplete: true,
+          removeOnFail: 50
+        }
+      );
+    }
+    return true;
+  } catch (error) {
+    logger.error(`Failed to schedule inventory feed ${feed.id}`, error as Error);
+    return false;
+  }
+}
+
+export async function enqueueInventoryFeedRun(feedId: string) {
+  try {
+    return await inventoryFeedQueue.add(
+      "inventory-feed",
+      { feedId, trigger: InventoryFeedTrigger.MANUAL },
+      { attempts: 1, removeOnComplete: true, removeOnFail: 50 }
+    );
+  } catch (error) {
+    logger.error(`Failed to enqueue a run of inventory feed ${feedId}`, error as Error);
+    return null;
+  }
+}
@@ -1,28 +1,20 @@
 import { Queue } from "bullmq";
-import Redis from "ioredis";
-import { env } from "@/lib/env";
+import type { VehicleAvailability } from "@prisma/client";
+import { getQueueConnection } from "./connection";
 
 type GlobalQueue = {
-  inventoryImportConnection?: Redis;
   inventoryImportQueue?: Queue;
 };
 
 const globalQueue = global as typeof global & GlobalQueue;
 
-function getConnection() {
-  if (!globalQueue.inventoryImportConnection) {
-    globalQueue.inventoryImportConnection = new Redis(env.REDIS_URL, {
-      maxRetriesPerRequest: null
-    });
-  }
-  return globalQueue.inventoryImportConnection;
-}
+/** Finished jobs are kept this long so the upload page can read a dry run's diff or an import's result. */
+const FINISHED_JOB_RETENTION_SECONDS = 24 * 60 * 60;
 
 export const inventoryImportQueue = (() => {
-  const connection = getConnection();
   if (!globalQueue.inventoryImportQueue) {
     globalQueue.inventoryImportQueue = new Queue("inventory-import", {
-      connection
+      connection: getQueueConnection()
     });
   }
   return globalQueue.inventoryImportQueue;
@@ -38,9 +30,19 @@ export interface InventoryImportRow {
   condition?: string;
   price?: number;
   mileage?: number;
-  color?: string;
   bodyType?: string;
+  transmission?: string;
+  drivetrain?: string;
+  fuelType?: string;
+  mpgCity?: number;
+  mpgHighway?: number;
+  exteriorColor?: string;
+  interiorColor?: string;
+  features?: string[];
   images?: string[];
+  /** Defaults to IN_STOCK when the file has no availability column. */
+  availability?: VehicleAvailability;
+  featured?: boolean;
 }
 
 export interface InventoryImportJobData {
@@ -48,12 +50,23 @@ export interface InventoryImportJobData {
   rows: InventoryImportRow[];
   markMissingAsSold: boolean;
   totalRows: number;
+  /** Set when the rows came from a scheduled feed; the run is completed with the job's result. */
+  feedRunId?: string;
+  /** Computes the diff the import would apply without writing anything. */
+  dryRun?: boolean;
+  /** Who confirmed the import, shown in the import history. */
+  requestedBy?: string;
 }
 
-export async function enqueueInventoryImport(job: InventoryImportJobData) {
+/**
+ * Queues an import. With a `jobId`, adding the same import again returns the
+ * existing job instead of queueing a second one.
+ */
+export async function enqueueInventoryImport(job: InventoryImportJobData, jobId?: string) {
   return inventoryImportQueue.add("inventory-import", job, {
+    jobId,
     attempts: 1,
-    removeOnComplete: true,
+    removeOnComplete: { age: FINISHED_JOB_RETENTION_SECONDS },
     removeOnFail: false
   });
 }
@@ -0,0 +1,40 @@
+import { Queue } from "bullmq";
+import { logger } from "@/lib/logger";
+import { getQueueConnection } from "./connection";
+
+export interface KnowledgeIndexJobData {
+  documentId: string;
+}
+
+type GlobalQueue = {
+  knowledgeIndexQueue?: Queue<KnowledgeIndexJobData>;
+};
+
+const globalQueue = global as typeof global & GlobalQueue;
+
+export const knowledgeIndexQueue = (() => {
+  if (!globalQueue.knowledgeIndexQueue) {
+    globalQueue.knowledgeIndexQueue = new Queue<KnowledgeIndexJobData>("knowledge-index", {
+      connection: getQueueConnection()
+    });
+  }
+  return globalQueue.knowledgeIndexQueue;
+})();
+
+export async function enqueueKnowledgeIndex(documentId: string) {
+  try {
+    return await knowledgeIndexQueue.add(
+      "knowledge-index",
+      { documentId },
+      {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: false
+      }
+    );
+  } catch (error) {
+    logger.error(`Failed to enqueue knowledge indexing for document ${documentId}`, error as Error);
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+import { Queue } from "bullmq";
+import { logger } from "@/lib/logger";
+import { getQueueConnection } from "./connection";
+
+/** Rescores leads periodically, as their recency points decay while they sit idle. */
+const RECENCY_RESCORE_PATTERN = "15 * * * *";
+const RECENCY_RESCORE_JOB_ID = "lead-recency";
+
+export interface LeadRescoreJobData {
+  /** Unset for the periodic rescore of every dealership's decaying leads. */
+  dealershipId?: string;
+}
+
+type GlobalQueue = {
+  leadRescoreQueue?: Queue<LeadRescoreJobData>;
+};
+
+const globalQueue = global as typeof global & GlobalQueue;
+
+export const leadRescoreQueue = (() => {
+  if (!globalQueue.leadRescoreQueue) {
+    globalQueue.leadRescoreQueue = new Queue<LeadRescoreJobData>("lead-rescore", {
+      connection: getQueueConnection()
+    });
+  }
+  return globalQueue.leadRescoreQueue;
+})();
+
+export async function enqueueLeadRescore(dealershipId: string) {
+  try {
+    return await leadRescoreQueue.add(
+      "lead-rescore",
+      { dealershipId },
+      {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: false
+      }
+    );
+  } catch (error) {
+    logger.error(`Failed to enqueue lead rescoring for dealership ${dealershipId}`, error as Error);
+    return null;
+  }
+}
+
+/** Adds the repeatable recency rescore; safe to call on every worker start. */
+export async function scheduleLeadRecencyRescore() {
+  try {
+    await leadRescoreQueue.add(
+      "lead-recency",
+      {},
+      {
+        jobId: RECENCY_RESCORE_JOB_ID,
+        repeat: { pattern: RECENCY_RESCORE_PATTERN },
+        attempts: 1,
+        removeOnComplete: true,
+        removeOnFail: 50
+      }
+    );
+    return true;
+  } catch (error) {
+    logger.error("Failed to schedule the lead recency rescore", error as Error);
+    return false;
+  }
+}
@@ -0,0 +1,40 @@
+import { Queue } from "bullmq";
+import { logger } from "@/lib/logger";
+import { getQueueConnection } from "./connection";
+
+export interface VehicleIndexJobData {
+  dealershipId: string;
+}
+
+type GlobalQueue = {
+  vehicleIndexQueue?: Queue<VehicleIndexJobData>;
+};
+
+const globalQueue = global as typeof global & GlobalQueue;
+
+export const vehicleIndexQueue = (() => {
+  if (!globalQueue.vehicleIndexQueue) {
+    globalQueue.vehicleIndexQueue = new Queue<VehicleIndexJobData>("vehicle-index", {
+      connection: getQueueConnection()
+    });
+  }
+  return globalQueue.vehicleIndexQueue;
+})();
+
+export async function enqueueVehicleIndex(dealershipId: string) {
+  try {
+    return await vehicleIndexQueue.add(
+      "vehicle-index",
+      { dealershipId },
+      {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: false
+      }
+    );
+  } catch (error) {
+    logger.error(`Failed to enqueue vehicle indexing for dealership ${dealershipId}`, error as Error);
+    return null;
+  }
+}
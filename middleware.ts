@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+// Keep in sync with ADMIN_SESSION_COOKIE in lib/auth/adminSession.ts (not importable on the edge runtime).
+const ADMIN_SESSION_COOKIE = "dealerchat_admin";
+
+const PUBLIC_PATHS = ["/admin/login", "/api/admin/auth/login"];
+
+/**
+ * Turns away admin requests that carry no session cookie. Route handlers still
+ * validate the session and scope data to the caller's dealerships.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_PATHS.includes(pathname) || request.cookies.has(ADMIN_SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: "ApiError", message: "Sign in to continue" },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL("/admin/login", request.url);
+  loginUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"]
+};
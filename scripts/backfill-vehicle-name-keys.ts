@@ -0,0 +1,44 @@
+import { PrismaClient } from "@prisma/client";
+import { toNameKey } from "../lib/inventory/vehicleNames";
+
+const prisma = new PrismaClient();
+const BATCH_SIZE = 500;
+
+/** Fills `Vehicle.makeKey` / `Vehicle.modelKey` for rows imported before they existed. */
+async function main() {
+  let cursor: string | undefined;
+  let updated = 0;
+
+  for (;;) {
+    const vehicles = await prisma.vehicle.findMany({
+      select: { id: true, make: true, model: true, makeKey: true, modelKey: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    if (!vehicles.length) break;
+
+    for (const vehicle of vehicles) {
+      const makeKey = toNameKey(vehicle.make);
+      const modelKey = toNameKey(vehicle.model);
+      if (makeKey === vehicle.makeKey && modelKey === vehicle.modelKey) continue;
+
+      await prisma.vehicle.update({
+        where: { id: vehicle.id },
+        data: { makeKey, modelKey }
+      });
+      updated += 1;
+    }
+
+    cursor = vehicles[vehicles.length - 1].id;
+  }
+
+  console.log(`✅ Updated name keys on ${updated} vehicles`);
+}
+
+main()
+  .catch((error) => {
+    console.error("❌", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
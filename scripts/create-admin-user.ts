@@ -0,0 +1,71 @@
+import { parseArgs } from "node:util";
+import { DealershipRole, PrismaClient } from "@prisma/client";
+import { MIN_PASSWORD_LENGTH, hashPassword } from "../lib/auth/password";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      email: { type: "string", default: process.env.ADMIN_EMAIL },
+      name: { type: "string" },
+      password: { type: "string", default: process.env.ADMIN_PASSWORD },
+      "platform-admin": { type: "boolean", default: false },
+      dealership: { type: "string" },
+      role: { type: "string", default: DealershipRole.OWNER }
+    }
+  });
+
+  const email = values.email?.trim().toLowerCase();
+  const password = values.password;
+  const role = values.role?.toUpperCase() as DealershipRole;
+
+  if (!email || !password) {
+    throw new Error(
+      "Usage: npm run admin:create -- --email <email> --password <password> [--name <name>] " +
+        "[--platform-admin] [--dealership <id> --role OWNER|MANAGER|SALESPERSON]"
+    );
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  if (!Object.values(DealershipRole).includes(role)) {
+    throw new Error(`Unknown role "${values.role}"`);
+  }
+
+  const passwordHash = await hashPassword(password);
+  const user = await prisma.user.upsert({
+    where: { email },
+    create: {
+      email,
+      name: values.name ?? email,
+      passwordHash,
+      isPlatformAdmin: values["platform-admin"] ?? false
+    },
+    update: {
+      passwordHash,
+      ...(values.name ? { name: values.name } : {}),
+      ...(values["platform-admin"] ? { isPlatformAdmin: true } : {})
+    }
+  });
+
+  console.log(`✅ User ${user.email} saved${user.isPlatformAdmin ? " (platform admin)" : ""}`);
+
+  if (values.dealership) {
+    await prisma.dealershipMembership.upsert({
+      where: { userId_dealershipId: { userId: user.id, dealershipId: values.dealership } },
+      create: { userId: user.id, dealershipId: values.dealership, role },
+      update: { role }
+    });
+    console.log(`✅ Granted ${role} at dealership ${values.dealership}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("❌", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
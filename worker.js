@@ -50,47 +50,22 @@ const crmWorker = new Worker(
   async (job) => {
     console.log(`📤 Processing CRM push job ${job.id} for lead ${job.data.leadId}`);
 
-    try {
-      const { PrismaClient } = require("@prisma/client");
-      const prisma = new PrismaClient();
+    const { pushLeadToCrm } = require("./lib/integrations/crm");
 
-      const lead = await prisma.lead.findUnique({
-        where: { id: job.data.leadId },
-        include: { dealership: true }
+    try {
+      const result = await pushLeadToCrm(job.data.leadId, {
+        jobId: job.id,
+        attempt: job.attemptsMade + 1
       });
 
-      if (!lead) {
-        throw new Error(`Lead ${job.data.leadId} not found`);
+      if (result.skipped) {
+        console.log(`⏭️ No CRM integrations enabled for lead ${job.data.leadId}`);
+      } else {
+        console.log(`✅ CRM push successful for lead ${job.data.leadId}`);
       }
-
-      const { pushLeadToDealerSocket } = require("./lib/integrations/dealersocket");
-      const result = await pushLeadToDealerSocket(lead);
-
-      await prisma.lead.update({
-        where: { id: lead.id },
-        data: {
-          pushedToCRM: true,
-          updatedAt: new Date()
-        }
-      });
-
-      await prisma.$disconnect();
-
-      console.log(`✅ CRM push successful for lead ${job.data.leadId}`);
-      return { success: true, crmId: result.id };
+      return { success: true, ...result };
     } catch (error) {
       console.error(`❌ CRM push failed for lead ${job.data.leadId}:`, error.message);
-
-      if (job.attemptsMade >= 3) {
-        const { PrismaClient } = require("@prisma/client");
-        const prisma = new PrismaClient();
-        await prisma.lead.update({
-          where: { id: job.data.leadId },
-          data: { pushedToCRM: false }
-        });
-        await prisma.$disconnect();
-      }
-
       throw error;
     }
   },
@@ -119,8 +94,7 @@ const reminderWorker = new Worker(
     console.log(`📲 Processing reminder job ${job.id} for appointment ${job.data.appointmentId}`);
 
     try {
-      const { PrismaClient } = require("@prisma/client");
-      const prisma = new PrismaClient();
+      const { prisma } = require("./lib/prisma");
 
       const appointment = await prisma.appointment.findUnique({
         where: { id: job.data.appointmentId },
@@ -135,11 +109,19 @@ const reminderWorker = new Worker(
         throw new Error(`Appointment ${job.data.appointmentId} not found`);
       }
 
+      if (
+        job.data.scheduledFor &&
+        appointment.scheduledDatetime.toISOString() !== job.data.scheduledFor
+      ) {
+        console.log(
+          `⏭️ Skipping stale reminder for appointment ${job.data.appointmentId}: it was rescheduled`
+        );
+        return { success: false, skipped: true };
+      }
+
       const { sendAppointmentReminder } = require("./lib/notifications");
       await sendAppointmentReminder(appointment, job.data.type);
 
-      await prisma.$disconnect();
-
       console.log(`✅ Reminder sent for appointment ${job.data.appointmentId}`);
       return { success: true };
     } catch (error) {
@@ -173,123 +155,9 @@ const inventoryWorker = new Worker(
   "inventory-import",
   async (job) => {
     console.log(`📦 Processing inventory import job ${job.id}`);
-    const {
-      dealershipId,
-      rows,
-      markMissingAsSold,
-      totalRows
-    } = job.data;
-
-    const { PrismaClient, Prisma } = require("@prisma/client");
-    const prisma = new PrismaClient();
-    const VehicleCondition = Prisma.VehicleCondition;
-    const VehicleAvailability = Prisma.VehicleAvailability;
-
-    const errors = [];
-    const seenVins = new Set();
-    let created = 0;
-    let updated = 0;
-    let processed = 0;
-
-    try {
-      for (let index = 0; index < rows.length; index += 1) {
-        const raw = rows[index];
-        processed += 1;
-
-        try {
-          const vin = normalizeVin(raw.vin);
-          if (!vin) {
-            throw new Error("Missing VIN");
-          }
-
-          seenVins.add(vin);
-
-          const condition = toVehicleCondition(raw.condition, VehicleCondition);
-          if (!condition) {
-            throw new Error(`Invalid condition "${raw.condition}"`);
-          }
-
-          const priceDecimal =
-            typeof raw.price === "number" && !Number.isNaN(raw.price)
-              ? new Prisma.Decimal(raw.price)
-              : null;
-
-          const images =
-            Array.isArray(raw.images) && raw.images.length
-              ? raw.images.filter(Boolean)
-              : [];
-
-          const data = {
-            dealershipId,
-            stockNumber: raw.stockNumber ?? null,
-            year: raw.year ?? null,
-            make: raw.make ?? null,
-            model: raw.model ?? null,
-            trim: raw.trim ?? null,
-            condition,
-            price: priceDecimal,
-            mileage: raw.mileage ?? null,
-            exteriorColor: raw.color ?? null,
-            bodyType: raw.bodyType ?? null,
-            images,
-            availability: VehicleAvailability.IN_STOCK
-          };
-
-          const result = await prisma.vehicle.upsert({
-            where: { vin },
-            update: data,
-            create: {
-              ...data,
-              vin,
-              featured: false
-            }
-          });
-
-          if (result.createdAt.getTime() === result.updatedAt.getTime()) {
-            created += 1;
-          } else {
-            updated += 1;
-          }
-        } catch (rowError) {
-          errors.push({
-            row: index + 1,
-            error: rowError.message || "Unknown error"
-          });
-        }
-
-        await job.updateProgress({
-          processed,
-          total: totalRows
-        });
-      }
-
-      let markedSold = 0;
-
-      if (markMissingAsSold && seenVins.size > 0) {
-        const result = await prisma.vehicle.updateMany({
-          where: {
-            dealershipId,
-            availability: VehicleAvailability.IN_STOCK,
-            vin: { notIn: Array.from(seenVins) }
-          },
-          data: {
-            availability: VehicleAvailability.SOLD
-          }
-        });
-        markedSold = result.count;
-      }
 
-      return {
-        processed,
-        total: totalRows,
-        created,
-        updated,
-        errors,
-        markedSold
-      };
-    } finally {
-      await prisma.$disconnect();
-    }
+    const { processInventoryImport } = require("./lib/inventory/importProcessor");
+    return processInventoryImport(job);
   },
   {
     connection,
@@ -299,6 +167,13 @@ const inventoryWorker = new Worker(
 );
 
 inventoryWorker.on("completed", (job, result) => {
+  if (result?.dryRun) {
+    const { counts } = result.diff;
+    console.log(
+      `🧪 Inventory dry run ${job.id} completed: ${counts.create} to create, ${counts.update} to update, ${counts.markSold} to mark sold${result.diff.blocked ? " (blocked)" : ""}`
+    );
+    return;
+  }
   console.log(
     `✅ Inventory job ${job.id} completed (${result?.processed ?? 0}/${result?.total ?? 0} rows)`
   );
@@ -310,33 +185,148 @@ inventoryWorker.on("completed", (job, result) => {
       `⚠️ Inventory job ${job.id} completed with ${result.errors.length} row errors`
     );
   }
+  if (job.data.feedRunId) {
+    const { completeInventoryFeedRun } = require("./lib/inventory/feeds");
+    completeInventoryFeedRun(job.data.feedRunId, result).catch((error) => {
+      console.error(`❌ Failed to record feed run ${job.data.feedRunId}:`, error);
+    });
+  }
 });
 
 inventoryWorker.on("failed", (job, error) => {
   logJobFailure("inventory-import", job, error);
+  if (job && !job.data.dryRun) {
+    const { failInventoryImport } = require("./lib/inventory/importHistory");
+    failInventoryImport(job.id, error?.message ?? String(error)).catch((recordError) => {
+      console.error(`❌ Failed to record inventory import ${job.id}:`, recordError);
+    });
+  }
+  if (job?.data?.feedRunId) {
+    const { failInventoryFeedRun } = require("./lib/inventory/feeds");
+    failInventoryFeedRun(job.data.feedRunId, `Import failed: ${error?.message ?? error}`).catch(
+      (recordError) => {
+        console.error(`❌ Failed to record feed run ${job.data.feedRunId}:`, recordError);
+      }
+    );
+  }
 });
 
-function normalizeVin(vin) {
-  return typeof vin === "string" ? vin.trim().toUpperCase() : "";
-}
+const feedWorker = new Worker(
+  "inventory-feed",
+  async (job) => {
+    console.log(`🛰️ Pulling inventory feed ${job.data.feedId} (${job.data.trigger}, job ${job.id})`);
+
+    const { runInventoryFeed } = require("./lib/inventory/feeds");
+    const result = await runInventoryFeed(job.data.feedId, job.data.trigger);
 
-function toVehicleCondition(value, VehicleCondition) {
-  if (!value) return null;
-  const normalized = String(value).trim().toUpperCase();
-  if (normalized === "NEW") return VehicleCondition.NEW;
-  if (normalized === "USED") return VehicleCondition.USED;
-  if (normalized === "CERTIFIED" || normalized === "CPO") {
-    return VehicleCondition.CERTIFIED;
+    if (result.skipped) {
+      console.log(`⏭️ Inventory feed ${job.data.feedId} skipped: ${result.reason}`);
+    } else {
+      console.log(
+        `✅ Inventory feed ${job.data.feedId} queued ${result.rowCount} rows as import job ${result.importJobId}`
+      );
+    }
+    return result;
+  },
+  {
+    connection,
+    concurrency: 2
   }
-  return null;
-}
+);
+
+feedWorker.on("failed", (job, error) => {
+  logJobFailure("inventory-feed", job, error);
+});
+
+const knowledgeWorker = new Worker(
+  "knowledge-index",
+  async (job) => {
+    console.log(`📚 Indexing knowledge document ${job.data.documentId} (job ${job.id})`);
+
+    const { indexKnowledgeDocument } = require("./lib/knowledge");
+    const result = await indexKnowledgeDocument(job.data.documentId);
+
+    if (result.skipped) {
+      console.log(`⏭️ Knowledge document ${job.data.documentId} changed or was removed; skipped`);
+    } else {
+      console.log(`✅ Indexed ${result.chunks} chunks for document ${job.data.documentId}`);
+    }
+    return result;
+  },
+  {
+    connection,
+    concurrency: 2
+  }
+);
+
+knowledgeWorker.on("failed", (job, error) => {
+  logJobFailure("knowledge-index", job, error);
+});
+
+const vehicleIndexWorker = new Worker(
+  "vehicle-index",
+  async (job) => {
+    console.log(`🔎 Indexing vehicles for dealership ${job.data.dealershipId} (job ${job.id})`);
+
+    const { indexDealershipVehicles } = require("./lib/inventory/semanticIndex");
+    const result = await indexDealershipVehicles(job.data.dealershipId);
+
+    console.log(
+      `✅ Embedded ${result.indexed} vehicles for dealership ${job.data.dealershipId} (${result.unchanged} unchanged)`
+    );
+    return result;
+  },
+  {
+    connection,
+    concurrency: 1
+  }
+);
+
+vehicleIndexWorker.on("failed", (job, error) => {
+  logJobFailure("vehicle-index", job, error);
+});
+
+const leadRescoreWorker = new Worker(
+  "lead-rescore",
+  async (job) => {
+    const { rescoreDealershipLeads, rescoreDecayingLeads } = require("./lib/leads/scoring");
+
+    if (!job.data.dealershipId) {
+      const rescored = await rescoreDecayingLeads();
+      console.log(`✅ Rescored ${rescored} leads with decaying recency (job ${job.id})`);
+      return { rescored };
+    }
+
+    console.log(`🧮 Rescoring leads for dealership ${job.data.dealershipId} (job ${job.id})`);
+    const rescored = await rescoreDealershipLeads(job.data.dealershipId);
+
+    console.log(`✅ Rescored ${rescored} leads for dealership ${job.data.dealershipId}`);
+    return { rescored };
+  },
+  {
+    connection,
+    concurrency: 1
+  }
+);
+
+leadRescoreWorker.on("failed", (job, error) => {
+  logJobFailure("lead-rescore", job, error);
+});
 
 const gracefulShutdown = async (signal) => {
   console.log(`\n🛑 ${signal} received, shutting down gracefully...`);
 
   try {
     console.log("⏳ Waiting for jobs to complete...");
-    await Promise.all([crmWorker.close(), reminderWorker.close(), inventoryWorker.close()]);
+    await Promise.all([
+      crmWorker.close(),
+      reminderWorker.close(),
+      inventoryWorker.close(),
+      feedWorker.close(),
+      knowledgeWorker.close(),
+      vehicleIndexWorker.close(),
+      leadRescoreWorker.close()
+    ]);
 
     console.log("🔌 Closing Redis connection...");
     await connection.quit();
@@ -360,8 +350,23 @@ setInterval(async () => {
   }
 }, 30000);
 
+(async () => {
+  try {
+    const { restoreInventoryFeedSchedules } = require("./lib/inventory/feeds");
+    const restored = await restoreInventoryFeedSchedules();
+    console.log(`🗓️ Scheduled ${restored} inventory feeds`);
+  } catch (error) {
+    console.error("❌ Failed to restore inventory feed schedules:", error);
+  }
+
+  const { scheduleLeadRecencyRescore } = require("./lib/queues/leadRescoreQueue");
+  if (await scheduleLeadRecencyRescore()) {
+    console.log("🗓️ Scheduled the hourly lead recency rescore");
+  }
+})();
+
 console.log("🚀 Workers started successfully");
 console.log(
-  "📋 Listening for jobs on queues: crm-push, appointment-reminders, inventory-import"
+  "📋 Listening for jobs on queues: crm-push, appointment-reminders, inventory-import, inventory-feed, knowledge-index, vehicle-index, lead-rescore"
 );
 